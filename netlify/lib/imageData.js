@@ -0,0 +1,30 @@
+// netlify/lib/imageData.js
+// Hosted AI image URLs (e.g., DALL-E) expire within hours, so images are fetched here and returned
+// as data URLs the app can keep in local storage.
+
+// Largest image accepted, to keep responses within the function's payload limit
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Turns an image URL into a data URL.
+ * Data URLs (e.g., from the local provider) are returned unchanged.
+ * @param {string} imageUrl - The hosted image URL or a data URL.
+ * @returns {Promise<string | null>} The image as a data URL, or null if it couldn't be fetched.
+ */
+export const toImageDataUrl = async (imageUrl) => {
+    if (!imageUrl || typeof imageUrl !== 'string') return null;
+    if (imageUrl.startsWith('data:')) return imageUrl;
+    try {
+        const response = await fetch(imageUrl);
+        if (!response.ok) throw new Error(`Image request failed with status ${response.status}.`);
+        const contentType = response.headers.get('content-type') || 'image/png';
+        if (!contentType.startsWith('image/')) throw new Error(`Unexpected content type: ${contentType}.`);
+        const bytes = Buffer.from(await response.arrayBuffer());
+        if (bytes.length > MAX_IMAGE_BYTES) throw new Error(`Image is too large (${bytes.length} bytes).`);
+        return `data:${contentType.split(';')[0]};base64,${bytes.toString('base64')}`;
+    } catch (err) {
+        // The hosted URL still works for now, so the invitation is returned without a local copy
+        console.warn('toImageDataUrl: Failed to fetch the invitation image:', err?.message || err);
+        return null;
+    }
+};
@@ -0,0 +1,37 @@
+// netlify/lib/invitationRewrites.js
+// Instructions for the rewriteInvitation action, keyed by rewrite style. Only the text is rewritten; the image stays.
+
+/**
+ * What each rewrite style asks the AI to do with the current invitation text.
+ * The keys are also the styles the handler accepts (see InvitationRewriteStyle in src/types).
+ */
+export const REWRITE_INSTRUCTIONS = {
+    shorter: 'Make it noticeably shorter and punchier. Keep the name, date, time and venue.',
+    funnier: 'Make it funnier and more playful, with light, kid-friendly humor. Keep all the event details.',
+    formal: 'Make it more formal and elegant. Remove emoji and slang. Keep all the event details.',
+    addRsvp: 'Keep the text as it is and add a short RSVP line at the end asking guests to reply by {rsvpDate}.',
+    addDirections: 'Keep the text as it is and add short directions at the end: how to find the venue ({venue}), based on its description ({venueDescription}).',
+};
+
+/**
+ * Returns the RSVP deadline for an event date: one week before the party.
+ * @param {string} date - Event date (YYYY-MM-DD).
+ * @returns {string} The deadline (YYYY-MM-DD), or the event date itself if it can't be parsed.
+ */
+export const getRsvpDate = (date) => {
+    const parsed = new Date(`${date}T00:00:00Z`);
+    if (Number.isNaN(parsed.getTime())) return date;
+    parsed.setUTCDate(parsed.getUTCDate() - 7);
+    return parsed.toISOString().split('T')[0];
+};
+
+/**
+ * Builds the rewrite instruction for a style, filled in with the plan's details.
+ * @param {string} style - A key of REWRITE_INSTRUCTIONS.
+ * @param {{ plan: object, date: string }} details - The plan (for the venue) and the event date (for the RSVP deadline).
+ * @returns {string}
+ */
+export const describeRewrite = (style, { plan, date }) => REWRITE_INSTRUCTIONS[style]
+    .replace('{rsvpDate}', getRsvpDate(date))
+    .replace('{venue}', plan.venue?.name || 'the venue')
+    .replace('{venueDescription}', plan.venue?.description || 'no description');
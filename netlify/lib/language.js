@@ -0,0 +1,27 @@
+// netlify/lib/language.js
+// The app sends the user's UI language with every request; generated plan and invitation text is written in it.
+
+// Supported languages, with the names used in prompts
+const LANGUAGE_NAMES = {
+    en: 'English',
+    he: 'Hebrew',
+};
+
+/**
+ * Returns a supported language code, falling back to English for missing or unknown values.
+ * @param {unknown} language - The language sent by the app (e.g., "he").
+ * @returns {'en' | 'he'}
+ */
+export const normalizeLanguage = (language) => (Object.hasOwn(LANGUAGE_NAMES, language) ? language : 'en');
+
+/**
+ * Describes the output language for AI prompts. English is the default, so it needs no instruction.
+ * Only human-readable text is translated: JSON keys, enum values (like cost basis) and "HH:MM" times must stay as they are,
+ * since the app parses them.
+ * @param {string} language - A normalized language code.
+ * @returns {string} A prompt sentence, or '' for English.
+ */
+export const describeLanguage = (language) => {
+    if (language === 'en') return '';
+    return `Write all human-readable text (names, descriptions, activities, menu items, summaries) in ${LANGUAGE_NAMES[language]}. Keep JSON keys, enum values, currency codes and "HH:MM" times exactly as specified.`;
+};
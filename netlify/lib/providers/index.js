@@ -0,0 +1,46 @@
+// netlify/lib/providers/index.js
+import { openaiProvider } from './openaiProvider.js';
+import { localProvider } from './localProvider.js';
+
+/**
+ * Interface implemented by every AI provider used by the openai-proxy function.
+ * Providers only produce content; the handler validates input and cleans up the returned plans.
+ * `language` is the app's UI language ('en' or 'he'); human-readable text should be written in it.
+ * @typedef {object} AIProvider
+ * @property {string} name - Provider name, as used in the AI_PROVIDER environment variable.
+ * @property {(args: { userInput: object, profile: string, profileDescription: string, planId: string, language: string }) => Promise<object>} generatePlan
+ *   Generates ONE raw plan object for the requested profile. profileDescription explains what the profile focuses on
+ *   (empty for profiles that aren't configured in PLAN_PROFILES).
+ * @property {(args: { plan: object, template: string, date: string, time: string, language: string }) => Promise<{ text: string, imageUrl: string }>} generateInvitation
+ *   Generates invitation text and an image URL (may be a data URL).
+ * @property {(args: { plan: object, text: string, style: string, date: string, time: string, language: string }) => Promise<string>} rewriteInvitation
+ *   Rewrites existing invitation text in the given style (a key of REWRITE_INSTRUCTIONS) and returns the new text.
+ * @property {(args: { plan: object, priorities: object, numericBudget: number, currency: string, dietaryRestrictions: object | null, language: string }) => Promise<object>} optimizeBudget
+ *   Returns the raw optimized plan object, including an optimizationSummary. The menu must keep meeting the dietary restrictions.
+ * @property {(args: { plan: object, section: string, guidance: string, userInput: object | null, language: string }) => Promise<unknown>} regenerateSection
+ *   Returns new raw content for ONE plan section (venue, schedule, catering, guestEngagement or decorations), using the rest of the plan as context.
+ * @property {(args: { plan: object, sectionSources: object, userInput: object | null, language: string }) => Promise<{ plan: object, summary: string }>} harmonizePlan
+ *   Adjusts a plan put together from sections of different plans (sectionSources maps each section to the profile it came from)
+ *   so the sections fit together, and returns the raw plan with a summary of the changes.
+ */
+
+// Available providers, keyed by the AI_PROVIDER value that selects them
+const PROVIDERS = {
+    openai: openaiProvider,
+    local: localProvider,
+};
+
+/**
+ * Returns the provider selected by the AI_PROVIDER environment variable.
+ * Defaults to 'openai'; set AI_PROVIDER=local to run the whole app offline with deterministic fixtures.
+ * @returns {AIProvider}
+ * @throws Throws an error if AI_PROVIDER names an unknown provider.
+ */
+export const getProvider = () => {
+    const name = (process.env.AI_PROVIDER || 'openai').trim().toLowerCase();
+    const provider = PROVIDERS[name];
+    if (!provider) {
+        throw new Error(`Unknown AI_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+    }
+    return provider;
+};
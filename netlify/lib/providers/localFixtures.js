@@ -0,0 +1,265 @@
+// netlify/lib/providers/localFixtures.js
+// Realistic fixture plans for the local provider. Plans are built from the user's input
+// (name, theme, city, guests, budget), so the UI shows plausible content without calling an AI.
+// Shared schedule time helpers (bundled by esbuild, see netlify.toml)
+import { formatTimeRange, toTimeOfDay } from '../../../src/utils/scheduleTime.ts';
+// Shared dietary checks, so fixture menus always meet the user's restrictions
+import { detectMenuItemDiet, findDietaryConflicts } from '../../../src/utils/dietary.ts';
+import { splitDesserts } from '../../../src/utils/cateringQuantities.ts';
+
+/**
+ * Builds schedule items from consecutive [durationMinutes, activity, description] entries.
+ * @param {number} startMinutes - Party start time in minutes since midnight.
+ * @param {[number, string, string][]} entries - Duration, activity and description of each item.
+ */
+const buildSchedule = (startMinutes, entries) => {
+    let current = startMinutes;
+    return entries.map(([duration, activity, description]) => {
+        const item = {
+            time: formatTimeRange(current, current + duration),
+            start: toTimeOfDay(current),
+            end: toTimeOfDay(current + duration),
+            activity,
+            description,
+        };
+        current += duration;
+        return item;
+    });
+};
+
+/**
+ * Creates the context shared by all fixture plans: names, counts and a cost helper scaled to the budget.
+ * @param {object} userInput - The user's form input.
+ */
+const buildContext = (userInput) => {
+    const guestCount = Math.max((Number(userInput.guestCountAdults) || 0) + (Number(userInput.guestCountChildren) || 0), 1);
+    const budget = Number(userInput.budgetAmount) > 0 ? Number(userInput.budgetAmount) : 2000;
+    const currency = userInput.currency || 'NIS';
+    const age = Number(userInput.age) || 0;
+    return {
+        name: userInput.birthdayPersonName || 'the birthday star',
+        age,
+        theme: userInput.theme || 'Birthday',
+        city: userInput.location?.city || 'your city',
+        isKids: age > 0 && age < 13,
+        currency,
+        // Costs are shares of the user's budget, so each profile lands in a realistic range for any currency
+        cost: (minShare, maxShare, basis = 'flat') => {
+            const divisor = basis === 'per-person' ? guestCount : 1;
+            const step = basis === 'per-person' ? 5 : 50;
+            const round = (share) => Math.max(step, Math.round((budget * share) / divisor / step) * step);
+            return { min: round(minShare), max: round(maxShare), currency, basis };
+        },
+    };
+};
+
+// --- Plan builders, one per profile ---
+
+const buildDiyPlan = (ctx) => ({
+    name: `${ctx.name}'s ${ctx.theme} Backyard Bash`,
+    description: `A warm, homemade ${ctx.theme} celebration in ${ctx.city} with DIY decorations, crowd-pleasing games and a potluck-style spread that keeps costs low.`,
+    venue: {
+        name: `Home garden or a local park in ${ctx.city}`,
+        description: `Host at home or reserve a shaded picnic area in a neighborhood park. Bring blankets, folding tables and a ${ctx.theme} banner.`,
+        cost: ctx.cost(0.03, 0.08),
+        amenities: ['Open lawn', 'Picnic tables', 'Nearby restrooms', 'Free parking'],
+        suitability: `Relaxed and flexible, with plenty of space for ${ctx.isKids ? 'kids to run around' : 'guests to mingle'}.`,
+        venueSearchSuggestions: [`public parks with picnic areas ${ctx.city}`, `park pavilion reservation ${ctx.city}`],
+    },
+    schedule: buildSchedule(ctx.isKids ? 16 * 60 : 18 * 60, [
+        [30, 'Welcome & decorating station', `Guests decorate ${ctx.theme} name tags or hats as they arrive.`],
+        [45, ctx.isKids ? 'Backyard games' : 'Lawn games', ctx.isKids ? 'Sack race, treasure hunt and musical chairs.' : 'Giant Jenga, cornhole and a playlist of favorite songs.'],
+        [45, 'Potluck dinner', 'Everyone brings a dish; the hosts provide mains and drinks.'],
+        [30, 'Cake & birthday song', `Homemade ${ctx.theme} cake with candles for ${ctx.name}.`],
+        [30, 'Favors & goodbyes', 'Guests take home small DIY favor bags.'],
+    ]),
+    catering: {
+        cost: ctx.cost(0.2, 0.3, 'per-person'),
+        servingStyle: 'Potluck buffet',
+        menu: {
+            appetizers: ['Veggie sticks with hummus', 'Homemade popcorn'],
+            mainCourses: ctx.isKids ? ['Mini pizzas', 'Pasta salad'] : ['Grilled chicken skewers', 'Roasted vegetable couscous'],
+            desserts: `Homemade ${ctx.theme} cake and cupcakes`,
+            beverages: ['Lemonade', 'Water with fruit slices', ctx.isKids ? 'Juice boxes' : 'Iced tea'],
+        },
+        cateringSearchSuggestions: [`bakery custom birthday cake ${ctx.city}`, `party supply store ${ctx.city}`],
+    },
+    guestEngagement: {
+        icebreakers: [`${ctx.theme} trivia about ${ctx.name}`, 'Find someone who... bingo'],
+        interactiveElements: ['Treasure hunt with themed clues', 'Group birthday card signing'],
+        photoOpportunities: [`DIY ${ctx.theme} photo backdrop`, 'Props box with hats and signs'],
+        partyFavors: ['Handmade favor bags with treats', 'Personalized thank-you notes'],
+        techIntegration: ['Shared photo album link for guests'],
+        entertainmentSearchSuggestions: [`party games rental ${ctx.city}`],
+    },
+    decorations: {
+        colorPalette: ['Sky blue', 'Sunshine yellow', 'White'],
+        keyPieces: [
+            { item: 'Paper garland and bunting', source: 'diy', notes: `Cut from colored card stock in the palette colors; an evening's work for two people.` },
+            { item: 'Balloon bunches', source: 'buy', notes: 'A pack of 50 latex balloons and a hand pump is enough for the entrance and the cake table.' },
+            { item: `${ctx.theme} table centerpieces`, source: 'diy', notes: 'Jars filled with candy or flowers, tied with ribbon in the palette colors.' },
+        ],
+        decorationSearchSuggestions: [`party supply store ${ctx.city}`, `DIY ${ctx.theme} party decorations`],
+    },
+});
+
+const buildPremiumPlan = (ctx) => ({
+    name: `${ctx.name}'s ${ctx.theme} Gala`,
+    description: `A fully hosted ${ctx.theme} party at a private event venue in ${ctx.city}, with professional catering, styling and entertainment so the hosts can simply enjoy the day.`,
+    venue: {
+        name: `Private event hall in central ${ctx.city}`,
+        description: `A decorated private room with a dedicated party host, sound system and ${ctx.theme} styling included in the package.`,
+        cost: ctx.cost(0.35, 0.45),
+        amenities: ['Party host', 'Sound system', 'Tables and linens', 'Climate control', 'Accessible entrance'],
+        suitability: 'Turnkey and weather-proof, with staff handling setup and cleanup.',
+        venueSearchSuggestions: [`private party venue ${ctx.city}`, `birthday party hall packages ${ctx.city}`],
+    },
+    schedule: buildSchedule(ctx.isKids ? 16 * 60 : 19 * 60, [
+        [30, 'Reception & welcome drinks', `Guests arrive to a styled ${ctx.theme} entrance.`],
+        [60, ctx.isKids ? 'Professional entertainer show' : 'Live music set', ctx.isKids ? 'Magician or character performer with audience participation.' : 'Acoustic duo playing requested songs.'],
+        [60, 'Catered meal', 'Served by venue staff.'],
+        [30, 'Cake cutting & toasts', `Designer ${ctx.theme} cake and a toast for ${ctx.name}.`],
+        [30, 'Dancing & photo booth', 'Open floor with a staffed photo booth.'],
+    ]),
+    catering: {
+        cost: ctx.cost(0.4, 0.5, 'per-person'),
+        servingStyle: 'Plated service',
+        menu: {
+            appetizers: ['Seasonal bruschetta', 'Mini quiches', 'Fresh fruit skewers'],
+            mainCourses: ctx.isKids ? ['Chicken schnitzel with fries', 'Margherita pizza', 'Vegetable pasta'] : ['Herb-crusted salmon', 'Beef or mushroom risotto', 'Garden salad'],
+            desserts: `Designer ${ctx.theme} cake and a dessert table`,
+            beverages: ['Fresh juices', 'Sparkling water', ctx.isKids ? 'Milkshakes' : 'Wine and cocktails'],
+        },
+        cateringSearchSuggestions: [`event catering ${ctx.city}`, `designer birthday cakes ${ctx.city}`],
+    },
+    guestEngagement: {
+        icebreakers: ['Welcome table with guest-book prompts', 'Table trivia cards'],
+        interactiveElements: ['Hosted party games', ctx.isKids ? 'Balloon artist' : 'Live music requests'],
+        photoOpportunities: ['Staffed photo booth with printed strips', `${ctx.theme} balloon arch`],
+        partyFavors: ['Branded favor boxes', 'Printed photo strip keepsakes'],
+        techIntegration: ['Digital slideshow of photos of the birthday star', 'Live photo sharing screen'],
+        entertainmentSearchSuggestions: [ctx.isKids ? `kids party entertainer ${ctx.city}` : `live band hire ${ctx.city}`, `photo booth rental ${ctx.city}`],
+    },
+    decorations: {
+        colorPalette: ['Navy blue', 'Gold', 'Ivory'],
+        keyPieces: [
+            { item: `${ctx.theme} balloon arch`, source: 'buy', notes: 'Book a balloon stylist to install it at the entrance before guests arrive.' },
+            { item: 'Floral table centerpieces', source: 'buy', notes: 'Order from a florist in the palette colors; ask about delivery to the venue.' },
+            { item: 'Styled dessert table backdrop', source: 'buy', notes: `Rent a backdrop with ${ctx.name}'s name and age, set up by the venue staff.` },
+        ],
+        decorationSearchSuggestions: [`event styling ${ctx.city}`, `balloon decor ${ctx.city}`],
+    },
+});
+
+const buildUniquePlan = (ctx) => ({
+    name: `${ctx.name}'s ${ctx.theme} Adventure`,
+    description: `An experience-first ${ctx.theme} celebration in ${ctx.city}: guests team up for a hands-on adventure, then refuel with a themed meal.`,
+    venue: {
+        name: ctx.isKids ? `Indoor adventure park in ${ctx.city}` : `Escape room & lounge in ${ctx.city}`,
+        description: ctx.isKids ? 'A private party package with climbing walls, trampolines and a party room.' : `Private booking of two escape rooms with a ${ctx.theme}-inspired storyline and a lounge afterwards.`,
+        cost: ctx.cost(0.3, 0.4),
+        amenities: ['Private party room', 'Activity instructors', 'Lockers', 'On-site parking'],
+        suitability: 'Memorable and active, with staff running the main activity.',
+        venueSearchSuggestions: [ctx.isKids ? `kids adventure park birthday ${ctx.city}` : `escape room group booking ${ctx.city}`],
+    },
+    schedule: buildSchedule(ctx.isKids ? 15 * 60 : 18 * 60, [
+        [20, 'Check-in & safety briefing', 'Staff explain the activity and split guests into teams.'],
+        [75, ctx.isKids ? 'Adventure challenge' : 'Escape room challenge', `Teams compete in a ${ctx.theme} themed challenge.`],
+        [45, 'Themed meal', 'Food served in the party room.'],
+        [25, 'Cake & awards', `Cake for ${ctx.name} and medals for the winning team.`],
+        [15, 'Wrap-up', 'Group photo and favors.'],
+    ]),
+    catering: {
+        cost: ctx.cost(0.25, 0.35, 'per-person'),
+        servingStyle: 'Family-style platters',
+        menu: {
+            appetizers: ['Loaded nachos', 'Crispy cauliflower bites'],
+            mainCourses: ctx.isKids ? ['Burger sliders', 'Chicken tenders', 'Veggie wraps'] : ['Street-food tacos', 'Falafel wraps', 'Grilled halloumi'],
+            desserts: `${ctx.theme} cake with a surprise filling`,
+            beverages: ['Lemonade', 'Soft drinks', ctx.isKids ? 'Chocolate milk' : 'Craft beer selection'],
+        },
+        cateringSearchSuggestions: [`party platters delivery ${ctx.city}`],
+    },
+    guestEngagement: {
+        icebreakers: ['Team name brainstorm', 'Two truths and a lie'],
+        interactiveElements: ['Team challenge leaderboard', 'Winning team award ceremony'],
+        photoOpportunities: ['Action shots during the challenge', 'Team victory photo'],
+        partyFavors: ['Adventure medals', `${ctx.theme} themed keychains`],
+        techIntegration: ['Live scoreboard on a shared screen'],
+        entertainmentSearchSuggestions: [`team building activities ${ctx.city}`],
+    },
+    decorations: {
+        colorPalette: ['Forest green', 'Orange', 'Charcoal'],
+        keyPieces: [
+            { item: 'Team color flags and armbands', source: 'buy', notes: 'One color per team, so guests can spot their teammates during the challenge.' },
+            { item: `${ctx.theme} "mission" banner`, source: 'diy', notes: `Print the challenge title and ${ctx.name}'s name on a long banner for the party room.` },
+            { item: 'Winners podium', source: 'diy', notes: 'Three stacked boxes wrapped in the palette colors, used for the award photos.' },
+        ],
+        decorationSearchSuggestions: [`custom banner printing ${ctx.city}`],
+    },
+});
+
+// Menu items that fit any combination of restrictions, used when every fixture item of a course had to go
+const SAFE_MENU = {
+    appetizers: ['Fresh fruit platter', 'Vegetable crudités'],
+    mainCourses: ['Rice and vegetable bowls', 'Roasted potato wedges'],
+    desserts: 'Fruit sorbet',
+    beverages: ['Water with fruit slices'],
+};
+
+/**
+ * Removes menu items that break the user's dietary restrictions and tags the remaining items.
+ * Kosher and halal can't be told from a dish name, so they are only tagged when required
+ * (the fixture caterer is assumed to source certified food).
+ * @param {object} catering - The fixture catering section.
+ * @param {{ allergens: string[], diets: string[] } | undefined} restrictions - The user's dietary restrictions.
+ * @returns {object} The catering section with a compliant, tagged menu.
+ */
+const applyDietaryRestrictions = (catering, restrictions) => {
+    const rejected = new Set(findDietaryConflicts(catering, restrictions).map(conflict => conflict.item.toLowerCase()));
+    const keep = (items) => items.filter(item => !rejected.has(item.toLowerCase()));
+    const { appetizers, mainCourses, desserts, beverages } = catering.menu;
+    const keptDesserts = keep(splitDesserts(desserts));
+    const menu = {
+        appetizers: keep(appetizers).length > 0 ? keep(appetizers) : SAFE_MENU.appetizers,
+        mainCourses: keep(mainCourses).length > 0 ? keep(mainCourses) : SAFE_MENU.mainCourses,
+        desserts: keptDesserts.length > 0 ? keptDesserts.join(', ') : SAFE_MENU.desserts,
+        beverages: keep(beverages).length > 0 ? keep(beverages) : SAFE_MENU.beverages,
+    };
+    const certifiedDiets = (restrictions?.diets || []).filter(diet => diet === 'kosher' || diet === 'halal');
+    const menuTags = [...menu.appetizers, ...menu.mainCourses, ...splitDesserts(menu.desserts), ...menu.beverages].map(item => {
+        const { allergens, unsuitableFor } = detectMenuItemDiet(item);
+        const diets = ['vegetarian', 'vegan', ...certifiedDiets].filter(diet => !unsuitableFor.includes(diet));
+        return { item, allergens, diets };
+    });
+    return { ...catering, menu, menuTags };
+};
+
+// Plan builders keyed by profile
+const BUILDERS = {
+    'DIY/Budget': buildDiyPlan,
+    'Premium/Convenience': buildPremiumPlan,
+    'Unique/Adventure': buildUniquePlan,
+};
+
+// Other configured profiles reuse the closest fixture, named after the profile so the plans can be told apart
+const STAND_IN_BUILDERS = {
+    'Sensory-friendly': buildPremiumPlan,
+    'Eco/Zero-waste': buildDiyPlan,
+    'Outdoor sports': buildUniquePlan,
+};
+
+/**
+ * Builds a deterministic fixture plan for the requested profile.
+ * The same input always produces the same plan, and the menu always meets the user's dietary restrictions.
+ * @param {object} userInput - The user's form input.
+ * @param {string} profile - The requested plan profile (profiles without a fixture use the Premium fixture).
+ * @param {string} planId - The plan ID to assign.
+ * @returns {object} A raw plan object in the same shape the AI returns.
+ */
+export const buildFixturePlan = (userInput, profile, planId) => {
+    const builder = BUILDERS[profile] || STAND_IN_BUILDERS[profile] || buildPremiumPlan;
+    const plan = builder(buildContext(userInput));
+    if (!BUILDERS[profile]) plan.name = `${plan.name} (${profile})`;
+    return { id: planId, profile, date: '', ...plan, catering: applyDietaryRestrictions(plan.catering, userInput.dietaryRestrictions) };
+};
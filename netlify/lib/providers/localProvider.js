@@ -0,0 +1,331 @@
+// netlify/lib/providers/localProvider.js
+// Deterministic offline provider: fixture plans, canned invitation text and rule-based rewrites, a generated SVG image,
+// a rule-based budget optimizer and section regeneration from the other profiles' fixtures.
+// Selected with AI_PROVIDER=local; needs no API key or network.
+import { buildFixturePlan } from './localFixtures.js';
+import { getRsvpDate } from '../invitationRewrites.js';
+
+// Canned invitation text per template style
+const INVITATION_TEXTS = {
+    classic: ({ name, theme, venue, date, time }) => `You are cordially invited to celebrate ${name}'s birthday.\n\nJoin us for ${theme} on ${date} at ${time}, at ${venue}.\n\nWe look forward to celebrating with you.`,
+    playful: ({ name, theme, venue, date, time }) => `🎉 Guess who's having a birthday? ${name}! 🎉\n\nGrab your party hat and come to ${theme} on ${date} at ${time}.\nWhere? ${venue}!\n\nGames, cake and lots of fun guaranteed!`,
+    themed: ({ name, theme, venue, date, time }) => `Step into ${theme}!\n\n${name} invites you to a themed birthday celebration on ${date} at ${time} at ${venue}.\n\nCome dressed for the theme and get ready for surprises.`,
+    minimalist: ({ name, venue, date, time }) => `${name}'s Birthday\n${date} · ${time}\n${venue}`,
+};
+
+// Hebrew invitation text, used when the app's language is Hebrew
+const HEBREW_INVITATION_TEXTS = {
+    classic: ({ name, theme, venue, date, time }) => `הנכם מוזמנים בשמחה לחגוג את יום ההולדת של ${name}.\n\nנפגש ב${theme} בתאריך ${date} בשעה ${time}, ב${venue}.\n\nנשמח לחגוג איתכם.`,
+    playful: ({ name, theme, venue, date, time }) => `🎉 נחשו למי יש יום הולדת? ל${name}! 🎉\n\nתפסו כובע מסיבה ובואו ל${theme} בתאריך ${date} בשעה ${time}.\nאיפה? ב${venue}!\n\nמשחקים, עוגה והמון כיף מובטחים!`,
+    themed: ({ name, theme, venue, date, time }) => `היכנסו אל ${theme}!\n\n${name} מזמין/ה אתכם לחגיגת יום הולדת בנושא מיוחד בתאריך ${date} בשעה ${time} ב${venue}.\n\nבואו בתחפושת מתאימה והתכוננו להפתעות.`,
+    minimalist: ({ name, venue, date, time }) => `יום ההולדת של ${name}\n${date} · ${time}\n${venue}`,
+};
+
+// Lines added by the canned invitation rewrites, per language
+const REWRITE_LINES = {
+    en: {
+        funnyOpening: '🎈 Warning: extreme fun ahead! 🎈',
+        funnyClosing: 'P.S. Cake is mandatory. Dancing is strongly encouraged. 🎂',
+        formalOpening: 'Dear friends and family,',
+        formalClosing: 'We would be honored by your presence.',
+        rsvp: (rsvpDate) => `Kindly RSVP by ${rsvpDate}.`,
+        directions: (venue, description) => `How to get there: ${venue}${description ? ` (${description})` : ''}.`,
+    },
+    he: {
+        funnyOpening: '🎈 אזהרה: כיף מטורף בדרך! 🎈',
+        funnyClosing: 'נ.ב. עוגה זו חובה. ריקודים מומלצים מאוד. 🎂',
+        formalOpening: 'משפחה וחברים יקרים,',
+        formalClosing: 'נתכבד בנוכחותכם.',
+        rsvp: (rsvpDate) => `נא לאשר הגעה עד ${rsvpDate}.`,
+        directions: (venue, description) => `איך מגיעים: ${venue}${description ? ` (${description})` : ''}.`,
+    },
+};
+
+// Emoji and other pictographs, removed by the formal rewrite
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\u{FE0F}]/gu;
+
+/**
+ * Rewrites invitation text with simple text rules, standing in for the AI rewrite.
+ * @param {string} text - The current invitation text.
+ * @param {string} style - The rewrite style (a key of REWRITE_INSTRUCTIONS).
+ * @param {{ plan: object, date: string, language: string }} details
+ * @returns {string} The rewritten text.
+ */
+const rewriteInvitationByRules = (text, style, { plan, date, language }) => {
+    const lines = REWRITE_LINES[language] || REWRITE_LINES.en;
+    switch (style) {
+        case 'shorter': {
+            // Drop the closing paragraph (usually a sign-off), or keep only the first sentence of a single paragraph
+            const paragraphs = text.split(/\n\s*\n/);
+            if (paragraphs.length > 1) return paragraphs.slice(0, -1).join('\n\n');
+            return text.match(/^[\s\S]*?[.!?](?=\s|$)/)?.[0] || text;
+        }
+        case 'funnier':
+            return `${lines.funnyOpening}\n\n${text}\n\n${lines.funnyClosing}`;
+        case 'formal': {
+            const plain = text.replace(EMOJI_PATTERN, '').replace(/!+/g, '.').split('\n').map(line => line.replace(/[ \t]{2,}/g, ' ').trim()).join('\n').trim();
+            return `${lines.formalOpening}\n\n${plain}\n\n${lines.formalClosing}`;
+        }
+        case 'addRsvp':
+            return `${text}\n\n${lines.rsvp(getRsvpDate(date))}`;
+        case 'addDirections': {
+            const description = (plan.venue?.description || '').split(/(?<=[.!?])\s/)[0].replace(/[.!?]$/, '');
+            return `${text}\n\n${lines.directions(plan.venue?.name || 'the party venue', description)}`;
+        }
+        default:
+            return text;
+    }
+};
+
+// Placeholder image colors per template style
+const IMAGE_PALETTES = {
+    classic: ['#1e3a8a', '#c9a227', '#fef3c7'],
+    playful: ['#ec4899', '#f59e0b', '#22d3ee'],
+    themed: ['#7c3aed', '#10b981', '#fde68a'],
+    minimalist: ['#f3f4f6', '#111827', '#9ca3af'],
+};
+
+/** Escapes text for use inside SVG markup. */
+const escapeXml = (text) => String(text).replace(/[<>&'"]/g, (ch) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[ch]));
+
+/**
+ * Builds a local placeholder invitation image as an SVG data URL (balloons and confetti on a gradient).
+ * @param {string} title - Text shown on the image (the plan name).
+ * @param {string} template - Template style, used to pick colors.
+ * @returns {string} A data URL that can be used directly as an <img> src.
+ */
+const buildPlaceholderImage = (title, template) => {
+    const [background, accent, highlight] = IMAGE_PALETTES[template] || IMAGE_PALETTES.playful;
+    // Fixed balloon and confetti positions keep the image deterministic
+    const balloons = [[260, 330, accent], [420, 260, highlight], [600, 310, accent], [770, 250, highlight]]
+        .map(([x, y, color]) => `<ellipse cx="${x}" cy="${y}" rx="70" ry="88" fill="${color}" opacity="0.9"/><path d="M${x} ${y + 88} q -20 90 10 200" stroke="${highlight}" stroke-width="3" fill="none"/>`)
+        .join('');
+    const confetti = Array.from({ length: 24 }, (_, i) => `<rect x="${(i * 149) % 1000}" y="${(i * 263) % 1000}" width="14" height="6" transform="rotate(${(i * 37) % 180} ${(i * 149) % 1000} ${(i * 263) % 1000})" fill="${i % 2 ? accent : highlight}"/>`)
+        .join('');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">`
+        + `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${background}"/><stop offset="1" stop-color="${accent}" stop-opacity="0.6"/></linearGradient></defs>`
+        + `<rect width="1024" height="1024" fill="url(#bg)"/>${confetti}${balloons}`
+        + `<text x="512" y="820" text-anchor="middle" font-family="Georgia, serif" font-size="56" fill="${highlight}">${escapeXml(title)}</text>`
+        + `</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// How much to cut a category's cost for each priority level (1 = least important)
+const REDUCTION_BY_PRIORITY = { 1: 0.35, 2: 0.25, 3: 0.15, 4: 0.05, 5: 0 };
+
+/** Returns the cost reduction for a priority value (defaults to the middle level). */
+const reductionFor = (priority) => REDUCTION_BY_PRIORITY[Math.round(Number(priority))] ?? REDUCTION_BY_PRIORITY[3];
+
+/** Applies a reduction to a structured cost estimate, keeping amounts rounded. */
+const reduceCost = (cost, reduction) => {
+    if (!cost || typeof cost !== 'object' || reduction <= 0) return cost;
+    const step = cost.basis === 'per-person' ? 5 : 50;
+    const scale = (amount) => Math.max(0, Math.round((Number(amount) * (1 - reduction)) / step) * step);
+    return { ...cost, min: scale(cost.min), max: scale(cost.max) };
+};
+
+/**
+ * Rewrites a plan with fixed rules: costs are cut more in low-priority categories,
+ * and low-priority sections are simplified (e.g., buffet service, DIY decorations, fewer favors).
+ * @returns {object} The optimized plan, including an optimizationSummary listing every rule applied.
+ */
+const optimizePlanByRules = (plan, priorities, numericBudget, currency) => {
+    const optimized = structuredClone(plan);
+    const notes = [];
+
+    // Venue: cut the cost, and suggest a cheaper venue type when the venue is a low priority
+    const venueReduction = reductionFor(priorities.venue);
+    if (optimized.venue && venueReduction > 0) {
+        optimized.venue.cost = reduceCost(optimized.venue.cost, venueReduction);
+        if (venueReduction >= REDUCTION_BY_PRIORITY[2]) {
+            optimized.venue.description = `${optimized.venue.description || ''} Consider a community hall, park pavilion or hosting at home to cut rental costs.`.trim();
+        }
+        notes.push(`Reduced the venue estimate by about ${Math.round(venueReduction * 100)}% (venue priority ${priorities.venue}/5).`);
+    }
+
+    // Catering: cut the cost, and switch to a simpler buffet with fewer dishes when food is a low priority
+    const foodReduction = reductionFor(priorities.food);
+    if (optimized.catering && foodReduction > 0) {
+        optimized.catering.cost = reduceCost(optimized.catering.cost, foodReduction);
+        if (foodReduction >= REDUCTION_BY_PRIORITY[2] && optimized.catering.menu) {
+            optimized.catering.servingStyle = 'Buffet (self-serve)';
+            optimized.catering.menu.appetizers = (optimized.catering.menu.appetizers || []).slice(0, 2);
+            optimized.catering.menu.mainCourses = (optimized.catering.menu.mainCourses || []).slice(0, 2);
+            notes.push('Switched catering to a self-serve buffet with a shorter menu.');
+        }
+        notes.push(`Reduced the catering estimate by about ${Math.round(foodReduction * 100)}% (food priority ${priorities.food}/5).`);
+    }
+
+    const engagement = optimized.guestEngagement;
+    if (engagement) {
+        // Activities: keep the two main interactive elements and drop paid tech extras
+        if (reductionFor(priorities.activities) >= REDUCTION_BY_PRIORITY[2]) {
+            engagement.interactiveElements = (engagement.interactiveElements || []).slice(0, 2);
+            engagement.techIntegration = [];
+            notes.push('Kept the two main interactive activities and dropped tech extras.');
+        }
+        // Decorations (plans without a decorations section): replace styled photo setups with a DIY backdrop
+        if (!optimized.decorations && reductionFor(priorities.decorations) >= REDUCTION_BY_PRIORITY[2]) {
+            engagement.photoOpportunities = ['DIY themed photo backdrop', ...(engagement.photoOpportunities || []).slice(0, 1)];
+            notes.push('Suggested a DIY photo backdrop instead of styled decorations.');
+        }
+        // Party favors: a single simple favor
+        if (reductionFor(priorities.partyFavors) >= REDUCTION_BY_PRIORITY[2]) {
+            engagement.partyFavors = ['Simple DIY favor bags'];
+            notes.push('Replaced party favors with simple DIY favor bags.');
+        }
+    }
+
+    // Decorations: make the store-bought pieces DIY when decorations are a low priority
+    const decorations = optimized.decorations;
+    if (decorations && reductionFor(priorities.decorations) >= REDUCTION_BY_PRIORITY[2]) {
+        const bought = (decorations.keyPieces || []).filter(piece => piece.source === 'buy');
+        if (bought.length > 0) {
+            bought.forEach(piece => {
+                piece.source = 'diy';
+                piece.notes = `${piece.notes || ''} Make a simpler version at home instead of buying it.`.trim();
+            });
+            notes.push(`Switched ${bought.length} store-bought decoration ${bought.length === 1 ? 'piece' : 'pieces'} to DIY (decorations priority ${priorities.decorations}/5).`);
+        }
+    }
+
+    optimized.optimizationSummary = notes.length > 0
+        ? `Adjusted the plan toward your budget of ${numericBudget} ${currency} based on your priorities:\n- ${notes.join('\n- ')}`
+        : `All categories are top priority, so no changes were made. Lower a priority to let the optimizer cut costs in that area.`;
+    return optimized;
+};
+
+// Fixture profiles in rotation order; a regenerated section comes from the next profile's fixture
+const FIXTURE_PROFILES = ['DIY/Budget', 'Premium/Convenience', 'Unique/Adventure'];
+
+// Search-suggestion field of each section, used to carry the user's guidance into the new section
+const SEARCH_SUGGESTION_FIELDS = {
+    venue: 'venueSearchSuggestions',
+    catering: 'cateringSearchSuggestions',
+    guestEngagement: 'entertainmentSearchSuggestions',
+    decorations: 'decorationSearchSuggestions',
+};
+
+/**
+ * Builds an alternative section by taking it from the next profile's fixture plan.
+ * Guidance can't be interpreted without an AI, so it's recorded in the section instead
+ * (as the first search suggestion, or a note on the first schedule item).
+ * @returns {unknown} The new raw section content.
+ */
+const buildAlternativeSection = (plan, section, guidance, userInput) => {
+    const profileIndex = FIXTURE_PROFILES.indexOf(plan.profile);
+    const nextProfile = FIXTURE_PROFILES[(profileIndex + 1) % FIXTURE_PROFILES.length];
+    const content = buildFixturePlan(userInput || {}, nextProfile, plan.id)[section];
+    if (!guidance) return content;
+
+    if (section === 'schedule') {
+        const [first, ...rest] = content;
+        return [{ ...first, description: `${first.description} (Planned around: ${guidance}.)` }, ...rest];
+    }
+    const field = SEARCH_SUGGESTION_FIELDS[section];
+    const city = userInput?.location?.city || '';
+    return { ...content, [field]: [`${guidance} ${city}`.trim(), ...(content[field] || [])] };
+};
+
+// Places a schedule item can refer to, the words in the venue that show the place is there, and a neutral replacement
+const PLACE_REFERENCES = [
+    { pattern: /\bbackyard\b/i, venuePattern: /backyard|garden|home|park|lawn/i, label: 'a backyard', replacement: 'party' },
+    { pattern: /\blawn\b/i, venuePattern: /lawn|garden|park|backyard/i, label: 'a lawn', replacement: 'party' },
+    { pattern: /\bparty room\b/i, venuePattern: /party room|private room|hall/i, label: 'a party room', replacement: 'party area' },
+    { pattern: /\b(venue )?staff\b/i, venuePattern: /\bstaff|party host|instructor/i, label: 'staff', replacement: 'the hosts' },
+    { pattern: /\bescape room\b/i, venuePattern: /escape room/i, label: 'an escape room', replacement: 'team' },
+];
+
+/** Capitalizes the replacement when the replaced words start with a capital letter. */
+const matchCase = (match, replacement) => (/^\p{Lu}/u.test(match) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement);
+
+/**
+ * Makes the sections of a custom plan fit together with fixed rules: the meal in the schedule follows
+ * the catering's serving style (potluck or served), and schedule items that mention a place the venue
+ * doesn't have are reworded.
+ * @returns {{ plan: object, summary: string }} The adjusted plan and a summary listing every change.
+ */
+const harmonizePlanByRules = (plan) => {
+    const harmonized = structuredClone(plan);
+    const notes = [];
+    const venue = harmonized.venue || {};
+    const venueText = [venue.name, venue.description, venue.suitability, ...(venue.amenities || [])].join('\n');
+    const servingStyle = harmonized.catering?.servingStyle || '';
+    const isPotluck = /potluck/i.test(servingStyle);
+
+    (harmonized.schedule || []).forEach(item => {
+        // Meal: who brings the food has to match the catering section
+        const itemText = `${item.activity} ${item.description || ''}`;
+        if (servingStyle && /meal|dinner|lunch|brunch|potluck|food/i.test(itemText)) {
+            const conflicts = isPotluck ? /catered|plated|served by/i.test(itemText) : /potluck|everyone brings/i.test(itemText);
+            if (conflicts) {
+                const activity = item.activity.replace(/\b(potluck|catered)\s+/i, '');
+                notes.push(`Schedule "${item.activity}": changed to match the catering (${servingStyle}).`);
+                item.activity = activity.charAt(0).toUpperCase() + activity.slice(1);
+                item.description = `${servingStyle}.`;
+            }
+        }
+
+        // Places: reword mentions of places the chosen venue doesn't have
+        PLACE_REFERENCES.forEach(({ pattern, venuePattern, label, replacement }) => {
+            if (venuePattern.test(venueText)) return;
+            if (!pattern.test(`${item.activity} ${item.description || ''}`)) return;
+            const replaceAll = new RegExp(pattern.source, 'gi');
+            notes.push(`Schedule "${item.activity}": reworded because ${venue.name || 'the venue'} doesn't have ${label}.`);
+            item.activity = item.activity.replace(replaceAll, match => matchCase(match, replacement));
+            if (item.description) item.description = item.description.replace(replaceAll, match => matchCase(match, replacement));
+        });
+    });
+
+    const summary = notes.length > 0
+        ? `Adjusted the custom plan so its sections fit together:\n- ${notes.join('\n- ')}`
+        : 'The chosen sections already fit together, so no changes were needed.';
+    return { plan: harmonized, summary };
+};
+
+/**
+ * Deterministic AI provider for offline development.
+ * @type {import('./index.js').AIProvider}
+ */
+export const localProvider = {
+    name: 'local',
+
+    async generatePlan({ userInput, profile, planId }) {
+        console.log(`Local provider: building fixture plan for profile ${profile}.`);
+        return buildFixturePlan(userInput, profile, planId);
+    },
+
+    async generateInvitation({ plan, template, date, time, language }) {
+        console.log(`Local provider: building canned invitation (${template}, ${language}).`);
+        const details = {
+            name: plan.name ? plan.name.split("'s")[0] : 'the birthday person',
+            theme: plan.name || 'the birthday party', // Plan names read like party titles (e.g., "Noa's Space Adventure")
+            venue: plan.venue?.name || 'the party venue',
+            date,
+            time,
+        };
+        const texts = language === 'he' ? HEBREW_INVITATION_TEXTS : INVITATION_TEXTS;
+        const buildText = texts[template] || texts.playful;
+        return { text: buildText(details), imageUrl: buildPlaceholderImage(plan.name || 'Happy Birthday', template) };
+    },
+
+    async rewriteInvitation({ plan, text, style, date, language }) {
+        console.log(`Local provider: rewriting invitation text (${style}, ${language}).`);
+        return rewriteInvitationByRules(text, style, { plan, date, language });
+    },
+
+    async optimizeBudget({ plan, priorities, numericBudget, currency }) {
+        console.log('Local provider: optimizing plan with rule-based adjustments.');
+        return optimizePlanByRules(plan, priorities, numericBudget, currency);
+    },
+
+    async regenerateSection({ plan, section, guidance, userInput }) {
+        console.log(`Local provider: building alternative ${section} section.`);
+        return buildAlternativeSection(plan, section, guidance, userInput);
+    },
+
+    async harmonizePlan({ plan }) {
+        console.log('Local provider: harmonizing custom plan with rule-based adjustments.');
+        return harmonizePlanByRules(plan);
+    },
+};
@@ -0,0 +1,298 @@
+// netlify/lib/providers/openaiProvider.js
+import OpenAI from 'openai';
+// Shared plan schema (bundled by esbuild, see netlify.toml)
+import { birthdayPlanSchema, toJsonSchema } from '../../../src/schema/plan.ts';
+// Shared dietary helpers, so the prompts describe restrictions the same way the app checks them
+import { describeDietaryRestrictions } from '../../../src/utils/dietary.ts';
+// Output language instruction for the prompts
+import { describeLanguage } from '../language.js';
+// Instructions for each invitation rewrite style
+import { describeRewrite } from '../invitationRewrites.js';
+
+/**
+ * Enhanced JSON parser: Attempts to extract and parse JSON even if embedded in text or slightly malformed.
+ * @param {string} jsonString - The raw string potentially containing JSON.
+ * @returns {object|null} Parsed JSON object or null if parsing fails.
+ */
+const extractAndParseJson = (jsonString) => {
+    if (!jsonString || typeof jsonString !== 'string') {
+        console.error('extractAndParseJson: Input invalid (not a string or empty).');
+        return null;
+    }
+    let potentialJson = jsonString.trim();
+    const cleanJsonString = (str) => {
+        try { return str.replace(/,\s*([}\]])/g, '$1'); }
+        catch (e) { console.warn("Regex cleaning for trailing commas failed..."); return str; }
+    };
+    const tryParse = (str) => {
+        const cleanedStr = cleanJsonString(str);
+        return JSON.parse(cleanedStr);
+    };
+    try {
+        const parsed = tryParse(potentialJson);
+        console.log("Parsing successful (Function Args / Direct JSON).");
+        return parsed;
+    } catch (parseError) {
+        const codeBlockMatch = potentialJson.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+        if (codeBlockMatch && codeBlockMatch[1]) {
+            console.log("Found JSON within Markdown code block, attempting parse...");
+            try {
+                const parsedFromBlock = tryParse(codeBlockMatch[1]);
+                console.log("Parsing successful (from Code Block).");
+                return parsedFromBlock;
+            } catch (codeBlockParseError) {
+                console.error(`Failed to parse JSON from code block: ${codeBlockParseError.message}`);
+            }
+        }
+        console.error(`extractAndParseJson: Failed to parse JSON. Error: ${parseError.message}`);
+        const snippet = potentialJson.length > 500 ? potentialJson.substring(0, 500) + '...' : potentialJson;
+        console.error('String snippet that failed parsing:', snippet);
+        return null;
+    }
+};
+
+// --- Define the desired BirthdayPlan structure as an OpenAI Tool Schema ---
+// Generated from the shared plan schema, so the AI is asked for exactly the shape the app validates
+const savePlanToolSchema = {
+    type: "function",
+    function: {
+        name: "save_birthday_plan",
+        description: "Saves a generated birthday plan.",
+        parameters: toJsonSchema(birthdayPlanSchema),
+    }
+};
+
+// The client is created on first use, so the function can load without an API key (e.g., when AI_PROVIDER=local)
+let openaiClient = null;
+const getClient = () => {
+    if (!openaiClient) {
+        // Ensure API key is configured in Netlify environment variables
+        if (!process.env.OPENAI_API_KEY) {
+            throw new Error("OPENAI_API_KEY is not configured. Set it, or set AI_PROVIDER=local to run without OpenAI.");
+        }
+        openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return openaiClient;
+};
+
+/**
+ * AI provider backed by the OpenAI API (GPT-4o for plans and optimization, DALL-E 3 for images).
+ * @type {import('./index.js').AIProvider}
+ */
+export const openaiProvider = {
+    name: 'openai',
+
+    async generatePlan({ userInput, profile: requestedProfile, profileDescription, planId, language }) {
+        const systemPrompt_GeneratePlans_FunctionCall = `You are PartyPilot... (Ensure full prompt is used) ### TASK & INSTRUCTIONS: 1. Generate ONE Detailed Plan... 2. Use Knowledge... 3. Call Function (CRITICAL)... 4. Schema Adherence (VERY IMPORTANT)...`;
+        const dietaryRequirements = describeDietaryRestrictions(userInput.dietaryRestrictions);
+        const userPrompt_GeneratePlans = `My input summary: ${JSON.stringify(userInput)}. ${dietaryRequirements ? `${dietaryRequirements} ` : ''}${describeLanguage(language) ? `${describeLanguage(language)} ` : ''}Generate ONE detailed birthday plan for the "${requestedProfile}" profile (ID: ${planId})...${profileDescription ? ` What this profile means: ${profileDescription}` : ''} Then, call the 'save_birthday_plan' function...`;
+        console.log(`Calling OpenAI model '${'gpt-4o'}' for generatePlans (Function Calling, Profile: ${requestedProfile})...`);
+        const completion = await getClient().chat.completions.create({ model: 'gpt-4o', messages: [ { role: 'system', content: systemPrompt_GeneratePlans_FunctionCall }, { role: 'user', content: userPrompt_GeneratePlans } ], tools: [savePlanToolSchema], tool_choice: { type: "function", function: { name: "save_birthday_plan" } }, max_tokens: 3000, temperature: 0.5, });
+        const message = completion.choices[0]?.message;
+        if (message?.tool_calls && message.tool_calls.length > 0 && message.tool_calls[0].function?.name === "save_birthday_plan") {
+            const functionArgsString = message.tool_calls[0].function.arguments;
+            console.log("AI called save_birthday_plan function with args string:", functionArgsString);
+            const rawPlanObject = extractAndParseJson(functionArgsString);
+            if (!rawPlanObject) { throw new Error("Failed to parse function arguments JSON returned by AI."); }
+            return rawPlanObject;
+        }
+        console.error("AI did not call the expected function 'save_birthday_plan'. Response message:", message);
+        throw new Error("AI failed to call the required function to save the plan.");
+    },
+
+    async generateInvitation({ plan, template, date, time, language }) {
+        const birthdayPersonName = plan.name ? plan.name.split("'s")[0] : "the birthday person";
+        const messagesForInviteText = [ { role: 'system', content: `You create engaging birthday invitation text based on provided details. Respond ONLY with the invitation text, nothing else.` }, { role: 'user', content: `Create concise and appealing invitation text for ${birthdayPersonName}'s birthday party. Theme: "${plan.name}" (${plan.description}). Venue: ${plan.venue?.name || 'the specified venue'}. Date: ${date}. Time: ${time}. Style: ${template}. Include key details clearly. ${describeLanguage(language)}` } ];
+        console.log("Calling OpenAI (gpt-3.5-turbo) for invitation text...");
+        const textCompletion = await getClient().chat.completions.create({ model: 'gpt-3.5-turbo', messages: messagesForInviteText, temperature: 0.7 });
+        const text = textCompletion.choices[0]?.message?.content?.trim() || `You're invited to celebrate ${birthdayPersonName}'s birthday! Join us for a ${plan.name} themed party on ${date} at ${time}. More details to follow.`;
+        console.log("Calling OpenAI (DALL-E 3) for invitation image...");
+        const imagePrompt = `Illustration for a birthday invitation card. Theme: ${plan.name}. Style: ${template}. For ${birthdayPersonName}'s birthday. Key visual elements: ${plan.description}. Make it vibrant, celebratory, and visually appealing. Avoid text unless absolutely necessary for the style.`;
+        const imageResponse = await getClient().images.generate({ model: 'dall-e-3', prompt: imagePrompt, n: 1, size: '1024x1024', quality: 'standard' });
+        const imageUrl = imageResponse.data?.[0]?.url || '';
+        return { text, imageUrl };
+    },
+
+    async rewriteInvitation({ plan, text, style, date, time, language }) {
+        const messages = [
+            { role: 'system', content: `You edit birthday invitation text. Keep every link (URL) in the text exactly as it is. Respond ONLY with the rewritten invitation text, nothing else.` },
+            { role: 'user', content: `Rewrite this invitation for the party "${plan.name}" (Date: ${date}. Time: ${time}. Venue: ${plan.venue?.name || 'the specified venue'}). ${describeRewrite(style, { plan, date })} ${describeLanguage(language)}\n\nInvitation text:\n${text}` },
+        ];
+        console.log(`Calling OpenAI (gpt-3.5-turbo) to rewrite invitation text (${style})...`);
+        const completion = await getClient().chat.completions.create({ model: 'gpt-3.5-turbo', messages, temperature: 0.7 });
+        return completion.choices[0]?.message?.content?.trim() || '';
+    },
+
+    async optimizeBudget({ plan, priorities, numericBudget, currency, dietaryRestrictions, language }) {
+        // --- Define **UPDATED** Prompts for Budget Optimization ---
+        const systemPrompt_OptimizeBudget = `You are a budget optimization expert specializing in event planning. Your task is to revise the provided birthday plan JSON to better align with the target budget, considering the user's priorities.
+
+            **CRITICAL INSTRUCTIONS:**
+            1.  **Analyze Plan & Budget:** Review the entire 'plan' JSON object and the 'targetBudget'.
+            2.  **Consider Priorities:** Use the 'priorities' object (scale 1-5, 5=most important) to guide your adjustments. Reduce costs more significantly in lower-priority areas.
+            3.  **Suggest Concrete Changes:** Modify the plan details (venue type/description, schedule activities, catering menu items/style, guest engagement elements, decoration pieces) to reduce costs realistically while preserving the theme and higher-priority elements. Suggest specific alternatives (e.g., "Community hall instead of hotel ballroom", "Simpler appetizers", "DIY decorations").
+            4.  **Update Costs (Estimate):** Update the structured 'cost' objects in 'venue' and 'catering' ({ "min": number, "max": number, "currency": string, "basis": "flat" | "per-person" }) to reflect suggested changes, using the target budget's currency. If cost ranges are given, suggest options within the lower end. Acknowledge these are estimates.
+            5.  **Keep Dietary Requirements:** Any menu change must still meet the dietary requirements given by the user, and 'catering.menuTags' must tag every menu item with its allergens and the diets it suits.
+            6.  **Add Optimization Summary:** Include a brief 'optimizationSummary' field (string) within the returned plan object, explaining the key changes made and why (e.g., "Reduced catering cost by simplifying appetizers (lower priority), suggested community hall venue.").
+            7.  **RETURN JSON ONLY:** Your *entire* response MUST be a single, valid JSON object. Do NOT include ANY text, commentary, greetings, apologies, or markdown formatting before or after the JSON object.
+            8.  **REQUIRED JSON STRUCTURE:** The JSON object MUST contain ONLY ONE top-level key: "optimizedPlan". The value of "optimizedPlan" must be the complete, revised birthday plan object, adhering to the original plan structure (including id, name, profile, venue, schedule, catering, guestEngagement, decorations, date, and the new optimizationSummary).
+            9.  **FAILURE CASE:** If you absolutely cannot generate a valid optimized plan in the required JSON format, return ONLY the following JSON object: { "error": "Optimization failed." }`; // Added failure instruction
+
+        const userPrompt_OptimizeBudget = `Optimize the following birthday plan JSON object:
+            \`\`\`json
+            ${JSON.stringify(plan, null, 2)}
+            \`\`\`
+            My budget priorities (1=least important, 5=most important) are:
+            \`\`\`json
+            ${JSON.stringify(priorities, null, 2)}
+            \`\`\`
+            My target budget is ${numericBudget} ${currency}.
+            ${describeDietaryRestrictions(dietaryRestrictions)}
+            ${describeLanguage(language)}
+
+            Please return ONLY the optimized plan as a single JSON object with the structure { "optimizedPlan": { /* complete revised plan object here, including optimizationSummary */ } }, adhering strictly to all instructions in the system prompt. Remember, NO text outside the JSON object. If optimization fails, return { "error": "Optimization failed." }.`; // Reinforced instructions
+
+        console.log("Calling OpenAI (gpt-4o) for optimizeBudget...");
+        const completion = await getClient().chat.completions.create({
+            model: 'gpt-4o',
+            messages: [
+                { role: 'system', content: systemPrompt_OptimizeBudget }, // Use updated system prompt
+                { role: 'user', content: userPrompt_OptimizeBudget }     // Use updated user prompt
+            ],
+            temperature: 0.4,
+            response_format: { type: "json_object" },
+            max_tokens: 4000
+        });
+
+        const content = completion.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error('No content returned from OpenAI (optimizeBudget)');
+        }
+
+        // Log the raw response string from AI
+        console.log("Raw AI content string for optimizeBudget:", content);
+
+        const parsedResponse = extractAndParseJson(content);
+
+        // Log the object after parsing
+        console.log("Parsed AI response object for optimizeBudget:", parsedResponse);
+
+        // --- Validate Parsed Response ---
+        // **NEW:** Check for the specific error structure first
+        if (parsedResponse && typeof parsedResponse.error === 'string') {
+            console.error("AI indicated optimization failed:", parsedResponse.error);
+            // Throw an error that reflects the AI's inability to optimize
+            throw new Error(`AI reported an issue: ${parsedResponse.error}`);
+        }
+        // Check 1: Does it have the expected { optimizedPlan: { ... } } structure?
+        if (parsedResponse && typeof parsedResponse.optimizedPlan === 'object' && parsedResponse.optimizedPlan !== null) {
+            console.log("Parsed response contains 'optimizedPlan' key.");
+            return parsedResponse.optimizedPlan;
+        }
+        // Check 2: If not, is the parsed response *itself* a plan-like object? (Fallback)
+        if (parsedResponse && typeof parsedResponse === 'object' && ('id' in parsedResponse || 'name' in parsedResponse || 'venue' in parsedResponse)) {
+            console.warn("Parsed response did not contain 'optimizedPlan' key, but looks like a plan object itself. Using it directly.");
+            return { ...parsedResponse };
+        }
+        // Check 3: If neither matches, the format is wrong.
+        console.error("Parsed response is not in the expected format. Parsed:", parsedResponse);
+        throw new Error("AI response format error: Expected { optimizedPlan: { ... } } or a recognizable plan object.");
+    },
+
+    async regenerateSection({ plan, section, guidance, userInput, language }) {
+        // Send the rest of the plan as context, so the new section still fits the theme, venue and schedule
+        const { [section]: currentSection, ...planContext } = plan;
+        const sectionJsonSchema = toJsonSchema(birthdayPlanSchema.shape[section]);
+
+        const systemPrompt_RegenerateSection = `You are PartyPilot, an expert birthday party planner. Your task is to write a NEW version of ONE section ("${section}") of an existing birthday plan.
+
+            **CRITICAL INSTRUCTIONS:**
+            1.  **Keep It Consistent:** The new section must fit the rest of the plan (theme, profile, venue, schedule, guests and budget).
+            2.  **Make It Different:** Suggest a genuinely different alternative to the current section, not a light rewording.
+            3.  **Follow Guidance:** If the user gives guidance, it takes priority over the current section.
+            4.  **Costs:** Any 'cost' object must be { "min": number, "max": number, "currency": string, "basis": "flat" | "per-person" } in the plan's currency.
+            5.  **RETURN JSON ONLY:** Respond with a single JSON object with ONE top-level key: "${section}". Its value must match this JSON schema: ${JSON.stringify(sectionJsonSchema)}`;
+
+        const userPrompt_RegenerateSection = `The rest of the plan:
+            \`\`\`json
+            ${JSON.stringify(planContext, null, 2)}
+            \`\`\`
+            The current "${section}" section, to be replaced:
+            \`\`\`json
+            ${JSON.stringify(currentSection ?? null, null, 2)}
+            \`\`\`
+            ${userInput ? `My original input: ${JSON.stringify(userInput)}.` : ''}
+            ${describeDietaryRestrictions(userInput?.dietaryRestrictions)}
+            ${describeLanguage(language)}
+            ${guidance ? `My guidance for the new section: "${guidance}".` : 'No extra guidance; just suggest a fresh alternative.'}
+
+            Return ONLY { "${section}": ... } as a single JSON object.`;
+
+        console.log(`Calling OpenAI (gpt-4o) for regenerateSection (${section})...`);
+        const completion = await getClient().chat.completions.create({
+            model: 'gpt-4o',
+            messages: [
+                { role: 'system', content: systemPrompt_RegenerateSection },
+                { role: 'user', content: userPrompt_RegenerateSection }
+            ],
+            temperature: 0.7,
+            response_format: { type: "json_object" },
+            max_tokens: 2000
+        });
+
+        const content = completion.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error('No content returned from OpenAI (regenerateSection)');
+        }
+        const parsedResponse = extractAndParseJson(content);
+        if (!parsedResponse || typeof parsedResponse !== 'object') {
+            throw new Error("AI response format error: Expected a JSON object for the regenerated section.");
+        }
+        // Prefer the { [section]: ... } wrapper, but accept the section content on its own
+        return section in parsedResponse ? parsedResponse[section] : parsedResponse;
+    },
+
+    async harmonizePlan({ plan, sectionSources, userInput, language }) {
+        const systemPrompt_HarmonizePlan = `You are PartyPilot, an expert birthday party planner. The user built a custom birthday plan by picking each section (venue, schedule, catering, guestEngagement, decorations) from a different generated plan. Your task is to make the sections fit together.
+
+            **CRITICAL INSTRUCTIONS:**
+            1.  **Keep the User's Choices:** Keep the picked venue, the activities of the schedule, the menu and the decoration pieces. Make the smallest edits that make the plan consistent; do not replace a section with a different idea.
+            2.  **Fix Mismatches:** Fix references that only made sense in the plan a section came from. For example: schedule items that mention another venue (a backyard, a party room, venue staff), a serving style or schedule meal that doesn't suit the venue, engagement or decoration ideas that need amenities the venue doesn't have, and timings that don't fit the venue.
+            3.  **Costs:** Only change a 'cost' object when an edit really changes it. Any 'cost' object must be { "min": number, "max": number, "currency": string, "basis": "flat" | "per-person" }.
+            4.  **Summary:** Write a short 'summary' (string) listing each change and why it was needed. If the sections already fit together, say so and return the plan unchanged.
+            5.  **RETURN JSON ONLY:** Respond with a single JSON object with TWO top-level keys: "harmonizedPlan" (the complete plan object, with the same structure, id and profile as the input) and "summary".`;
+
+        const userPrompt_HarmonizePlan = `My custom plan:
+            \`\`\`json
+            ${JSON.stringify(plan, null, 2)}
+            \`\`\`
+            The plan each section was taken from: ${JSON.stringify(sectionSources)}.
+            ${userInput ? `My original input: ${JSON.stringify(userInput)}.` : ''}
+            ${describeDietaryRestrictions(userInput?.dietaryRestrictions)}
+            ${describeLanguage(language)}
+
+            Return ONLY { "harmonizedPlan": { ... }, "summary": "..." } as a single JSON object.`;
+
+        console.log("Calling OpenAI (gpt-4o) for harmonizePlan...");
+        const completion = await getClient().chat.completions.create({
+            model: 'gpt-4o',
+            messages: [
+                { role: 'system', content: systemPrompt_HarmonizePlan },
+                { role: 'user', content: userPrompt_HarmonizePlan }
+            ],
+            temperature: 0.3,
+            response_format: { type: "json_object" },
+            max_tokens: 4000
+        });
+
+        const content = completion.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error('No content returned from OpenAI (harmonizePlan)');
+        }
+        const parsedResponse = extractAndParseJson(content);
+        if (!parsedResponse || typeof parsedResponse.harmonizedPlan !== 'object' || parsedResponse.harmonizedPlan === null) {
+            throw new Error("AI response format error: Expected { harmonizedPlan: { ... }, summary: string }.");
+        }
+        return { plan: parsedResponse.harmonizedPlan, summary: parsedResponse.summary };
+    },
+};
@@ -0,0 +1,63 @@
+// netlify/lib/rsvp.js
+// Validation for the public RSVP page actions. Guests only know the page's token; the host also holds a
+// host key, which is required to publish the page and to read the responses.
+
+// Tokens and host keys are random UUIDs created by the app
+const KEY_PATTERN = /^[a-f0-9-]{32,64}$/i;
+// Largest image kept with a page (a data URL), to stay within the function's payload limit
+const MAX_IMAGE_LENGTH = 5 * 1024 * 1024;
+const RSVP_ATTENDANCE = ['yes', 'no', 'maybe'];
+
+/** Returns true if the value looks like a token or host key created by the app. */
+export const isValidRsvpKey = (value) => typeof value === 'string' && KEY_PATTERN.test(value);
+
+/** Trims a string field and cuts it to a maximum length ('' for non-strings). */
+const cleanText = (value, maxLength) => (typeof value === 'string' ? value.trim().slice(0, maxLength) : '');
+
+/** Clamps a headcount to a whole number between 0 and 20. */
+const cleanCount = (value) => Math.min(20, Math.max(0, Math.floor(Number(value) || 0)));
+
+/**
+ * Cleans the page the host publishes; the image is dropped if it's too large.
+ * @param {object} page - The page sent by the app (title, text, template, date, time, imageUrl).
+ * @returns {object} The page fields that are stored.
+ * @throws Throws an error if the page has no text.
+ */
+export const cleanRsvpPage = (page) => {
+    const text = cleanText(page?.text, 5000);
+    if (!text) throw new Error("Missing required data (page.text) for publishRsvpPage action.");
+    const imageUrl = typeof page.imageUrl === 'string' && page.imageUrl.length <= MAX_IMAGE_LENGTH ? page.imageUrl : '';
+    return {
+        title: cleanText(page.title, 200),
+        text,
+        template: cleanText(page.template, 40),
+        date: cleanText(page.date, 10),
+        time: cleanText(page.time, 5),
+        imageUrl,
+    };
+};
+
+/**
+ * Cleans a guest's response. Responses are keyed by the guest's normalized name, so a guest who replies
+ * again (e.g., to change their answer) replaces their earlier response.
+ * @param {object} response - The response sent by the RSVP page.
+ * @returns {object} The response as stored, with an ID, key and server timestamp.
+ * @throws Throws an error if the name or attendance is missing.
+ */
+export const cleanRsvpResponse = (response) => {
+    const name = cleanText(response?.name, 100);
+    if (!name || !RSVP_ATTENDANCE.includes(response.attendance)) {
+        throw new Error(`Missing required data (name, attendance) for submitRsvp action. Attendance must be one of: ${RSVP_ATTENDANCE.join(', ')}.`);
+    }
+    const attending = response.attendance !== 'no';
+    return {
+        id: crypto.randomUUID(),
+        key: name.toLowerCase().replace(/\s+/g, ' '),
+        name,
+        attendance: response.attendance,
+        adults: attending ? cleanCount(response.adults) : 0,
+        children: attending ? cleanCount(response.children) : 0,
+        dietaryNotes: cleanText(response.dietaryNotes, 500),
+        submittedAt: new Date().toISOString(),
+    };
+};
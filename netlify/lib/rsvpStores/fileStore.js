@@ -0,0 +1,56 @@
+// netlify/lib/rsvpStores/fileStore.js
+// RSVP store that keeps one JSON file per RSVP token on the function's local disk.
+// Good for `netlify dev` and single-server setups; serverless instances don't share their disk,
+// so deployed sites should use a shared store (add one next to this file and select it with RSVP_STORE).
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Folder the RSVP files are written to (override with RSVP_DATA_DIR)
+const getDataDir = () => process.env.RSVP_DATA_DIR || join(tmpdir(), 'birthday-planner-rsvp');
+
+/** Reads the record for a token ({ page, responses }), or null if there is none. The token is validated by the handler. */
+const readRecord = async (token) => {
+    try {
+        return JSON.parse(await readFile(join(getDataDir(), `${token}.json`), 'utf8'));
+    } catch (err) {
+        if (err?.code === 'ENOENT') return null;
+        throw err;
+    }
+};
+
+/** Writes the record for a token, replacing the file in one step so readers never see half a file. */
+const writeRecord = async (token, record) => {
+    const dir = getDataDir();
+    await mkdir(dir, { recursive: true });
+    const file = join(dir, `${token}.json`);
+    await writeFile(`${file}.tmp`, JSON.stringify(record), 'utf8');
+    await rename(`${file}.tmp`, file);
+};
+
+/**
+ * File-based RSVP store.
+ * @type {import('./index.js').RsvpStore}
+ */
+export const fileStore = {
+    name: 'file',
+
+    async getPage(token) {
+        return (await readRecord(token))?.page ?? null;
+    },
+
+    async savePage(token, page) {
+        const record = await readRecord(token);
+        await writeRecord(token, { page, responses: record?.responses ?? [] });
+    },
+
+    async saveResponse(token, response) {
+        const record = await readRecord(token);
+        if (!record) throw new Error('RSVP page not found.');
+        await writeRecord(token, { ...record, responses: [...record.responses.filter(existing => existing.key !== response.key), response] });
+    },
+
+    async listResponses(token) {
+        return (await readRecord(token))?.responses ?? [];
+    },
+};
@@ -0,0 +1,36 @@
+// netlify/lib/rsvpStores/index.js
+import { fileStore } from './fileStore.js';
+
+/**
+ * Interface implemented by every storage backend for the public RSVP pages used by the openai-proxy function.
+ * Stores only persist records; the handler validates tokens, host keys and responses.
+ * @typedef {object} RsvpStore
+ * @property {string} name - Store name, as used in the RSVP_STORE environment variable.
+ * @property {(token: string) => Promise<object | null>} getPage
+ *   Returns the published page for a token (including its hostKey), or null if nothing was published.
+ * @property {(token: string, page: object) => Promise<void>} savePage
+ *   Publishes or replaces the page for a token, keeping any responses already received.
+ * @property {(token: string, response: object) => Promise<void>} saveResponse
+ *   Saves a guest's response, replacing an earlier response with the same `key` (the guest's normalized name).
+ * @property {(token: string) => Promise<object[]>} listResponses
+ *   Returns every response received for a token, oldest first.
+ */
+
+// Available stores, keyed by the RSVP_STORE value that selects them
+const STORES = {
+    file: fileStore,
+};
+
+/**
+ * Returns the store selected by the RSVP_STORE environment variable (default 'file').
+ * @returns {RsvpStore}
+ * @throws Throws an error if RSVP_STORE names an unknown store.
+ */
+export const getRsvpStore = () => {
+    const name = (process.env.RSVP_STORE || 'file').trim().toLowerCase();
+    const store = STORES[name];
+    if (!store) {
+        throw new Error(`Unknown RSVP_STORE "${name}". Expected one of: ${Object.keys(STORES).join(', ')}.`);
+    }
+    return store;
+};
@@ -0,0 +1,63 @@
+// public/sw.js
+// Service worker that keeps the app usable offline once it has been loaded (e.g., the run of show on the party day).
+// Pages are network-first with the cached app shell as fallback; same-origin assets are cached as they are fetched.
+// API calls are never cached.
+
+const CACHE_NAME = 'birthday-planner-v1';
+const APP_SHELL = ['/', '/index.html'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)));
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+    // Drop caches from older versions of this worker
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+/** Returns true for same-origin URLs that may be cached (API calls are never cached). */
+const isCacheable = (url) => url.origin === self.location.origin && !url.pathname.startsWith('/.netlify/');
+
+// The page sends the assets it loaded before this worker took control, so they are available offline too.
+// Each URL is cached on its own, so one asset that fails to load doesn't stop the others from being cached.
+self.addEventListener('message', (event) => {
+    if (event.data?.type !== 'CACHE_URLS') return;
+    const urls = event.data.urls.filter((url) => isCacheable(new URL(url)));
+    event.waitUntil(caches.open(CACHE_NAME).then((cache) => Promise.all(urls.map((url) => cache.add(url).catch(() => undefined)))));
+});
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || !isCacheable(url)) return;
+
+    // Pages: try the network first so deploys show up, fall back to the cached app shell offline
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then((response) => {
+                    const copy = response.clone();
+                    if (response.ok) caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+                    return response;
+                })
+                .catch(() => caches.match('/index.html'))
+        );
+        return;
+    }
+
+    // Assets: Vite file names are content-hashed, so a cached copy is always current
+    event.respondWith(
+        caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+            if (response.ok) {
+                const copy = response.clone();
+                caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+            }
+            return response;
+        }))
+    );
+});
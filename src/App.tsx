@@ -1,10 +1,19 @@
     // src/App.tsx
-    import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+    import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
     import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
     import Home from './pages/Home';
+    import Events from './pages/Events';
     import Results from './pages/Results';
     // Import the PlanDetail page (we will create this file next)
     import PlanDetail from './pages/PlanDetail';
+    import Guests from './pages/Guests';
+    import RunOfShow from './pages/RunOfShow';
+    import ShoppingList from './pages/ShoppingList';
+    import Invitations from './pages/Invitations';
+    import InvitationBatch from './pages/InvitationBatch';
+    import Rsvp from './pages/Rsvp';
+    import I18nProvider from './i18n/I18nProvider';
+    import LanguageSwitcher from './components/LanguageSwitcher';
     import './App.css'; // Keep existing App CSS import if present
 
     // Create a client instance for React Query
@@ -15,24 +24,54 @@
      */
     function App() {
     	return (
+    		<I18nProvider>
     		<QueryClientProvider client={queryClient}>
     			<Router>
     				<Routes>
     					{/* Route for the home page (input form) */}
     					<Route path="/" element={<Home />} />
 
-    					{/* Route for the results page (displaying plan cards) */}
-    					<Route path="/results" element={<Results />} />
+    					{/* Route for the events dashboard (one card per planned party) */}
+    					<Route path="/events" element={<Events />} />
+
+    					{/* Route for the results page (displaying plan cards of one event) */}
+    					{/* ':eventId' is a URL parameter that will hold the specific event's ID */}
+    					<Route path="/events/:eventId/results" element={<Results />} />
 
     					{/* ** ADDED: Route for the plan detail page ** */}
     					{/* ':planId' is a URL parameter that will hold the specific plan's ID */}
-    					<Route path="/plan/:planId" element={<PlanDetail />} />
+    					<Route path="/events/:eventId/plan/:planId" element={<PlanDetail />} />
+
+    					{/* Route for the day-of run of show of a plan */}
+    					<Route path="/events/:eventId/plan/:planId/run" element={<RunOfShow />} />
+
+    					{/* Route for a plan's shopping list */}
+    					<Route path="/events/:eventId/plan/:planId/shopping" element={<ShoppingList />} />
+
+    					{/* Route for an event's guest list and RSVPs */}
+    					<Route path="/events/:eventId/guests" element={<Guests />} />
+
+    					{/* Route for an event's saved invitations */}
+    					<Route path="/events/:eventId/invitations" element={<Invitations />} />
+
+    					{/* Route for personalizing one invitation for every guest or household */}
+    					<Route path="/events/:eventId/invitations/:invitationId/personalize" element={<InvitationBatch />} />
+
+    					{/* Public route guests open from the invitation link to reply */}
+    					<Route path="/rsvp/:token" element={<Rsvp />} />
+
+    					{/* Old single-event routes now redirect to the events dashboard */}
+    					<Route path="/results" element={<Navigate to="/events" replace />} />
+    					<Route path="/plan/:planId" element={<Navigate to="/events" replace />} />
 
                         {/* Optional: Add a catch-all route for 404 Not Found */}
                         {/* <Route path="*" element={<NotFoundPage />} /> */}
     				</Routes>
+    				{/* Language selector, shown on every page */}
+    				<LanguageSwitcher />
     			</Router>
     		</QueryClientProvider>
+    		</I18nProvider>
     	);
     }
 
@@ -0,0 +1,150 @@
+// src/components/BudgetLedger.tsx
+import { useMemo } from 'react';
+import type { BudgetCategory, LedgerItem } from '../types';
+import { BUDGET_CATEGORIES, BUDGET_CATEGORY_LABELS, createLedgerItem, summarizeLedger } from '../utils/ledger';
+import { formatAmount } from '../utils/cost';
+import { useTranslation } from '../i18n/I18nContext';
+
+/**
+ * Props for the BudgetLedger component.
+ */
+interface BudgetLedgerProps {
+    items: LedgerItem[]; // The plan's line items
+    onChange: (items: LedgerItem[]) => void; // Called with the full list after every change
+    onImportEstimates: () => void; // Adds line items from the plan's AI cost estimates
+    budgetAmount: number; // The user's target budget
+    currency: string; // The budget currency
+}
+
+/**
+ * BudgetLedger Component
+ * Tracks real spending for a plan as line items (category, vendor, estimated vs actual amount, paid flag),
+ * with per-category totals, the remaining budget and an over-budget warning.
+ */
+export default function BudgetLedger({ items, onChange, onImportEstimates, budgetAmount, currency }: BudgetLedgerProps) {
+    const { t } = useTranslation();
+    // Recompute totals only when the items or budget change
+    const summary = useMemo(() => summarizeLedger(items, budgetAmount), [items, budgetAmount]);
+
+    /** Updates a single field of a line item. */
+    const handleItemChange = <K extends keyof LedgerItem>(id: string, field: K, value: LedgerItem[K]) => {
+        onChange(items.map(item => (item.id === id ? { ...item, [field]: value } : item)));
+    };
+
+    /** Parses an amount input; blank inputs become undefined (so 'actual' can be cleared). */
+    const parseAmount = (value: string): number | undefined => {
+        if (value.trim() === '') return undefined;
+        const amount = Number(value);
+        return Number.isFinite(amount) ? Math.max(0, amount) : undefined;
+    };
+
+    const handleAddItem = () => onChange([...items, createLedgerItem()]);
+    const handleRemoveItem = (id: string) => onChange(items.filter(item => item.id !== id));
+
+    const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+    return (
+        <div className="space-y-4">
+            {/* Over-budget warning */}
+            {summary.isOverBudget && (
+                <div className="p-3 bg-red-100 border border-red-300 text-red-800 rounded-md text-sm" role="alert">
+                    <strong>{t('ledger.overBudget')}</strong> {t('ledger.overBudgetDetail', { over: `${formatAmount(-summary.remaining)} ${currency}`, budget: `${formatAmount(budgetAmount)} ${currency}` })}
+                </div>
+            )}
+
+            {/* Line Items */}
+            {items.length === 0 ? (
+                <div className="text-sm text-gray-500 italic">
+                    {t('ledger.empty')}{' '}
+                    <button onClick={onImportEstimates} className="text-indigo-600 hover:underline not-italic font-medium">{t('ledger.import')}</button>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-start text-xs uppercase text-gray-500 border-b border-gray-200">
+                                <th className="py-2 pe-2">{t('ledger.item')}</th>
+                                <th className="py-2 pe-2">{t('ledger.category')}</th>
+                                <th className="py-2 pe-2">{t('ledger.vendor')}</th>
+                                <th className="py-2 pe-2">{t('ledger.estimated')}</th>
+                                <th className="py-2 pe-2">{t('ledger.actual')}</th>
+                                <th className="py-2 pe-2 text-center">{t('ledger.paid')}</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {items.map(item => (
+                                <tr key={item.id} className="border-b border-gray-100 align-top">
+                                    <td className="py-2 pe-2 min-w-[10rem]">
+                                        <input type="text" value={item.description} onChange={(e) => handleItemChange(item.id, 'description', e.target.value)} placeholder={t('ledger.descriptionPlaceholder')} className={inputClass} aria-label={t('ledger.descriptionAria')} />
+                                    </td>
+                                    <td className="py-2 pe-2">
+                                        <select value={item.category} onChange={(e) => handleItemChange(item.id, 'category', e.target.value as BudgetCategory)} className={inputClass} aria-label={t('ledger.category')}>
+                                            {BUDGET_CATEGORIES.map(category => <option key={category} value={category}>{t(BUDGET_CATEGORY_LABELS[category])}</option>)}
+                                        </select>
+                                    </td>
+                                    <td className="py-2 pe-2 min-w-[8rem]">
+                                        <input type="text" value={item.vendor} onChange={(e) => handleItemChange(item.id, 'vendor', e.target.value)} className={inputClass} aria-label={t('ledger.vendor')} />
+                                    </td>
+                                    <td className="py-2 pe-2 w-28">
+                                        <input type="number" min="0" value={item.estimated} onChange={(e) => handleItemChange(item.id, 'estimated', parseAmount(e.target.value) ?? 0)} className={inputClass} aria-label={t('ledger.estimatedAria')} />
+                                    </td>
+                                    <td className="py-2 pe-2 w-28">
+                                        <input type="number" min="0" value={item.actual ?? ''} onChange={(e) => handleItemChange(item.id, 'actual', parseAmount(e.target.value))} placeholder="—" className={inputClass} aria-label={t('ledger.actualAria')} />
+                                    </td>
+                                    <td className="py-2 pe-2 text-center">
+                                        <input type="checkbox" checked={item.paid} onChange={(e) => handleItemChange(item.id, 'paid', e.target.checked)} className="h-4 w-4 mt-1.5" aria-label={t('ledger.paid')} />
+                                    </td>
+                                    <td className="py-2 text-end">
+                                        <button onClick={() => handleRemoveItem(item.id)} className="text-red-500 hover:text-red-700 text-xs font-medium px-2 py-1.5" aria-label={t('ledger.removeAria')}>{t('common.remove')}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <button onClick={handleAddItem} className="px-3 py-1 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-400">
+                {t('ledger.add')}
+            </button>
+
+            {/* Category Totals */}
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-start text-xs uppercase text-gray-500 border-b border-gray-200">
+                        <th className="py-2 pe-2">{t('ledger.category')}</th>
+                        <th className="py-2 pe-2 text-end">{t('ledger.estimated')}</th>
+                        <th className="py-2 pe-2 text-end">{t('ledger.actual')}</th>
+                        <th className="py-2 text-end">{t('ledger.paid')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {BUDGET_CATEGORIES.map(category => (
+                        <tr key={category} className="border-b border-gray-100 text-gray-700">
+                            <td className="py-1.5 pe-2">{t(BUDGET_CATEGORY_LABELS[category])}</td>
+                            <td className="py-1.5 pe-2 text-end">{formatAmount(summary.byCategory[category].estimated)}</td>
+                            <td className="py-1.5 pe-2 text-end">{formatAmount(summary.byCategory[category].actual)}</td>
+                            <td className="py-1.5 text-end">{formatAmount(summary.byCategory[category].paid)}</td>
+                        </tr>
+                    ))}
+                    <tr className="font-semibold text-gray-800">
+                        <td className="py-2 pe-2">{t('ledger.total', { currency })}</td>
+                        <td className="py-2 pe-2 text-end">{formatAmount(summary.total.estimated)}</td>
+                        <td className="py-2 pe-2 text-end">{formatAmount(summary.total.actual)}</td>
+                        <td className="py-2 text-end">{formatAmount(summary.total.paid)}</td>
+                    </tr>
+                </tbody>
+            </table>
+
+            {/* Remaining Budget */}
+            {budgetAmount > 0 && (
+                <p className={`text-sm font-medium ${summary.isOverBudget ? 'text-red-700' : 'text-green-700'}`}>
+                    {summary.isOverBudget
+                        ? t('ledger.exceedsBy', { amount: `${formatAmount(-summary.remaining)} ${currency}` })
+                        : t('ledger.remaining', { remaining: formatAmount(summary.remaining), budget: `${formatAmount(budgetAmount)} ${currency}` })}
+                    <span className="block text-xs font-normal text-gray-500">{t('ledger.note')}</span>
+                </p>
+            )}
+        </div>
+    );
+}
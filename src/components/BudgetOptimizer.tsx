@@ -2,9 +2,12 @@
 import { useState } from 'react';
 // Import necessary types
 // Removed unused types: SmartInvitation, Venue, Catering, GuestEngagement, ScheduleItem, CateringMenu, and UserInput
-import type { BirthdayPlan, BudgetPriorities } from '../types'; // Keep BudgetPriorities as it's used
+import type { BirthdayPlan, BudgetPriorities, DietaryRestrictions } from '../types'; // Keep BudgetPriorities as it's used
 // Import the API utility function
 import { optimizeBudget } from '../utils/api'; // Ensure path is correct
+// Import the review step shown before an optimized plan is saved
+import OptimizationReview from './OptimizationReview';
+import { useTranslation } from '../i18n/I18nContext';
 
 /**
  * Props for the BudgetOptimizer component.
@@ -15,19 +18,23 @@ interface BudgetOptimizerProps {
     onPlanUpdate: (plan: BirthdayPlan) => void; // Callback to update the parent with the optimized plan
     numericBudget: number; // The target budget amount
     currency: string; // The currency symbol/code
+    dietaryRestrictions?: DietaryRestrictions; // Restrictions the optimized menu must still meet
 }
 
 /**
  * BudgetOptimizer Component
  * Provides sliders for users to set budget priorities for different categories (venue, food, etc.).
  * Triggers an API call to optimize the selected birthday plan based on these priorities and a target budget.
+ * The optimized plan is shown as a reviewable diff; only the changes the user accepts are passed to 'onPlanUpdate'.
  */
 export default function BudgetOptimizer({
     selectedPlan,
     onPlanUpdate,
     numericBudget,
-    currency
+    currency,
+    dietaryRestrictions
 }: BudgetOptimizerProps) {
+    const { t, locale } = useTranslation();
 
     // State for storing user-defined budget priorities (scale 1-5)
     const [priorities, setPriorities] = useState<BudgetPriorities>({
@@ -43,6 +50,8 @@ export default function BudgetOptimizer({
     const [isLoading, setIsLoading] = useState(false);
     // State for displaying errors encountered during optimization
     const [error, setError] = useState<string | null>(null);
+    // State for the optimized plan awaiting review (null while choosing priorities)
+    const [proposedPlan, setProposedPlan] = useState<BirthdayPlan | null>(null);
 
     /**
      * Handles changes to the priority sliders.
@@ -60,7 +69,7 @@ export default function BudgetOptimizer({
     /**
      * Handles the click event for the "Optimize Budget" button.
      * Sends the current plan, priorities, and budget details to the backend API.
-     * Calls 'onPlanUpdate' with the optimized plan received from the API.
+     * Shows the optimized plan received from the API in the review step.
      */
     const handleOptimize = async () => {
         setIsLoading(true); // Indicate loading state
@@ -73,23 +82,23 @@ export default function BudgetOptimizer({
                 selectedPlan,
                 priorities,
                 numericBudget,
-                currency
+                currency,
+                dietaryRestrictions
             );
 
             // Check if the API response contains the expected optimized plan data
             if (result && result.optimizedPlan) {
-                onPlanUpdate(result.optimizedPlan); // Pass the optimized plan back to the parent component
-                console.log("Budget optimization successful.");
-                // Parent/modal wrapper typically handles closing the modal.
+                setProposedPlan(result.optimizedPlan); // Hold the optimized plan for review before anything is saved
+                console.log("Budget optimization successful, awaiting review.");
             } else {
                 // Handle cases where the API call succeeded but returned an unexpected structure
                 console.error("Invalid response structure from optimizeBudget API:", result);
-                throw new Error("Received an unexpected response from the budget optimizer.");
+                throw new Error(t('optimizer.unexpectedResponse'));
             }
         } catch (err) {
             // Handle errors during the API call (network issues, backend errors)
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`Failed to optimize budget: ${errorMessage}`);
+            const errorMessage = err instanceof Error ? err.message : t('common.unknownError');
+            setError(t('optimizer.error', { message: errorMessage }));
             console.error("Budget Optimization Error:", err);
         } finally {
             // Ensure loading state is turned off after the operation completes
@@ -97,19 +106,33 @@ export default function BudgetOptimizer({
         }
     };
 
+    // --- Render Review Step ---
+    if (proposedPlan) {
+        return (
+            <div className="bg-gradient-to-r from-indigo-50 via-purple-50 to-pink-50 rounded-lg shadow-md p-6 max-w-2xl mx-auto border border-indigo-100">
+                <OptimizationReview
+                    currentPlan={selectedPlan}
+                    proposedPlan={proposedPlan}
+                    onApply={onPlanUpdate} // Parent/modal wrapper typically handles closing the modal.
+                    onDiscard={() => setProposedPlan(null)} // Back to the priority sliders
+                />
+            </div>
+        );
+    }
+
     // --- Render Component UI ---
     return (
         // Main container with background gradient and styling
         <div className="bg-gradient-to-r from-indigo-50 via-purple-50 to-pink-50 rounded-lg shadow-md p-6 max-w-2xl mx-auto border border-indigo-100">
-            <h2 className="text-2xl font-bold mb-3 text-indigo-800">Budget Optimizer</h2>
+            <h2 className="text-2xl font-bold mb-3 text-indigo-800">{t('optimizerModal.title')}</h2>
             {/* Display the target budget */}
             <p className="text-sm text-gray-600 mb-4">
-                Adjust priorities to optimize the selected plan towards your budget of:
-                <strong className="ml-1">{numericBudget.toLocaleString()} {currency}</strong>.
+                {t('optimizer.intro')}
+                <strong className="ms-1">{numericBudget.toLocaleString(locale)} {currency}</strong>.
             </p>
             {/* Instructions for the user */}
             <p className="text-gray-600 mb-6 text-sm">
-                Rate the importance of each category (1 = Least Important, 5 = Most Important). The AI will suggest adjustments based on your priorities and budget.
+                {t('optimizer.instructions')}
             </p>
             {/* Container for the priority sliders */}
             <div className="space-y-5">
@@ -118,9 +141,8 @@ export default function BudgetOptimizer({
                     <div key={category}>
                         {/* Label showing category name and current priority value */}
                         <div className="flex justify-between items-center mb-1">
-                            <label className="text-sm font-medium text-gray-800 capitalize">
-                                {/* Format category name for display (e.g., 'partyFavors' -> 'Party Favors') */}
-                                {category.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
+                            <label className="text-sm font-medium text-gray-800">
+                                {t(`optimizer.priority.${category}`)}
                             </label>
                             <span className="text-sm font-semibold text-indigo-600 bg-indigo-100 px-2 py-0.5 rounded">
                                 {priorities[category]}/5 {/* Display current value */}
@@ -152,7 +174,7 @@ export default function BudgetOptimizer({
                         disabled={isLoading} // Disable button during API call
                         className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md shadow hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-wait focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-opacity-50 transition duration-150 ease-in-out"
                     >
-                        {isLoading ? 'Optimizing...' : 'Optimize Budget'}
+                        {isLoading ? t('optimizer.optimizing') : t('planDetail.optimize')}
                     </button>
                 </div>
             </div>
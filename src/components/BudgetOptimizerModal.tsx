@@ -1,6 +1,7 @@
 import React from 'react';
 // Import the actual optimizer logic component
 import BudgetOptimizer from './BudgetOptimizer';
+import { useTranslation } from '../i18n/I18nContext';
 // Import necessary types
 import type { BirthdayPlan, UserInput } from '../types';
 
@@ -26,6 +27,7 @@ const BudgetOptimizerModal: React.FC<BudgetOptimizerModalProps> = ({
     userInput,
     onPlanUpdate, // This connects to handleBudgetOptimized (or similar) in the parent (PlanDetail)
 }) => {
+    const { t } = useTranslation();
 
     // Early return if the modal shouldn't be open or if essential data is missing.
     // This prevents rendering the optimizer without required props.
@@ -48,9 +50,9 @@ const BudgetOptimizerModal: React.FC<BudgetOptimizerModalProps> = ({
             <div className={`bg-white rounded-lg shadow-xl w-full max-w-2xl transform transition-all duration-300 ease-in-out ${isOpen ? 'scale-100 opacity-100' : 'scale-95 opacity-0'} flex flex-col max-h-[90vh]`}>
                 {/* Modal Header */}
                 <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
-                    <h3 className="text-lg font-medium leading-6 text-gray-900">Budget Optimizer</h3>
+                    <h3 className="text-lg font-medium leading-6 text-gray-900">{t('optimizerModal.title')}</h3>
                     {/* Close button */}
-                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label="Close modal">
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label={t('common.closeModal')}>
                         {/* Close icon (X) */}
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                     </button>
@@ -70,13 +72,14 @@ const BudgetOptimizerModal: React.FC<BudgetOptimizerModalProps> = ({
                             onPlanUpdate={onPlanUpdate} // Pass the callback function
                             numericBudget={userInput.budgetAmount} // Pass budget amount (non-null due to check)
                             currency={userInput.currency} // Pass currency (non-null due to check)
+                            dietaryRestrictions={userInput.dietaryRestrictions} // The optimized menu must still meet these
                         />
                     )}
                 </div>
 
                  {/* Modal Footer - provides a consistent close button */}
-                 <div className="flex justify-end space-x-3 p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
-                     <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">Close</button>
+                 <div className="flex justify-end space-x-3 rtl:space-x-reverse p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
+                     <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">{t('common.close')}</button>
                  </div>
             </div>
         </div>
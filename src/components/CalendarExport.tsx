@@ -0,0 +1,69 @@
+// src/components/CalendarExport.tsx
+import { useState } from 'react';
+import type { BirthdayPlan } from '../types';
+import { buildPlanCalendar, downloadCalendarFile } from '../utils/calendar';
+import { useTranslation } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n/messages/en';
+
+/**
+ * Props for the CalendarExport component.
+ */
+interface CalendarExportProps {
+    plan: BirthdayPlan; // The plan to export (must have a date)
+    eventId: string; // Used for stable event UIDs, so re-importing updates the same calendar entries
+}
+
+// Reminder choices, in minutes before the party
+const REMINDER_OPTIONS: { label: MessageKey; minutes: number | null }[] = [
+    { label: 'calendar.reminder.none', minutes: null },
+    { label: 'calendar.reminder.hour', minutes: 60 },
+    { label: 'calendar.reminder.day', minutes: 24 * 60 },
+    { label: 'calendar.reminder.week', minutes: 7 * 24 * 60 },
+];
+
+/**
+ * CalendarExport Component
+ * Downloads the plan as an .ics file (the party, with the venue as location and a reminder),
+ * optionally with every schedule item as its own calendar event.
+ */
+export default function CalendarExport({ plan, eventId }: CalendarExportProps) {
+    const { t } = useTranslation();
+    const [includeSchedule, setIncludeSchedule] = useState<boolean>(true);
+    const [reminderMinutes, setReminderMinutes] = useState<number | null>(24 * 60);
+    const [error, setError] = useState<string | null>(null);
+
+    /** Builds the calendar file and starts the download. */
+    const handleExport = () => {
+        setError(null);
+        try {
+            const contents = buildPlanCalendar(plan, { includeSchedule, reminderMinutes, uidPrefix: eventId });
+            // Build a file name from the plan name (e.g., "noas-space-gala.ics")
+            const slug = plan.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'birthday-party';
+            downloadCalendarFile(`${slug}.ics`, contents);
+        } catch (err) {
+            console.error("CalendarExport: Error building calendar file:", err);
+            setError(err instanceof Error ? err.message : t('calendar.error'));
+        }
+    };
+
+    return (
+        <div className="mt-3 pt-3 border-t border-gray-100 flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2 text-gray-700">
+                <input type="checkbox" checked={includeSchedule} onChange={(e) => setIncludeSchedule(e.target.checked)} className="h-4 w-4" />
+                {t('calendar.includeSchedule')}
+            </label>
+            <select
+                value={reminderMinutes ?? ''}
+                onChange={(e) => setReminderMinutes(e.target.value === '' ? null : Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                aria-label={t('calendar.reminder')}
+            >
+                {REMINDER_OPTIONS.map(option => <option key={option.label} value={option.minutes ?? ''}>{t(option.label)}</option>)}
+            </select>
+            <button onClick={handleExport} className="px-3 py-1 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                {t('calendar.add')}
+            </button>
+            {error && <p className="w-full text-red-500 text-sm">{error}</p>}
+        </div>
+    );
+}
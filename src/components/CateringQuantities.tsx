@@ -0,0 +1,97 @@
+// src/components/CateringQuantities.tsx
+import { useState, useEffect, useMemo } from 'react';
+import type { CateringMenu } from '../types';
+import { DEFAULT_PARTY_MINUTES, estimateCateringQuantities } from '../utils/cateringQuantities';
+import { formatAmount } from '../utils/cost';
+import { useTranslation } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Translations of the purchase units estimateCateringQuantities uses
+const UNIT_KEYS: Record<string, MessageKey> = {
+    pieces: 'quantities.unit.pieces',
+    kg: 'quantities.unit.kg',
+    servings: 'quantities.unit.servings',
+    L: 'quantities.unit.liters',
+};
+
+/**
+ * Props for the CateringQuantities component.
+ */
+interface CateringQuantitiesProps {
+    menu: Partial<CateringMenu> | undefined; // The menu to estimate quantities for
+    adults: number; // Starting adult count (e.g., from the guest list)
+    children: number; // Starting child count
+    partyMinutes?: number | null; // Party length from the schedule, if known
+}
+
+/**
+ * CateringQuantities Component
+ * Estimates servings and purchase quantities for every menu item. The guest counts and party length
+ * start from the event but can be adjusted here to try other scenarios; nothing is saved.
+ */
+export default function CateringQuantities({ menu, adults, children, partyMinutes }: CateringQuantitiesProps) {
+    const { t, locale } = useTranslation();
+    const [adultCount, setAdultCount] = useState<number>(adults);
+    const [childCount, setChildCount] = useState<number>(children);
+    const [hours, setHours] = useState<number>((partyMinutes || DEFAULT_PARTY_MINUTES) / 60);
+
+    // Follow the event's counts and party length when they change
+    useEffect(() => { setAdultCount(adults); }, [adults]);
+    useEffect(() => { setChildCount(children); }, [children]);
+    useEffect(() => { setHours((partyMinutes || DEFAULT_PARTY_MINUTES) / 60); }, [partyMinutes]);
+
+    const quantities = useMemo(
+        () => estimateCateringQuantities(menu, { adults: adultCount, children: childCount, partyMinutes: hours * 60 }),
+        [menu, adultCount, childCount, hours]
+    );
+
+    /** Reads a non-negative number from an input, treating blanks as 0. */
+    const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+            <h4 className="text-md font-semibold text-gray-800 mb-2">{t('quantities.title')}</h4>
+            <div className="grid grid-cols-3 gap-2 mb-3 text-sm">
+                <label className="block">
+                    <span className="block text-xs font-medium text-gray-600">{t('form.adults')}</span>
+                    <input type="number" min={0} value={adultCount} onChange={(e) => setAdultCount(toNumber(e.target.value))} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                </label>
+                <label className="block">
+                    <span className="block text-xs font-medium text-gray-600">{t('form.children')}</span>
+                    <input type="number" min={0} value={childCount} onChange={(e) => setChildCount(toNumber(e.target.value))} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                </label>
+                <label className="block">
+                    <span className="block text-xs font-medium text-gray-600">{t('quantities.hours')}</span>
+                    <input type="number" min={0.5} step={0.5} value={hours} onChange={(e) => setHours(toNumber(e.target.value))} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                </label>
+            </div>
+
+            {quantities.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">{t('quantities.empty')}</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-start text-xs text-gray-500 border-b border-gray-200">
+                            <th className="py-1 font-medium">{t('quantities.item')}</th>
+                            <th className="py-1 font-medium text-end">{t('quantities.servings')}</th>
+                            <th className="py-1 font-medium text-end">{t('quantities.buy')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {quantities.map((quantity, index) => (
+                            <tr key={`${quantity.category}-${index}`} className="border-b border-gray-100">
+                                <td className="py-1 pe-2 text-gray-700">
+                                    {quantity.item}
+                                    <span className="block text-xs text-gray-400">{t(`plan.section.${quantity.category}`)}</span>
+                                </td>
+                                <td className="py-1 text-end text-gray-700">{formatAmount(quantity.servings)}</td>
+                                <td className="py-1 text-end text-gray-800 font-medium">{quantity.purchaseAmount.toLocaleString(locale, { maximumFractionDigits: 1 })} {UNIT_KEYS[quantity.purchaseUnit] ? t(UNIT_KEYS[quantity.purchaseUnit]) : quantity.purchaseUnit}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <p className="mt-2 text-xs text-gray-400">{t('quantities.note')}</p>
+        </div>
+    );
+}
@@ -0,0 +1,221 @@
+// src/components/CompositePlanModal.tsx
+import React, { useState, useEffect } from 'react';
+import OptimizationReview from './OptimizationReview';
+import { harmonizePlan } from '../utils/api';
+import { buildCompositePlan, createCompositeSelection, describeCompositeSources } from '../utils/compositePlan';
+import type { CompositeSelection } from '../utils/compositePlan';
+import { PLAN_SECTIONS } from '../schema/plan';
+import type { BirthdayPlan, PlanSection, UserInput } from '../types';
+import { useTranslation } from '../i18n/I18nContext';
+import { getProfileLabel } from '../i18n/language';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Define props for the mix & match modal
+interface CompositePlanModalProps {
+    isOpen: boolean; // Controls modal visibility
+    onClose: () => void; // Function to close the modal
+    plans: BirthdayPlan[]; // The plans the sections can be taken from
+    userInput: UserInput | null; // Original user input (location, guests, budget)
+    onSave: (plan: BirthdayPlan) => void; // Called with the new custom plan
+}
+
+// Display titles for the plan sections
+const SECTION_TITLES: Record<PlanSection, MessageKey> = {
+    venue: 'plan.section.venue',
+    schedule: 'plan.section.schedule',
+    catering: 'plan.section.catering',
+    guestEngagement: 'plan.section.guestEngagement',
+    decorations: 'plan.section.decorations',
+};
+
+// The custom plan as put together and the harmonized version, shown for review
+interface HarmonizedResult {
+    composite: BirthdayPlan;
+    harmonized: BirthdayPlan;
+    summary: string;
+}
+
+/**
+ * CompositePlanModal Component
+ * Builds a new "Custom" plan by picking each section from one of the plans.
+ * The plan can be saved as it is, or harmonized first (the sections adjusted to fit together)
+ * with every change shown for review before anything is saved.
+ */
+const CompositePlanModal: React.FC<CompositePlanModalProps> = ({
+    isOpen,
+    onClose,
+    plans,
+    userInput,
+    onSave,
+}) => {
+    const { t, language } = useTranslation();
+    const [selection, setSelection] = useState<CompositeSelection | null>(null);
+    const [name, setName] = useState<string>('');
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<HarmonizedResult | null>(null);
+
+    // Reset the modal whenever it opens, starting with every section from the first plan
+    useEffect(() => {
+        if (isOpen) {
+            setSelection(plans.length > 0 ? createCompositeSelection(plans[0].id) : null);
+            setName(t('composite.defaultName'));
+            setIsLoading(false);
+            setError(null);
+            setResult(null);
+        }
+    }, [isOpen, plans, t]);
+
+    if (!isOpen || !selection) {
+        return null;
+    }
+
+    const planFor = (section: PlanSection) => plans.find(plan => plan.id === selection[section]);
+
+    /** Short preview of a section of a plan, shown under its picker. */
+    const sectionPreview = (plan: BirthdayPlan | undefined, section: PlanSection): string => {
+        if (!plan) return '';
+        switch (section) {
+            case 'venue':
+                return plan.venue?.name ?? '';
+            case 'schedule':
+                return t('composite.scheduleItems', { count: plan.schedule.length, items: plan.schedule.map(item => item.activity).join(', ') });
+            case 'catering':
+                return [plan.catering?.servingStyle, ...(plan.catering?.menu?.mainCourses ?? [])].filter(Boolean).join(' · ');
+            case 'guestEngagement':
+                return (plan.guestEngagement?.interactiveElements ?? []).join(', ');
+            case 'decorations':
+                return plan.decorations
+                    ? plan.decorations.colorPalette.join(', ')
+                    : t('composite.notIncluded', { section: t(SECTION_TITLES[section]).toLowerCase() });
+        }
+    };
+
+    /** Builds the custom plan from the current selection. */
+    const buildPlan = (): BirthdayPlan => {
+        const sources = PLAN_SECTIONS.map(section => `${t(SECTION_TITLES[section])}: ${planFor(section)?.name ?? ''}`).join('; ');
+        return buildCompositePlan(plans, selection, {
+            name: name.trim() || t('composite.defaultName'),
+            description: t('composite.description', { sources }),
+        });
+    };
+
+    /** Saves the custom plan without changes. */
+    const handleSaveAsIs = () => {
+        onSave(buildPlan());
+    };
+
+    /** Asks the backend to make the picked sections fit together, then shows the changes for review. */
+    const handleHarmonize = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const composite = buildPlan();
+            const response = await harmonizePlan(composite, describeCompositeSources(plans, selection), userInput ?? undefined);
+            setResult({ composite, harmonized: response.harmonizedPlan, summary: response.summary });
+        } catch (err) {
+            console.error("CompositePlanModal: Error harmonizing plan:", err);
+            setError(err instanceof Error ? err.message : t('composite.harmonizeError'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        // Modal backdrop
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 transition-opacity duration-300 ease-in-out p-4">
+            {/* Modal panel */}
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl transform transition-all duration-300 ease-in-out flex flex-col max-h-[90vh]">
+                {/* Modal Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+                    <h3 className="text-lg font-medium leading-6 text-gray-900">{t('composite.title')}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label={t('common.closeModal')}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+
+                {/* Modal Body */}
+                <div className="p-6 overflow-y-auto flex-grow">
+                    {result ? (
+                        // Review step: accept or reject the harmonizer's changes field by field
+                        <div className="space-y-4">
+                            <div className="p-3 border border-indigo-200 rounded-md bg-indigo-50 text-sm text-indigo-900">
+                                <p className="font-semibold mb-1">{t('composite.summaryTitle')}</p>
+                                <p className="whitespace-pre-wrap">{result.summary}</p>
+                            </div>
+                            <OptimizationReview
+                                currentPlan={result.composite}
+                                proposedPlan={result.harmonized}
+                                onApply={onSave}
+                                onDiscard={() => setResult(null)} // Back to the picking step
+                                noChangesText={t('composite.noChanges')}
+                            />
+                        </div>
+                    ) : (
+                        // Picking step: one source plan per section
+                        <div className="space-y-4">
+                            <p className="text-sm text-gray-600">{t('composite.intro')}</p>
+                            <div>
+                                <label htmlFor="composite-name" className="block text-sm font-medium text-gray-700 mb-1">{t('composite.name')}</label>
+                                <input
+                                    id="composite-name"
+                                    type="text"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    disabled={isLoading}
+                                    className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                                />
+                            </div>
+                            {PLAN_SECTIONS.map(section => (
+                                <div key={section} className="border border-gray-200 rounded-md p-3">
+                                    <label htmlFor={`composite-${section}`} className="block text-sm font-medium text-gray-700 mb-1">
+                                        {t('composite.takeFrom', { section: t(SECTION_TITLES[section]).toLowerCase() })}
+                                    </label>
+                                    <select
+                                        id={`composite-${section}`}
+                                        value={selection[section]}
+                                        onChange={(e) => setSelection({ ...selection, [section]: e.target.value })}
+                                        disabled={isLoading}
+                                        className="w-full p-2 border border-gray-300 rounded-md shadow-sm bg-white focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                                    >
+                                        {plans.map(plan => (
+                                            <option key={plan.id} value={plan.id}>
+                                                {plan.profile ? `${plan.name} (${getProfileLabel(language, plan.profile)})` : plan.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <p className="mt-1 text-xs text-gray-500 line-clamp-2">{sectionPreview(planFor(section), section)}</p>
+                                </div>
+                            ))}
+                            <p className="text-xs text-gray-500">{t('composite.harmonizeHint')}</p>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+                            <div className="flex flex-col sm:flex-row gap-3">
+                                <button
+                                    onClick={handleSaveAsIs}
+                                    disabled={isLoading}
+                                    className="flex-1 px-4 py-2 text-sm font-semibold text-indigo-700 border border-indigo-300 rounded-md hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                                >
+                                    {t('composite.saveAsIs')}
+                                </button>
+                                <button
+                                    onClick={handleHarmonize}
+                                    disabled={isLoading}
+                                    className="flex-1 px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-md shadow hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                                >
+                                    {isLoading ? t('composite.harmonizing') : t('composite.harmonize')}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Modal Footer */}
+                <div className="flex justify-end space-x-3 rtl:space-x-reverse p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">{t('common.close')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CompositePlanModal;
@@ -0,0 +1,78 @@
+// src/components/DietaryCheck.tsx
+import { useMemo } from 'react';
+import type { Catering, DietaryRestrictions } from '../types';
+import { findDietaryConflicts, getMenuDietInfo, hasDietaryRestrictions } from '../utils/dietary';
+import { useTranslation } from '../i18n/I18nContext';
+
+/**
+ * Props for the DietaryCheck component.
+ */
+interface DietaryCheckProps {
+    catering: Partial<Catering> | undefined; // The plan's catering section
+    restrictions: DietaryRestrictions | undefined; // The user's dietary restrictions, if any
+}
+
+/**
+ * DietaryCheck Component
+ * Checks the menu against the user's dietary restrictions and flags every conflicting item,
+ * then lists the allergens of each menu item. Runs on every render, so it also covers manual edits.
+ */
+export default function DietaryCheck({ catering, restrictions }: DietaryCheckProps) {
+    const { t } = useTranslation();
+    const menuInfo = useMemo(() => getMenuDietInfo(catering), [catering]);
+    const conflicts = useMemo(() => findDietaryConflicts(catering, restrictions), [catering, restrictions]);
+
+    if (menuInfo.length === 0) return null;
+
+    const restrictionLabels = hasDietaryRestrictions(restrictions)
+        ? [...restrictions.allergens.map(allergen => t('dietary.noAllergen', { allergen: t(`allergen.${allergen}`).toLowerCase() })), ...restrictions.diets.map(diet => t(`diet.${diet}`))]
+        : [];
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+            <h4 className="text-md font-semibold text-gray-800 mb-2">{t('dietary.title')}</h4>
+            {restrictionLabels.length > 0 ? (
+                <>
+                    <p className="text-sm text-gray-600 mb-2"><span className="font-medium text-gray-800">{t('dietary.requirements')}</span> {restrictionLabels.join(' · ')}</p>
+                    {conflicts.length > 0 ? (
+                        <div className="p-3 mb-3 text-sm text-red-700 bg-red-100 border border-red-300 rounded-md">
+                            <p className="font-medium mb-1">{t(conflicts.length === 1 ? 'dietary.conflicts.one' : 'dietary.conflicts.other', { count: conflicts.length })}</p>
+                            <ul className="list-disc list-inside space-y-0.5">
+                                {conflicts.map(conflict => (
+                                    <li key={`${conflict.category}-${conflict.item}`}>
+                                        <span className="font-medium">{conflict.item}</span>
+                                        {' - '}
+                                        {[
+                                            ...conflict.allergens.map(allergen => t('dietary.contains', { allergen: t(`allergen.${allergen}`).toLowerCase() })),
+                                            ...conflict.diets.map(diet => t('dietary.notDiet', { diet: t(`diet.${diet}`).toLowerCase() })),
+                                        ].join(', ')}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ) : (
+                        <p className="p-3 mb-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">✓ {t('dietary.allFit')}</p>
+                    )}
+                </>
+            ) : (
+                <p className="text-sm text-gray-500 italic mb-2">{t('dietary.none')}</p>
+            )}
+            {/* Allergens per item, whether tagged by the planner or detected from the name */}
+            <ul className="text-sm space-y-1">
+                {menuInfo.map(info => (
+                    <li key={`${info.category}-${info.item}`} className="flex flex-wrap items-center gap-1">
+                        <span className="text-gray-700 me-1">{info.item}</span>
+                        {info.allergens.length === 0 ? (
+                            <span className="text-xs text-gray-400">{t('dietary.noAllergens')}</span>
+                        ) : info.allergens.map(allergen => (
+                            <span key={allergen} className={`px-1.5 py-0.5 text-xs rounded ${restrictions?.allergens.includes(allergen) ? 'bg-red-100 text-red-700' : 'bg-amber-50 text-amber-700'}`}>
+                                {t(`allergen.${allergen}`)}
+                            </span>
+                        ))}
+                    </li>
+                ))}
+            </ul>
+            <p className="mt-2 text-xs text-gray-400">{t('dietary.note')}</p>
+        </div>
+    );
+}
@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 // Import necessary types from your central types file
-import type { ScheduleItem, Venue, Catering, CateringMenu } from '../types';
-
-// Define a local type extending ScheduleItem to safely include the 'details' field
-// This avoids modifying the original imported type while satisfying local usage.
-type ExtendedScheduleItem = ScheduleItem & { details?: string };
+import type { ScheduleItem, Venue, Catering, CateringMenu, CostEstimate, Decorations, DecorationPiece } from '../types';
+import { normalizeCostEstimate, resolveCost } from '../utils/cost';
+import { formatTimeRange, getItemTimes, parseTimeOfDay } from '../utils/scheduleTime';
+import CateringQuantities from './CateringQuantities';
+import { useTranslation } from '../i18n/I18nContext';
+import { getFieldLabel } from '../i18n/language';
+import type { MessageKey } from '../i18n/messages/en';
 
 // Define the props the modal will accept
 interface EditPlanSectionModalProps {
@@ -13,8 +15,27 @@ interface EditPlanSectionModalProps {
   section: string | null;
   currentData: any; // Kept as 'any' to avoid changes in parent components
   onSave: (updatedData: any) => void; // Kept as 'any'
+  currency?: string; // Budget currency, used as the default for cost estimates
+  guestCounts?: { adults: number; children: number }; // Starting counts for the catering quantity calculator
+  partyMinutes?: number | null; // Party length for the catering quantity calculator
 }
 
+// Cost fields while editing: amounts may be blank until the user fills them in
+type CostFormData = Partial<Pick<CostEstimate, 'min' | 'max'>> & Pick<CostEstimate, 'currency' | 'basis'>;
+
+// Editable menu lists with the names of one item in them (e.g., "Add Appetizer")
+const MENU_LISTS: Record<keyof Omit<CateringMenu, 'desserts'>, { title: MessageKey; item: MessageKey }> = {
+  appetizers: { title: 'plan.section.appetizers', item: 'edit.menuItem.appetizers' },
+  mainCourses: { title: 'plan.section.mainCourses', item: 'edit.menuItem.mainCourses' },
+  beverages: { title: 'plan.section.beverages', item: 'edit.menuItem.beverages' },
+};
+
+// Editable decoration lists of plain strings, with the names of one item in them (e.g., "Add Color")
+const DECORATION_LISTS: Record<'colorPalette' | 'decorationSearchSuggestions', { title: MessageKey; item: MessageKey }> = {
+  colorPalette: { title: 'plan.section.colorPalette', item: 'edit.colorItem' },
+  decorationSearchSuggestions: { title: 'field.decorationSearchSuggestions', item: 'edit.searchItem' },
+};
+
 /**
  * EditPlanSectionModal Component
  * Provides a modal interface for editing various sections of a plan,
@@ -26,7 +47,11 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
   section,
   currentData,
   onSave,
+  currency = 'NIS',
+  guestCounts,
+  partyMinutes,
 }) => {
+  const { t, language } = useTranslation();
   // State to hold the form data being edited. Using 'any' for flexibility across sections.
   const [formData, setFormData] = useState<any>(null);
 
@@ -50,10 +75,13 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
       if (section === 'schedule') {
         // Ensure schedule is an array, map items to include default fields.
         const schedule = Array.isArray(initialData) ? initialData : [];
-        setFormData(schedule.map((item): ExtendedScheduleItem => ({ // Ensure items conform to ExtendedScheduleItem
+        setFormData(schedule.map((item): ScheduleItem => ({ // Ensure items conform to ScheduleItem
           time: item?.time || '',
+          start: item?.start,
+          end: item?.end,
+          durationMinutes: item?.durationMinutes,
           activity: item?.activity || '',
-          details: item?.details || '' // Initialize details field
+          description: item?.description || '' // Initialize details field
         })));
       } else if (section === 'catering') {
         // Ensure catering data is an object.
@@ -61,10 +89,14 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
         // Ensure menu is an object within catering data.
         const menu: Partial<CateringMenu> = (typeof cateringData.menu === 'object' && cateringData.menu !== null) ? cateringData.menu : {};
         setFormData({
-          estimatedCost: cateringData.estimatedCost || '',
+          // Parse legacy free-text costs so they can be edited as numbers
+          cost: resolveCost(cateringData.cost, cateringData.estimatedCost, currency) ?? { currency, basis: 'per-person' },
+          estimatedCost: cateringData.estimatedCost,
           servingStyle: cateringData.servingStyle || '',
           // Keep existing search suggestions or initialize as empty array.
           cateringSearchSuggestions: Array.isArray(cateringData.cateringSearchSuggestions) ? cateringData.cateringSearchSuggestions : [],
+          // Keep the allergen tags; tags of renamed or removed items no longer match and are ignored by the dietary check
+          menuTags: Array.isArray(cateringData.menuTags) ? cateringData.menuTags : [],
           menu: {
             // Ensure menu items are arrays of strings, filtering out invalid types.
             appetizers: Array.isArray(menu.appetizers) ? menu.appetizers.filter((i: unknown): i is string => typeof i === 'string') : [],
@@ -79,17 +111,31 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
           setFormData({
             name: venueData.name || '',
             description: venueData.description || '',
-            costRange: venueData.costRange || '',
+            // Parse legacy free-text costs so they can be edited as numbers
+            cost: resolveCost(venueData.cost, venueData.costRange, currency) ?? { currency, basis: 'flat' },
+            costRange: venueData.costRange,
             suitability: venueData.suitability || '',
             amenities: Array.isArray(venueData.amenities) ? venueData.amenities : [],
             venueSearchSuggestions: Array.isArray(venueData.venueSearchSuggestions) ? venueData.venueSearchSuggestions : []
           });
+      } else if (section === 'decorations') {
+          // Older plans have no decorations section, so start from an empty one
+          const decorationsData = (typeof initialData === 'object' && initialData !== null) ? initialData : {};
+          setFormData({
+            colorPalette: Array.isArray(decorationsData.colorPalette) ? decorationsData.colorPalette : [],
+            keyPieces: Array.isArray(decorationsData.keyPieces) ? decorationsData.keyPieces.map((piece: Partial<DecorationPiece>) => ({
+              item: piece?.item || '',
+              source: piece?.source === 'diy' ? 'diy' : 'buy',
+              notes: piece?.notes || '',
+            })) : [],
+            decorationSearchSuggestions: Array.isArray(decorationsData.decorationSearchSuggestions) ? decorationsData.decorationSearchSuggestions : [],
+          });
       } else {
           // Handle simple data types (e.g., string for name, description, date)
           setFormData(initialData);
       }
     }
-  }, [currentData, isOpen, section]);
+  }, [currentData, isOpen, section, currency]);
 
 
   // --- Generic Input Handlers ---
@@ -107,49 +153,82 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
     if (field) {
       // Update the specific field within the venue object.
       setFormData((prevData: Venue | null) => ({
-         ...(prevData ?? { name: '', description: '', costRange: '', suitability: '', amenities: [], venueSearchSuggestions: [] }), // Provide default structure if null
+         ...(prevData ?? { name: '', description: '', suitability: '', amenities: [], venueSearchSuggestions: [] }), // Provide default structure if null
          [field]: value
         }));
     }
   };
 
+  /** Handles changes to the structured cost fields shared by the venue and catering sections. */
+  const handleCostChange = (field: keyof CostFormData, value: string) => {
+    setFormData((prevData: { cost?: CostFormData } | null) => {
+      const currentCost: CostFormData = prevData?.cost ?? { currency, basis: 'flat' };
+      let fieldValue: string | number | undefined = value;
+      if (field === 'min' || field === 'max') {
+        // Blank amount inputs clear the value instead of saving 0
+        fieldValue = value.trim() === '' ? undefined : Number(value);
+      }
+      return { ...(prevData ?? {}), cost: { ...currentCost, [field]: fieldValue } };
+    });
+  };
+
   // --- Schedule Specific Handlers ---
 
   /** Handles changes to a specific field within a schedule item at a given index. */
-  const handleScheduleItemChange = (index: number, field: keyof ExtendedScheduleItem, value: string) => {
-    setFormData((prevSchedule: ExtendedScheduleItem[] | null) => {
+  const handleScheduleItemChange = (index: number, field: keyof ScheduleItem, value: string) => {
+    setFormData((prevSchedule: ScheduleItem[] | null) => {
       // Ensure we're working with an array.
       const currentSchedule = Array.isArray(prevSchedule) ? prevSchedule : [];
       // Map to create a new schedule array with the updated item.
-      const newSchedule: ExtendedScheduleItem[] = currentSchedule.map((item, i) =>
+      const newSchedule: ScheduleItem[] = currentSchedule.map((item, i) =>
         i === index ? { ...item, [field]: value } : item
       );
       return newSchedule;
     });
   };
 
+  /**
+   * Handles changes to a schedule item's start or end time ("HH:MM", or '' when cleared).
+   * The display text and duration are rebuilt from the structured times.
+   */
+  const handleScheduleTimeChange = (index: number, field: 'start' | 'end', value: string) => {
+    setFormData((prevSchedule: ScheduleItem[] | null) =>
+      (Array.isArray(prevSchedule) ? prevSchedule : []).map((item, i) => {
+        if (i !== index) return item;
+        const updated: ScheduleItem = { ...item, [field]: value || undefined };
+        const times = parseTimeOfDay(updated.start) !== null ? getItemTimes(updated) : null;
+        if (!times) return { ...updated, durationMinutes: undefined };
+        return {
+          ...updated,
+          time: formatTimeRange(times.start, times.end),
+          durationMinutes: times.end !== null ? times.end - times.start : undefined,
+        };
+      })
+    );
+  };
+
   /** Deletes a schedule item at a specific index. */
   const handleDeleteScheduleItem = (index: number) => {
-     setFormData((prevSchedule: ExtendedScheduleItem[] | null) =>
+     setFormData((prevSchedule: ScheduleItem[] | null) =>
        (Array.isArray(prevSchedule) ? prevSchedule : []).filter((_, i) => i !== index)
      );
   };
 
   /** Adds a new, empty schedule item to the list. */
   const handleAddScheduleItem = () => {
-     setFormData((prevSchedule: ExtendedScheduleItem[] | null) => [
+     setFormData((prevSchedule: ScheduleItem[] | null) => [
        ...(Array.isArray(prevSchedule) ? prevSchedule : []),
-       // Add a new item conforming to ExtendedScheduleItem
-       { time: '', activity: '', details: '' }
+       // Add a new item conforming to ScheduleItem
+       { time: '', activity: '', description: '' }
       ]);
   };
 
   // --- Catering Specific Handlers ---
 
   /** Handles changes for top-level catering fields (e.g., estimatedCost, servingStyle). */
-  const handleCateringFieldChange = (field: keyof Omit<Catering, 'menu' | 'cateringSearchSuggestions'>, value: string) => {
+  const handleCateringFieldChange = (field: keyof Omit<Catering, 'menu' | 'cateringSearchSuggestions' | 'cost' | 'estimatedCost'>, value: string) => {
       setFormData((prevData: Catering | null) => ({
-        ...(prevData ?? { menu: {}, estimatedCost: '', servingStyle: '', cateringSearchSuggestions: [] }), // Ensure base structure
+        ...(prevData ?? { menu: {}, servingStyle: '', cateringSearchSuggestions: [] }), // Ensure base structure
         [field]: value,
       }));
   };
@@ -158,7 +237,7 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
   const handleDessertsChange = (value: string) => {
       setFormData((prevData: Catering | null) => {
         // Ensure catering object and menu object exist before updating.
-        const currentCatering = prevData ?? { menu: {}, estimatedCost: '', servingStyle: '', cateringSearchSuggestions: [] };
+        const currentCatering = prevData ?? { menu: {}, servingStyle: '', cateringSearchSuggestions: [] };
         const currentMenu: Partial<CateringMenu> = (typeof currentCatering.menu === 'object' && currentCatering.menu !== null) ? currentCatering.menu : {};
         return {
           ...currentCatering,
@@ -173,7 +252,7 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
   /** Handles changes within a specific catering menu list item (e.g., appetizers, mainCourses). */
   const handleCateringMenuItemChange = (listName: keyof Omit<CateringMenu, 'desserts'>, index: number, value: string) => {
       setFormData((prevData: Catering | null) => {
-        const currentCatering = prevData ?? { menu: {}, estimatedCost: '', servingStyle: '', cateringSearchSuggestions: [] };
+        const currentCatering = prevData ?? { menu: {}, servingStyle: '', cateringSearchSuggestions: [] };
         const currentMenu: Partial<CateringMenu> = (typeof currentCatering.menu === 'object' && currentCatering.menu !== null) ? currentCatering.menu : {};
         // Safely access the list, default to empty array if not present or not an array.
         const currentList = Array.isArray(currentMenu[listName]) ? (currentMenu[listName] as string[]) : [];
@@ -194,7 +273,7 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
    /** Deletes an item from a specific catering menu list (e.g., appetizers) at a given index. */
   const handleDeleteCateringMenuItem = (listName: keyof Omit<CateringMenu, 'desserts'>, index: number) => {
       setFormData((prevData: Catering | null) => {
-        const currentCatering = prevData ?? { menu: {}, estimatedCost: '', servingStyle: '', cateringSearchSuggestions: [] };
+        const currentCatering = prevData ?? { menu: {}, servingStyle: '', cateringSearchSuggestions: [] };
         const currentMenu: Partial<CateringMenu> = (typeof currentCatering.menu === 'object' && currentCatering.menu !== null) ? currentCatering.menu : {};
         const currentList = Array.isArray(currentMenu[listName]) ? (currentMenu[listName] as string[]) : [];
 
@@ -214,7 +293,7 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
   /** Adds a new, empty item to a specific catering menu list (e.g., appetizers). */
   const handleAddCateringMenuItem = (listName: keyof Omit<CateringMenu, 'desserts'>) => {
        setFormData((prevData: Catering | null) => {
-         const currentCatering = prevData ?? { menu: {}, estimatedCost: '', servingStyle: '', cateringSearchSuggestions: [] };
+         const currentCatering = prevData ?? { menu: {}, servingStyle: '', cateringSearchSuggestions: [] };
          const currentMenu: Partial<CateringMenu> = (typeof currentCatering.menu === 'object' && currentCatering.menu !== null) ? currentCatering.menu : {};
          const currentList = Array.isArray(currentMenu[listName]) ? (currentMenu[listName] as string[]) : [];
 
@@ -231,13 +310,75 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
        });
   };
 
+  // --- Decorations Specific Handlers ---
+
+  /** Updates the decorations form data, starting from an empty section if needed. */
+  const updateDecorations = (update: (current: Decorations) => Decorations) => {
+      setFormData((prevData: Decorations | null) =>
+        update(prevData ?? { colorPalette: [], keyPieces: [], decorationSearchSuggestions: [] })
+      );
+  };
+
+  /** Handles changes within a decoration string list (color palette or search suggestions). */
+  const handleDecorationListItemChange = (listName: keyof typeof DECORATION_LISTS, index: number, value: string) => {
+      updateDecorations(current => ({ ...current, [listName]: (current[listName] ?? []).map((item, i) => (i === index ? value : item)) }));
+  };
+
+  /** Deletes an item from a decoration string list at a given index. */
+  const handleDeleteDecorationListItem = (listName: keyof typeof DECORATION_LISTS, index: number) => {
+      updateDecorations(current => ({ ...current, [listName]: (current[listName] ?? []).filter((_, i) => i !== index) }));
+  };
+
+  /** Adds a new, empty item to a decoration string list. */
+  const handleAddDecorationListItem = (listName: keyof typeof DECORATION_LISTS) => {
+      updateDecorations(current => ({ ...current, [listName]: [...(current[listName] ?? []), ''] }));
+  };
+
+  /** Handles changes to a field of the key decoration piece at a given index. */
+  const handleDecorationPieceChange = (index: number, field: keyof DecorationPiece, value: string) => {
+      updateDecorations(current => ({
+        ...current,
+        keyPieces: current.keyPieces.map((piece, i) => (i === index ? { ...piece, [field]: value } : piece)),
+      }));
+  };
+
+  /** Deletes the key decoration piece at a given index. */
+  const handleDeleteDecorationPiece = (index: number) => {
+      updateDecorations(current => ({ ...current, keyPieces: current.keyPieces.filter((_, i) => i !== index) }));
+  };
+
+  /** Adds a new, empty key decoration piece (bought by default, like the plan schema). */
+  const handleAddDecorationPiece = () => {
+      updateDecorations(current => ({ ...current, keyPieces: [...current.keyPieces, { item: '', source: 'buy', notes: '' }] }));
+  };
+
 
   // --- Save Handler ---
 
   /** Saves the current form data and closes the modal. */
   const handleSave = () => {
-    console.log(`Saving data for section "${section}":`, formData); // Log for debugging
-    onSave(formData); // Pass data back to parent
+    let dataToSave = formData;
+    if ((section === 'venue' || section === 'catering') && formData) {
+      // Validate the edited cost; drop it entirely if no amount was entered
+      const cost = normalizeCostEstimate(formData.cost, currency) ?? undefined;
+      const legacyField = section === 'venue' ? 'costRange' : 'estimatedCost';
+      dataToSave = { ...formData, cost };
+      // The legacy free-text cost is superseded once a structured cost exists
+      if (cost) delete dataToSave[legacyField];
+    }
+    if (section === 'decorations' && formData) {
+      // Drop empty rows, which the plan schema doesn't accept
+      const decorations: Decorations = {
+        colorPalette: formData.colorPalette.map((color: string) => color.trim()).filter(Boolean),
+        keyPieces: formData.keyPieces
+          .filter((piece: DecorationPiece) => piece.item.trim() !== '')
+          .map((piece: DecorationPiece) => ({ ...piece, item: piece.item.trim(), notes: piece.notes.trim() })),
+        decorationSearchSuggestions: formData.decorationSearchSuggestions.map((term: string) => term.trim()).filter(Boolean),
+      };
+      dataToSave = decorations;
+    }
+    console.log(`Saving data for section "${section}":`, dataToSave); // Log for debugging
+    onSave(dataToSave); // Pass data back to parent
     onClose(); // Close modal
   };
 
@@ -250,7 +391,9 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
    * Helper function to render an editable list for catering menu items
    * (Appetizers, Main Courses, Beverages).
    */
-  const renderEditableMenuList = (listName: keyof Omit<CateringMenu, 'desserts'>, title: string) => {
+  const renderEditableMenuList = (listName: keyof Omit<CateringMenu, 'desserts'>) => {
+     const title = t(MENU_LISTS[listName].title);
+     const itemName = t(MENU_LISTS[listName].item);
      // Safely access the list from formData, default to empty array if needed.
      const list = (formData?.menu && Array.isArray(formData.menu[listName])) ? formData.menu[listName] as string[] : [];
 
@@ -258,13 +401,13 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
          <div className="space-y-2 mt-3 pt-3 border-t border-gray-100">
              <h5 className="text-sm font-semibold text-gray-700 mb-1">{title}</h5>
              {list.map((item: string, index: number) => (
-                 <div key={`${listName}-${index}`} className="flex items-center space-x-2">
+                 <div key={`${listName}-${index}`} className="flex items-center space-x-2 rtl:space-x-reverse">
                      {/* Input field for the menu item */}
                      <input
                          type="text"
                          value={item || ''}
                          onChange={(e) => handleCateringMenuItemChange(listName, index, e.target.value)}
-                         placeholder={`Enter ${title.slice(0, -1)}`} // e.g., "Enter Appetizer"
+                         placeholder={t('edit.enterItem', { item: itemName })} // e.g., "Enter Appetizer"
                          className="flex-grow px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
                      />
                      {/* Button to delete the menu item */}
@@ -272,7 +415,7 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
                          type="button"
                          onClick={() => handleDeleteCateringMenuItem(listName, index)}
                          className="text-red-500 hover:text-red-700 focus:outline-none p-1 rounded-full hover:bg-red-100 flex-shrink-0"
-                         aria-label={`Delete ${title.slice(0, -1)}`}
+                         aria-label={t('edit.deleteItem', { item: itemName })}
                      >
                          {/* Delete Icon */}
                          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -288,106 +431,233 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
                  className="mt-1 px-2 py-0.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 inline-flex items-center"
              >
                  {/* Add Icon */}
-                 <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+                 <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 me-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+                 </svg>
+                 {t('edit.addItem', { item: itemName })}
+             </button>
+         </div>
+     );
+  };
+
+  /**
+   * Helper function to render an editable list of strings in the decorations section
+   * (Color Palette, Search Suggestions).
+   */
+  const renderEditableDecorationList = (listName: keyof typeof DECORATION_LISTS) => {
+     const title = t(DECORATION_LISTS[listName].title);
+     const itemName = t(DECORATION_LISTS[listName].item);
+     const list: string[] = Array.isArray(formData?.[listName]) ? formData[listName] : [];
+
+     return (
+         <div className="space-y-2">
+             <h5 className="text-sm font-semibold text-gray-700 mb-1">{title}</h5>
+             {list.map((item: string, index: number) => (
+                 <div key={`${listName}-${index}`} className="flex items-center space-x-2 rtl:space-x-reverse">
+                     <input
+                         type="text"
+                         value={item || ''}
+                         onChange={(e) => handleDecorationListItemChange(listName, index, e.target.value)}
+                         placeholder={t('edit.enterItem', { item: itemName })}
+                         className="flex-grow px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                     />
+                     <button
+                         type="button"
+                         onClick={() => handleDeleteDecorationListItem(listName, index)}
+                         className="text-red-500 hover:text-red-700 focus:outline-none p-1 rounded-full hover:bg-red-100 flex-shrink-0"
+                         aria-label={t('edit.deleteItem', { item: itemName })}
+                     >
+                         <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                             <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                         </svg>
+                     </button>
+                 </div>
+             ))}
+             <button
+                 type="button"
+                 onClick={() => handleAddDecorationListItem(listName)}
+                 className="mt-1 px-2 py-0.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 inline-flex items-center"
+             >
+                 <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 me-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
                     <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
                  </svg>
-                 Add {title.slice(0, -1)}
+                 {t('edit.addItem', { item: itemName })}
              </button>
          </div>
      );
   };
 
 
+  /**
+   * Helper function to render the structured cost inputs (min, max, currency, basis)
+   * used by both the venue and catering sections.
+   */
+  const renderCostFields = (idPrefix: string) => {
+    const cost: CostFormData = formData?.cost ?? { currency, basis: 'flat' };
+    const inputClass = "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+    return (
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-1">{t('edit.estimatedCost')}</legend>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <div>
+            <label htmlFor={`${idPrefix}.cost.min`} className="block text-xs font-medium text-gray-600">{t('edit.min')}</label>
+            <input type="number" min="0" id={`${idPrefix}.cost.min`} value={cost.min ?? ''} onChange={(e) => handleCostChange('min', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}.cost.max`} className="block text-xs font-medium text-gray-600">{t('edit.max')}</label>
+            <input type="number" min="0" id={`${idPrefix}.cost.max`} value={cost.max ?? ''} onChange={(e) => handleCostChange('max', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}.cost.currency`} className="block text-xs font-medium text-gray-600">{t('form.currency')}</label>
+            <input type="text" id={`${idPrefix}.cost.currency`} value={cost.currency || ''} onChange={(e) => handleCostChange('currency', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}.cost.basis`} className="block text-xs font-medium text-gray-600">{t('edit.basis')}</label>
+            <select id={`${idPrefix}.cost.basis`} value={cost.basis} onChange={(e) => handleCostChange('basis', e.target.value)} className={inputClass}>
+              <option value="flat">{t('edit.basis.flat')}</option>
+              <option value="per-person">{t('edit.basis.perPerson')}</option>
+            </select>
+          </div>
+        </div>
+        {/* Show the original free-text estimate for reference while it is still present */}
+        {typeof formData?.[idPrefix === 'venue' ? 'costRange' : 'estimatedCost'] === 'string' && (
+          <p className="text-xs text-gray-500 mt-1">{t('edit.originalEstimate', { estimate: formData[idPrefix === 'venue' ? 'costRange' : 'estimatedCost'] })}</p>
+        )}
+      </fieldset>
+    );
+  };
+
   /** Renders the appropriate form fields based on the 'section' prop. */
   const renderFormFields = () => {
     // Show loading indicator if data hasn't been initialized yet for complex sections.
-    if (formData === null && (section === 'venue' || section === 'schedule' || section === 'catering')) {
-        return <div className="text-center p-4 text-gray-500">Loading data...</div>;
+    if (formData === null && (section === 'venue' || section === 'schedule' || section === 'catering' || section === 'decorations')) {
+        return <div className="text-center p-4 text-gray-500">{t('edit.loading')}</div>;
     }
 
     switch (section) {
       case 'name':
-        return ( <div> <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Plan Name</label> <input type="text" id="name" name="name" value={formData || ''} onChange={handleSimpleInputChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> );
+        return ( <div> <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">{t('edit.planName')}</label> <input type="text" id="name" name="name" value={formData || ''} onChange={handleSimpleInputChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> );
       case 'description':
-        return ( <div> <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">Description</label> <textarea id="description" name="description" rows={4} value={formData || ''} onChange={handleSimpleInputChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> );
+        return ( <div> <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">{t('field.description')}</label> <textarea id="description" name="description" rows={4} value={formData || ''} onChange={handleSimpleInputChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> );
       case 'date':
         // Format date for the input type="date"
         const dateValue = formData ? (new Date(formData).toISOString().split('T')[0]) : '';
-        return ( <div> <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">Date</label> <input type="date" id="date" name="date" value={dateValue} onChange={handleSimpleInputChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> );
+        return ( <div> <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">{t('field.date')}</label> <input type="date" id="date" name="date" value={dateValue} onChange={handleSimpleInputChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> );
       case 'venue':
         // Ensure venueData is an object before accessing properties.
         const venueData: Partial<Venue> = (typeof formData === 'object' && formData !== null) ? formData : {};
-        return ( <div className="space-y-3"> <div> <label htmlFor="venue.name" className="block text-sm font-medium text-gray-700 mb-1">Venue Name</label> <input type="text" id="venue.name" name="venue.name" value={venueData.name || ''} onChange={handleVenueChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> <div> <label htmlFor="venue.description" className="block text-sm font-medium text-gray-700 mb-1">Description</label> <textarea id="venue.description" name="venue.description" rows={3} value={venueData.description || ''} onChange={handleVenueChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> <div> <label htmlFor="venue.costRange" className="block text-sm font-medium text-gray-700 mb-1">Cost Range</label> <input type="text" id="venue.costRange" name="venue.costRange" value={venueData.costRange || ''} onChange={handleVenueChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> <div> <label htmlFor="venue.suitability" className="block text-sm font-medium text-gray-700 mb-1">Suitability</label> <input type="text" id="venue.suitability" name="venue.suitability" value={venueData.suitability || ''} onChange={handleVenueChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> {/* TODO: Add list editing for amenities and venueSearchSuggestions if needed */} </div> );
+        return ( <div className="space-y-3"> <div> <label htmlFor="venue.name" className="block text-sm font-medium text-gray-700 mb-1">{t('edit.venueName')}</label> <input type="text" id="venue.name" name="venue.name" value={venueData.name || ''} onChange={handleVenueChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> <div> <label htmlFor="venue.description" className="block text-sm font-medium text-gray-700 mb-1">{t('field.description')}</label> <textarea id="venue.description" name="venue.description" rows={3} value={venueData.description || ''} onChange={handleVenueChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> {renderCostFields('venue')} <div> <label htmlFor="venue.suitability" className="block text-sm font-medium text-gray-700 mb-1">{t('field.suitability')}</label> <input type="text" id="venue.suitability" name="venue.suitability" value={venueData.suitability || ''} onChange={handleVenueChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/> </div> {/* TODO: Add list editing for amenities and venueSearchSuggestions if needed */} </div> );
       case 'schedule':
         // Ensure scheduleItems is an array before mapping.
-        const scheduleItems: ExtendedScheduleItem[] = Array.isArray(formData) ? formData : [];
-        return ( <div className="space-y-4"> {scheduleItems.map((item: ExtendedScheduleItem, index: number) => ( <div key={`schedule-item-${index}`} className="p-3 border border-gray-200 rounded-md space-y-2 relative bg-gray-50"> {/* Delete Button */} <button type="button" onClick={() => handleDeleteScheduleItem(index)} className="absolute top-1 right-1 text-red-500 hover:text-red-700 focus:outline-none p-1 rounded-full hover:bg-red-100" aria-label="Delete schedule item"> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}> <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /> </svg> </button> {/* Time Input */} <div> <label htmlFor={`schedule-${index}-time`} className="block text-xs font-medium text-gray-600">Time</label> <input type="text" id={`schedule-${index}-time`} value={item.time || ''} onChange={(e) => handleScheduleItemChange(index, 'time', e.target.value)} placeholder="e.g., 2:00 PM - 3:00 PM" className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" /> </div> {/* Activity Input */} <div> <label htmlFor={`schedule-${index}-activity`} className="block text-xs font-medium text-gray-600">Activity</label> <input type="text" id={`schedule-${index}-activity`} value={item.activity || ''} onChange={(e) => handleScheduleItemChange(index, 'activity', e.target.value)} placeholder="e.g., Cake Cutting" className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" /> </div> {/* Details Input - Now safely handled by ExtendedScheduleItem */} <div> <label htmlFor={`schedule-${index}-details`} className="block text-xs font-medium text-gray-600">Details (Optional)</label> <input type="text" id={`schedule-${index}-details`} value={item.details || ''} onChange={(e) => handleScheduleItemChange(index, 'details', e.target.value)} placeholder="e.g., With music" className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" /> </div> </div> ))} {/* Add Item Button */} <button type="button" onClick={handleAddScheduleItem} className="mt-2 px-3 py-1 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 inline-flex items-center"> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}> <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" /> </svg> Add Schedule Item </button> </div> );
+        const scheduleItems: ScheduleItem[] = Array.isArray(formData) ? formData : [];
+        return ( <div className="space-y-4"> {scheduleItems.map((item: ScheduleItem, index: number) => ( <div key={`schedule-item-${index}`} className="p-3 border border-gray-200 rounded-md space-y-2 relative bg-gray-50"> {/* Delete Button */} <button type="button" onClick={() => handleDeleteScheduleItem(index)} className="absolute top-1 end-1 text-red-500 hover:text-red-700 focus:outline-none p-1 rounded-full hover:bg-red-100" aria-label={t('edit.deleteScheduleItem')}> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}> <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /> </svg> </button> {/* Start / End Time Inputs (the display text is built from these) */} <div className="grid grid-cols-2 gap-2"> <div> <label htmlFor={`schedule-${index}-start`} className="block text-xs font-medium text-gray-600">{t('edit.start')}</label> <input type="time" id={`schedule-${index}-start`} value={item.start || ''} onChange={(e) => handleScheduleTimeChange(index, 'start', e.target.value)} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" /> </div> <div> <label htmlFor={`schedule-${index}-end`} className="block text-xs font-medium text-gray-600">{t('edit.end')}</label> <input type="time" id={`schedule-${index}-end`} value={item.end || ''} onChange={(e) => handleScheduleTimeChange(index, 'end', e.target.value)} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" /> </div> {!item.start && item.time && <p className="col-span-2 text-xs text-gray-500">{t('edit.currentTime', { time: item.time })}</p>} </div> {/* Activity Input */} <div> <label htmlFor={`schedule-${index}-activity`} className="block text-xs font-medium text-gray-600">{t('field.activity')}</label> <input type="text" id={`schedule-${index}-activity`} value={item.activity || ''} onChange={(e) => handleScheduleItemChange(index, 'activity', e.target.value)} placeholder={t('edit.activity.placeholder')} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" /> </div> {/* Details Input (stored as 'description') */} <div> <label htmlFor={`schedule-${index}-details`} className="block text-xs font-medium text-gray-600">{t('edit.details')}</label> <input type="text" id={`schedule-${index}-details`} value={item.description || ''} onChange={(e) => handleScheduleItemChange(index, 'description', e.target.value)} placeholder={t('edit.details.placeholder')} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" /> </div> </div> ))} {/* Add Item Button */} <button type="button" onClick={handleAddScheduleItem} className="mt-2 px-3 py-1 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 inline-flex items-center"> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 me-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}> <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" /> </svg> {t('edit.addScheduleItem')} </button> </div> );
       case 'catering':
         // Ensure cateringData is a valid object with a menu structure.
         const cateringData: Partial<Catering> & { menu: Partial<CateringMenu> } = (typeof formData === 'object' && formData !== null) ? formData : { menu: {} };
         return (
             <div className="space-y-4">
-                {/* Estimated Cost Input */}
-                <div>
-                    <label htmlFor="catering.estimatedCost" className="block text-sm font-medium text-gray-700 mb-1">Estimated Cost</label>
-                    <input
-                        type="text"
-                        id="catering.estimatedCost"
-                        name="catering.estimatedCost"
-                        value={cateringData.estimatedCost || ''}
-                        onChange={(e) => handleCateringFieldChange('estimatedCost', e.target.value)}
-                        placeholder="e.g., Approx. 1500 NIS"
-                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                    />
-                </div>
+                {/* Estimated Cost Inputs */}
+                {renderCostFields('catering')}
                  {/* Serving Style Input */}
                  <div>
-                    <label htmlFor="catering.servingStyle" className="block text-sm font-medium text-gray-700 mb-1">Serving Style</label>
+                    <label htmlFor="catering.servingStyle" className="block text-sm font-medium text-gray-700 mb-1">{t('field.servingStyle')}</label>
                     <input
                         type="text"
                         id="catering.servingStyle"
                         name="catering.servingStyle"
                         value={cateringData.servingStyle || ''}
                         onChange={(e) => handleCateringFieldChange('servingStyle', e.target.value)}
-                        placeholder="e.g., Buffet, Plated"
+                        placeholder={t('edit.servingStyle.placeholder')}
                         className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                     />
                 </div>
 
                 {/* Menu Section */}
                 <div className="mt-4 pt-4 border-t border-gray-300">
-                    <h4 className="text-lg font-semibold text-gray-800 mb-3">Menu</h4>
+                    <h4 className="text-lg font-semibold text-gray-800 mb-3">{t('plan.section.menu')}</h4>
                     {/* Render editable lists for menu items */}
-                    {renderEditableMenuList('appetizers', 'Appetizers')}
-                    {renderEditableMenuList('mainCourses', 'Main Courses')}
+                    {renderEditableMenuList('appetizers')}
+                    {renderEditableMenuList('mainCourses')}
                     {/* Desserts Input (Single String) */}
                     <div className="mt-3 pt-3 border-t border-gray-100">
-                        <label htmlFor="catering.menu.desserts" className="block text-sm font-semibold text-gray-700 mb-1">Desserts</label>
+                        <label htmlFor="catering.menu.desserts" className="block text-sm font-semibold text-gray-700 mb-1">{t('plan.section.desserts')}</label>
                         <input
                             type="text"
                             id="catering.menu.desserts"
                             name="catering.menu.desserts"
                             value={cateringData.menu?.desserts || ''} // Safely access nested property
                             onChange={(e) => handleDessertsChange(e.target.value)}
-                            placeholder="e.g., Themed Cake, Fruit Platter"
+                            placeholder={t('edit.desserts.placeholder')}
                             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                         />
                     </div>
                     {/* Beverages List */}
-                    {renderEditableMenuList('beverages', 'Beverages')}
+                    {renderEditableMenuList('beverages')}
+                    {/* Quantities, recomputed as the menu and guest counts change */}
+                    <CateringQuantities menu={cateringData.menu} adults={guestCounts?.adults ?? 0} children={guestCounts?.children ?? 0} partyMinutes={partyMinutes} />
                 </div>
                 {/* TODO: Add list editing for cateringSearchSuggestions if needed */}
             </div>
         );
 
+      case 'decorations': {
+        const decorationPieces: DecorationPiece[] = Array.isArray(formData?.keyPieces) ? formData.keyPieces : [];
+        return (
+            <div className="space-y-4">
+                {/* Color Palette List */}
+                {renderEditableDecorationList('colorPalette')}
+
+                {/* Key Pieces, each marked DIY or buy */}
+                <div className="pt-4 border-t border-gray-300 space-y-3">
+                    <h5 className="text-sm font-semibold text-gray-700">{t('plan.section.keyPieces')}</h5>
+                    {decorationPieces.map((piece, index) => (
+                        <div key={`decoration-piece-${index}`} className="p-3 border border-gray-200 rounded-md space-y-2 relative bg-gray-50">
+                            {/* Delete Button */}
+                            <button type="button" onClick={() => handleDeleteDecorationPiece(index)} className="absolute top-1 end-1 text-red-500 hover:text-red-700 focus:outline-none p-1 rounded-full hover:bg-red-100" aria-label={t('edit.deletePiece')}>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}> <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /> </svg>
+                            </button>
+                            <div className="grid grid-cols-3 gap-2 pe-6">
+                                <div className="col-span-2">
+                                    <label htmlFor={`decoration-${index}-item`} className="block text-xs font-medium text-gray-600">{t('field.item')}</label>
+                                    <input type="text" id={`decoration-${index}-item`} value={piece.item} onChange={(e) => handleDecorationPieceChange(index, 'item', e.target.value)} placeholder={t('edit.pieceItem.placeholder')} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                                </div>
+                                <div>
+                                    <label htmlFor={`decoration-${index}-source`} className="block text-xs font-medium text-gray-600">{t('field.source')}</label>
+                                    <select id={`decoration-${index}-source`} value={piece.source} onChange={(e) => handleDecorationPieceChange(index, 'source', e.target.value)} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+                                        <option value="diy">{t('plan.decorationSource.diy')}</option>
+                                        <option value="buy">{t('plan.decorationSource.buy')}</option>
+                                    </select>
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor={`decoration-${index}-notes`} className="block text-xs font-medium text-gray-600">{t('field.notes')}</label>
+                                <input type="text" id={`decoration-${index}-notes`} value={piece.notes} onChange={(e) => handleDecorationPieceChange(index, 'notes', e.target.value)} placeholder={t('edit.pieceNotes.placeholder')} className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                            </div>
+                        </div>
+                    ))}
+                    {/* Add Piece Button */}
+                    <button type="button" onClick={handleAddDecorationPiece} className="px-3 py-1 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 inline-flex items-center">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 me-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}> <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" /> </svg>
+                        {t('edit.addPiece')}
+                    </button>
+                </div>
+
+                {/* Search Suggestions List */}
+                <div className="pt-4 border-t border-gray-300">
+                    {renderEditableDecorationList('decorationSearchSuggestions')}
+                </div>
+            </div>
+        );
+      }
+
       default:
         // Fallback for sections without specific editing UI implemented.
-        return <p>Editing for section "{section}" is not implemented yet.</p>;
+        return <p>{t('edit.unsupported', { section: section ?? '' })}</p>;
     }
   };
 
-  // Capitalize the first letter of the section name for the modal title.
-  const modalTitle = section ? `Edit ${section.charAt(0).toUpperCase() + section.slice(1)}` : 'Edit Section';
+  // Title the modal with the section's display name (e.g., "Edit Venue").
+  const modalTitle = section ? t('edit.title', { section: getFieldLabel(language, section) }) : t('edit.titleFallback');
 
   return (
     // Modal backdrop with transition effects
@@ -398,7 +668,7 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
         <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
           <h3 className="text-lg font-medium leading-6 text-gray-900">{modalTitle}</h3>
           {/* Close Button */}
-          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label="Close modal">
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label={t('common.closeModal')}>
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
           </button>
         </div>
@@ -409,11 +679,11 @@ const EditPlanSectionModal: React.FC<EditPlanSectionModalProps> = ({
         </div>
 
         {/* Modal Footer */}
-        <div className="flex justify-end space-x-3 p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
+        <div className="flex justify-end space-x-3 rtl:space-x-reverse p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
           {/* Cancel Button */}
-          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">Cancel</button>
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">{t('common.cancel')}</button>
           {/* Save Button */}
-          <button type="button" onClick={handleSave} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition duration-150 ease-in-out">Save Changes</button>
+          <button type="button" onClick={handleSave} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition duration-150 ease-in-out">{t('edit.save')}</button>
         </div>
       </div>
     </div>
@@ -0,0 +1,175 @@
+// src/components/GuestList.tsx
+import { useMemo, useState } from 'react';
+import type { FormEvent } from 'react';
+import type { Guest, RsvpStatus } from '../types';
+import { RSVP_STATUSES, RSVP_STATUS_LABELS, createGuest } from '../utils/guests';
+import { useTranslation } from '../i18n/I18nContext';
+
+/**
+ * Props for the GuestList component.
+ */
+interface GuestListProps {
+    guests: Guest[]; // The event's guests
+    onChange: (guests: Guest[]) => void; // Called with the full list after every change
+}
+
+// Group key for guests without a household (shown with a translated label)
+const NO_HOUSEHOLD = '';
+
+// Badge colors per RSVP status
+const RSVP_BADGE_CLASSES: Record<RsvpStatus, string> = {
+    invited: 'bg-gray-100 text-gray-700',
+    yes: 'bg-green-100 text-green-800',
+    maybe: 'bg-yellow-100 text-yellow-800',
+    no: 'bg-red-100 text-red-700',
+};
+
+/**
+ * GuestList Component
+ * Adds and edits an event's guests (adult/child, contact, household, RSVP, plus-ones and notes),
+ * grouped by household.
+ */
+export default function GuestList({ guests, onChange }: GuestListProps) {
+    const { t } = useTranslation();
+    // New guest form state
+    const [newGuest, setNewGuest] = useState<Guest>(() => createGuest());
+
+    // Group guests by household, keeping the order households were first added in
+    const households = useMemo(() => {
+        const groups = new Map<string, Guest[]>();
+        guests.forEach(guest => {
+            const key = guest.household.trim() || NO_HOUSEHOLD;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(guest);
+        });
+        return [...groups.entries()];
+    }, [guests]);
+
+    // Existing household names, suggested when adding a guest
+    const householdNames = households.map(([name]) => name).filter(name => name !== NO_HOUSEHOLD);
+
+    /** Updates a single field of a guest. */
+    const handleGuestChange = <K extends keyof Guest>(id: string, field: K, value: Guest[K]) => {
+        onChange(guests.map(guest => (guest.id === id ? { ...guest, [field]: value } : guest)));
+    };
+
+    const handleRemoveGuest = (id: string) => onChange(guests.filter(guest => guest.id !== id));
+
+    /** Adds the guest from the form and resets it, keeping the household for adding family members quickly. */
+    const handleAddGuest = (e: FormEvent) => {
+        e.preventDefault();
+        if (!newGuest.name.trim()) return;
+        onChange([...guests, { ...newGuest, name: newGuest.name.trim(), household: newGuest.household.trim() }]);
+        setNewGuest(createGuest({ household: newGuest.household.trim(), type: newGuest.type }));
+    };
+
+    /** Parses the plus-ones input into a whole, non-negative number. */
+    const parsePlusOnes = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+    const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+    return (
+        <div className="space-y-6">
+            {/* Add Guest Form */}
+            <form onSubmit={handleAddGuest} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end p-3 bg-gray-50 border border-gray-200 rounded-md">
+                <div className="col-span-2">
+                    <label htmlFor="new-guest-name" className="block text-xs font-medium text-gray-600 mb-1">{t('guestList.name')}</label>
+                    <input id="new-guest-name" type="text" value={newGuest.name} onChange={(e) => setNewGuest({ ...newGuest, name: e.target.value })} placeholder={t('guestList.name.placeholder')} className={inputClass} required />
+                </div>
+                <div>
+                    <label htmlFor="new-guest-type" className="block text-xs font-medium text-gray-600 mb-1">{t('guestList.type')}</label>
+                    <select id="new-guest-type" value={newGuest.type} onChange={(e) => setNewGuest({ ...newGuest, type: e.target.value as Guest['type'] })} className={inputClass}>
+                        <option value="adult">{t('guestList.type.adult')}</option>
+                        <option value="child">{t('guestList.type.child')}</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="new-guest-household" className="block text-xs font-medium text-gray-600 mb-1">{t('guestList.household')}</label>
+                    <input id="new-guest-household" type="text" list="guest-households" value={newGuest.household} onChange={(e) => setNewGuest({ ...newGuest, household: e.target.value })} placeholder={t('guestList.household.placeholder')} className={inputClass} />
+                    <datalist id="guest-households">
+                        {householdNames.map(name => <option key={name} value={name} />)}
+                    </datalist>
+                </div>
+                <div>
+                    <label htmlFor="new-guest-contact" className="block text-xs font-medium text-gray-600 mb-1">{t('guestList.contact')}</label>
+                    <input id="new-guest-contact" type="text" value={newGuest.contact} onChange={(e) => setNewGuest({ ...newGuest, contact: e.target.value })} placeholder={t('guestList.contact.placeholder')} className={inputClass} />
+                </div>
+                <button type="submit" className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2">
+                    {t('guestList.add')}
+                </button>
+            </form>
+
+            {/* Guests grouped by household */}
+            {guests.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">{t('guestList.empty')}</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-start text-xs uppercase text-gray-500 border-b border-gray-200">
+                                <th className="py-2 pe-2">{t('guestList.name')}</th>
+                                <th className="py-2 pe-2">{t('guestList.type')}</th>
+                                <th className="py-2 pe-2">{t('guestList.rsvp')}</th>
+                                <th className="py-2 pe-2">{t('guestList.plusOnes')}</th>
+                                <th className="py-2 pe-2">{t('guestList.contact')}</th>
+                                <th className="py-2 pe-2">{t('guestList.household')}</th>
+                                <th className="py-2 pe-2">{t('guestList.notes')}</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        {households.map(([household, members]) => (
+                            <tbody key={household === NO_HOUSEHOLD ? 'no-household' : household}>
+                                <tr className="bg-gray-50">
+                                    <td colSpan={8} className="py-1.5 px-2 text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                                        {household === NO_HOUSEHOLD ? t('guestList.noHousehold') : household} <span className="font-normal normal-case text-gray-400">({members.length})</span>
+                                    </td>
+                                </tr>
+                                {members.map(guest => (
+                                    <tr key={guest.id} className="border-b border-gray-100 align-top">
+                                        <td className="py-2 pe-2 min-w-[9rem]">
+                                            <input type="text" value={guest.name} onChange={(e) => handleGuestChange(guest.id, 'name', e.target.value)} className={inputClass} aria-label={t('guestList.nameAria')} />
+                                        </td>
+                                        <td className="py-2 pe-2">
+                                            <select value={guest.type} onChange={(e) => handleGuestChange(guest.id, 'type', e.target.value as Guest['type'])} className={inputClass} aria-label={t('guestList.typeAria')}>
+                                                <option value="adult">{t('guestList.type.adult')}</option>
+                                                <option value="child">{t('guestList.type.child')}</option>
+                                            </select>
+                                        </td>
+                                        <td className="py-2 pe-2">
+                                            <select value={guest.rsvp} onChange={(e) => handleGuestChange(guest.id, 'rsvp', e.target.value as RsvpStatus)} className={`${inputClass} ${RSVP_BADGE_CLASSES[guest.rsvp]}`} aria-label={t('guestList.rsvpAria')}>
+                                                {RSVP_STATUSES.map(status => <option key={status} value={status}>{t(RSVP_STATUS_LABELS[status])}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="py-2 pe-2 w-20">
+                                            <input type="number" min="0" value={guest.plusOnes} onChange={(e) => handleGuestChange(guest.id, 'plusOnes', parsePlusOnes(e.target.value))} className={inputClass} aria-label={t('guestList.plusOnes')} />
+                                        </td>
+                                        <td className="py-2 pe-2 min-w-[8rem]">
+                                            <input type="text" value={guest.contact} onChange={(e) => handleGuestChange(guest.id, 'contact', e.target.value)} className={inputClass} aria-label={t('guestList.contact')} />
+                                        </td>
+                                        <td className="py-2 pe-2 min-w-[8rem]">
+                                            {/* Saved on blur, so the row doesn't jump to another group while typing */}
+                                            <input
+                                                type="text"
+                                                list="guest-households"
+                                                defaultValue={guest.household}
+                                                onBlur={(e) => { if (e.target.value.trim() !== guest.household) handleGuestChange(guest.id, 'household', e.target.value.trim()); }}
+                                                className={inputClass}
+                                                aria-label={t('guestList.household')}
+                                            />
+                                        </td>
+                                        <td className="py-2 pe-2 min-w-[8rem]">
+                                            <input type="text" value={guest.notes} onChange={(e) => handleGuestChange(guest.id, 'notes', e.target.value)} className={inputClass} aria-label={t('guestList.notes')} />
+                                        </td>
+                                        <td className="py-2 text-end">
+                                            <button onClick={() => handleRemoveGuest(guest.id)} className="text-red-500 hover:text-red-700 text-xs font-medium px-2 py-1.5" aria-label={guest.name ? t('guestList.removeAria', { name: guest.name }) : t('guestList.removeGuestAria')}>{t('common.remove')}</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        ))}
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 // Import the actual invitation logic component you provided
 import SmartInvitation from './SmartInvitation';
+import { useTranslation } from '../i18n/I18nContext';
 // Import necessary types
 import type { BirthdayPlan } from '../types';
 
@@ -9,6 +10,7 @@ interface InvitationCreatorModalProps {
     isOpen: boolean;
     onClose: () => void;
     currentPlan: BirthdayPlan | null; // Pass the current plan
+    eventId: string; // The event generated invitations are saved to
 }
 
 /**
@@ -19,7 +21,9 @@ const InvitationCreatorModal: React.FC<InvitationCreatorModalProps> = ({
     isOpen,
     onClose,
     currentPlan,
+    eventId,
 }) => {
+    const { t } = useTranslation();
 
     // Don't render if not open or plan is missing
     if (!isOpen || !currentPlan) {
@@ -37,8 +41,8 @@ const InvitationCreatorModal: React.FC<InvitationCreatorModalProps> = ({
             <div className={`bg-white rounded-lg shadow-xl w-full max-w-3xl transform transition-all duration-300 ease-in-out ${isOpen ? 'scale-100 opacity-100' : 'scale-95 opacity-0'} flex flex-col max-h-[90vh]`}>
                 {/* Modal Header */}
                 <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
-                    <h3 className="text-lg font-medium leading-6 text-gray-900">Create Smart Invitation</h3>
-                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label="Close modal">
+                    <h3 className="text-lg font-medium leading-6 text-gray-900">{t('invitationModal.title')}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label={t('common.closeModal')}>
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                     </button>
                 </div>
@@ -49,13 +53,14 @@ const InvitationCreatorModal: React.FC<InvitationCreatorModalProps> = ({
                     {/* Pass the selectedPlan prop */}
                     <SmartInvitation
                         selectedPlan={currentPlan}
+                        eventId={eventId}
                     />
                 </div>
 
                  {/* Modal Footer - Added a close button */}
                  {/* The SmartInvitation component has its own internal buttons for Generate/Save */}
-                 <div className="flex justify-end space-x-3 p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
-                     <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">Close</button>
+                 <div className="flex justify-end space-x-3 rtl:space-x-reverse p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
+                     <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">{t('common.close')}</button>
                  </div>
             </div>
         </div>
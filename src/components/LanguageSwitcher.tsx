@@ -0,0 +1,28 @@
+// src/components/LanguageSwitcher.tsx
+import { useTranslation } from '../i18n/I18nContext';
+import { LANGUAGES } from '../i18n/language';
+import type { Language } from '../i18n/language';
+
+/**
+ * LanguageSwitcher Component
+ * A small floating selector for the UI language, shown on every page.
+ * The choice is remembered and also sets the language plans and invitations are generated in.
+ */
+export default function LanguageSwitcher() {
+    const { language, setLanguage, t } = useTranslation();
+
+    return (
+        <div className="fixed bottom-4 start-4 z-40 print:hidden">
+            <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as Language)}
+                aria-label={t('language.label')}
+                className="px-3 py-1.5 bg-white border border-gray-300 rounded-full shadow-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+            >
+                {(Object.keys(LANGUAGES) as Language[]).map(code => (
+                    <option key={code} value={code}>{LANGUAGES[code].label}</option>
+                ))}
+            </select>
+        </div>
+    );
+}
@@ -0,0 +1,150 @@
+// src/components/OptimizationReview.tsx
+import { useState, useMemo } from 'react';
+import type { BirthdayPlan } from '../types';
+import { diffPlans, applyChanges, formatDiffValue, pathLabel } from '../utils/planDiff';
+import type { PlanFieldChange } from '../utils/planDiff';
+import { useTranslation } from '../i18n/I18nContext';
+import { getFieldLabel } from '../i18n/language';
+import type { MessageKey } from '../i18n/messages/en';
+
+/**
+ * Props for the OptimizationReview component.
+ */
+interface OptimizationReviewProps {
+    currentPlan: BirthdayPlan; // The plan as it is now
+    proposedPlan: BirthdayPlan; // The optimized plan returned by the API
+    onApply: (plan: BirthdayPlan) => void; // Called with the current plan plus the accepted changes
+    onDiscard: () => void; // Called when the user rejects the optimization entirely
+    noChangesText?: string; // Shown instead of the optimizer's message when nothing changed
+}
+
+// Plan sections reviewed change by change, in display order. Other changed fields are grouped under "Other".
+const REVIEW_SECTIONS = ['venue', 'schedule', 'catering', 'guestEngagement', 'decorations'] as const;
+const SECTION_TITLES: Record<string, MessageKey> = {
+    venue: 'plan.section.venue',
+    schedule: 'plan.section.schedule',
+    catering: 'plan.section.catering',
+    guestEngagement: 'plan.section.guestEngagement',
+    decorations: 'plan.section.decorations',
+    other: 'review.other',
+};
+
+/** Returns a stable key for a change (its path). */
+const changeKey = (change: PlanFieldChange) => change.path.join('.');
+
+/**
+ * OptimizationReview Component
+ * Shows a field-by-field diff between the current plan and the optimized plan, grouped by section.
+ * Every change starts accepted; the user can reject individual changes before anything is saved.
+ * The optimization summary is always kept, so the plan records why it changed.
+ */
+export default function OptimizationReview({ currentPlan, proposedPlan, onApply, onDiscard, noChangesText }: OptimizationReviewProps) {
+    const { t, language } = useTranslation();
+    const labelSegment = (segment: string | number) => getFieldLabel(language, segment);
+    // Diff the plans, leaving out the summary (shown separately above the changes)
+    const changes = useMemo(
+        () => diffPlans(currentPlan, proposedPlan).filter(change => change.path[0] !== 'optimizationSummary'),
+        [currentPlan, proposedPlan]
+    );
+
+    // Keys of the changes the user has rejected (everything else is accepted)
+    const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+    // Group changes by section for display
+    const groups = useMemo(() => {
+        const bySection: Record<string, PlanFieldChange[]> = {};
+        changes.forEach(change => {
+            const section = (REVIEW_SECTIONS as readonly (string | number)[]).includes(change.path[0]) ? String(change.path[0]) : 'other';
+            (bySection[section] ??= []).push(change);
+        });
+        return [...REVIEW_SECTIONS, 'other'].filter(section => bySection[section]).map(section => ({ section, changes: bySection[section] }));
+    }, [changes]);
+
+    const acceptedCount = changes.length - rejected.size;
+
+    /** Toggles whether a single change is accepted. */
+    const toggleChange = (key: string) => {
+        setRejected(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key); else next.add(key);
+            return next;
+        });
+    };
+
+    /** Builds the plan from the accepted changes and passes it back. */
+    const handleApply = () => {
+        const accepted = changes.filter(change => !rejected.has(changeKey(change)));
+        const updatedPlan = applyChanges(currentPlan, accepted);
+        // Keep the optimizer's explanation alongside whichever changes were accepted
+        if (proposedPlan.optimizationSummary) updatedPlan.optimizationSummary = proposedPlan.optimizationSummary;
+        onApply(updatedPlan);
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-xl font-bold text-indigo-800">{t('review.title')}</h3>
+
+            {/* Optimizer's own explanation */}
+            {proposedPlan.optimizationSummary && (
+                <div className="p-3 border border-green-200 rounded-md bg-green-50 text-sm text-green-800 whitespace-pre-wrap">
+                    {proposedPlan.optimizationSummary}
+                </div>
+            )}
+
+            {changes.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">{noChangesText ?? t('review.noChanges')}</p>
+            ) : (
+                <>
+                    {/* Bulk selection */}
+                    <div className="flex justify-between items-center text-sm">
+                        <span className="text-gray-600">{t('review.acceptedCount', { accepted: acceptedCount, total: changes.length })}</span>
+                        <div className="space-x-3 rtl:space-x-reverse">
+                            <button onClick={() => setRejected(new Set())} className="text-indigo-600 hover:underline">{t('review.acceptAll')}</button>
+                            <button onClick={() => setRejected(new Set(changes.map(changeKey)))} className="text-indigo-600 hover:underline">{t('review.rejectAll')}</button>
+                        </div>
+                    </div>
+
+                    {/* Changes grouped by section */}
+                    {groups.map(({ section, changes: sectionChanges }) => (
+                        <div key={section}>
+                            <h4 className="text-md font-semibold text-gray-800 mb-2">{t(SECTION_TITLES[section])}</h4>
+                            <ul className="space-y-2">
+                                {sectionChanges.map(change => {
+                                    const key = changeKey(change);
+                                    const isAccepted = !rejected.has(key);
+                                    return (
+                                        <li key={key} className={`border rounded-md p-3 text-sm ${isAccepted ? 'border-indigo-200 bg-white' : 'border-gray-200 bg-gray-50 opacity-70'}`}>
+                                            <label className="flex items-start gap-3 cursor-pointer">
+                                                <input type="checkbox" checked={isAccepted} onChange={() => toggleChange(key)} className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                                <span className="flex-grow">
+                                                    {/* Drop the section name from the label, since it's already the group heading */}
+                                                    <span className="block font-medium text-gray-800 mb-1">{section === 'other' || change.path.length === 1 ? pathLabel(change.path, labelSegment) : pathLabel(change.path.slice(1), labelSegment)}</span>
+                                                    <span className="block text-red-700 bg-red-50 rounded px-2 py-1 line-through decoration-red-300">{formatDiffValue(change.before, labelSegment)}</span>
+                                                    <span className="block text-green-800 bg-green-50 rounded px-2 py-1 mt-1">{formatDiffValue(change.after, labelSegment)}</span>
+                                                </span>
+                                            </label>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </div>
+                    ))}
+                </>
+            )}
+
+            {/* Review actions */}
+            <div className="flex justify-end space-x-3 rtl:space-x-reverse pt-4 border-t border-gray-200">
+                <button onClick={onDiscard} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">
+                    {t('review.discard')}
+                </button>
+                <button
+                    onClick={handleApply}
+                    disabled={acceptedCount === 0}
+                    className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-md shadow hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                >
+                    {t(acceptedCount === changes.length ? 'review.applyAll' : 'review.applySelected')}
+                </button>
+            </div>
+        </div>
+    );
+}
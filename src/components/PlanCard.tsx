@@ -1,6 +1,11 @@
     // src/components/PlanCard.tsx
     import React, { useState, useCallback } from 'react'; // Removed useEffect, useRef
-    import type { BirthdayPlan } from '../types';
+    import type { BirthdayPlan, UserInput } from '../types';
+    import PlanCostSummary from './PlanCostSummary';
+    import { formatCostEstimate } from '../utils/cost';
+    import { CUSTOM_PROFILE } from '../utils/compositePlan';
+    import { useTranslation } from '../i18n/I18nContext';
+    import { getProfileLabel } from '../i18n/language';
 
     /**
      * Props for the PlanCard component.
@@ -8,8 +13,10 @@
      */
     interface PlanCardProps {
     	plan: BirthdayPlan;
-    	isSelected: boolean; // Keep for visual styling on Results page
+    	isSelected: boolean; // True for the plan chosen as the winner on the Results page
     	onSelect: () => void; // This will now trigger navigation via parent
+    	userInput?: UserInput | null; // Optional: enables the estimated total vs budget line
+    	guestCount?: number; // Optional: headcount for per-person costs (defaults to the planned counts in userInput)
     }
 
     /**
@@ -17,7 +24,8 @@
      * Clicking the button now triggers navigation via the onSelect prop.
      * Inline editing has been removed.
      */
-    export default function PlanCard({ plan, isSelected, onSelect }: PlanCardProps) {
+    export default function PlanCard({ plan, isSelected, onSelect, userInput, guestCount }: PlanCardProps) {
+    	const { t, language } = useTranslation();
     	// State for managing which detail section is expanded
     	const [expandedSection, setExpandedSection] = useState<string | null>(null);
 
@@ -38,8 +46,8 @@
                 ));
             }
             // Use a more descriptive placeholder and style it
-            return <li className="text-gray-400 italic">None specified</li>;
-        }, []);
+            return <li className="text-gray-400 italic">{t('common.noneSpecified')}</li>;
+        }, [t]);
 
     	// --- Render Component UI ---
     	return (
@@ -54,12 +62,12 @@
     			{/* Header Section: Name, Description, View Button */}
     			<div className="flex justify-between items-start mb-4">
     				{/* Plan Name and Description (Not editable here anymore) */}
-    				<div className="flex-grow mr-4 min-w-0">
+    				<div className="flex-grow me-4 min-w-0">
     					<h3 className="text-xl font-bold text-gray-800 break-words">
-    						{plan.name || <span className="text-gray-400 italic">Unnamed Plan</span>}
+    						{plan.name || <span className="text-gray-400 italic">{t('plan.unnamed')}</span>}
     					</h3>
     					<p className="text-sm text-gray-600 mt-1 break-words">
-    						{plan.description || <span className="text-gray-400 italic">No description provided</span>}
+    						{plan.description || <span className="text-gray-400 italic">{t('plan.noDescription')}</span>}
     					</p>
                         {/* Display Plan Profile Type */}
                         {plan.profile && (
@@ -67,10 +75,24 @@
                                 plan.profile === 'DIY/Budget' ? 'bg-green-100 text-green-800' :
                                 plan.profile === 'Premium/Convenience' ? 'bg-blue-100 text-blue-800' :
                                 plan.profile === 'Unique/Adventure' ? 'bg-purple-100 text-purple-800' :
+                                plan.profile === CUSTOM_PROFILE ? 'bg-amber-100 text-amber-800' :
                                 'bg-gray-100 text-gray-800'
                             }`}>
-                                {plan.profile}
+                                {getProfileLabel(language, plan.profile)}
                             </span>
+                        )}
+                        {isSelected && (
+                            <span className="mt-2 ms-2 inline-block text-xs font-medium px-2 py-0.5 rounded bg-indigo-600 text-white">{t('planCard.chosen')}</span>
+                        )}
+                        {/* Estimated total compared to the budget */}
+                        {userInput && (
+                            <PlanCostSummary
+                                plan={plan}
+                                guestCount={guestCount ?? (userInput.guestCountAdults || 0) + (userInput.guestCountChildren || 0)}
+                                budgetAmount={userInput.budgetAmount || 0}
+                                currency={userInput.currency}
+                                compact
+                            />
                         )}
     				</div>
 
@@ -78,9 +100,9 @@
     				<button
     					onClick={onSelect} // Calls handleSelectAndNavigate in Results.tsx
     					className={`flex-shrink-0 px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-150 bg-indigo-600 text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2`} // Consistent button style
-                        aria-label={`View details for plan ${plan.name}`}
+                        aria-label={t('planCard.viewAria', { name: plan.name })}
     				>
-    					View & Edit Details
+    					{t('planCard.view')}
     				</button>
     			</div>
 
@@ -90,20 +112,20 @@
 
     				{/* Venue Section */}
     				<div>
-    					<button onClick={() => toggleSection('venue')} className="flex justify-between items-center w-full text-left font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'venue'}>
-    						<span>Venue Details</span>
+    					<button onClick={() => toggleSection('venue')} className="flex justify-between items-center w-full text-start font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'venue'}>
+    						<span>{t('planCard.venue')}</span>
     						<span className="text-lg font-light">{expandedSection === 'venue' ? '−' : '+'}</span>
     					</button>
     					{expandedSection === 'venue' && (
-    						<div className="p-3 border-l-2 border-gray-200 ml-2 mt-2 text-sm space-y-1 bg-white rounded-r-md shadow-inner">
+    						<div className="p-3 border-s-2 border-gray-200 ms-2 mt-2 text-sm space-y-1 bg-white rounded-e-md shadow-inner">
     							{/* ... Venue details rendering using renderList ... */}
                                 <h4 className="font-semibold text-gray-800">{plan.venue?.name || '-'}</h4>
                                 <p className="text-gray-600">{plan.venue?.description || '-'}</p>
-                                <p><strong className="font-medium text-gray-700">Cost:</strong> {plan.venue?.costRange || '-'}</p>
-                                <div><strong className="font-medium text-gray-700">Amenities:</strong><ul className="list-disc list-inside ml-4 text-gray-600">{renderList(plan.venue?.amenities)}</ul></div>
-                                <p><strong className="font-medium text-gray-700">Suitability:</strong> {plan.venue?.suitability || '-'}</p>
+                                <p><strong className="font-medium text-gray-700">{t('plan.cost')}</strong> {plan.venue?.cost ? formatCostEstimate(plan.venue.cost, t('cost.perPersonSuffix')) : (plan.venue?.costRange || '-')}</p>
+                                <div><strong className="font-medium text-gray-700">{t('plan.amenities')}</strong><ul className="list-disc list-inside ms-4 text-gray-600">{renderList(plan.venue?.amenities)}</ul></div>
+                                <p><strong className="font-medium text-gray-700">{t('plan.suitability')}</strong> {plan.venue?.suitability || '-'}</p>
                                 {plan.venue?.venueSearchSuggestions && plan.venue.venueSearchSuggestions.length > 0 && (
-                                    <div className="pt-1 mt-1 border-t border-gray-100"><strong className="font-medium text-gray-700 text-xs">Example Searches:</strong><ul className="list-disc list-inside ml-4 text-gray-500 text-xs">{renderList(plan.venue.venueSearchSuggestions)}</ul></div>
+                                    <div className="pt-1 mt-1 border-t border-gray-100"><strong className="font-medium text-gray-700 text-xs">{t('plan.exampleSearches')}</strong><ul className="list-disc list-inside ms-4 text-gray-500 text-xs">{renderList(plan.venue.venueSearchSuggestions)}</ul></div>
                                 )}
     						</div>
     					)}
@@ -111,32 +133,32 @@
 
     				{/* Schedule Section */}
                     <div>
-    					<button onClick={() => toggleSection('schedule')} className="flex justify-between items-center w-full text-left font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'schedule'}>
-    						<span>Activity Schedule</span>
+    					<button onClick={() => toggleSection('schedule')} className="flex justify-between items-center w-full text-start font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'schedule'}>
+    						<span>{t('planCard.schedule')}</span>
     						<span className="text-lg font-light">{expandedSection === 'schedule' ? '−' : '+'}</span>
     					</button>
     					{expandedSection === 'schedule' && (
-    						<div className="p-3 border-l-2 border-gray-200 ml-2 mt-2 text-sm space-y-2 bg-white rounded-r-md shadow-inner">
+    						<div className="p-3 border-s-2 border-gray-200 ms-2 mt-2 text-sm space-y-2 bg-white rounded-e-md shadow-inner">
     							{/* ... Schedule details rendering ... */}
-                                {plan.schedule?.length > 0 ? ( plan.schedule.map((item, index) => ( <div key={index}> <strong className="font-medium text-gray-700">{item.time || 'N/A'}:</strong> {item.activity || '-'} {item.description && <p className="text-xs text-gray-500 pl-2">{item.description}</p>} </div> )) ) : ( <p className="text-gray-500 italic">No schedule provided.</p> )}
+                                {plan.schedule?.length > 0 ? ( plan.schedule.map((item, index) => ( <div key={index}> <strong className="font-medium text-gray-700">{item.time || t('common.notAvailable')}:</strong> {item.activity || '-'} {item.description && <p className="text-xs text-gray-500 ps-2">{item.description}</p>} </div> )) ) : ( <p className="text-gray-500 italic">{t('planCard.noSchedule')}</p> )}
     						</div>
     					)}
     				</div>
 
     				{/* Catering Section */}
     				<div>
-    					<button onClick={() => toggleSection('catering')} className="flex justify-between items-center w-full text-left font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'catering'}>
-    						<span>Catering Details</span>
+    					<button onClick={() => toggleSection('catering')} className="flex justify-between items-center w-full text-start font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'catering'}>
+    						<span>{t('planCard.catering')}</span>
     						<span className="text-lg font-light">{expandedSection === 'catering' ? '−' : '+'}</span>
     					</button>
     					{expandedSection === 'catering' && (
-    						<div className="p-3 border-l-2 border-gray-200 ml-2 mt-2 text-sm space-y-2 bg-white rounded-r-md shadow-inner">
+    						<div className="p-3 border-s-2 border-gray-200 ms-2 mt-2 text-sm space-y-2 bg-white rounded-e-md shadow-inner">
     							{/* ... Catering details rendering using renderList ... */}
-                                <p><strong className="font-medium text-gray-700">Est. Cost:</strong> {plan.catering?.estimatedCost || '-'}</p>
-                                <p><strong className="font-medium text-gray-700">Style:</strong> {plan.catering?.servingStyle || '-'}</p>
-                                <div className="pt-1"> <strong className="font-medium text-gray-700">Menu:</strong> <div className="ml-4 text-gray-600 space-y-1"> <div><span className="text-xs font-semibold text-gray-500">Appetizers:</span> <ul className="list-disc list-inside text-xs">{renderList(plan.catering?.menu?.appetizers)}</ul></div> <div><span className="text-xs font-semibold text-gray-500">Main Courses:</span> <ul className="list-disc list-inside text-xs">{renderList(plan.catering?.menu?.mainCourses)}</ul></div> <div><span className="text-xs font-semibold text-gray-500">Desserts:</span> <p className="text-xs inline">{plan.catering?.menu?.desserts || 'None specified'}</p></div> <div><span className="text-xs font-semibold text-gray-500">Beverages:</span> <ul className="list-disc list-inside text-xs">{renderList(plan.catering?.menu?.beverages)}</ul></div> </div> </div>
+                                <p><strong className="font-medium text-gray-700">{t('plan.estCost')}</strong> {plan.catering?.cost ? formatCostEstimate(plan.catering.cost, t('cost.perPersonSuffix')) : (plan.catering?.estimatedCost || '-')}</p>
+                                <p><strong className="font-medium text-gray-700">{t('plan.style')}</strong> {plan.catering?.servingStyle || '-'}</p>
+                                <div className="pt-1"> <strong className="font-medium text-gray-700">{t('plan.menu')}</strong> <div className="ms-4 text-gray-600 space-y-1"> <div><span className="text-xs font-semibold text-gray-500">{t('plan.appetizers')}</span> <ul className="list-disc list-inside text-xs">{renderList(plan.catering?.menu?.appetizers)}</ul></div> <div><span className="text-xs font-semibold text-gray-500">{t('plan.mainCourses')}</span> <ul className="list-disc list-inside text-xs">{renderList(plan.catering?.menu?.mainCourses)}</ul></div> <div><span className="text-xs font-semibold text-gray-500">{t('plan.desserts')}</span> <p className="text-xs inline">{plan.catering?.menu?.desserts || t('common.noneSpecified')}</p></div> <div><span className="text-xs font-semibold text-gray-500">{t('plan.beverages')}</span> <ul className="list-disc list-inside text-xs">{renderList(plan.catering?.menu?.beverages)}</ul></div> </div> </div>
                                 {plan.catering?.cateringSearchSuggestions && plan.catering.cateringSearchSuggestions.length > 0 && (
-                                    <div className="pt-1 mt-1 border-t border-gray-100"><strong className="font-medium text-gray-700 text-xs">Example Searches:</strong><ul className="list-disc list-inside ml-4 text-gray-500 text-xs">{renderList(plan.catering.cateringSearchSuggestions)}</ul></div>
+                                    <div className="pt-1 mt-1 border-t border-gray-100"><strong className="font-medium text-gray-700 text-xs">{t('plan.exampleSearches')}</strong><ul className="list-disc list-inside ms-4 text-gray-500 text-xs">{renderList(plan.catering.cateringSearchSuggestions)}</ul></div>
                                 )}
     						</div>
     					)}
@@ -144,24 +166,43 @@
 
     				{/* Guest Engagement Section */}
     				<div>
-    					<button onClick={() => toggleSection('engagement')} className="flex justify-between items-center w-full text-left font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'engagement'}>
-    						<span>Guest Engagement</span>
+    					<button onClick={() => toggleSection('engagement')} className="flex justify-between items-center w-full text-start font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'engagement'}>
+    						<span>{t('plan.section.guestEngagement')}</span>
     						<span className="text-lg font-light">{expandedSection === 'engagement' ? '−' : '+'}</span>
     					</button>
     					{expandedSection === 'engagement' && (
-    						<div className="p-3 border-l-2 border-gray-200 ml-2 mt-2 text-sm space-y-2 bg-white rounded-r-md shadow-inner">
+    						<div className="p-3 border-s-2 border-gray-200 ms-2 mt-2 text-sm space-y-2 bg-white rounded-e-md shadow-inner">
     							{/* ... Guest Engagement details rendering using renderList ... */}
-                                <div><strong className="font-medium text-gray-700">Icebreakers:</strong> <ul className="list-disc list-inside ml-4 text-gray-600">{renderList(plan.guestEngagement?.icebreakers)}</ul></div>
-                                <div><strong className="font-medium text-gray-700">Interactive Elements:</strong> <ul className="list-disc list-inside ml-4 text-gray-600">{renderList(plan.guestEngagement?.interactiveElements)}</ul></div>
-                                <div><strong className="font-medium text-gray-700">Photo Opportunities:</strong> <ul className="list-disc list-inside ml-4 text-gray-600">{renderList(plan.guestEngagement?.photoOpportunities)}</ul></div>
-                                <div><strong className="font-medium text-gray-700">Party Favors:</strong> <ul className="list-disc list-inside ml-4 text-gray-600">{renderList(plan.guestEngagement?.partyFavors)}</ul></div>
-                                {plan.guestEngagement?.techIntegration && plan.guestEngagement.techIntegration.length > 0 && ( <div><strong className="font-medium text-gray-700">Tech Integration:</strong> <ul className="list-disc list-inside ml-4 text-gray-600">{renderList(plan.guestEngagement.techIntegration)}</ul></div> )}
+                                <div><strong className="font-medium text-gray-700">{t('plan.icebreakers')}</strong> <ul className="list-disc list-inside ms-4 text-gray-600">{renderList(plan.guestEngagement?.icebreakers)}</ul></div>
+                                <div><strong className="font-medium text-gray-700">{t('plan.interactiveElements')}</strong> <ul className="list-disc list-inside ms-4 text-gray-600">{renderList(plan.guestEngagement?.interactiveElements)}</ul></div>
+                                <div><strong className="font-medium text-gray-700">{t('plan.photoOpportunities')}</strong> <ul className="list-disc list-inside ms-4 text-gray-600">{renderList(plan.guestEngagement?.photoOpportunities)}</ul></div>
+                                <div><strong className="font-medium text-gray-700">{t('plan.partyFavors')}</strong> <ul className="list-disc list-inside ms-4 text-gray-600">{renderList(plan.guestEngagement?.partyFavors)}</ul></div>
+                                {plan.guestEngagement?.techIntegration && plan.guestEngagement.techIntegration.length > 0 && ( <div><strong className="font-medium text-gray-700">{t('plan.techIntegration')}</strong> <ul className="list-disc list-inside ms-4 text-gray-600">{renderList(plan.guestEngagement.techIntegration)}</ul></div> )}
                                 {plan.guestEngagement?.entertainmentSearchSuggestions && plan.guestEngagement.entertainmentSearchSuggestions.length > 0 && (
-                                    <div className="pt-1 mt-1 border-t border-gray-100"><strong className="font-medium text-gray-700 text-xs">Example Searches:</strong><ul className="list-disc list-inside ml-4 text-gray-500 text-xs">{renderList(plan.guestEngagement.entertainmentSearchSuggestions)}</ul></div>
+                                    <div className="pt-1 mt-1 border-t border-gray-100"><strong className="font-medium text-gray-700 text-xs">{t('plan.exampleSearches')}</strong><ul className="list-disc list-inside ms-4 text-gray-500 text-xs">{renderList(plan.guestEngagement.entertainmentSearchSuggestions)}</ul></div>
+                                )}
+    						</div>
+    					)}
+    				</div>
+
+    				{/* Decorations Section (older plans may not have one) */}
+    				{plan.decorations && (
+    				<div>
+    					<button onClick={() => toggleSection('decorations')} className="flex justify-between items-center w-full text-start font-semibold text-sm p-2 bg-gray-50 hover:bg-gray-100 rounded transition-colors" aria-expanded={expandedSection === 'decorations'}>
+    						<span>{t('plan.section.decorations')}</span>
+    						<span className="text-lg font-light">{expandedSection === 'decorations' ? '−' : '+'}</span>
+    					</button>
+    					{expandedSection === 'decorations' && (
+    						<div className="p-3 border-s-2 border-gray-200 ms-2 mt-2 text-sm space-y-2 bg-white rounded-e-md shadow-inner">
+                                <p><strong className="font-medium text-gray-700">{t('plan.colorPalette')}</strong> {plan.decorations.colorPalette.length > 0 ? plan.decorations.colorPalette.join(', ') : t('common.noneSpecified')}</p>
+                                <div><strong className="font-medium text-gray-700">{t('plan.keyPieces')}</strong> <ul className="list-disc list-inside ms-4 text-gray-600">{renderList(plan.decorations.keyPieces.map(piece => `${piece.item} (${t(`plan.decorationSource.${piece.source}`)})`))}</ul></div>
+                                {plan.decorations.decorationSearchSuggestions && plan.decorations.decorationSearchSuggestions.length > 0 && (
+                                    <div className="pt-1 mt-1 border-t border-gray-100"><strong className="font-medium text-gray-700 text-xs">{t('plan.exampleSearches')}</strong><ul className="list-disc list-inside ms-4 text-gray-500 text-xs">{renderList(plan.decorations.decorationSearchSuggestions)}</ul></div>
                                 )}
     						</div>
     					)}
     				</div>
+    				)}
     			</div>
     		</div>
     	);
@@ -0,0 +1,182 @@
+// src/components/PlanComparison.tsx
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { BirthdayPlan, UserInput } from '../types';
+import { findBestPlanIds, summarizePlanForComparison } from '../utils/planComparison';
+import type { PlanComparisonSummary } from '../utils/planComparison';
+import { ACTIVITY_OPTIONS } from '../utils/activities';
+import { formatRange } from '../utils/cost';
+import { formatDuration } from '../utils/timeline';
+import { useTranslation } from '../i18n/I18nContext';
+import { getProfileLabel } from '../i18n/language';
+
+/**
+ * Props for the PlanComparison component.
+ */
+interface PlanComparisonProps {
+    plans: BirthdayPlan[];
+    userInput: UserInput | null; // Budget currency and the selected activity types
+    guestCount: number; // Headcount for per-person costs
+    chosenPlanId: string | null; // The plan chosen as the winner, if any
+    onChoose: (planId: string) => void;
+    onView: (planId: string) => void;
+}
+
+// One compared figure: how it's shown, and which plans have the best value (if "best" applies)
+interface ComparisonRow {
+    key: string;
+    label: string;
+    render: (summary: PlanComparisonSummary) => ReactNode;
+    text: (summary: PlanComparisonSummary) => string; // Plain value, used to tell whether the plans differ
+    bestPlanIds: string[];
+}
+
+/**
+ * PlanComparison Component
+ * Lines the plans up side by side, one row per compared figure (venue, cost, schedule, activities, catering style
+ * and coverage of the selected activity types). Rows where the plans differ are highlighted and the best value
+ * is marked, and a plan can be chosen as the winner from its column.
+ */
+export default function PlanComparison({ plans, userInput, guestCount, chosenPlanId, onChoose, onView }: PlanComparisonProps) {
+    const { t, language } = useTranslation();
+    const currency = userInput?.currency || 'NIS';
+    const activities = useMemo(() => userInput?.activities ?? [], [userInput]);
+    const summaries = useMemo(
+        () => plans.map(plan => summarizePlanForComparison(plan, { guestCount, currency, activities })),
+        [plans, guestCount, currency, activities]
+    );
+
+    const notAvailable = t('common.notAvailable');
+    const activityLabel = (activity: string) => {
+        const option = ACTIVITY_OPTIONS.find(o => o.value === activity);
+        return option ? t(option.label) : activity;
+    };
+    const valuesByPlan = (value: (summary: PlanComparisonSummary) => number | null) =>
+        Object.fromEntries(summaries.map(summary => [summary.planId, value(summary)]));
+
+    const rows: ComparisonRow[] = [
+        {
+            key: 'venue',
+            label: t('compare.venue'),
+            render: summary => summary.venueName || notAvailable,
+            text: summary => summary.venueName,
+            bestPlanIds: [],
+        },
+        {
+            key: 'cost',
+            label: t('compare.cost'),
+            render: summary => (summary.cost ? formatRange(summary.cost.min, summary.cost.max, currency) : notAvailable),
+            text: summary => (summary.cost ? `${summary.cost.min}-${summary.cost.max}` : ''),
+            // Compare the middle of each estimate
+            bestPlanIds: findBestPlanIds(valuesByPlan(summary => (summary.cost ? (summary.cost.min + summary.cost.max) / 2 : null)), 'lower'),
+        },
+        {
+            key: 'scheduleLength',
+            label: t('compare.scheduleLength'),
+            render: summary => (summary.scheduleMinutes !== null ? formatDuration(summary.scheduleMinutes) : notAvailable),
+            text: summary => String(summary.scheduleMinutes ?? ''),
+            bestPlanIds: [],
+        },
+        {
+            key: 'activityCount',
+            label: t('compare.activityCount'),
+            render: summary => t('compare.activityCountValue', { count: summary.activityCount }),
+            text: summary => String(summary.activityCount),
+            bestPlanIds: [],
+        },
+        {
+            key: 'servingStyle',
+            label: t('compare.servingStyle'),
+            render: summary => summary.servingStyle || notAvailable,
+            text: summary => summary.servingStyle,
+            bestPlanIds: [],
+        },
+    ];
+    if (activities.length > 0) {
+        rows.push({
+            key: 'coverage',
+            label: t('compare.coverage'),
+            render: summary => (
+                <>
+                    <span className="font-medium">{t('compare.coverageValue', { covered: summary.coveredActivities.length, total: activities.length })}</span>
+                    <ul className="mt-1 space-y-0.5 text-xs">
+                        {activities.map(activity => {
+                            const covered = summary.coveredActivities.includes(activity);
+                            return (
+                                <li key={activity} className={covered ? 'text-gray-700' : 'text-gray-400 line-through'}>
+                                    {covered ? '✓' : '✗'} {activityLabel(activity)}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </>
+            ),
+            text: summary => summary.coveredActivities.join('|'),
+            bestPlanIds: findBestPlanIds(valuesByPlan(summary => summary.coveredActivities.length), 'higher'),
+        });
+    }
+
+    return (
+        <div className="bg-white rounded-lg shadow-md border border-gray-200">
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-start border-collapse">
+                    <thead>
+                        <tr className="border-b border-gray-200">
+                            <th className="p-3 w-40" aria-label={t('compare.figure')}></th>
+                            {plans.map(plan => (
+                                <th key={plan.id} scope="col" className={`p-3 text-start align-top font-normal min-w-[12rem] ${plan.id === chosenPlanId ? 'bg-indigo-50' : ''}`}>
+                                    <p className="text-base font-bold text-gray-800">{plan.name}</p>
+                                    {plan.profile && <p className="text-xs text-gray-500">{getProfileLabel(language, plan.profile)}</p>}
+                                    {plan.id === chosenPlanId && <span className="mt-1 inline-block text-xs font-medium px-2 py-0.5 rounded bg-indigo-600 text-white">{t('compare.chosen')}</span>}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => {
+                            const differs = new Set(summaries.map(row.text)).size > 1;
+                            return (
+                                <tr key={row.key} className={`border-b border-gray-100 ${differs ? 'bg-amber-50' : ''}`}>
+                                    <th scope="row" className="p-3 text-start align-top font-medium text-gray-700">
+                                        {row.label}
+                                        {differs && <span className="block text-xs font-normal text-amber-700">{t('compare.differs')}</span>}
+                                    </th>
+                                    {summaries.map(summary => {
+                                        const isBest = row.bestPlanIds.includes(summary.planId);
+                                        return (
+                                            <td key={summary.planId} className={`p-3 align-top ${isBest ? 'text-green-800' : 'text-gray-700'}`}>
+                                                {row.render(summary)}
+                                                {isBest && <span className="ms-2 text-xs font-medium px-1.5 py-0.5 rounded bg-green-100 text-green-800">{t('compare.best')}</span>}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            );
+                        })}
+                        {/* Actions */}
+                        <tr>
+                            <td className="p-3"></td>
+                            {plans.map(plan => (
+                                <td key={plan.id} className="p-3 align-top">
+                                    <div className="flex flex-col gap-2">
+                                        <button
+                                            onClick={() => onChoose(plan.id)}
+                                            disabled={plan.id === chosenPlanId}
+                                            className="px-3 py-1.5 text-sm font-medium rounded-md shadow-sm bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-200 disabled:text-indigo-800 disabled:cursor-default focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                                        >
+                                            {plan.id === chosenPlanId ? t('compare.chosen') : t('compare.choose')}
+                                        </button>
+                                        <button onClick={() => onView(plan.id)} className="px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-400">
+                                            {t('compare.view')}
+                                        </button>
+                                    </div>
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+            <p className="px-3 py-2 text-xs text-gray-500 border-t border-gray-100">{activities.length > 0 ? t('compare.legend') : `${t('compare.legend')} ${t('compare.noActivities')}`}</p>
+        </div>
+    );
+}
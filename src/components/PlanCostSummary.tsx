@@ -0,0 +1,102 @@
+// src/components/PlanCostSummary.tsx
+import { useMemo } from 'react';
+import type { BirthdayPlan } from '../types';
+import { computePlanCost, formatAmount, formatCostEstimate, formatRange } from '../utils/cost';
+import { useTranslation } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Translations of the section labels computePlanCost uses
+const SECTION_LABEL_KEYS: Record<string, MessageKey> = {
+    Venue: 'plan.section.venue',
+    Catering: 'plan.section.catering',
+};
+
+/**
+ * Props for the PlanCostSummary component.
+ */
+interface PlanCostSummaryProps {
+    plan: BirthdayPlan; // The plan whose costs are totaled
+    guestCount: number; // Total guests (adults + children), used for per-person costs
+    budgetAmount: number; // The user's target budget
+    currency: string; // The budget currency
+    compact?: boolean; // Compact single-line variant (used on PlanCard)
+}
+
+/**
+ * PlanCostSummary Component
+ * Totals the plan's structured cost estimates and compares the total against the budget.
+ * The compact variant shows one line; the full variant adds a per-section breakdown.
+ */
+export default function PlanCostSummary({ plan, guestCount, budgetAmount, currency, compact = false }: PlanCostSummaryProps) {
+    const { t } = useTranslation();
+    const sectionLabel = (label: string) => (SECTION_LABEL_KEYS[label] ? t(SECTION_LABEL_KEYS[label]) : label);
+    // Recompute the totals only when the plan or the guest/budget context changes
+    const total = useMemo(() => computePlanCost(plan, guestCount, currency), [plan, guestCount, currency]);
+
+    const hasBudget = budgetAmount > 0;
+    const hasCosts = total.lines.length > 0;
+    // Compare the upper end of the estimate to the budget: over if even the minimum exceeds it, at risk if only the maximum does
+    const status = !hasBudget || !hasCosts || total.mixedCurrencies ? 'unknown'
+        : total.min > budgetAmount ? 'over'
+        : total.max > budgetAmount ? 'at-risk'
+        : 'within';
+    const statusStyles: Record<typeof status, string> = {
+        'within': 'bg-green-50 border-green-200 text-green-800',
+        'at-risk': 'bg-yellow-50 border-yellow-200 text-yellow-800',
+        'over': 'bg-red-50 border-red-200 text-red-800',
+        'unknown': 'bg-gray-50 border-gray-200 text-gray-700',
+    };
+    const statusLabels: Record<typeof status, string> = {
+        'within': t('cost.within'),
+        'at-risk': t('cost.atRisk'),
+        'over': t('cost.over'),
+        'unknown': t('cost.unknownStatus'),
+    };
+
+    if (compact) {
+        return (
+            <div className={`mt-3 text-xs border rounded px-2 py-1 ${statusStyles[status]}`}>
+                <strong className="font-medium">{t('cost.estTotal')}</strong>{' '}
+                {hasCosts ? formatRange(total.min, total.max, currency) : t('cost.unknown')}
+                {hasBudget && <> · {t('cost.budgetShort', { amount: `${formatAmount(budgetAmount)} ${currency}` })}</>}
+                {status !== 'unknown' && <span className="ms-1">({statusLabels[status]})</span>}
+            </div>
+        );
+    }
+
+    return (
+        <div className={`border rounded-lg p-4 ${statusStyles[status]}`}>
+            <div className="flex flex-wrap justify-between items-baseline gap-2">
+                <p className="text-lg font-semibold">
+                    {t('cost.estimatedTotal')} {hasCosts ? formatRange(total.min, total.max, currency) : t('cost.unknown')}
+                </p>
+                <span className="text-sm font-medium">{statusLabels[status]}</span>
+            </div>
+            {hasBudget && (
+                <p className="text-sm mt-1">
+                    {t('cost.budget', { amount: `${formatAmount(budgetAmount)} ${currency}` })}
+                    {status === 'within' && ` ${t('cost.toSpare', { amount: `${formatAmount(budgetAmount - total.max)} ${currency}` })}`}
+                    {status === 'over' && ` ${t('cost.overBy', { amount: `${formatAmount(total.min - budgetAmount)} ${currency}` })}`}
+                </p>
+            )}
+            {/* Per-section breakdown */}
+            {hasCosts && (
+                <ul className="mt-3 text-sm space-y-1">
+                    {total.lines.map(line => (
+                        <li key={line.label} className="flex justify-between gap-4">
+                            <span>{sectionLabel(line.label)} <span className="opacity-75">({formatCostEstimate(line.cost, t('cost.perPersonSuffix'))})</span></span>
+                            <span className="font-medium">{formatRange(line.min, line.max, line.cost.currency)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {total.unknown.length > 0 && (
+                <p className="text-xs mt-2 opacity-80">{t('cost.noEstimateFor', { sections: total.unknown.map(sectionLabel).join(', ') })}</p>
+            )}
+            {total.mixedCurrencies && (
+                <p className="text-xs mt-1 opacity-80">{t('cost.mixedCurrencies')}</p>
+            )}
+            <p className="text-xs mt-2 opacity-70">{t('cost.perPerson', { count: guestCount })}</p>
+        </div>
+    );
+}
@@ -0,0 +1,150 @@
+// src/components/PlanHistoryPanel.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import type { PlanHistory } from '../types';
+import { diffPlans, formatDiffValue, pathLabel } from '../utils/planDiff';
+import { useTranslation } from '../i18n/I18nContext';
+import { getFieldLabel, hasMessage } from '../i18n/language';
+
+// Define props for the history panel
+interface PlanHistoryPanelProps {
+    isOpen: boolean; // Controls panel visibility
+    onClose: () => void; // Function to close the panel
+    history: PlanHistory | null; // The plan's revisions and current cursor
+    onRestore: (revisionId: string) => void; // Callback to restore a revision as the current plan
+}
+
+/**
+ * PlanHistoryPanel Component
+ * Lists every saved revision of a plan with its timestamp and source,
+ * shows a field-by-field diff between any two revisions, and lets the user restore one.
+ */
+const PlanHistoryPanel: React.FC<PlanHistoryPanelProps> = ({ isOpen, onClose, history, onRestore }) => {
+    const { t, language, locale } = useTranslation();
+    // IDs of the two revisions being compared ('from' is the older side of the diff)
+    const [fromId, setFromId] = useState<string | null>(null);
+    const [toId, setToId] = useState<string | null>(null);
+
+    // Default the comparison to "previous revision" vs "current revision" whenever the panel opens
+    useEffect(() => {
+        if (!isOpen || !history || history.revisions.length === 0) return;
+        const current = history.revisions[history.cursor];
+        const previous = history.revisions[Math.max(history.cursor - 1, 0)];
+        setFromId(previous.id);
+        setToId(current.id);
+    }, [isOpen, history]);
+
+    // Compute the diff between the selected revisions
+    const changes = useMemo(() => {
+        const from = history?.revisions.find(r => r.id === fromId);
+        const to = history?.revisions.find(r => r.id === toId);
+        if (!from || !to || from.id === to.id) return [];
+        return diffPlans(from.plan, to.plan);
+    }, [history, fromId, toId]);
+
+    if (!isOpen || !history) return null;
+
+    /** Formats an ISO timestamp with date and time for the revision list. */
+    const formatTimestamp = (iso: string) => {
+        const date = new Date(iso);
+        return isNaN(date.getTime()) ? iso : date.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+    };
+
+    const labelSegment = (segment: string | number) => getFieldLabel(language, segment);
+    /** Translates a revision source (e.g., 'manual-edit' -> "Manual edit"). */
+    const sourceLabel = (source: string) => {
+        const key = `history.source.${source}`;
+        return hasMessage(key) ? t(key) : source;
+    };
+
+    // Show newest revisions first, but keep their original index for labels and the cursor badge
+    const revisionsNewestFirst = history.revisions.map((revision, index) => ({ revision, index })).reverse();
+
+    return (
+        // Modal backdrop
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            {/* Modal panel */}
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+                {/* Modal Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+                    <h3 className="text-lg font-medium leading-6 text-gray-900">{t('history.title')}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label={t('common.closeModal')}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+
+                {/* Modal Body - revision list and diff, scrollable */}
+                <div className="p-6 overflow-y-auto flex-grow space-y-6">
+                    {/* Revision List */}
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-start text-xs uppercase text-gray-500 border-b border-gray-200">
+                                <th className="py-2 pe-2">#</th>
+                                <th className="py-2 pe-2">{t('history.saved')}</th>
+                                <th className="py-2 pe-2">{t('history.source')}</th>
+                                <th className="py-2 pe-2 text-center">{t('history.from')}</th>
+                                <th className="py-2 pe-2 text-center">{t('history.to')}</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {revisionsNewestFirst.map(({ revision, index }) => (
+                                <tr key={revision.id} className={`border-b border-gray-100 ${index === history.cursor ? 'bg-indigo-50' : ''}`}>
+                                    <td className="py-2 pe-2 text-gray-500">{index + 1}</td>
+                                    <td className="py-2 pe-2 text-gray-700">{formatTimestamp(revision.timestamp)}</td>
+                                    <td className="py-2 pe-2 text-gray-700">
+                                        {sourceLabel(revision.source)}
+                                        {revision.section && <span className="text-gray-500"> ({labelSegment(revision.section)})</span>}
+                                        {index === history.cursor && <span className="ms-2 text-xs font-medium px-2 py-0.5 rounded bg-indigo-100 text-indigo-800">{t('history.current')}</span>}
+                                    </td>
+                                    <td className="py-2 pe-2 text-center">
+                                        <input type="radio" name="diff-from" checked={fromId === revision.id} onChange={() => setFromId(revision.id)} aria-label={t('history.compareFrom', { number: index + 1 })} />
+                                    </td>
+                                    <td className="py-2 pe-2 text-center">
+                                        <input type="radio" name="diff-to" checked={toId === revision.id} onChange={() => setToId(revision.id)} aria-label={t('history.compareTo', { number: index + 1 })} />
+                                    </td>
+                                    <td className="py-2 text-end">
+                                        {index !== history.cursor && (
+                                            <button
+                                                onClick={() => onRestore(revision.id)}
+                                                className="px-2 py-1 text-xs font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                                            >
+                                                {t('history.restore')}
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {/* Diff Between Selected Revisions */}
+                    <div>
+                        <h4 className="text-md font-semibold text-gray-800 mb-2">{t('history.changes')}</h4>
+                        {fromId === toId ? (
+                            <p className="text-sm text-gray-500 italic">{t('history.selectTwo')}</p>
+                        ) : changes.length === 0 ? (
+                            <p className="text-sm text-gray-500 italic">{t('history.identical')}</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {changes.map(change => (
+                                    <li key={change.path.join('.')} className="border border-gray-200 rounded-md p-3 text-sm">
+                                        <p className="font-medium text-gray-800 mb-1">{pathLabel(change.path, labelSegment)}</p>
+                                        <p className="text-red-700 bg-red-50 rounded px-2 py-1 line-through decoration-red-300">{formatDiffValue(change.before, labelSegment)}</p>
+                                        <p className="text-green-800 bg-green-50 rounded px-2 py-1 mt-1">{formatDiffValue(change.after, labelSegment)}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                {/* Modal Footer */}
+                <div className="flex justify-end space-x-3 rtl:space-x-reverse p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">{t('common.close')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PlanHistoryPanel;
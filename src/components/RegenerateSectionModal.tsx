@@ -0,0 +1,148 @@
+// src/components/RegenerateSectionModal.tsx
+import React, { useState, useEffect } from 'react';
+import OptimizationReview from './OptimizationReview';
+import { regenerateSection } from '../utils/api';
+import type { BirthdayPlan, PlanSection, UserInput } from '../types';
+import { useTranslation } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Define props for the regenerate modal
+interface RegenerateSectionModalProps {
+    isOpen: boolean; // Controls modal visibility
+    onClose: () => void; // Function to close the modal
+    section: PlanSection | null; // The section being regenerated
+    currentPlan: BirthdayPlan | null; // The full plan, sent as context
+    userInput: UserInput | null; // Original user input (location, guests, budget)
+    onApply: (plan: BirthdayPlan) => void; // Called with the plan including the accepted changes
+}
+
+// Display titles for the regenerable sections
+const SECTION_TITLES: Record<PlanSection, MessageKey> = {
+    venue: 'plan.section.venue',
+    schedule: 'plan.section.schedule',
+    catering: 'plan.section.catering',
+    guestEngagement: 'plan.section.guestEngagement',
+    decorations: 'plan.section.decorations',
+};
+
+// Example guidance shown as the placeholder for each section
+const GUIDANCE_EXAMPLES: Record<PlanSection, MessageKey> = {
+    venue: 'regenerate.example.venue',
+    schedule: 'regenerate.example.schedule',
+    catering: 'regenerate.example.catering',
+    guestEngagement: 'regenerate.example.guestEngagement',
+    decorations: 'regenerate.example.decorations',
+};
+
+/**
+ * RegenerateSectionModal Component
+ * Asks the AI for a new version of one plan section, with optional guidance,
+ * then shows the changes for review before anything is saved.
+ */
+const RegenerateSectionModal: React.FC<RegenerateSectionModalProps> = ({
+    isOpen,
+    onClose,
+    section,
+    currentPlan,
+    userInput,
+    onApply,
+}) => {
+    const { t } = useTranslation();
+    const [guidance, setGuidance] = useState<string>('');
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    // The current plan with the regenerated section, shown for review
+    const [proposedPlan, setProposedPlan] = useState<BirthdayPlan | null>(null);
+
+    // Reset the modal whenever it opens for a section
+    useEffect(() => {
+        if (isOpen) {
+            setGuidance('');
+            setIsLoading(false);
+            setError(null);
+            setProposedPlan(null);
+        }
+    }, [isOpen, section]);
+
+    if (!isOpen || !section || !currentPlan) {
+        return null;
+    }
+
+    /** Requests a new version of the section from the backend. */
+    const handleRegenerate = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await regenerateSection(currentPlan, section, guidance, userInput ?? undefined);
+            setProposedPlan({ ...currentPlan, [section]: response.content });
+        } catch (err) {
+            console.error("RegenerateSectionModal: Error regenerating section:", err);
+            setError(err instanceof Error ? err.message : t('regenerate.error'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        // Modal backdrop
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 transition-opacity duration-300 ease-in-out p-4">
+            {/* Modal panel */}
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl transform transition-all duration-300 ease-in-out flex flex-col max-h-[90vh]">
+                {/* Modal Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+                    <h3 className="text-lg font-medium leading-6 text-gray-900">{t('regenerate.title', { section: t(SECTION_TITLES[section]) })}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 focus:outline-none p-1 rounded-full hover:bg-gray-100" aria-label={t('common.closeModal')}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+
+                {/* Modal Body */}
+                <div className="p-6 overflow-y-auto flex-grow">
+                    {proposedPlan ? (
+                        // Review step: accept or reject the new section field by field
+                        <OptimizationReview
+                            currentPlan={currentPlan}
+                            proposedPlan={proposedPlan}
+                            onApply={onApply}
+                            onDiscard={() => setProposedPlan(null)} // Back to the guidance step to try again
+                        />
+                    ) : (
+                        // Guidance step
+                        <div className="space-y-4">
+                            <p className="text-sm text-gray-600">
+                                {t('regenerate.intro', { section: t(SECTION_TITLES[section]).toLowerCase() })}
+                            </p>
+                            <div>
+                                <label htmlFor="regenerate-guidance" className="block text-sm font-medium text-gray-700 mb-1">{t('regenerate.guidance')}</label>
+                                <textarea
+                                    id="regenerate-guidance"
+                                    rows={3}
+                                    value={guidance}
+                                    onChange={(e) => setGuidance(e.target.value)}
+                                    placeholder={t(GUIDANCE_EXAMPLES[section])}
+                                    disabled={isLoading}
+                                    className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                                />
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+                            <button
+                                onClick={handleRegenerate}
+                                disabled={isLoading}
+                                className="w-full px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-md shadow hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                            >
+                                {isLoading ? t('regenerate.loading') : t('regenerate.title', { section: t(SECTION_TITLES[section]) })}
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {/* Modal Footer */}
+                <div className="flex justify-end space-x-3 rtl:space-x-reverse p-4 border-t border-gray-200 flex-shrink-0 bg-gray-50 rounded-b-lg">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out">{t('common.close')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RegenerateSectionModal;
@@ -0,0 +1,88 @@
+// src/components/RsvpLinkPanel.tsx
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { PartyEvent } from '../types';
+import { getQrCodeDataUrl, getRsvpUrl, syncRsvpResponses } from '../utils/rsvp';
+import { useTranslation } from '../i18n/I18nContext';
+
+/**
+ * Props for the RsvpLinkPanel component.
+ */
+interface RsvpLinkPanelProps {
+    event: PartyEvent;
+    onSynced: (event: PartyEvent) => void; // Called with the updated event after replies were added to the guest list
+}
+
+/**
+ * RsvpLinkPanel Component
+ * Shows the event's public RSVP link with a QR code, and pulls new replies into the guest list.
+ */
+export default function RsvpLinkPanel({ event, onSynced }: RsvpLinkPanelProps) {
+    const navigate = useNavigate();
+    const { t, language, locale } = useTranslation();
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    if (!event.rsvp?.publishedAt) {
+        return (
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-600">
+                <p>{t('rsvpPanel.none')}</p>
+                <button onClick={() => navigate(`/events/${event.id}/invitations`)} className="px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-400">
+                    {t('rsvpPanel.invitations')}
+                </button>
+            </div>
+        );
+    }
+
+    const url = getRsvpUrl(event.rsvp.token);
+
+    /** Adds the replies received since the last sync to the guest list. */
+    const handleSync = async () => {
+        setIsSyncing(true);
+        setMessage(null);
+        setError(null);
+        try {
+            const { event: updated, applied } = await syncRsvpResponses(event.id, language);
+            setMessage(applied === 0 ? t('rsvpPanel.noNew') : t(applied === 1 ? 'rsvpPanel.added.one' : 'rsvpPanel.added.other', { count: applied }));
+            if (applied > 0) onSynced(updated);
+        } catch (err) {
+            console.error("RsvpLinkPanel: Error syncing replies:", err);
+            setError(t('rsvpPanel.syncError', { message: err instanceof Error ? err.message : t('common.unknownError') }));
+        } finally {
+            setIsSyncing(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(url);
+            setCopied(true);
+        } catch (err) {
+            console.error("RsvpLinkPanel: Error copying the link:", err);
+        }
+    };
+
+    return (
+        <div className="flex flex-col sm:flex-row gap-4">
+            <img src={getQrCodeDataUrl(url)} alt={t('rsvpPanel.qrAlt')} className="w-28 h-28 flex-shrink-0 border border-gray-200 rounded" />
+            <div className="flex-grow min-w-0 space-y-2 text-sm">
+                <h2 className="font-semibold text-gray-800">{t('rsvpPanel.title')}</h2>
+                <p className="text-gray-600">{t('rsvpPanel.hint')}</p>
+                <a href={url} target="_blank" rel="noopener noreferrer" className="block text-indigo-600 hover:text-indigo-800 underline break-all">{url}</a>
+                <div className="flex flex-wrap items-center gap-2">
+                    <button onClick={handleCopy} className="px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-400">
+                        {copied ? t('rsvpPanel.copied') : t('rsvpPanel.copy')}
+                    </button>
+                    <button onClick={handleSync} disabled={isSyncing} className="px-3 py-1.5 bg-teal-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500">
+                        {isSyncing ? t('rsvpPanel.checking') : t('rsvpPanel.check')}
+                    </button>
+                    {event.rsvp.syncedAt && <span className="text-xs text-gray-500">{t('rsvpPanel.latest', { date: new Date(event.rsvp.syncedAt).toLocaleString(locale) })}</span>}
+                </div>
+                {message && <p className="text-green-700">{message}</p>}
+                {error && <p className="text-red-500">{error}</p>}
+            </div>
+        </div>
+    );
+}
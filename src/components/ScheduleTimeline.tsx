@@ -0,0 +1,105 @@
+// src/components/ScheduleTimeline.tsx
+import { useMemo } from 'react';
+import type { ScheduleItem } from '../types';
+import { analyzeSchedule, formatDuration } from '../utils/timeline';
+import { formatClockTime } from '../utils/scheduleTime';
+import { useTranslation } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Translations of the age group labels used by the party length guideline
+const AGE_GROUP_KEYS: Record<string, MessageKey> = {
+    'toddlers (up to 3)': 'timeline.group.toddlers',
+    'young children (4-6)': 'timeline.group.youngChildren',
+    'children (7-12)': 'timeline.group.children',
+    'teens (13-17)': 'timeline.group.teens',
+    'adults': 'timeline.group.adults',
+};
+
+/**
+ * Props for the ScheduleTimeline component.
+ */
+interface ScheduleTimelineProps {
+    schedule: ScheduleItem[]; // The plan's schedule items
+    age?: number; // The birthday person's age, used for the party length guideline
+}
+
+/**
+ * ScheduleTimeline Component
+ * Draws the schedule as bars on a time axis and flags overlapping items, idle gaps,
+ * items without a readable time and a party length that doesn't suit the age group.
+ */
+export default function ScheduleTimeline({ schedule, age }: ScheduleTimelineProps) {
+    const { t } = useTranslation();
+    const analysis = useMemo(() => analyzeSchedule(schedule, age), [schedule, age]);
+    const { entries, start, end, totalMinutes, guideline, lengthStatus } = analysis;
+
+    if (entries.length === 0 || start === null || end === null) {
+        return <p className="mt-4 text-sm text-gray-500 italic">{t('timeline.empty')}</p>;
+    }
+
+    // Items involved in an overlap are highlighted on the timeline
+    const overlapping = new Set(analysis.overlaps.flat());
+    const span = Math.max(end - start, 1);
+    const toPercent = (minutes: number) => ((minutes - start) / span) * 100;
+    // Hour marks across the party span
+    const hourMarks: number[] = [];
+    for (let mark = Math.ceil(start / 60) * 60; mark <= end; mark += 60) hourMarks.push(mark);
+
+    const activityName = (index: number) => `"${schedule[index]?.activity ?? t('timeline.item', { number: index + 1 })}"`;
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+            <div className="flex justify-between items-baseline mb-2 text-sm">
+                <h3 className="font-semibold text-gray-700">{t('timeline.title')}</h3>
+                <span className="text-gray-600">
+                    {formatClockTime(start)} – {formatClockTime(end)} · {formatDuration(totalMinutes)}
+                </span>
+            </div>
+
+            {/* Time axis (time runs left to right in both layouts) */}
+            <div dir="ltr" className="relative h-5 text-xs text-gray-400 border-b border-gray-200">
+                {hourMarks.map(mark => (
+                    <span key={mark} className="absolute -translate-x-1/2" style={{ left: `${toPercent(mark)}%` }}>{formatClockTime(mark).replace(':00', '')}</span>
+                ))}
+            </div>
+
+            {/* One bar per schedule item */}
+            <div dir="ltr" className="space-y-1 mt-2">
+                {entries.map(entry => (
+                    <div key={entry.index} className="relative h-7">
+                        <div
+                            className={`absolute inset-y-0 rounded px-2 text-xs leading-7 truncate ${overlapping.has(entry.index) ? 'bg-red-100 text-red-800 border border-red-300' : 'bg-indigo-100 text-indigo-800 border border-indigo-200'} ${entry.hasEnd ? '' : 'border-dashed'}`}
+                            style={{ left: `${toPercent(entry.start)}%`, width: `${Math.max(toPercent(entry.end) - toPercent(entry.start), 2)}%` }}
+                            title={`${entry.item.activity}: ${formatClockTime(entry.start)} – ${formatClockTime(entry.end)} (${formatDuration(entry.end - entry.start)})`}
+                        >
+                            {entry.item.activity}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Flags */}
+            <ul className="mt-3 space-y-1 text-sm">
+                {analysis.overlaps.map(([a, b]) => (
+                    <li key={`overlap-${a}-${b}`} className="text-red-700">⚠ {t('timeline.overlap', { a: activityName(a), b: activityName(b) })}</li>
+                ))}
+                {analysis.gaps.map(gap => (
+                    <li key={`gap-${gap.afterIndex}-${gap.beforeIndex}`} className="text-yellow-700">⏸ {t('timeline.gap', { duration: formatDuration(gap.minutes), a: activityName(gap.afterIndex), b: activityName(gap.beforeIndex) })}</li>
+                ))}
+                {analysis.unscheduled.map(index => (
+                    <li key={`unscheduled-${index}`} className="text-gray-500">{t('timeline.unscheduled', { activity: activityName(index) })}</li>
+                ))}
+                {guideline && lengthStatus && (
+                    <li className={lengthStatus === 'ok' ? 'text-green-700' : 'text-yellow-700'}>
+                        {lengthStatus === 'ok' ? '✓ ' : '⚠ '}
+                        {t(lengthStatus === 'too-long' ? 'timeline.length.tooLong' : lengthStatus === 'too-short' ? 'timeline.length.tooShort' : 'timeline.length.ok', {
+                            duration: formatDuration(totalMinutes),
+                            range: `${formatDuration(guideline.minMinutes)}–${formatDuration(guideline.maxMinutes)}`,
+                            group: AGE_GROUP_KEYS[guideline.label] ? t(AGE_GROUP_KEYS[guideline.label]) : guideline.label,
+                        })}
+                    </li>
+                )}
+            </ul>
+        </div>
+    );
+}
@@ -1,8 +1,22 @@
 import { useState, useEffect } from 'react'; // Removed unused 'React' import
 // Import necessary types
-import type { BirthdayPlan, SmartInvitation as SmartInvitationType } from '../types';
-// Import the API utility function (ensure path is correct)
-import { generateSmartInvitation } from '../utils/api'; // Assuming this path is correct
+import type { BirthdayPlan, InvitationRewriteStyle, SavedInvitation, SmartInvitation as SmartInvitationType } from '../types';
+// Import the API utility functions (ensure path is correct)
+import { generateSmartInvitation, rewriteInvitationText } from '../utils/api'; // Assuming this path is correct
+import { useNavigate } from 'react-router-dom';
+// Import the helpers that save invitations with the event and download their images
+import { saveInvitation, updateInvitationText, getImageExtension } from '../utils/invitations';
+import { dataUrlToBlob } from '../utils/imageStore';
+// Import the helpers that embed the RSVP link and publish the event's RSVP page
+import { addRsvpLink, ensureRsvpSettings, getRsvpUrl, publishRsvpInvitation, refreshRsvpInvitation } from '../utils/rsvp';
+import { downloadBlob, downloadTextFile, toFileName } from '../utils/download';
+// Import the printable card builder
+import { createInvitationPdf, INVITATION_PRINT_SIZES } from '../utils/invitationPdf';
+import type { InvitationPrintSize } from '../utils/invitationPdf';
+import { useTranslation } from '../i18n/I18nContext';
+
+// Rewrite options offered for the invitation text, in display order
+const REWRITE_STYLES: InvitationRewriteStyle[] = ['shorter', 'funnier', 'formal', 'addRsvp', 'addDirections'];
 
 // Define a local type extending BirthdayPlan to safely include the 'date' field
 // This avoids modifying the original imported type while satisfying local usage.
@@ -11,15 +25,21 @@ type ExtendedBirthdayPlan = BirthdayPlan & { date?: string | Date };
 // Define the props the component will accept, using the extended type
 interface SmartInvitationProps {
     selectedPlan: ExtendedBirthdayPlan; // Use the extended type here
+    eventId: string; // The event the generated invitations are saved to
     // Note: This component manages its own state and API interaction.
 }
 
 /**
  * SmartInvitation Component
  * Enables users to select style options and generate AI-powered invitation text and images
- * based on the provided birthday plan details.
+ * based on the provided birthday plan details. Every generated invitation is saved with the event,
+ * including a local copy of its image, so it can be reopened from the invitations gallery later.
+ * The text can then be edited inline or rewritten by the AI (shorter, funnier, ...) without generating a new image.
+ * Generated text ends with the event's RSVP link, and the newest invitation is published as the event's RSVP page.
  */
-export default function SmartInvitation({ selectedPlan }: SmartInvitationProps) { // Destructure props using the interface
+export default function SmartInvitation({ selectedPlan, eventId }: SmartInvitationProps) { // Destructure props using the interface
+    const navigate = useNavigate();
+    const { t } = useTranslation();
     // State for user selections (template style)
     const [template, setTemplate] = useState<'classic' | 'playful' | 'themed' | 'minimalist'>('themed');
     // State for user-provided date and time
@@ -31,6 +51,18 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
     // State for loading and error handling during API calls
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // The saved copy of the generated invitation (null until saved, or if saving failed)
+    const [savedInvitation, setSavedInvitation] = useState<SavedInvitation | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    // State for the printable card export
+    const [printSize, setPrintSize] = useState<InvitationPrintSize>('a6');
+    const [isExportingPdf, setIsExportingPdf] = useState(false);
+    // State for editing the text: the draft is null when not editing
+    const [draftText, setDraftText] = useState<string | null>(null);
+    const [rewritingStyle, setRewritingStyle] = useState<InvitationRewriteStyle | null>(null);
+    // The event's RSVP link (embedded in the text and printed as a QR code) and whether the RSVP page shows this invitation
+    const [rsvpUrl, setRsvpUrl] = useState<string | null>(null);
+    const [rsvpStatus, setRsvpStatus] = useState<'publishing' | 'published' | 'failed' | null>(null);
 
     // Effect to pre-fill the date input when the component mounts or the selected plan changes.
     useEffect(() => {
@@ -61,6 +93,10 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
         // Clear previous generation results and errors when the plan changes
         setInvitation(null);
         setError(null);
+        setSavedInvitation(null);
+        setSaveError(null);
+        setDraftText(null);
+        setRsvpStatus(null);
     }, [selectedPlan]); // Re-run effect if the selectedPlan object changes
 
     /**
@@ -70,13 +106,16 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
     const handleGenerateInvitation = async () => {
         // Validate that both date and time have been entered
         if (!date || !time) {
-            setError('Please select a valid date and time for the event.');
+            setError(t('invitation.dateTimeRequired'));
             return; // Stop execution if validation fails
         }
         // Set loading state and clear previous results/errors
         setIsLoading(true);
         setError(null);
         setInvitation(null);
+        setSavedInvitation(null);
+        setSaveError(null);
+        setRsvpStatus(null);
 
         try {
             console.log(`Generating invitation for plan: ${selectedPlan.id}, Template: ${template}, Date: ${date}, Time: ${time}`);
@@ -85,17 +124,43 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
 
             // Validate the structure of the API response
             if (result && result.text && result.imageUrl) {
-                setInvitation(result); // Store the successful result
+                // End the text with the event's RSVP link
+                let generated = result;
+                try {
+                    const url = getRsvpUrl(ensureRsvpSettings(eventId).token);
+                    generated = { ...result, text: addRsvpLink(result.text, url, t('invitation.rsvpLine', { url })) };
+                    setRsvpUrl(url);
+                } catch (rsvpErr) {
+                    console.error("Failed to set up the RSVP link:", rsvpErr);
+                    setRsvpUrl(null);
+                }
+                setInvitation(generated); // Store the successful result
                 console.log("Invitation generation successful.");
+                // Save it with the event right away; a failed save still leaves the invitation on screen
+                try {
+                    const saved = await saveInvitation(eventId, selectedPlan, generated, { date, time });
+                    setSavedInvitation(saved);
+                    // The newest invitation becomes the RSVP page; a failed publish can be retried from the invitations page
+                    setRsvpStatus('publishing');
+                    publishRsvpInvitation(eventId, saved)
+                        .then(() => setRsvpStatus('published'))
+                        .catch(publishErr => {
+                            console.error("Failed to publish the RSVP page:", publishErr);
+                            setRsvpStatus('failed');
+                        });
+                } catch (saveErr) {
+                    console.error("Failed to save the invitation:", saveErr);
+                    setSaveError(t('invitation.saveError'));
+                }
             } else {
                 // Log error and throw if the response format is unexpected
                 console.error("Invalid response structure from generateSmartInvitation API:", result);
-                throw new Error("Received an unexpected response from the invitation generator.");
+                throw new Error(t('invitation.unexpectedResponse'));
             }
         } catch (err) {
             // Handle errors during the API call
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`Failed to generate invitation: ${errorMessage}`);
+            const errorMessage = err instanceof Error ? err.message : t('common.unknownError');
+            setError(t('invitation.generateError', { message: errorMessage }));
             console.error("Invitation Generation Error:", err);
         } finally {
             // Ensure loading state is turned off regardless of success or failure
@@ -103,6 +168,88 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
         }
     };
 
+    /**
+     * Asks the AI to rewrite the text (the current draft, if editing) in the chosen style.
+     * The result opens in the editor so it can be reviewed before it replaces the saved text.
+     */
+    const handleRewrite = async (style: InvitationRewriteStyle) => {
+        if (!invitation) return;
+        setRewritingStyle(style);
+        setError(null);
+        try {
+            const result = await rewriteInvitationText(selectedPlan, draftText ?? invitation.text, style, date, time);
+            if (!result?.text) throw new Error(t('invitation.unexpectedResponse'));
+            // A rewrite may drop the RSVP line (e.g., "Shorter" cuts the last paragraph), so it's added back
+            setDraftText(rsvpUrl ? addRsvpLink(result.text, rsvpUrl, t('invitation.rsvpLine', { url: rsvpUrl })) : result.text);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : t('common.unknownError');
+            setError(t('invitation.rewriteError', { message: errorMessage }));
+            console.error("Invitation Rewrite Error:", err);
+        } finally {
+            setRewritingStyle(null);
+        }
+    };
+
+    /** Applies the edited text to the invitation and its saved copy; the image stays as it is. */
+    const handleSaveText = () => {
+        if (!invitation || draftText === null) return;
+        const text = draftText.trim();
+        if (!text) return;
+        setInvitation({ ...invitation, text });
+        setDraftText(null);
+        if (savedInvitation) {
+            try {
+                updateInvitationText(eventId, savedInvitation.id, text);
+                setSavedInvitation({ ...savedInvitation, text });
+                // Keep the RSVP page in sync when it shows this invitation
+                refreshRsvpInvitation(eventId, { ...savedInvitation, text }).catch(publishErr => {
+                    console.error("Failed to update the RSVP page:", publishErr);
+                    setRsvpStatus('failed');
+                });
+            } catch (err) {
+                console.error("Failed to save the edited invitation text:", err);
+                setSaveError(t('invitation.textSaveError'));
+            }
+        }
+    };
+
+    /**
+     * Downloads the invitation image from its local copy,
+     * or opens the hosted image in a new tab when no copy could be made.
+     */
+    const handleDownloadImage = () => {
+        if (!invitation) return;
+        if (invitation.imageDataUrl) {
+            const image = dataUrlToBlob(invitation.imageDataUrl);
+            downloadBlob(`${toFileName(selectedPlan.name)}-invitation.${getImageExtension(image.type)}`, image);
+        } else {
+            window.open(invitation.imageUrl, '_blank', 'noopener');
+        }
+    };
+
+    /** Downloads the invitation text as a plain text file. */
+    const handleDownloadText = () => {
+        if (!invitation) return;
+        downloadTextFile(`${toFileName(selectedPlan.name)}-invitation.txt`, invitation.text, 'text/plain;charset=utf-8');
+    };
+
+    /** Downloads the invitation as a printable card in the chosen template and print size. */
+    const handleDownloadPdf = async () => {
+        if (!invitation) return;
+        setIsExportingPdf(true);
+        setError(null);
+        try {
+            const pdf = await createInvitationPdf({ text: invitation.text, template: invitation.template || template, imageSrc: invitation.imageDataUrl || invitation.imageUrl || null, rsvpUrl }, printSize);
+            downloadBlob(`${toFileName(selectedPlan.name)}-invitation-${printSize}.pdf`, pdf);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : t('common.unknownError');
+            setError(t('invitation.pdfError', { message: errorMessage }));
+            console.error("Invitation PDF Error:", err);
+        } finally {
+            setIsExportingPdf(false);
+        }
+    };
+
     // --- Render Component UI ---
     return (
         // Main container for the component
@@ -114,7 +261,7 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
                     {/* Template Selection Grid */}
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Select Template Style
+                            {t('invitation.template')}
                         </label>
                         <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
                             {/* Map through template styles to create selection buttons */}
@@ -129,7 +276,7 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
                                             : 'border-gray-300 hover:border-indigo-400 hover:bg-indigo-50' // Style for non-selected items
                                     }`}
                                 >
-                                    <span className="capitalize text-sm font-medium">{style}</span>
+                                    <span className="text-sm font-medium">{t(`invitation.template.${style}`)}</span>
                                 </div>
                             ))}
                         </div>
@@ -139,7 +286,7 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
                     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                         <div>
                             <label htmlFor="eventDate" className="block text-sm font-medium text-gray-700 mb-1">
-                                Event Date
+                                {t('invitation.date')}
                             </label>
                             <input
                                 type="date"
@@ -151,7 +298,7 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
                         </div>
                         <div>
                             <label htmlFor="eventTime" className="block text-sm font-medium text-gray-700 mb-1">
-                                Event Time
+                                {t('invitation.time')}
                             </label>
                             <input
                                 type="time"
@@ -176,7 +323,7 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
                             disabled={isLoading || !date || !time}
                             className="px-6 py-2 bg-teal-600 text-white font-semibold rounded-md shadow hover:bg-teal-700 disabled:bg-teal-300 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-400 focus:ring-opacity-50 transition duration-150 ease-in-out"
                         >
-                            {isLoading ? 'Generating...' : 'Generate Invitation'}
+                            {isLoading ? t('invitation.generating') : t('invitation.generate')}
                         </button>
                     </div>
                 </div>
@@ -187,8 +334,8 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
                         {/* Display Generated Image */}
                         {invitation.imageUrl ? (
                             <img
-                                src={invitation.imageUrl}
-                                alt={`Generated ${invitation.template} invitation for ${selectedPlan.name}`}
+                                src={invitation.imageDataUrl || invitation.imageUrl} // Prefer the local copy; the hosted URL expires
+                                alt={t('invitation.imageAlt', { name: selectedPlan.name })}
                                 className="w-full h-auto object-contain max-h-96 bg-gray-100" // Basic image styling
                                 // Basic error handling for broken image links
                                 onError={(e) => {
@@ -201,41 +348,153 @@ export default function SmartInvitation({ selectedPlan }: SmartInvitationProps)
                         ) : (
                             // Fallback display if image URL is missing
                             <div className="w-full h-64 bg-gray-200 flex items-center justify-center">
-                                <span className="text-gray-500">Image generation failed or not available</span>
+                                <span className="text-gray-500">{t('invitation.noImage')}</span>
                             </div>
                         )}
 
-                        {/* Display Generated Text */}
+                        {/* Display Generated Text, or the editor while editing */}
                         <div className="p-4 bg-white">
-                            {/* Use Tailwind Typography plugin for nice text formatting */}
-                            <div className="prose prose-sm max-w-none text-gray-800">
-                                {/* Split text by newline and render each line, handling empty lines */}
-                                {(invitation.text || 'Invitation text could not be generated.').split('\n').map((line, i) => (
-                                    line.trim() === '' ? <br key={i} /> : <p key={i}>{line}</p>
+                            {draftText === null ? (
+                                <>
+                                    {/* Use Tailwind Typography plugin for nice text formatting */}
+                                    <div className="prose prose-sm max-w-none text-gray-800" dir="auto">
+                                        {/* Split text by newline and render each line, handling empty lines */}
+                                        {(invitation.text || t('invitation.noText')).split('\n').map((line, i) => (
+                                            line.trim() === '' ? <br key={i} /> : <p key={i}>{line}</p>
+                                        ))}
+                                    </div>
+                                    <div className="mt-3 flex justify-end">
+                                        <button
+                                            onClick={() => setDraftText(invitation.text)}
+                                            className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                                        >
+                                            {t('invitation.editText')}
+                                        </button>
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="space-y-3">
+                                    <label htmlFor="invitationText" className="block text-sm font-medium text-gray-700">{t('invitation.textLabel')}</label>
+                                    <textarea
+                                        id="invitationText"
+                                        value={draftText}
+                                        onChange={(e) => setDraftText(e.target.value)}
+                                        rows={Math.min(14, Math.max(6, draftText.split('\n').length + 1))}
+                                        dir="auto"
+                                        disabled={rewritingStyle !== null}
+                                        className="block w-full p-2 border border-gray-300 rounded-md shadow-sm text-sm text-gray-800 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-50"
+                                    />
+                                    <div className="flex justify-end space-x-2 rtl:space-x-reverse">
+                                        <button
+                                            onClick={() => setDraftText(null)}
+                                            disabled={rewritingStyle !== null}
+                                            className="px-3 py-1.5 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 disabled:opacity-50"
+                                        >
+                                            {t('common.cancel')}
+                                        </button>
+                                        <button
+                                            onClick={handleSaveText}
+                                            disabled={rewritingStyle !== null || !draftText.trim()}
+                                            className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            {t('invitation.saveText')}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* AI Rewrite Options (text only; the image is kept) */}
+                    <div>
+                        <p className="text-sm font-medium text-gray-700 mb-2">{t('invitation.rewriteLabel')}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {REWRITE_STYLES.map(style => (
+                                <button
+                                    key={style}
+                                    onClick={() => handleRewrite(style)}
+                                    disabled={rewritingStyle !== null || !invitation.text}
+                                    className="px-3 py-1.5 bg-white text-indigo-700 text-sm font-medium rounded-full border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {rewritingStyle === style ? t('invitation.rewriting') : t(`invitation.rewrite.${style}`)}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">{t('invitation.rewriteHint')}</p>
+                    </div>
+
+                    {/* Save Status */}
+                    {savedInvitation && (
+                        <p className="text-sm text-green-700">
+                            {savedInvitation.hasLocalImage ? t('invitation.saved') : t('invitation.savedLinkOnly')}{' '}
+                            <button onClick={() => navigate(`/events/${eventId}/invitations`)} className="font-medium text-indigo-600 hover:text-indigo-800 underline">{t('invitation.viewAll')}</button>
+                        </p>
+                    )}
+                    {rsvpUrl && rsvpStatus === 'published' && (
+                        <p className="text-sm text-gray-600">
+                            {t('invitation.rsvpPublished')}{' '}
+                            <a href={rsvpUrl} target="_blank" rel="noopener noreferrer" className="font-medium text-indigo-600 hover:text-indigo-800 underline break-all">{rsvpUrl}</a>
+                        </p>
+                    )}
+                    {rsvpStatus === 'failed' && (
+                        <p className="text-sm text-amber-700">{t('invitation.rsvpPublishError')}</p>
+                    )}
+                    {saveError && (
+                        <div className="text-red-600 bg-red-100 border border-red-300 p-3 rounded-md text-sm">{saveError}</div>
+                    )}
+                    {error && (
+                        <div className="text-red-600 bg-red-100 border border-red-300 p-3 rounded-md text-sm">{error}</div>
+                    )}
+
+                    {/* Printable Card Export */}
+                    <div className="flex flex-wrap items-end justify-end gap-2">
+                        <div>
+                            <label htmlFor="printSize" className="block text-xs font-medium text-gray-600 mb-1">{t('invitation.printSize')}</label>
+                            <select
+                                id="printSize"
+                                value={printSize}
+                                onChange={(e) => setPrintSize(e.target.value as InvitationPrintSize)}
+                                className="block p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                                {(Object.keys(INVITATION_PRINT_SIZES) as InvitationPrintSize[]).map(size => (
+                                    <option key={size} value={size}>{INVITATION_PRINT_SIZES[size].label}</option>
                                 ))}
-                            </div>
+                            </select>
                         </div>
+                        <button
+                            onClick={handleDownloadPdf}
+                            disabled={isExportingPdf}
+                            className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 transition duration-150 ease-in-out"
+                        >
+                            {isExportingPdf ? t('invitation.creatingPdf') : t('invitation.downloadPdf')}
+                        </button>
                     </div>
 
                     {/* Action Buttons for the Generated Invitation */}
                     <div className="flex justify-between items-center pt-4 border-t border-gray-200">
                         {/* Button to go back to the options form */}
                         <button
-                            onClick={() => { setInvitation(null); setError(null); }} // Clear results to show form again
+                            onClick={() => { setInvitation(null); setError(null); setSavedInvitation(null); setSaveError(null); setDraftText(null); setRsvpStatus(null); }} // Clear results to show form again
                             className="px-4 py-2 bg-gray-300 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out"
                         >
-                            &larr; Create New {/* Left arrow */}
-                        </button>
-                        {/* Placeholder button for saving/sharing */}
-                        <button
-                            onClick={() => {
-                                // Placeholder action: Implement actual save/share logic here
-                                alert('Invitation "saved"! (Implement actual save/share functionality)');
-                            }}
-                            className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition duration-150 ease-in-out"
-                        >
-                            Save / Share {/* TODO: Add icon? */}
+                            {t('invitation.createNew')}
                         </button>
+                        {/* Download buttons (the invitation itself is already saved) */}
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleDownloadText}
+                                className="px-4 py-2 bg-white text-green-700 text-sm font-medium rounded-md shadow-sm border border-green-200 hover:bg-green-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition duration-150 ease-in-out"
+                            >
+                                {t('invitation.downloadText')}
+                            </button>
+                            <button
+                                onClick={handleDownloadImage}
+                                disabled={!invitation.imageUrl}
+                                className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition duration-150 ease-in-out"
+                            >
+                                {t('invitation.downloadImage')}
+                            </button>
+                        </div>
                     </div>
                 </div>
             )}
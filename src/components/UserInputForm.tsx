@@ -1,7 +1,12 @@
 // src/components/UserInputForm.tsx
 import { useState } from 'react';
 import { useForm, Controller } from 'react-hook-form'; // Import Controller for select dropdown
-import type { UserInput } from '../types'; // Import the updated UserInput type
+import type { Allergen, Diet, UserInput } from '../types'; // Import the updated UserInput type
+import { ALLERGEN_LABELS, DIET_LABELS } from '../utils/dietary';
+import { ACTIVITY_OPTIONS } from '../utils/activities';
+import { getDefaultProfileNames, getOrderedProfiles } from '../utils/planProfiles';
+import { useTranslation } from '../i18n/I18nContext';
+import { getProfileDescription, getProfileLabel } from '../i18n/language';
 
 interface UserInputFormProps {
 	onSubmit: (data: UserInput) => void; // Function to call when form is submitted
@@ -16,6 +21,7 @@ const currencies = ['NIS', 'USD', 'EUR']; // Add more as needed
  * Uses react-hook-form for state management and validation.
  */
 export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProps) {
+	const { t, language } = useTranslation();
 	// State for managing the current step of the form
 	const [step, setStep] = useState(1);
 	const totalSteps = 5; // Total number of steps in the form
@@ -46,7 +52,9 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 			activities: [], // Default activities to empty array
 			foodPreferences: "",
 			drinkPreferences: "",
-			additionalPreferences: ""
+			additionalPreferences: "",
+			dietaryRestrictions: { allergens: [], diets: [] }, // No restrictions until the user checks some
+			profiles: getDefaultProfileNames() // The profiles checked by default in PLAN_PROFILES
 		}
 	});
 
@@ -129,7 +137,7 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 
 	return (
 		<div className="max-w-2xl mx-auto p-6 bg-white rounded-lg shadow-lg">
-			<h2 className="text-3xl font-bold mb-6 text-center text-gray-800">Plan Your Birthday Party!</h2>
+			<h2 className="text-3xl font-bold mb-6 text-center text-gray-800">{t('form.title')}</h2>
 
 			{/* Step Indicator */}
 			<div className="mb-8">
@@ -141,7 +149,7 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 						/>
 					))}
 				</div>
-				<p className="text-center text-sm font-medium text-gray-600">Step {step} of {totalSteps}</p>
+				<p className="text-center text-sm font-medium text-gray-600">{t('form.stepOf', { step, total: totalSteps })}</p>
 			</div>
 
 			{/* Form */}
@@ -151,26 +159,26 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 					{/* Step 1: About the Birthday Person */}
 					{step === 1 && (
 						<div className="animate-fade-in">
-							<h3 className="text-xl font-semibold mb-4 text-gray-700">About the Birthday Person</h3>
+							<h3 className="text-xl font-semibold mb-4 text-gray-700">{t('form.step1.title')}</h3>
 							<div className="mb-4">
 								<label htmlFor="birthdayPersonName" className="block text-sm font-medium text-gray-700 mb-1">
-									Birthday Person's Name <span className="text-red-500">*</span>
+									{t('form.name')} <span className="text-red-500">*</span>
 								</label>
-								<input id="birthdayPersonName" type="text" {...register('birthdayPersonName', { required: "Name is required" })} className={getInputClass('birthdayPersonName')} placeholder="Enter name" />
+								<input id="birthdayPersonName" type="text" {...register('birthdayPersonName', { required: t('form.name.required') })} className={getInputClass('birthdayPersonName')} placeholder={t('form.name.placeholder')} />
 								{renderError('birthdayPersonName')}
 							</div>
 							<div className="mb-4">
 								<label htmlFor="age" className="block text-sm font-medium text-gray-700 mb-1">
-									Age They Are Turning <span className="text-red-500">*</span>
+									{t('form.age')} <span className="text-red-500">*</span>
 								</label>
-								<input id="age" type="number" {...register('age', { required: 'Age is required', valueAsNumber: true, min: { value: 1, message: 'Age must be at least 1' }, max: { value: 120, message: 'Age must be 120 or less' } })} className={getInputClass('age')} placeholder="Enter age" />
+								<input id="age" type="number" {...register('age', { required: t('form.age.required'), valueAsNumber: true, min: { value: 1, message: t('form.age.min') }, max: { value: 120, message: t('form.age.max') } })} className={getInputClass('age')} placeholder={t('form.age.placeholder')} />
 								{renderError('age')}
 							</div>
 							<div>
 								<label htmlFor="theme" className="block text-sm font-medium text-gray-700 mb-1">
-									Party Theme <span className="text-red-500">*</span>
+									{t('form.theme')} <span className="text-red-500">*</span>
 								</label>
-								<input id="theme" type="text" {...register('theme', { required: 'Theme is required' })} className={getInputClass('theme')} placeholder="e.g., Superhero, Vintage, Beach Party" />
+								<input id="theme" type="text" {...register('theme', { required: t('form.theme.required') })} className={getInputClass('theme')} placeholder={t('form.theme.placeholder')} />
 								{renderError('theme')}
 							</div>
 						</div>
@@ -179,30 +187,30 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 					{/* Step 2: Guests & Budget */}
 					{step === 2 && (
 						<div className="animate-fade-in">
-							<h3 className="text-xl font-semibold mb-4 text-gray-700">Guests & Budget</h3>
-							<label className="block text-sm font-medium text-gray-700 mb-1">Guest Count</label>
+							<h3 className="text-xl font-semibold mb-4 text-gray-700">{t('form.step2.title')}</h3>
+							<label className="block text-sm font-medium text-gray-700 mb-1">{t('form.guestCount')}</label>
 							<div className="grid grid-cols-2 gap-4 mb-4">
 								<div>
-									<label htmlFor="guestCountAdults" className="block text-xs font-medium text-gray-600 mb-1"> Adults <span className="text-red-500">*</span> </label>
-									<input id="guestCountAdults" type="number" min="0" {...register('guestCountAdults', { required: 'Number of adults is required', valueAsNumber: true, min: { value: 0, message: 'Cannot be negative' } })} className={getInputClass('guestCountAdults')} placeholder="e.g., 20" />
+									<label htmlFor="guestCountAdults" className="block text-xs font-medium text-gray-600 mb-1"> {t('form.adults')} <span className="text-red-500">*</span> </label>
+									<input id="guestCountAdults" type="number" min="0" {...register('guestCountAdults', { required: t('form.adults.required'), valueAsNumber: true, min: { value: 0, message: t('form.negative') } })} className={getInputClass('guestCountAdults')} placeholder={t('form.adults.placeholder')} />
 									{renderError('guestCountAdults')}
 								</div>
 								<div>
-									<label htmlFor="guestCountChildren" className="block text-xs font-medium text-gray-600 mb-1"> Children <span className="text-red-500">*</span> </label>
-									<input id="guestCountChildren" type="number" min="0" {...register('guestCountChildren', { required: 'Number of children is required (enter 0 if none)', valueAsNumber: true, min: { value: 0, message: 'Cannot be negative' } })} className={getInputClass('guestCountChildren')} placeholder="e.g., 15" />
+									<label htmlFor="guestCountChildren" className="block text-xs font-medium text-gray-600 mb-1"> {t('form.children')} <span className="text-red-500">*</span> </label>
+									<input id="guestCountChildren" type="number" min="0" {...register('guestCountChildren', { required: t('form.children.required'), valueAsNumber: true, min: { value: 0, message: t('form.negative') } })} className={getInputClass('guestCountChildren')} placeholder={t('form.children.placeholder')} />
 									{renderError('guestCountChildren')}
 								</div>
 							</div>
-							<label className="block text-sm font-medium text-gray-700 mb-1">Budget</label>
+							<label className="block text-sm font-medium text-gray-700 mb-1">{t('form.budget')}</label>
 							<div className="grid grid-cols-3 gap-4">
 								<div className="col-span-2">
-									<label htmlFor="budgetAmount" className="block text-xs font-medium text-gray-600 mb-1"> Amount <span className="text-red-500">*</span> </label>
-									<input id="budgetAmount" type="number" min="0" {...register('budgetAmount', { required: 'Budget amount is required', valueAsNumber: true, min: { value: 0, message: 'Budget cannot be negative' } })} className={getInputClass('budgetAmount')} placeholder="e.g., 5000" />
+									<label htmlFor="budgetAmount" className="block text-xs font-medium text-gray-600 mb-1"> {t('form.amount')} <span className="text-red-500">*</span> </label>
+									<input id="budgetAmount" type="number" min="0" {...register('budgetAmount', { required: t('form.amount.required'), valueAsNumber: true, min: { value: 0, message: t('form.amount.negative') } })} className={getInputClass('budgetAmount')} placeholder={t('form.amount.placeholder')} />
 									{renderError('budgetAmount')}
 								</div>
 								<div>
-									<label htmlFor="currency" className="block text-xs font-medium text-gray-600 mb-1"> Currency <span className="text-red-500">*</span> </label>
-									<Controller name="currency" control={control} rules={{ required: 'Currency is required' }} render={({ field }) => ( <select id="currency" {...field} className={getInputClass('currency')}> {currencies.map(c => <option key={c} value={c}>{c}</option>)} </select> )} />
+									<label htmlFor="currency" className="block text-xs font-medium text-gray-600 mb-1"> {t('form.currency')} <span className="text-red-500">*</span> </label>
+									<Controller name="currency" control={control} rules={{ required: t('form.currency.required') }} render={({ field }) => ( <select id="currency" {...field} className={getInputClass('currency')}> {currencies.map(c => <option key={c} value={c}>{c}</option>)} </select> )} />
 									{renderError('currency')}
 								</div>
 							</div>
@@ -212,33 +220,33 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 					{/* Step 3: Location */}
 					{step === 3 && (
 						<div className="animate-fade-in">
-							<h3 className="text-xl font-semibold mb-4 text-gray-700">Location</h3>
+							<h3 className="text-xl font-semibold mb-4 text-gray-700">{t('form.step3.title')}</h3>
 							{/* City Input */}
                             <div className="mb-4">
 								<label htmlFor="locationCity" className="block text-sm font-medium text-gray-700 mb-1">
-									City <span className="text-red-500">*</span>
+									{t('form.city')} <span className="text-red-500">*</span>
 								</label>
-								<input id="locationCity" type="text" {...register('location.city', { required: 'City is required' })} className={getInputClass('location.city')} placeholder="Enter city (e.g., Tel Aviv)" />
+								<input id="locationCity" type="text" {...register('location.city', { required: t('form.city.required') })} className={getInputClass('location.city')} placeholder={t('form.city.placeholder')} />
 								{renderError('location.city')}
 							</div>
                             {/* ** ADDED Country Input ** */}
                             <div className="mb-4">
 								<label htmlFor="locationCountry" className="block text-sm font-medium text-gray-700 mb-1">
-									Country <span className="text-red-500">*</span>
+									{t('form.country')} <span className="text-red-500">*</span>
 								</label>
-								<input id="locationCountry" type="text" {...register('location.country', { required: 'Country is required' })} className={getInputClass('location.country')} placeholder="Enter country (e.g., Israel)" />
+								<input id="locationCountry" type="text" {...register('location.country', { required: t('form.country.required') })} className={getInputClass('location.country')} placeholder={t('form.country.placeholder')} />
 								{renderError('location.country')}
 							</div>
                             {/* Setting Preference */}
 							<div>
 								<label className="block text-sm font-medium text-gray-700 mb-2">
-									Setting Preference <span className="text-red-500">*</span>
+									{t('form.setting')} <span className="text-red-500">*</span>
 								</label>
 								<div className="flex flex-wrap gap-4">
 									{(['indoor', 'outdoor', 'both'] as const).map(setting => (
 										<label key={setting} className="flex items-center cursor-pointer">
-											<input type="radio" value={setting} {...register('location.setting', { required: 'Setting is required' })} className="mr-2 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500" />
-											<span className="text-sm text-gray-700">{setting.charAt(0).toUpperCase() + setting.slice(1)}</span>
+											<input type="radio" value={setting} {...register('location.setting', { required: t('form.setting.required') })} className="me-2 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500" />
+											<span className="text-sm text-gray-700">{t(`form.setting.${setting}`)}</span>
 										</label>
 									))}
 								</div>
@@ -250,14 +258,14 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 					{/* Step 4: Activities & Preferences */}
 					{step === 4 && (
 						<div className="animate-fade-in">
-							<h3 className="text-xl font-semibold mb-4 text-gray-700">Activities & Other Preferences</h3>
+							<h3 className="text-xl font-semibold mb-4 text-gray-700">{t('form.step4.title')}</h3>
 							<div className="mb-4">
-								<label className="block text-sm font-medium text-gray-700 mb-2"> Preferred Activities (Select all that apply) </label>
+								<label className="block text-sm font-medium text-gray-700 mb-2"> {t('form.activities')} </label>
 								<div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
-									{[ 'Interactive games (e.g., scavenger hunt, trivia)', 'Workshops/DIY activities (e.g., crafts, cooking)', 'Performances/Entertainment (e.g., magician, DJ)', 'Sports/Physical activities (e.g., bouncy castle, park games)', 'Food experiences (e.g., cooking class, themed snacks)', 'Relaxed social gathering (e.g., mingling, board games)', 'Movie screening', 'Pool party (if applicable)', 'Adventure/Outdoor activity (e.g., hiking, climbing)' ].map((activity) => (
+									{ACTIVITY_OPTIONS.map(({ value: activity, label }) => (
 										<label key={activity} className="flex items-center cursor-pointer">
-											<input type="checkbox" value={activity} checked={(activities || []).includes(activity)} onChange={() => handleActivityChange(activity)} className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500" />
-											<span className="text-sm text-gray-700">{activity}</span>
+											<input type="checkbox" value={activity} checked={(activities || []).includes(activity)} onChange={() => handleActivityChange(activity)} className="me-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500" />
+											<span className="text-sm text-gray-700">{t(label)}</span>
 										</label>
 									))}
 									<input type="hidden" {...register('activities')} />
@@ -265,8 +273,8 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 								{renderError('activities')}
 							</div>
 							<div>
-								<label htmlFor="additionalPreferences" className="block text-sm font-medium text-gray-700 mb-1"> Other Preferences / Important Notes (Optional) </label>
-								<textarea id="additionalPreferences" {...register('additionalPreferences')} className={getInputClass('additionalPreferences')} placeholder="e.g., Dietary restrictions (allergies: nuts, gluten), accessibility needs, specific dislikes, must-have music genres..." rows={3} />
+								<label htmlFor="additionalPreferences" className="block text-sm font-medium text-gray-700 mb-1"> {t('form.additional')} </label>
+								<textarea id="additionalPreferences" {...register('additionalPreferences')} className={getInputClass('additionalPreferences')} placeholder={t('form.additional.placeholder')} rows={3} />
 								 {renderError('additionalPreferences')}
 							</div>
 						</div>
@@ -275,28 +283,67 @@ export default function UserInputForm({ onSubmit, isLoading }: UserInputFormProp
 					{/* Step 5: Food & Drinks */}
 					{step === 5 && (
 						<div className="animate-fade-in">
-							<h3 className="text-xl font-semibold mb-4 text-gray-700">Food & Drinks</h3>
+							<h3 className="text-xl font-semibold mb-4 text-gray-700">{t('form.step5.title')}</h3>
 							<div className="mb-4">
-								<label htmlFor="foodPreferences" className="block text-sm font-medium text-gray-700 mb-1"> Specific Food Wishes / Requirements <span className="text-red-500">*</span> </label>
-								<textarea id="foodPreferences" {...register('foodPreferences', { required: "Please mention food preferences (e.g., 'Kid-friendly menu', 'Vegan options needed', 'Loves pizza and pasta')" })} className={getInputClass('foodPreferences')} placeholder="e.g., Must have pizza & cake, need vegetarian options, loves finger foods, specific cuisines..." rows={3} />
+								<label htmlFor="foodPreferences" className="block text-sm font-medium text-gray-700 mb-1"> {t('form.food')} <span className="text-red-500">*</span> </label>
+								<textarea id="foodPreferences" {...register('foodPreferences', { required: t('form.food.required') })} className={getInputClass('foodPreferences')} placeholder={t('form.food.placeholder')} rows={3} />
 								{renderError('foodPreferences')}
 							</div>
 							<div>
-								<label htmlFor="drinkPreferences" className="block text-sm font-medium text-gray-700 mb-1"> Specific Drink Wishes / Requirements <span className="text-red-500">*</span> </label>
-								<textarea id="drinkPreferences" {...register('drinkPreferences', { required: "Please mention drink preferences (e.g., 'Juice boxes for kids', 'Coffee for adults', 'No alcohol')" })} className={getInputClass('drinkPreferences')} placeholder="e.g., Assorted juices & water for kids, coffee/tea for adults, specific soda brands, signature mocktail idea..." rows={3} />
+								<label htmlFor="drinkPreferences" className="block text-sm font-medium text-gray-700 mb-1"> {t('form.drinks')} <span className="text-red-500">*</span> </label>
+								<textarea id="drinkPreferences" {...register('drinkPreferences', { required: t('form.drinks.required') })} className={getInputClass('drinkPreferences')} placeholder={t('form.drinks.placeholder')} rows={3} />
 								{renderError('drinkPreferences')}
 							</div>
+							{/* Dietary restrictions are hard requirements: every menu item is checked against them */}
+							<fieldset className="mt-4">
+								<legend className="block text-sm font-medium text-gray-700 mb-2"> {t('form.allergies')} </legend>
+								<div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-2">
+									{(Object.keys(ALLERGEN_LABELS) as Allergen[]).map((allergen) => (
+										<label key={allergen} className="flex items-center cursor-pointer">
+											<input type="checkbox" value={allergen} {...register('dietaryRestrictions.allergens')} className="me-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500" />
+											<span className="text-sm text-gray-700">{t(`allergen.${allergen}`)}</span>
+										</label>
+									))}
+								</div>
+							</fieldset>
+							<fieldset className="mt-4">
+								<legend className="block text-sm font-medium text-gray-700 mb-2"> {t('form.diets')} </legend>
+								<div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-2">
+									{(Object.keys(DIET_LABELS) as Diet[]).map((diet) => (
+										<label key={diet} className="flex items-center cursor-pointer">
+											<input type="checkbox" value={diet} {...register('dietaryRestrictions.diets')} className="me-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500" />
+											<span className="text-sm text-gray-700">{t(`diet.${diet}`)}</span>
+										</label>
+									))}
+								</div>
+							</fieldset>
+							{/* Plan profiles: one plan is generated for each checked profile */}
+							<fieldset className="mt-4">
+								<legend className="block text-sm font-medium text-gray-700 mb-2"> {t('form.profiles')} <span className="text-red-500">*</span> </legend>
+								<div className="space-y-2">
+									{getOrderedProfiles().map((profile) => (
+										<label key={profile.name} className="flex items-start cursor-pointer">
+											<input type="checkbox" value={profile.name} {...register('profiles', { validate: (value) => (Array.isArray(value) && value.length > 0) || t('form.profiles.required') })} className="me-2 mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600 border-gray-300 rounded focus:ring-blue-500" />
+											<span className="text-sm text-gray-700">
+												<span className="font-medium">{getProfileLabel(language, profile.name)}</span>
+												<span className="block text-xs text-gray-500">{getProfileDescription(language, profile)}</span>
+											</span>
+										</label>
+									))}
+								</div>
+								{renderError('profiles')}
+							</fieldset>
 						</div>
 					)}
 
 
 					{/* Navigation Buttons */}
 					<div className="flex justify-between pt-6 border-t border-gray-200 mt-6">
-						<button type="button" onClick={prevStep} disabled={step === 1} className="px-6 py-2 bg-gray-300 text-gray-800 font-semibold rounded-md hover:bg-gray-400 disabled:opacity-50 disabled:cursor-not-allowed transition duration-150 ease-in-out" > Previous </button>
+						<button type="button" onClick={prevStep} disabled={step === 1} className="px-6 py-2 bg-gray-300 text-gray-800 font-semibold rounded-md hover:bg-gray-400 disabled:opacity-50 disabled:cursor-not-allowed transition duration-150 ease-in-out" > {t('form.previous')} </button>
 						{step < totalSteps ? (
-							<button type="button" onClick={nextStep} className="px-6 py-2 bg-blue-500 text-white font-semibold rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-opacity-50 transition duration-150 ease-in-out" > Next </button>
+							<button type="button" onClick={nextStep} className="px-6 py-2 bg-blue-500 text-white font-semibold rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-opacity-50 transition duration-150 ease-in-out" > {t('form.next')} </button>
 						) : (
-							<button type="submit" disabled={isLoading} className="px-6 py-2 bg-green-500 text-white font-semibold rounded-md hover:bg-green-600 disabled:opacity-70 disabled:cursor-wait focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-opacity-50 transition duration-150 ease-in-out" > {isLoading ? 'Generating Plans...' : 'Generate Birthday Plans'} </button>
+							<button type="submit" disabled={isLoading} className="px-6 py-2 bg-green-500 text-white font-semibold rounded-md hover:bg-green-600 disabled:opacity-70 disabled:cursor-wait focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-opacity-50 transition duration-150 ease-in-out" > {isLoading ? t('form.generating') : t('form.generate')} </button>
 						)}
 					</div>
 				</div>
@@ -0,0 +1,31 @@
+// src/i18n/I18nContext.ts
+import { createContext, useContext } from 'react';
+import type { MessageKey } from './messages/en';
+import { LANGUAGES, translate } from './language';
+import type { Language, MessageParams } from './language';
+
+/** What components get from useTranslation(). */
+export interface I18nContextValue {
+    language: Language;
+    dir: 'ltr' | 'rtl';
+    locale: string; // BCP 47 locale for formatting dates and numbers (e.g., "he-IL")
+    setLanguage: (language: Language) => void;
+    t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+// Default value (English) for components rendered outside the provider
+export const I18nContext = createContext<I18nContextValue>({
+    language: 'en',
+    dir: LANGUAGES.en.dir,
+    locale: LANGUAGES.en.locale,
+    setLanguage: () => {},
+    t: (key, params) => translate('en', key, params),
+});
+
+/**
+ * Hook giving access to the current language and the message lookup function.
+ * @example const { t } = useTranslation(); t('form.stepOf', { step: 1, total: 5 })
+ */
+export function useTranslation(): I18nContextValue {
+    return useContext(I18nContext);
+}
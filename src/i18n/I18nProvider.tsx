@@ -0,0 +1,36 @@
+// src/i18n/I18nProvider.tsx
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { I18nContext } from './I18nContext';
+import type { I18nContextValue } from './I18nContext';
+import { LANGUAGES, getStoredLanguage, storeLanguage, translate } from './language';
+import type { Language } from './language';
+
+/**
+ * Provides the chosen UI language to the app and keeps the page's `lang` and `dir` attributes in sync,
+ * so the layout switches to right-to-left for Hebrew.
+ */
+export default function I18nProvider({ children }: { children: ReactNode }) {
+    const [language, setLanguageState] = useState<Language>(getStoredLanguage);
+
+    const setLanguage = useCallback((next: Language) => {
+        storeLanguage(next);
+        setLanguageState(next);
+    }, []);
+
+    // Mirror the language on the <html> element; Tailwind's rtl: variant and logical utilities follow `dir`
+    useEffect(() => {
+        document.documentElement.lang = language;
+        document.documentElement.dir = LANGUAGES[language].dir;
+    }, [language]);
+
+    const value = useMemo<I18nContextValue>(() => ({
+        language,
+        dir: LANGUAGES[language].dir,
+        locale: LANGUAGES[language].locale,
+        setLanguage,
+        t: (key, params) => translate(language, key, params),
+    }), [language, setLanguage]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
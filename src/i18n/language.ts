@@ -0,0 +1,84 @@
+// src/i18n/language.ts
+// Supported UI languages, the stored language choice and message lookup.
+import en from './messages/en';
+import type { MessageKey } from './messages/en';
+import he from './messages/he';
+import { segmentLabel } from '../utils/planDiff';
+import type { PlanProfile } from '../utils/planProfiles';
+
+// A supported UI language (also the language plans and invitations are generated in)
+export type Language = 'en' | 'he';
+
+// Values substituted into "{name}" placeholders in a message
+export type MessageParams = Record<string, string | number>;
+
+// Languages offered in the switcher, with their own names
+export const LANGUAGES: Record<Language, { label: string; dir: 'ltr' | 'rtl'; locale: string }> = {
+    en: { label: 'English', dir: 'ltr', locale: 'en-US' },
+    he: { label: 'עברית', dir: 'rtl', locale: 'he-IL' },
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en, he };
+
+// localStorage key holding the chosen language
+const LANGUAGE_STORAGE_KEY = 'uiLanguage';
+
+const isLanguage = (value: unknown): value is Language => typeof value === 'string' && value in LANGUAGES;
+
+/**
+ * Reads the chosen language. Falls back to the browser language (Hebrew if it prefers Hebrew), then English.
+ */
+export function getStoredLanguage(): Language {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+    return navigator.language?.toLowerCase().startsWith('he') ? 'he' : 'en';
+}
+
+/** Saves the chosen language. */
+export function storeLanguage(language: Language): void {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+}
+
+/**
+ * Looks up a message and fills in its placeholders. Missing Hebrew messages fall back to English.
+ * @param language - The language to translate to.
+ * @param key - The message key (e.g., "form.title").
+ * @param params - Values for "{name}" placeholders in the message.
+ */
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+    const message = CATALOGS[language][key] || en[key];
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+}
+
+/** Returns true if the catalogs have a message for the key (used for keys built from data, like profile names). */
+export function hasMessage(key: string): key is MessageKey {
+    return key in en;
+}
+
+/**
+ * Translates a plan profile name (e.g., "DIY/Budget"). Profiles without a translation are shown as they are.
+ */
+export function getProfileLabel(language: Language, profile: string): string {
+    const key = `profile.${profile}`;
+    return hasMessage(key) ? translate(language, key) : profile;
+}
+
+/**
+ * Translates the description of a configured plan profile, shown in the planning form.
+ * Profiles without a translation show their (English) prompt description.
+ */
+export function getProfileDescription(language: Language, profile: PlanProfile): string {
+    const key = `profileHint.${profile.name}`;
+    return hasMessage(key) ? translate(language, key) : profile.description;
+}
+
+/**
+ * Translates one segment of a plan field path for diffs (e.g., 'partyFavors' -> 'Party Favors', 2 -> 'Item 3').
+ * Unknown fields fall back to the English label built from the field name.
+ */
+export function getFieldLabel(language: Language, segment: string | number): string {
+    if (typeof segment === 'number') return translate(language, 'diff.item', { number: segment + 1 });
+    const key = `field.${segment}`;
+    return hasMessage(key) ? translate(language, key) : segmentLabel(segment);
+}
@@ -0,0 +1,826 @@
+// src/i18n/messages/en.ts
+// English UI messages. This catalog defines the message keys; other languages must translate every key.
+// Placeholders like "{name}" are filled in by translate().
+
+const en = {
+    // --- Shared ---
+    'common.backToEvents': 'Back to my events',
+    'common.cancel': 'Cancel',
+    'common.close': 'Close',
+    'common.closeModal': 'Close modal',
+    'common.edit': 'Edit',
+    'common.errorPrefix': 'Error:',
+    'common.eventNotFound': 'Event with ID {id} not found. Please go back to your events and select a valid one.',
+    'common.loadingError': 'Loading Error',
+    'common.myEventsBack': '← My Events',
+    'common.noneSpecified': 'None specified',
+    'common.notAvailable': 'N/A',
+    'common.remove': 'Remove',
+    'common.tryAgain': 'Please try again.',
+    'common.unknownError': 'An unknown error occurred.',
+    'language.label': 'Language',
+
+    // --- Home and the plan form ---
+    'home.title': 'AI Birthday Planner',
+    'home.subtitle': "Let's create the perfect celebration!",
+    'home.viewEvents': 'View my events →',
+    'home.error': 'Failed to generate plans.',
+    'form.title': 'Plan Your Birthday Party!',
+    'form.stepOf': 'Step {step} of {total}',
+    'form.step1.title': 'About the Birthday Person',
+    'form.name': "Birthday Person's Name",
+    'form.name.required': 'Name is required',
+    'form.name.placeholder': 'Enter name',
+    'form.age': 'Age They Are Turning',
+    'form.age.required': 'Age is required',
+    'form.age.min': 'Age must be at least 1',
+    'form.age.max': 'Age must be 120 or less',
+    'form.age.placeholder': 'Enter age',
+    'form.theme': 'Party Theme',
+    'form.theme.required': 'Theme is required',
+    'form.theme.placeholder': 'e.g., Superhero, Vintage, Beach Party',
+    'form.step2.title': 'Guests & Budget',
+    'form.guestCount': 'Guest Count',
+    'form.adults': 'Adults',
+    'form.adults.required': 'Number of adults is required',
+    'form.adults.placeholder': 'e.g., 20',
+    'form.children': 'Children',
+    'form.children.required': 'Number of children is required (enter 0 if none)',
+    'form.children.placeholder': 'e.g., 15',
+    'form.negative': 'Cannot be negative',
+    'form.budget': 'Budget',
+    'form.amount': 'Amount',
+    'form.amount.required': 'Budget amount is required',
+    'form.amount.negative': 'Budget cannot be negative',
+    'form.amount.placeholder': 'e.g., 5000',
+    'form.currency': 'Currency',
+    'form.currency.required': 'Currency is required',
+    'form.step3.title': 'Location',
+    'form.city': 'City',
+    'form.city.required': 'City is required',
+    'form.city.placeholder': 'Enter city (e.g., Tel Aviv)',
+    'form.country': 'Country',
+    'form.country.required': 'Country is required',
+    'form.country.placeholder': 'Enter country (e.g., Israel)',
+    'form.setting': 'Setting Preference',
+    'form.setting.required': 'Setting is required',
+    'form.setting.indoor': 'Indoor',
+    'form.setting.outdoor': 'Outdoor',
+    'form.setting.both': 'Both',
+    'form.step4.title': 'Activities & Other Preferences',
+    'form.activities': 'Preferred Activities (Select all that apply)',
+    'form.activity.games': 'Interactive games (e.g., scavenger hunt, trivia)',
+    'form.activity.workshops': 'Workshops/DIY activities (e.g., crafts, cooking)',
+    'form.activity.performances': 'Performances/Entertainment (e.g., magician, DJ)',
+    'form.activity.sports': 'Sports/Physical activities (e.g., bouncy castle, park games)',
+    'form.activity.food': 'Food experiences (e.g., cooking class, themed snacks)',
+    'form.activity.social': 'Relaxed social gathering (e.g., mingling, board games)',
+    'form.activity.movie': 'Movie screening',
+    'form.activity.pool': 'Pool party (if applicable)',
+    'form.activity.adventure': 'Adventure/Outdoor activity (e.g., hiking, climbing)',
+    'form.additional': 'Other Preferences / Important Notes (Optional)',
+    'form.additional.placeholder': 'e.g., Accessibility needs, specific dislikes, must-have music genres...',
+    'form.step5.title': 'Food & Drinks',
+    'form.food': 'Specific Food Wishes / Requirements',
+    'form.food.required': "Please mention food preferences (e.g., 'Kid-friendly menu', 'Vegan options needed', 'Loves pizza and pasta')",
+    'form.food.placeholder': 'e.g., Must have pizza & cake, need vegetarian options, loves finger foods, specific cuisines...',
+    'form.drinks': 'Specific Drink Wishes / Requirements',
+    'form.drinks.required': "Please mention drink preferences (e.g., 'Juice boxes for kids', 'Coffee for adults', 'No alcohol')",
+    'form.drinks.placeholder': 'e.g., Assorted juices & water for kids, coffee/tea for adults, specific soda brands, signature mocktail idea...',
+    'form.allergies': 'Allergies to Avoid (Optional)',
+    'form.diets': 'Diets the Whole Menu Must Follow (Optional)',
+    'form.profiles': 'Plans to Generate',
+    'form.profiles.required': 'Choose at least one kind of plan',
+    'form.previous': 'Previous',
+    'form.next': 'Next',
+    'form.generating': 'Generating Plans...',
+    'form.generate': 'Generate Birthday Plans',
+    'allergen.nuts': 'Tree nuts',
+    'allergen.peanuts': 'Peanuts',
+    'allergen.gluten': 'Gluten',
+    'allergen.dairy': 'Dairy',
+    'allergen.eggs': 'Eggs',
+    'allergen.soy': 'Soy',
+    'allergen.fish': 'Fish',
+    'allergen.shellfish': 'Shellfish',
+    'allergen.sesame': 'Sesame',
+    'diet.vegetarian': 'Vegetarian',
+    'diet.vegan': 'Vegan',
+    'diet.kosher': 'Kosher',
+    'diet.halal': 'Halal',
+
+    // --- Events dashboard ---
+    'events.title': 'My Events',
+    'events.subtitle': "Every party you've planned, each with its own plans and edits.",
+    'events.new': '+ Plan a New Party',
+    'events.loadError': 'Failed to load your events. Stored data might be corrupted.',
+    'events.confirmDelete': "Delete {name}'s party and all of its plans? This cannot be undone.",
+    'events.confirmDeleteUnnamed': 'Delete this party and all of its plans? This cannot be undone.',
+    'events.deleteError': 'Failed to delete the event. Please try again.',
+    'events.empty.title': 'No Events Yet',
+    'events.empty.body': 'Fill in the planning form to generate your first set of party plans.',
+    'events.birthdayOf': "{name}'s Birthday",
+    'events.unnamed': 'Unnamed',
+    'events.turning': 'Turning {age}',
+    'events.theme': '{theme} theme',
+    'events.plans': 'Plans',
+    'events.chosenPlan': 'Chosen plan',
+    'events.notChosen': 'Not chosen yet',
+    'events.guests': 'Guests',
+    'events.planned': '{count} planned',
+    'events.confirmed': 'Confirmed',
+    'events.confirmedOf': '{confirmed} of {planned}',
+    'events.noGuestList': 'No guest list yet',
+    'events.location': 'Location',
+    'events.updated': 'Last updated',
+    'events.delete': 'Delete',
+    'events.invitations': 'Invitations',
+    'events.viewPlans': 'View Plans',
+
+    // --- Results ---
+    'results.title': 'Your Generated Plans',
+    'results.subtitle': "For {name}'s {theme} themed party!",
+    'results.hint': 'Select a plan to view details and edit.',
+    'results.loading': 'Loading plans...',
+    'results.corrupted': 'Stored plan data is corrupted (not an array).',
+    'results.loadError': 'Failed to load plan data.',
+    'results.maybeCorrupted': 'Data might be corrupted.',
+    'results.empty.title': 'No Plans Available',
+    'results.empty.body': 'No plans were found or generated successfully. Please go back and try again.',
+    'results.startOver': 'Start Over',
+    'results.view.cards': 'Plan Cards',
+    'results.view.compare': 'Compare Side by Side',
+    'results.chooseError': 'Failed to save your choice. Please try again.',
+    'results.mixAndMatch': 'Mix & Match Sections',
+    'results.saveCustomError': 'Failed to save the custom plan. Please try again.',
+
+    // --- Plan comparison ---
+    'compare.figure': 'Compared figure',
+    'compare.venue': 'Venue',
+    'compare.cost': 'Estimated Cost',
+    'compare.scheduleLength': 'Schedule Length',
+    'compare.activityCount': 'Activities',
+    'compare.activityCountValue': '{count} in the schedule',
+    'compare.servingStyle': 'Catering Style',
+    'compare.coverage': 'Your Activity Types',
+    'compare.coverageValue': '{covered} of {total} included',
+    'compare.differs': 'Differs',
+    'compare.best': 'Best',
+    'compare.choose': 'Choose This Plan',
+    'compare.chosen': 'Chosen Plan',
+    'compare.view': 'View Details',
+    'compare.legend': 'Rows where the plans differ are highlighted, and the best value is marked (lowest cost, most of your activity types).',
+    'compare.noActivities': 'No activity types were selected in the form, so activity coverage isn\'t compared.',
+
+    // --- Plan content (cards and details) ---
+    'profile.DIY/Budget': 'DIY/Budget',
+    'profile.Premium/Convenience': 'Premium/Convenience',
+    'profile.Unique/Adventure': 'Unique/Adventure',
+    'profile.Custom': 'Custom',
+    'profile.Sensory-friendly': 'Sensory-friendly',
+    'profile.Eco/Zero-waste': 'Eco/Zero-waste',
+    'profile.Outdoor sports': 'Outdoor sports',
+    'profileHint.DIY/Budget': 'Low cost: home or park venue, homemade food and decorations.',
+    'profileHint.Premium/Convenience': 'Fully hosted at a private venue, with catering and entertainment taken care of.',
+    'profileHint.Unique/Adventure': 'Built around a memorable shared experience, like an escape room or adventure park.',
+    'profileHint.Sensory-friendly': 'Calm and predictable: a quiet venue, soft lighting, no loud music and gentle, optional activities.',
+    'profileHint.Eco/Zero-waste': 'Low-waste: reusable tableware, local plant-forward food and reused or natural decorations.',
+    'profileHint.Outdoor sports': 'Active and outdoors: team games, races or a sport everyone can play.',
+    'plan.unnamed': 'Unnamed Plan',
+    'plan.noDescription': 'No description provided',
+    'plan.name': 'Name:',
+    'plan.description': 'Description:',
+    'plan.cost': 'Cost:',
+    'plan.estCost': 'Est. Cost:',
+    'plan.estimatedCost': 'Estimated Cost:',
+    'plan.style': 'Style:',
+    'plan.servingStyle': 'Serving Style:',
+    'plan.amenities': 'Amenities:',
+    'plan.suitability': 'Suitability:',
+    'plan.exampleSearches': 'Example Searches:',
+    'plan.menu': 'Menu:',
+    'plan.appetizers': 'Appetizers:',
+    'plan.mainCourses': 'Main Courses:',
+    'plan.desserts': 'Desserts:',
+    'plan.beverages': 'Beverages:',
+    'plan.icebreakers': 'Icebreakers:',
+    'plan.interactiveElements': 'Interactive Elements:',
+    'plan.photoOpportunities': 'Photo Opportunities:',
+    'plan.partyFavors': 'Party Favors:',
+    'plan.techIntegration': 'Tech Integration:',
+    'plan.colorPalette': 'Color Palette:',
+    'plan.keyPieces': 'Key Pieces:',
+    'plan.section.description': 'Description',
+    'plan.section.date': 'Date',
+    'plan.section.venue': 'Venue',
+    'plan.section.amenities': 'Amenities',
+    'plan.section.schedule': 'Schedule',
+    'plan.section.catering': 'Catering',
+    'plan.section.menu': 'Menu',
+    'plan.section.appetizers': 'Appetizers',
+    'plan.section.mainCourses': 'Main Courses',
+    'plan.section.desserts': 'Desserts',
+    'plan.section.beverages': 'Beverages',
+    'plan.section.guestEngagement': 'Guest Engagement',
+    'plan.section.icebreakers': 'Icebreakers',
+    'plan.section.interactiveElements': 'Interactive Elements',
+    'plan.section.photoOpportunities': 'Photo Opportunities',
+    'plan.section.partyFavors': 'Party Favors',
+    'plan.section.techIntegration': 'Tech Integration',
+    'plan.section.decorations': 'Decorations',
+    'plan.section.colorPalette': 'Color Palette',
+    'plan.section.keyPieces': 'Key Pieces',
+    'plan.decorationSource.diy': 'DIY',
+    'plan.decorationSource.buy': 'Buy',
+    'planCard.view': 'View & Edit Details',
+    'planCard.viewAria': 'View details for plan {name}',
+    'planCard.venue': 'Venue Details',
+    'planCard.schedule': 'Activity Schedule',
+    'planCard.noSchedule': 'No schedule provided.',
+    'planCard.catering': 'Catering Details',
+    'planCard.chosen': 'Chosen plan',
+
+    // --- Plan detail page ---
+    'planDetail.loading': 'Loading plan details...',
+    'planDetail.notLoaded': 'Plan data could not be loaded.',
+    'planDetail.missingIds': 'No Event ID or Plan ID provided in the URL.',
+    'planDetail.planNotFound': 'Plan with ID {id} not found. Please go back and select a valid plan.',
+    'planDetail.loadError': 'An error occurred while loading plan data.',
+    'planDetail.editUnsupported': 'Editing for section "{section}" is not currently supported.',
+    'planDetail.saveError': 'Failed to save changes. Please try again or refresh the page.',
+    'planDetail.regenerateSaveError': 'Failed to save the regenerated section. Please try again or refresh the page.',
+    'planDetail.ledgerSaveError': 'Failed to save the budget ledger. Please try again or refresh the page.',
+    'planDetail.optimizerMissingData': 'Cannot open optimizer: Plan or User Input data is missing.',
+    'planDetail.optimizeSaveError': 'Failed to save optimized changes. Please try again.',
+    'planDetail.undoError': 'Failed to undo the last change. Please try again.',
+    'planDetail.redoError': 'Failed to redo the last change. Please try again.',
+    'planDetail.restoreError': 'Failed to restore the selected version. Please try again.',
+    'planDetail.invitationMissingData': 'Cannot create invitation: Plan data is missing.',
+    'planDetail.pdfError': 'Failed to create the PDF. Please try again.',
+    'planDetail.undo': 'Undo',
+    'planDetail.undoAria': 'Undo last change',
+    'planDetail.redo': 'Redo',
+    'planDetail.redoAria': 'Redo change',
+    'planDetail.history': 'History',
+    'planDetail.historyAria': 'Show version history',
+    'planDetail.guests': 'Guests',
+    'planDetail.guestsAria': 'Open guest list',
+    'planDetail.runOfShow': 'Run of Show',
+    'planDetail.runOfShowAria': 'Open day-of run of show',
+    'planDetail.shopping': 'Shopping List',
+    'planDetail.shoppingAria': 'Open shopping list',
+    'planDetail.invitations': 'Invitations',
+    'planDetail.invitationsAria': 'Open saved invitations',
+    'planDetail.pdf': 'Download PDF',
+    'planDetail.pdfCreating': 'Creating PDF...',
+    'planDetail.pdfAria': 'Download the plan as a PDF',
+    'planDetail.optimize': 'Optimize Budget',
+    'planDetail.createInvitation': 'Create Invitation',
+    'planDetail.back': '← Back to Results',
+    'planDetail.backAria': 'Back to results',
+    'planDetail.profile': 'Profile: {profile}',
+    'planDetail.editName': 'Edit Name',
+    'planDetail.optimizationSummary': 'Optimization Summary',
+    'planDetail.costSummary': 'Cost Summary',
+    'planDetail.regenerate': 'Regenerate',
+    'planDetail.noDescription': 'No description available.',
+    'planDetail.invalidDateFormat': 'Invalid date format',
+    'planDetail.invalidDate': 'Invalid date',
+    'planDetail.noVenue': 'No venue details specified.',
+    'planDetail.noSchedule': 'No schedule items added yet.',
+    'planDetail.noMenu': 'No menu details specified.',
+    'planDetail.noCatering': 'No catering details specified.',
+    'planDetail.noEngagement': 'No guest engagement details specified.',
+    'planDetail.noDecorations': 'No decorations yet. Regenerate this section for decoration ideas that fit the plan.',
+    'planDetail.budgetLedger': 'Budget Ledger',
+
+    // --- Cost summary ---
+    'cost.within': 'Within budget',
+    'cost.atRisk': 'May exceed budget',
+    'cost.over': 'Over budget',
+    'cost.unknownStatus': 'Cannot compare to budget',
+    'cost.estTotal': 'Est. total:',
+    'cost.estimatedTotal': 'Estimated total:',
+    'cost.unknown': 'Unknown',
+    'cost.budgetShort': 'Budget {amount}',
+    'cost.budget': 'Budget: {amount}',
+    'cost.toSpare': '(at least {amount} to spare)',
+    'cost.overBy': '(at least {amount} over)',
+    'cost.noEstimateFor': 'No usable cost estimate for: {sections}.',
+    'cost.mixedCurrencies': 'Some costs use a different currency than your budget, so the total is approximate.',
+    'cost.perPerson': 'Per-person costs are calculated for {count} guests.',
+    'cost.perPersonSuffix': 'per person',
+
+    // --- Calendar export ---
+    'calendar.includeSchedule': 'Include schedule items',
+    'calendar.reminder': 'Reminder',
+    'calendar.reminder.none': 'No reminder',
+    'calendar.reminder.hour': '1 hour before',
+    'calendar.reminder.day': '1 day before',
+    'calendar.reminder.week': '1 week before',
+    'calendar.add': 'Add to Calendar (.ics)',
+    'calendar.error': 'Failed to create the calendar file.',
+
+    // --- Schedule timeline ---
+    'timeline.title': 'Timeline',
+    'timeline.empty': 'Add start and end times to the schedule to see it on a timeline.',
+    'timeline.item': 'Item {number}',
+    'timeline.overlap': '{a} overlaps with {b}.',
+    'timeline.gap': '{duration} gap between {a} and {b}.',
+    'timeline.unscheduled': "{activity} has no readable time and isn't shown.",
+    'timeline.length.tooLong': '{duration} is longer than the {range} that usually suits {group}.',
+    'timeline.length.tooShort': '{duration} is shorter than the {range} that usually suits {group}.',
+    'timeline.length.ok': '{duration} is within the {range} that usually suits {group}.',
+    'timeline.group.toddlers': 'toddlers (up to 3)',
+    'timeline.group.youngChildren': 'young children (4-6)',
+    'timeline.group.children': 'children (7-12)',
+    'timeline.group.teens': 'teens (13-17)',
+    'timeline.group.adults': 'adults',
+
+    // --- Catering quantities and dietary check ---
+    'quantities.title': 'Quantities',
+    'quantities.hours': 'Hours',
+    'quantities.empty': 'Add dishes to the menu to estimate quantities.',
+    'quantities.item': 'Item',
+    'quantities.servings': 'Servings',
+    'quantities.buy': 'Buy',
+    'quantities.unit.pieces': 'pieces',
+    'quantities.unit.kg': 'kg',
+    'quantities.unit.servings': 'servings',
+    'quantities.unit.liters': 'L',
+    'quantities.note': 'Rule-of-thumb estimates: a child eats about 60% of an adult portion, and 10% extra is added to what you buy.',
+    'dietary.title': 'Dietary Check',
+    'dietary.requirements': 'Requirements:',
+    'dietary.noAllergen': 'No {allergen}',
+    'dietary.conflicts.one': '{count} menu item breaks the dietary requirements:',
+    'dietary.conflicts.other': '{count} menu items break the dietary requirements:',
+    'dietary.contains': 'contains {allergen}',
+    'dietary.notDiet': 'not {diet}',
+    'dietary.allFit': 'Every menu item fits the dietary requirements.',
+    'dietary.none': 'No dietary restrictions were set for this event.',
+    'dietary.noAllergens': 'no common allergens',
+    'dietary.note': 'Allergens are detected from dish names where no tag exists; always confirm with the caterer.',
+
+    // --- Budget ledger ---
+    'ledger.overBudget': 'Over budget:',
+    'ledger.overBudgetDetail': 'projected spending is {over} more than your budget of {budget}.',
+    'ledger.empty': 'No line items yet.',
+    'ledger.import': "Start from the plan's cost estimates",
+    'ledger.item': 'Item',
+    'ledger.category': 'Category',
+    'ledger.vendor': 'Vendor',
+    'ledger.estimated': 'Estimated',
+    'ledger.actual': 'Actual',
+    'ledger.paid': 'Paid',
+    'ledger.descriptionPlaceholder': 'e.g., Hall rental',
+    'ledger.descriptionAria': 'Item description',
+    'ledger.estimatedAria': 'Estimated amount',
+    'ledger.actualAria': 'Actual amount',
+    'ledger.removeAria': 'Remove item',
+    'ledger.add': '+ Add Line Item',
+    'ledger.total': 'Total ({currency})',
+    'ledger.exceedsBy': 'Projected spending exceeds the budget by {amount}.',
+    'ledger.remaining': 'Remaining budget: {remaining} of {budget}',
+    'ledger.note': 'Projected spending uses the actual amount where entered, otherwise the estimate.',
+    'ledger.category.venue': 'Venue',
+    'ledger.category.food': 'Food & Drinks',
+    'ledger.category.activities': 'Activities',
+    'ledger.category.decorations': 'Decorations',
+    'ledger.category.partyFavors': 'Party Favors',
+    'ledger.seed.venue': 'Venue',
+    'ledger.seed.catering': 'Catering',
+    'ledger.seed.cateringStyle': 'Catering ({style})',
+
+    // --- Budget optimizer and change review ---
+    'optimizerModal.title': 'Budget Optimizer',
+    'optimizer.intro': 'Adjust priorities to optimize the selected plan towards your budget of:',
+    'optimizer.instructions': 'Rate the importance of each category (1 = Least Important, 5 = Most Important). The AI will suggest adjustments based on your priorities and budget.',
+    'optimizer.priority.venue': 'Venue',
+    'optimizer.priority.food': 'Food',
+    'optimizer.priority.activities': 'Activities',
+    'optimizer.priority.decorations': 'Decorations',
+    'optimizer.priority.partyFavors': 'Party Favors',
+    'optimizer.optimizing': 'Optimizing...',
+    'optimizer.unexpectedResponse': 'Received an unexpected response from the budget optimizer.',
+    'optimizer.error': 'Failed to optimize budget: {message}',
+    'review.title': 'Review Suggested Changes',
+    'review.noChanges': "The optimizer didn't suggest any changes to the plan.",
+    'review.acceptedCount': '{accepted} of {total} changes accepted',
+    'review.acceptAll': 'Accept all',
+    'review.rejectAll': 'Reject all',
+    'review.other': 'Other',
+    'review.discard': 'Discard',
+    'review.applyAll': 'Apply All Changes',
+    'review.applySelected': 'Apply Selected Changes',
+    'diff.item': 'Item {number}',
+    'field.name': 'Name',
+    'field.description': 'Description',
+    'field.profile': 'Profile',
+    'field.date': 'Date',
+    'field.venue': 'Venue',
+    'field.amenities': 'Amenities',
+    'field.suitability': 'Suitability',
+    'field.cost': 'Cost',
+    'field.costRange': 'Cost Range',
+    'field.min': 'Min',
+    'field.max': 'Max',
+    'field.currency': 'Currency',
+    'field.basis': 'Basis',
+    'field.schedule': 'Schedule',
+    'field.time': 'Time',
+    'field.start': 'Start',
+    'field.end': 'End',
+    'field.activity': 'Activity',
+    'field.durationMinutes': 'Duration Minutes',
+    'field.catering': 'Catering',
+    'field.estimatedCost': 'Estimated Cost',
+    'field.servingStyle': 'Serving Style',
+    'field.menu': 'Menu',
+    'field.appetizers': 'Appetizers',
+    'field.mainCourses': 'Main Courses',
+    'field.desserts': 'Desserts',
+    'field.beverages': 'Beverages',
+    'field.menuTags': 'Menu Tags',
+    'field.allergens': 'Allergens',
+    'field.diets': 'Diets',
+    'field.item': 'Item',
+    'field.guestEngagement': 'Guest Engagement',
+    'field.icebreakers': 'Icebreakers',
+    'field.interactiveElements': 'Interactive Elements',
+    'field.photoOpportunities': 'Photo Opportunities',
+    'field.partyFavors': 'Party Favors',
+    'field.techIntegration': 'Tech Integration',
+    'field.venueSearchSuggestions': 'Search Suggestions',
+    'field.cateringSearchSuggestions': 'Search Suggestions',
+    'field.entertainmentSearchSuggestions': 'Search Suggestions',
+    'field.decorations': 'Decorations',
+    'field.colorPalette': 'Color Palette',
+    'field.keyPieces': 'Key Pieces',
+    'field.source': 'DIY or Buy',
+    'field.notes': 'Notes',
+    'field.decorationSearchSuggestions': 'Search Suggestions',
+    'field.optimizationSummary': 'Optimization Summary',
+
+    // --- Version history ---
+    'history.title': 'Version History',
+    'history.saved': 'Saved',
+    'history.source': 'Source',
+    'history.from': 'From',
+    'history.to': 'To',
+    'history.current': 'Current',
+    'history.compareFrom': 'Compare from revision {number}',
+    'history.compareTo': 'Compare to revision {number}',
+    'history.restore': 'Restore',
+    'history.changes': 'Changes',
+    'history.selectTwo': 'Select two different revisions to compare.',
+    'history.identical': 'These revisions are identical.',
+    'history.source.generation': 'Generated',
+    'history.source.manual-edit': 'Manual edit',
+    'history.source.budget-optimization': 'Budget optimization',
+    'history.source.regeneration': 'Regeneration',
+    'history.source.restore': 'Restored',
+
+    // --- Section regeneration ---
+    'regenerate.title': 'Regenerate {section}',
+    'regenerate.intro': 'Get a fresh suggestion for the {section} section. The rest of the plan stays as it is and is used as context.',
+    'regenerate.guidance': 'Guidance (optional)',
+    'regenerate.loading': 'Regenerating...',
+    'regenerate.error': 'Failed to regenerate this section. Please try again.',
+    'regenerate.example.venue': 'e.g., an outdoor venue with shade',
+    'regenerate.example.schedule': 'e.g., finish before 7 PM',
+    'regenerate.example.catering': 'e.g., more vegetarian options',
+    'regenerate.example.guestEngagement': 'e.g., quieter activities for younger kids',
+    'regenerate.example.decorations': 'e.g., pastel colors, mostly DIY',
+
+    // --- Mix & match (custom plans) ---
+    'composite.title': 'Mix & Match a Custom Plan',
+    'composite.intro': 'Pick each section from any of the plans. The new plan is saved next to the others as a "Custom" plan.',
+    'composite.name': 'Plan name',
+    'composite.defaultName': 'My Mix & Match Plan',
+    'composite.description': 'Mixed and matched from the generated plans ({sources}).',
+    'composite.takeFrom': 'Take the {section} from',
+    'composite.notIncluded': 'This plan has no {section} section, so the custom plan will not have one either.',
+    'composite.scheduleItems': '{count} items: {items}',
+    'composite.harmonizeHint': 'Harmonizing asks the planner to fix details that only fit the original plans, such as a schedule that mentions another venue. You review every change before it is saved.',
+    'composite.saveAsIs': 'Save As Is',
+    'composite.harmonize': 'Harmonize & Review',
+    'composite.harmonizing': 'Harmonizing...',
+    'composite.harmonizeError': 'Failed to harmonize the plan. Please try again.',
+    'composite.summaryTitle': 'What the planner adjusted',
+    'composite.noChanges': 'The planner found nothing to adjust. Go back to save the plan as it is.',
+
+    // --- Section editing ---
+    'edit.title': 'Edit {section}',
+    'edit.titleFallback': 'Edit Section',
+    'edit.unsupported': 'Editing for section "{section}" is not implemented yet.',
+    'edit.loading': 'Loading data...',
+    'edit.save': 'Save Changes',
+    'edit.planName': 'Plan Name',
+    'edit.venueName': 'Venue Name',
+    'edit.estimatedCost': 'Estimated Cost',
+    'edit.min': 'Min',
+    'edit.max': 'Max',
+    'edit.basis': 'Basis',
+    'edit.basis.flat': 'Flat total',
+    'edit.basis.perPerson': 'Per person',
+    'edit.originalEstimate': 'Original estimate: {estimate}',
+    'edit.start': 'Start',
+    'edit.end': 'End',
+    'edit.currentTime': 'Current time: "{time}". Set a start time to place it on the timeline.',
+    'edit.activity.placeholder': 'e.g., Cake Cutting',
+    'edit.details': 'Details (Optional)',
+    'edit.details.placeholder': 'e.g., With music',
+    'edit.deleteScheduleItem': 'Delete schedule item',
+    'edit.addScheduleItem': 'Add Schedule Item',
+    'edit.servingStyle.placeholder': 'e.g., Buffet, Plated',
+    'edit.desserts.placeholder': 'e.g., Themed Cake, Fruit Platter',
+    'edit.menuItem.appetizers': 'Appetizer',
+    'edit.menuItem.mainCourses': 'Main Course',
+    'edit.menuItem.beverages': 'Beverage',
+    'edit.enterItem': 'Enter {item}',
+    'edit.deleteItem': 'Delete {item}',
+    'edit.addItem': 'Add {item}',
+    'edit.colorItem': 'Color',
+    'edit.searchItem': 'Search Term',
+    'edit.pieceItem.placeholder': 'e.g., Balloon arch',
+    'edit.pieceNotes.placeholder': 'How to make it, or what to buy',
+    'edit.deletePiece': 'Delete decoration piece',
+    'edit.addPiece': 'Add Decoration Piece',
+
+    // --- Invitations ---
+    'invitationModal.title': 'Create Smart Invitation',
+    'invitation.template': 'Select Template Style',
+    'invitation.template.classic': 'Classic',
+    'invitation.template.playful': 'Playful',
+    'invitation.template.themed': 'Themed',
+    'invitation.template.minimalist': 'Minimalist',
+    'invitation.date': 'Event Date',
+    'invitation.time': 'Event Time',
+    'invitation.dateTimeRequired': 'Please select a valid date and time for the event.',
+    'invitation.generating': 'Generating...',
+    'invitation.generate': 'Generate Invitation',
+    'invitation.unexpectedResponse': 'Received an unexpected response from the invitation generator.',
+    'invitation.generateError': 'Failed to generate invitation: {message}',
+    'invitation.saveError': "The invitation couldn't be saved to this event. Download it to keep a copy.",
+    'invitation.imageAlt': 'Generated invitation for {name}',
+    'invitation.noImage': 'Image generation failed or not available',
+    'invitation.noText': 'Invitation text could not be generated.',
+    'invitation.saved': "✓ Saved to this event's invitations.",
+    'invitation.savedLinkOnly': "✓ Saved to this event's invitations (the image will only be available while its link works).",
+    'invitation.viewAll': 'View all invitations',
+    'invitation.printSize': 'Print size',
+    'invitation.creatingPdf': 'Creating PDF...',
+    'invitation.downloadPdf': 'Download Printable PDF',
+    'invitation.pdfError': 'Failed to create the PDF: {message}',
+    'invitation.createNew': '← Create New',
+    'invitation.downloadText': 'Download Text',
+    'invitation.downloadImage': 'Download Image',
+    'invitation.editText': 'Edit Text',
+    'invitation.textLabel': 'Invitation text',
+    'invitation.saveText': 'Save Text',
+    'invitation.textSaveError': "The edited text couldn't be saved to this event's invitations.",
+    'invitation.rewriteLabel': 'Rewrite the text',
+    'invitation.rewrite.shorter': 'Shorter',
+    'invitation.rewrite.funnier': 'Funnier',
+    'invitation.rewrite.formal': 'More formal',
+    'invitation.rewrite.addRsvp': 'Add RSVP line',
+    'invitation.rewrite.addDirections': 'Add directions',
+    'invitation.rewriting': 'Rewriting...',
+    'invitation.rewriteHint': 'Only the text changes; the image stays the same. Review the new text before saving it.',
+    'invitation.rewriteError': 'Failed to rewrite the invitation: {message}',
+    'invitation.rsvpLine': 'RSVP here: {url}',
+    'invitation.rsvpPublished': 'Guests can reply on the RSVP page:',
+    'invitation.rsvpPublishError': "The RSVP page couldn't be updated. Publish it from the event's invitations page.",
+
+    // --- Invitation gallery ---
+    'invitations.loading': 'Loading invitations...',
+    'invitations.loadError': 'An error occurred while loading the invitations.',
+    'invitations.savedCount': '{count} saved',
+    'invitations.when': '{date} at {time}',
+    'invitations.imageAlt': '{template} invitation for {name}',
+    'invitations.noImage': 'Image not available',
+    'invitations.shownOnRsvp': 'Shown on the RSVP page',
+    'invitations.rsvpPage': 'RSVP page',
+    'invitations.backToAll': '← All Invitations',
+    'invitations.publishing': 'Publishing...',
+    'invitations.useForRsvp': 'Use for RSVP Page',
+    'invitations.publishError': 'Failed to publish the RSVP page: {message}',
+    'invitations.personalize': 'Personalize for Guests',
+    'invitations.downloadText': 'Download Text',
+    'invitations.downloadImage': 'Download Image',
+    'invitations.download': 'Download',
+    'invitations.open': 'Open',
+    'invitations.openAria': 'Open invitation for {name}',
+    'invitations.confirmDelete': 'Delete this invitation? This cannot be undone.',
+    'invitations.deleteError': 'Failed to delete the invitation. Please try again.',
+    'invitations.empty.title': 'No Invitations Yet',
+    'invitations.empty.body': 'Open a plan and choose "Create Invitation". Every invitation you generate is saved here.',
+
+    // --- Invitation batches ---
+    'batch.title': 'Personalize Invitations',
+    'batch.loading': 'Loading invitation...',
+    'batch.missingIds': 'No Event or Invitation ID provided in the URL.',
+    'batch.invitationNotFound': 'Invitation with ID {id} not found. It may have been deleted.',
+    'batch.loadError': 'An error occurred while loading the invitation.',
+    'batch.messageCount.one': '{count} message',
+    'batch.messageCount.other': '{count} messages',
+    'batch.allInvitations': 'All Invitations',
+    'batch.guestList': 'Guest List',
+    'batch.empty.title': 'No Guests to Invite',
+    'batch.empty.body': "Add guests to the event's guest list first. Guests who declined are left out.",
+    'batch.grouping': 'One message per',
+    'batch.grouping.household': 'Household',
+    'batch.grouping.guest': 'Guest',
+    'batch.greeting': 'Greeting',
+    'batch.greetingDefault': 'Dear {name},',
+    'batch.greetingHint': '{placeholder} is replaced with the name. Not added if the invitation text already contains {placeholder}.',
+    'batch.toneForAll': 'Tone for everyone',
+    'batch.toneFor': 'Tone for {name}',
+    'batch.choose': 'Choose...',
+    'batch.tone.original': 'As written',
+    'batch.tone.funnier': 'Funnier',
+    'batch.tone.formal': 'More formal',
+    'batch.tone.shorter': 'Shorter',
+    'batch.pendingTones': 'Rewrite the invitation for: {tones}.',
+    'batch.planDeleted': "This invitation's plan was deleted, so it can only be sent as written.",
+    'batch.ready': 'All messages are ready.',
+    'batch.applyTones': 'Apply Tones',
+    'batch.downloadCsv': 'Download CSV',
+    'batch.downloadZip': 'Download Zip',
+    'batch.creatingZip': 'Creating Zip...',
+    'batch.zipError': 'Failed to create the zip file. Please try again.',
+    'batch.noContact': 'No contact',
+    'batch.waiting': 'Waiting for the "{tone}" rewrite.',
+    'batch.copy': 'Copy',
+    'batch.copied': 'Copied',
+    'batch.copyError': "Couldn't copy the message. Select the text and copy it instead.",
+    'batch.send': 'Send',
+    'batch.subject': "You're invited: {name}",
+    'batch.csv.recipient': 'Recipient',
+    'batch.csv.guests': 'Guests',
+    'batch.csv.contact': 'Contact',
+    'batch.csv.tone': 'Tone',
+    'batch.csv.message': 'Message',
+    'batch.csv.link': 'Link',
+
+    // --- Shopping list ---
+    'shopping.title': 'Shopping List',
+    'shopping.loading': 'Loading shopping list...',
+    'shopping.loadError': 'An error occurred while loading the shopping list.',
+    'shopping.saveError': 'Failed to save the shopping list. Please try again or refresh the page.',
+    'shopping.boughtCount': '{bought} of {total} bought',
+    'shopping.exportTitle': 'Shopping list: {name}',
+    'shopping.exportText': 'Export Text',
+    'shopping.exportCsv': 'Export CSV',
+    'shopping.backToPlan': 'Back to Plan',
+    'shopping.item': 'Item',
+    'shopping.item.placeholder': 'e.g., Balloons',
+    'shopping.quantity': 'Quantity',
+    'shopping.unit': 'Unit',
+    'shopping.unit.placeholder': 'e.g., packs',
+    'shopping.section': 'Section',
+    'shopping.add': '+ Add Item',
+    'shopping.empty': 'Nothing to buy yet. Add a menu or party favors to the plan, or add your own items above.',
+    'shopping.removeAria': 'Remove {name}',
+    'shopping.note': 'Quantities follow the menu and the guest list, so they update when either changes.',
+    'shopping.category.groceries': 'Groceries',
+    'shopping.category.bakery': 'Bakery',
+    'shopping.category.beverages': 'Beverages',
+    'shopping.category.partySupplies': 'Party Supplies',
+    'shopping.category.toysAndGifts': 'Toys & Gifts',
+    'shopping.category.other': 'Other',
+    'shopping.unit.set': 'set',
+    'shopping.unit.candles': 'candles',
+    'shopping.item.plates': 'Plates',
+    'shopping.item.cups': 'Cups',
+    'shopping.item.napkins': 'Napkins',
+    'shopping.item.cutlery': 'Cutlery sets',
+    'shopping.item.candles': 'Birthday candles',
+    'shopping.csv.category': 'Category',
+    'shopping.csv.item': 'Item',
+    'shopping.csv.quantity': 'Quantity',
+    'shopping.csv.unit': 'Unit',
+    'shopping.csv.bought': 'Bought',
+    'shopping.csv.yes': 'yes',
+    'shopping.csv.no': 'no',
+
+    // --- Run of show (day-of view) ---
+    'runOfShow.title': 'Run of Show',
+    'runOfShow.loading': 'Loading run of show...',
+    'runOfShow.saveError': 'Failed to save your progress. Changes will be lost if you leave this page.',
+    'runOfShow.confirmReset': 'Clear all done marks and delays for this plan?',
+    'runOfShow.backToPlan': 'Back to plan',
+    'runOfShow.empty': "This plan's schedule has no times yet. Add start times to the schedule to use the run of show.",
+    'runOfShow.now': 'Now',
+    'runOfShow.endsIn': 'Ends in {time}',
+    'runOfShow.runningOver': 'Running over by {time}',
+    'runOfShow.markDone': 'Mark Done',
+    'runOfShow.markDoneAria': 'Mark {activity} done',
+    'runOfShow.allDone': 'All done. Enjoy the rest of the party!',
+    'runOfShow.nothingRunning': 'Nothing running right now.',
+    'runOfShow.next': 'Next · {time}',
+    'runOfShow.startsIn': 'Starts in {time}',
+    'runOfShow.readyToStart': 'Ready to start',
+    'runOfShow.runningLate': 'Running late?',
+    'runOfShow.pushAria': 'Minutes to push',
+    'runOfShow.minutes': '{minutes} min',
+    'runOfShow.push': 'Push the rest back',
+    'runOfShow.schedule': 'Schedule',
+    'runOfShow.pushed': 'pushed {shift} min',
+    'runOfShow.unscheduled.one': "1 schedule item without a readable time isn't shown.",
+    'runOfShow.unscheduled.other': "{count} schedule items without a readable time aren't shown.",
+    'runOfShow.reset': 'Reset done marks and delays',
+
+    // --- Plan PDF ---
+    'pdf.estimatedCost': 'Estimated cost',
+    'pdf.whyItFits': 'Why it fits',
+    'pdf.servingStyle': 'Serving style',
+    'pdf.page': 'Page {page} of {count}',
+
+    // --- Guest list ---
+    'guests.title': 'Guest List',
+    'guests.loading': 'Loading guest list...',
+    'guests.missingId': 'No Event ID provided in the URL.',
+    'guests.loadError': 'An error occurred while loading the guest list.',
+    'guests.saveError': 'Failed to save the guest list. Please try again or refresh the page.',
+    'guests.status.invited': 'Awaiting reply',
+    'guests.status.yes': 'Attending',
+    'guests.status.maybe': 'Maybe',
+    'guests.status.no': 'Declined',
+    'guests.split': '{adults} adults · {children} children',
+    'guests.confirmed': 'Confirmed: {count}',
+    'guests.ofPlanned': 'of {total} planned guests ({adults} adults, {children} children).',
+    'guests.headcountConfirmed': 'Catering and per-person costs now use {total} guests ({adults} adults, {children} children), since more have confirmed than planned.',
+    'guests.headcountPlanned': 'Catering and per-person costs use the planned counts until more guests confirm than planned.',
+    'guestList.name': 'Name',
+    'guestList.name.placeholder': 'e.g., Dana Cohen',
+    'guestList.nameAria': 'Guest name',
+    'guestList.type': 'Type',
+    'guestList.typeAria': 'Guest type',
+    'guestList.type.adult': 'Adult',
+    'guestList.type.child': 'Child',
+    'guestList.household': 'Household',
+    'guestList.household.placeholder': 'e.g., Cohen family',
+    'guestList.noHousehold': 'No household',
+    'guestList.contact': 'Contact',
+    'guestList.contact.placeholder': 'Phone or email',
+    'guestList.rsvp': 'RSVP',
+    'guestList.rsvpAria': 'RSVP status',
+    'guestList.plusOnes': 'Plus-ones',
+    'guestList.notes': 'Notes',
+    'guestList.add': '+ Add Guest',
+    'guestList.empty': 'No guests yet. Add your first guest above.',
+    'guestList.removeAria': 'Remove {name}',
+    'guestList.removeGuestAria': 'Remove guest',
+
+    // --- RSVP page panel (guest list) ---
+    'rsvpPanel.none': 'No RSVP page yet. Generate an invitation, or open a saved one and choose "Use for RSVP Page", so guests can reply online.',
+    'rsvpPanel.invitations': 'Invitations',
+    'rsvpPanel.qrAlt': 'QR code for the RSVP page',
+    'rsvpPanel.title': 'RSVP Page',
+    'rsvpPanel.hint': "Guests reply at this link (it's also in the invitation text and on the printed card). Replies update guests with the same name or add new ones.",
+    'rsvpPanel.copy': 'Copy Link',
+    'rsvpPanel.copied': 'Copied',
+    'rsvpPanel.check': 'Check for Replies',
+    'rsvpPanel.checking': 'Checking...',
+    'rsvpPanel.latest': 'Latest reply added: {date}',
+    'rsvpPanel.noNew': 'No new replies.',
+    'rsvpPanel.added.one': '{count} new reply added to the guest list.',
+    'rsvpPanel.added.other': '{count} new replies added to the guest list.',
+    'rsvpPanel.syncError': 'Failed to load the replies: {message}',
+    'rsvpNote.adults.one': '{count} adult',
+    'rsvpNote.adults.other': '{count} adults',
+    'rsvpNote.children.one': '{count} child',
+    'rsvpNote.children.other': '{count} children',
+    'rsvpNote.noHeadcount': 'no headcount given',
+    'rsvpNote.maybe': 'maybe, {headcount}',
+    'rsvpNote.declined': "can't come",
+    'rsvpNote.dietary': 'Dietary: {notes}',
+
+    // --- Public RSVP page ---
+    'rsvp.loading': 'Loading invitation...',
+    'rsvp.notFound': "This invitation link doesn't work. It may have been removed; ask the host for a new link.",
+    'rsvp.imageAlt': 'Invitation for {name}',
+    'rsvp.title': 'Will you come?',
+    'rsvp.name': 'Your name',
+    'rsvp.attendance': 'Your reply',
+    'rsvp.attendance.yes': "Yes, we'll be there",
+    'rsvp.attendance.maybe': 'Maybe',
+    'rsvp.attendance.no': "Sorry, we can't come",
+    'rsvp.adults': 'Adults coming (including you)',
+    'rsvp.children': 'Children coming',
+    'rsvp.dietaryNotes': 'Dietary needs or allergies',
+    'rsvp.dietaryPlaceholder': 'e.g., one vegetarian, nut allergy',
+    'rsvp.send': 'Send Reply',
+    'rsvp.sending': 'Sending...',
+    'rsvp.submitError': "Your reply couldn't be sent. Please try again.",
+    'rsvp.thanks': 'Thanks! See you at the party.',
+    'rsvp.thanksDeclined': "Thanks for letting us know. You'll be missed!",
+    'rsvp.thanksHint': 'Your reply was sent to the host. To change it, reply again with the same name.',
+    'rsvp.changeReply': 'Change my reply',
+};
+
+export default en;
+
+// Every message key, used to type-check message lookups
+export type MessageKey = keyof typeof en;
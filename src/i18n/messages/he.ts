@@ -0,0 +1,823 @@
+// src/i18n/messages/he.ts
+// Hebrew UI messages. Keys match the English catalog; arrows point the other way for right-to-left reading.
+import type { MessageKey } from './en';
+
+const he: Record<MessageKey, string> = {
+    // --- Shared ---
+    'common.backToEvents': 'חזרה לאירועים שלי',
+    'common.cancel': 'ביטול',
+    'common.close': 'סגירה',
+    'common.closeModal': 'סגירת החלון',
+    'common.edit': 'עריכה',
+    'common.errorPrefix': 'שגיאה:',
+    'common.eventNotFound': 'האירוע עם המזהה {id} לא נמצא. חזרו לרשימת האירועים ובחרו אירוע קיים.',
+    'common.loadingError': 'שגיאה בטעינה',
+    'common.myEventsBack': '→ האירועים שלי',
+    'common.noneSpecified': 'לא צוין',
+    'common.notAvailable': 'לא זמין',
+    'common.remove': 'הסרה',
+    'common.tryAgain': 'נסו שוב.',
+    'common.unknownError': 'אירעה שגיאה לא ידועה.',
+    'language.label': 'שפה',
+
+    // --- Home and the plan form ---
+    'home.title': 'מתכנן ימי הולדת חכם',
+    'home.subtitle': 'בואו ניצור את החגיגה המושלמת!',
+    'home.viewEvents': 'לאירועים שלי ←',
+    'home.error': 'יצירת התוכניות נכשלה.',
+    'form.title': 'תכננו את מסיבת יום ההולדת!',
+    'form.stepOf': 'שלב {step} מתוך {total}',
+    'form.step1.title': 'על חוגג/ת יום ההולדת',
+    'form.name': 'שם החוגג/ת',
+    'form.name.required': 'יש להזין שם',
+    'form.name.placeholder': 'הזינו שם',
+    'form.age': 'הגיל שחוגגים',
+    'form.age.required': 'יש להזין גיל',
+    'form.age.min': 'הגיל חייב להיות לפחות 1',
+    'form.age.max': 'הגיל חייב להיות 120 לכל היותר',
+    'form.age.placeholder': 'הזינו גיל',
+    'form.theme': 'נושא המסיבה',
+    'form.theme.required': 'יש להזין נושא',
+    'form.theme.placeholder': 'למשל: גיבורי על, וינטג׳, מסיבת חוף',
+    'form.step2.title': 'אורחים ותקציב',
+    'form.guestCount': 'מספר אורחים',
+    'form.adults': 'מבוגרים',
+    'form.adults.required': 'יש להזין את מספר המבוגרים',
+    'form.adults.placeholder': 'למשל: 20',
+    'form.children': 'ילדים',
+    'form.children.required': 'יש להזין את מספר הילדים (0 אם אין)',
+    'form.children.placeholder': 'למשל: 15',
+    'form.negative': 'לא יכול להיות שלילי',
+    'form.budget': 'תקציב',
+    'form.amount': 'סכום',
+    'form.amount.required': 'יש להזין סכום תקציב',
+    'form.amount.negative': 'התקציב לא יכול להיות שלילי',
+    'form.amount.placeholder': 'למשל: 5000',
+    'form.currency': 'מטבע',
+    'form.currency.required': 'יש לבחור מטבע',
+    'form.step3.title': 'מיקום',
+    'form.city': 'עיר',
+    'form.city.required': 'יש להזין עיר',
+    'form.city.placeholder': 'הזינו עיר (למשל: תל אביב)',
+    'form.country': 'מדינה',
+    'form.country.required': 'יש להזין מדינה',
+    'form.country.placeholder': 'הזינו מדינה (למשל: ישראל)',
+    'form.setting': 'העדפת מקום',
+    'form.setting.required': 'יש לבחור העדפת מקום',
+    'form.setting.indoor': 'בפנים',
+    'form.setting.outdoor': 'בחוץ',
+    'form.setting.both': 'שניהם',
+    'form.step4.title': 'פעילויות והעדפות נוספות',
+    'form.activities': 'פעילויות מועדפות (אפשר לבחור כמה)',
+    'form.activity.games': 'משחקים אינטראקטיביים (למשל: חיפוש אוצר, טריוויה)',
+    'form.activity.workshops': 'סדנאות ויצירה (למשל: יצירה, בישול)',
+    'form.activity.performances': 'הופעות ובידור (למשל: קוסם, די־ג׳יי)',
+    'form.activity.sports': 'ספורט ופעילות גופנית (למשל: מתנפחים, משחקים בפארק)',
+    'form.activity.food': 'חוויות אוכל (למשל: סדנת בישול, חטיפים בנושא המסיבה)',
+    'form.activity.social': 'מפגש חברתי רגוע (למשל: שיחות, משחקי קופסה)',
+    'form.activity.movie': 'הקרנת סרט',
+    'form.activity.pool': 'מסיבת בריכה (אם אפשר)',
+    'form.activity.adventure': 'הרפתקה ופעילות בחוץ (למשל: טיול, טיפוס)',
+    'form.additional': 'העדפות נוספות / הערות חשובות (לא חובה)',
+    'form.additional.placeholder': 'למשל: צורכי נגישות, דברים שלא אוהבים, סגנונות מוזיקה שחייבים...',
+    'form.step5.title': 'אוכל ושתייה',
+    'form.food': 'משאלות ודרישות לאוכל',
+    'form.food.required': 'ספרו לנו על העדפות האוכל (למשל: ״תפריט ידידותי לילדים״, ״צריך אפשרויות טבעוניות״, ״אוהבים פיצה ופסטה״)',
+    'form.food.placeholder': 'למשל: חייבים פיצה ועוגה, צריך אפשרויות צמחוניות, אוהבים אוכל אצבעות, מטבחים מסוימים...',
+    'form.drinks': 'משאלות ודרישות לשתייה',
+    'form.drinks.required': 'ספרו לנו על העדפות השתייה (למשל: ״מיצים לילדים״, ״קפה למבוגרים״, ״בלי אלכוהול״)',
+    'form.drinks.placeholder': 'למשל: מיצים ומים לילדים, קפה ותה למבוגרים, מותגי שתייה מסוימים, רעיון לקוקטייל ללא אלכוהול...',
+    'form.allergies': 'אלרגיות שיש להימנע מהן (לא חובה)',
+    'form.diets': 'תזונה שכל התפריט חייב לעמוד בה (לא חובה)',
+    'form.profiles': 'אילו תוכניות ליצור',
+    'form.profiles.required': 'בחרו לפחות סוג תוכנית אחד',
+    'form.previous': 'הקודם',
+    'form.next': 'הבא',
+    'form.generating': 'יוצרים תוכניות...',
+    'form.generate': 'יצירת תוכניות ליום ההולדת',
+    'allergen.nuts': 'אגוזים',
+    'allergen.peanuts': 'בוטנים',
+    'allergen.gluten': 'גלוטן',
+    'allergen.dairy': 'חלב',
+    'allergen.eggs': 'ביצים',
+    'allergen.soy': 'סויה',
+    'allergen.fish': 'דגים',
+    'allergen.shellfish': 'פירות ים',
+    'allergen.sesame': 'שומשום',
+    'diet.vegetarian': 'צמחוני',
+    'diet.vegan': 'טבעוני',
+    'diet.kosher': 'כשר',
+    'diet.halal': 'חלאל',
+
+    // --- Events dashboard ---
+    'events.title': 'האירועים שלי',
+    'events.subtitle': 'כל מסיבה שתכננתם, עם התוכניות והעריכות שלה.',
+    'events.new': '+ תכנון מסיבה חדשה',
+    'events.loadError': 'טעינת האירועים נכשלה. ייתכן שהנתונים השמורים פגומים.',
+    'events.confirmDelete': 'למחוק את המסיבה של {name} ואת כל התוכניות שלה? אי אפשר לבטל את הפעולה.',
+    'events.confirmDeleteUnnamed': 'למחוק את המסיבה הזו ואת כל התוכניות שלה? אי אפשר לבטל את הפעולה.',
+    'events.deleteError': 'מחיקת האירוע נכשלה. נסו שוב.',
+    'events.empty.title': 'עדיין אין אירועים',
+    'events.empty.body': 'מלאו את טופס התכנון כדי ליצור את התוכניות הראשונות שלכם.',
+    'events.birthdayOf': 'יום ההולדת של {name}',
+    'events.unnamed': 'ללא שם',
+    'events.turning': 'חוגג/ת {age}',
+    'events.theme': 'נושא: {theme}',
+    'events.plans': 'תוכניות',
+    'events.chosenPlan': 'התוכנית שנבחרה',
+    'events.notChosen': 'עדיין לא נבחרה',
+    'events.guests': 'אורחים',
+    'events.planned': '{count} מתוכננים',
+    'events.confirmed': 'אישרו הגעה',
+    'events.confirmedOf': '{confirmed} מתוך {planned}',
+    'events.noGuestList': 'עדיין אין רשימת אורחים',
+    'events.location': 'מיקום',
+    'events.updated': 'עודכן לאחרונה',
+    'events.delete': 'מחיקה',
+    'events.invitations': 'הזמנות',
+    'events.viewPlans': 'לתוכניות',
+
+    // --- Results ---
+    'results.title': 'התוכניות שנוצרו עבורכם',
+    'results.subtitle': 'למסיבה של {name} בנושא {theme}!',
+    'results.hint': 'בחרו תוכנית כדי לראות פרטים ולערוך.',
+    'results.loading': 'טוענים תוכניות...',
+    'results.corrupted': 'נתוני התוכניות השמורים פגומים (אינם רשימה).',
+    'results.loadError': 'טעינת נתוני התוכניות נכשלה.',
+    'results.maybeCorrupted': 'ייתכן שהנתונים פגומים.',
+    'results.empty.title': 'אין תוכניות',
+    'results.empty.body': 'לא נמצאו תוכניות או שהיצירה נכשלה. חזרו ונסו שוב.',
+    'results.startOver': 'להתחיל מחדש',
+    'results.view.cards': 'כרטיסי תוכניות',
+    'results.view.compare': 'השוואה זו לצד זו',
+    'results.chooseError': 'שמירת הבחירה נכשלה. אנא נסו שוב.',
+    'results.mixAndMatch': 'שילוב חלקים מכמה תוכניות',
+    'results.saveCustomError': 'שמירת התוכנית המותאמת אישית נכשלה. אנא נסו שוב.',
+
+    // --- Plan comparison ---
+    'compare.figure': 'נתון להשוואה',
+    'compare.venue': 'מקום',
+    'compare.cost': 'עלות משוערת',
+    'compare.scheduleLength': 'משך הלו"ז',
+    'compare.activityCount': 'פעילויות',
+    'compare.activityCountValue': '{count} בלו"ז',
+    'compare.servingStyle': 'סגנון הקייטרינג',
+    'compare.coverage': 'סוגי הפעילויות שבחרתם',
+    'compare.coverageValue': '{covered} מתוך {total} כלולים',
+    'compare.differs': 'שונה',
+    'compare.best': 'הכי טוב',
+    'compare.choose': 'בחירת התוכנית הזו',
+    'compare.chosen': 'התוכנית שנבחרה',
+    'compare.view': 'לפרטים',
+    'compare.legend': 'שורות שבהן התוכניות שונות מודגשות, והערך הטוב ביותר מסומן (העלות הנמוכה ביותר, הכי הרבה מסוגי הפעילויות שבחרתם).',
+    'compare.noActivities': 'לא נבחרו סוגי פעילויות בטופס, ולכן הכיסוי שלהם לא מושווה.',
+
+    // --- Plan content (cards and details) ---
+    'profile.DIY/Budget': 'עשה זאת בעצמך / חסכוני',
+    'profile.Premium/Convenience': 'פרימיום / נוחות',
+    'profile.Unique/Adventure': 'ייחודי / הרפתקני',
+    'profile.Custom': 'מותאם אישית',
+    'profile.Sensory-friendly': 'מותאם רגישות חושית',
+    'profile.Eco/Zero-waste': 'ירוק / אפס פסולת',
+    'profile.Outdoor sports': 'ספורט בחוץ',
+    'profileHint.DIY/Budget': 'עלות נמוכה: מסיבה בבית או בפארק, אוכל וקישוטים בהכנה עצמית.',
+    'profileHint.Premium/Convenience': 'הכול מאורגן במקום אירועים פרטי, כולל קייטרינג והפעלה.',
+    'profileHint.Unique/Adventure': 'סביב חוויה משותפת בלתי נשכחת, כמו חדר בריחה או פארק הרפתקאות.',
+    'profileHint.Sensory-friendly': 'רגוע וצפוי: מקום שקט, תאורה רכה, בלי מוזיקה רועשת ועם פעילויות עדינות ולא מחייבות.',
+    'profileHint.Eco/Zero-waste': 'מעט פסולת: כלים רב-פעמיים, אוכל מקומי ועתיר צמחים וקישוטים טבעיים או ממוחזרים.',
+    'profileHint.Outdoor sports': 'פעיל ובחוץ: משחקי קבוצות, מרוצים או ספורט שכולם יכולים לשחק.',
+    'plan.unnamed': 'תוכנית ללא שם',
+    'plan.noDescription': 'לא סופק תיאור',
+    'plan.name': 'שם:',
+    'plan.description': 'תיאור:',
+    'plan.cost': 'עלות:',
+    'plan.estCost': 'עלות משוערת:',
+    'plan.estimatedCost': 'עלות משוערת:',
+    'plan.style': 'סגנון:',
+    'plan.servingStyle': 'סגנון הגשה:',
+    'plan.amenities': 'מתקנים:',
+    'plan.suitability': 'התאמה:',
+    'plan.exampleSearches': 'חיפושים לדוגמה:',
+    'plan.menu': 'תפריט:',
+    'plan.appetizers': 'מנות ראשונות:',
+    'plan.mainCourses': 'מנות עיקריות:',
+    'plan.desserts': 'קינוחים:',
+    'plan.beverages': 'משקאות:',
+    'plan.icebreakers': 'שוברי קרח:',
+    'plan.interactiveElements': 'פעילויות אינטראקטיביות:',
+    'plan.photoOpportunities': 'פינות צילום:',
+    'plan.partyFavors': 'מתנות לאורחים:',
+    'plan.techIntegration': 'שילוב טכנולוגיה:',
+    'plan.colorPalette': 'פלטת צבעים:',
+    'plan.keyPieces': 'פריטים מרכזיים:',
+    'plan.section.description': 'תיאור',
+    'plan.section.date': 'תאריך',
+    'plan.section.venue': 'מקום',
+    'plan.section.amenities': 'מתקנים',
+    'plan.section.schedule': 'לוח זמנים',
+    'plan.section.catering': 'קייטרינג',
+    'plan.section.menu': 'תפריט',
+    'plan.section.appetizers': 'מנות ראשונות',
+    'plan.section.mainCourses': 'מנות עיקריות',
+    'plan.section.desserts': 'קינוחים',
+    'plan.section.beverages': 'משקאות',
+    'plan.section.guestEngagement': 'הפעלת אורחים',
+    'plan.section.icebreakers': 'שוברי קרח',
+    'plan.section.interactiveElements': 'פעילויות אינטראקטיביות',
+    'plan.section.photoOpportunities': 'פינות צילום',
+    'plan.section.partyFavors': 'מתנות לאורחים',
+    'plan.section.techIntegration': 'שילוב טכנולוגיה',
+    'plan.section.decorations': 'קישוטים',
+    'plan.section.colorPalette': 'פלטת צבעים',
+    'plan.section.keyPieces': 'פריטים מרכזיים',
+    'plan.decorationSource.diy': 'עשה זאת בעצמך',
+    'plan.decorationSource.buy': 'לקנות',
+    'planCard.view': 'לצפייה ועריכה',
+    'planCard.viewAria': 'צפייה בפרטי התוכנית {name}',
+    'planCard.venue': 'פרטי המקום',
+    'planCard.schedule': 'לוח פעילויות',
+    'planCard.noSchedule': 'לא סופק לוח זמנים.',
+    'planCard.catering': 'פרטי הקייטרינג',
+    'planCard.chosen': 'התוכנית שנבחרה',
+
+    // --- Plan detail page ---
+    'planDetail.loading': 'טוענים את פרטי התוכנית...',
+    'planDetail.notLoaded': 'לא ניתן היה לטעון את נתוני התוכנית.',
+    'planDetail.missingIds': 'בכתובת חסרים מזהה אירוע או מזהה תוכנית.',
+    'planDetail.planNotFound': 'התוכנית עם המזהה {id} לא נמצאה. חזרו ובחרו תוכנית קיימת.',
+    'planDetail.loadError': 'אירעה שגיאה בטעינת נתוני התוכנית.',
+    'planDetail.editUnsupported': 'עדיין אין אפשרות לערוך את החלק "{section}".',
+    'planDetail.saveError': 'שמירת השינויים נכשלה. נסו שוב או רעננו את הדף.',
+    'planDetail.regenerateSaveError': 'שמירת החלק שנוצר מחדש נכשלה. נסו שוב או רעננו את הדף.',
+    'planDetail.ledgerSaveError': 'שמירת יומן התקציב נכשלה. נסו שוב או רעננו את הדף.',
+    'planDetail.optimizerMissingData': 'לא ניתן לפתוח את מייעל התקציב: חסרים נתוני התוכנית או הטופס.',
+    'planDetail.optimizeSaveError': 'שמירת השינויים המוצעים נכשלה. נסו שוב.',
+    'planDetail.undoError': 'ביטול השינוי האחרון נכשל. נסו שוב.',
+    'planDetail.redoError': 'החזרת השינוי נכשלה. נסו שוב.',
+    'planDetail.restoreError': 'שחזור הגרסה שנבחרה נכשל. נסו שוב.',
+    'planDetail.invitationMissingData': 'לא ניתן ליצור הזמנה: חסרים נתוני התוכנית.',
+    'planDetail.pdfError': 'יצירת קובץ ה־PDF נכשלה. נסו שוב.',
+    'planDetail.undo': 'ביטול',
+    'planDetail.undoAria': 'ביטול השינוי האחרון',
+    'planDetail.redo': 'חזרה',
+    'planDetail.redoAria': 'החזרת השינוי',
+    'planDetail.history': 'היסטוריה',
+    'planDetail.historyAria': 'הצגת היסטוריית הגרסאות',
+    'planDetail.guests': 'אורחים',
+    'planDetail.guestsAria': 'פתיחת רשימת האורחים',
+    'planDetail.runOfShow': 'סדר היום',
+    'planDetail.runOfShowAria': 'פתיחת סדר היום של האירוע',
+    'planDetail.shopping': 'רשימת קניות',
+    'planDetail.shoppingAria': 'פתיחת רשימת הקניות',
+    'planDetail.invitations': 'הזמנות',
+    'planDetail.invitationsAria': 'פתיחת ההזמנות השמורות',
+    'planDetail.pdf': 'הורדת PDF',
+    'planDetail.pdfCreating': 'יוצרים PDF...',
+    'planDetail.pdfAria': 'הורדת התוכנית כקובץ PDF',
+    'planDetail.optimize': 'ייעול התקציב',
+    'planDetail.createInvitation': 'יצירת הזמנה',
+    'planDetail.back': '→ חזרה לתוצאות',
+    'planDetail.backAria': 'חזרה לתוצאות',
+    'planDetail.profile': 'פרופיל: {profile}',
+    'planDetail.editName': 'עריכת השם',
+    'planDetail.optimizationSummary': 'סיכום הייעול',
+    'planDetail.costSummary': 'סיכום עלויות',
+    'planDetail.regenerate': 'יצירה מחדש',
+    'planDetail.noDescription': 'אין תיאור.',
+    'planDetail.invalidDateFormat': 'פורמט תאריך לא תקין',
+    'planDetail.invalidDate': 'תאריך לא תקין',
+    'planDetail.noVenue': 'לא צוינו פרטי מקום.',
+    'planDetail.noSchedule': 'עדיין לא נוספו פריטים ללוח הזמנים.',
+    'planDetail.noMenu': 'לא צוינו פרטי תפריט.',
+    'planDetail.noCatering': 'לא צוינו פרטי קייטרינג.',
+    'planDetail.noEngagement': 'לא צוינו פרטי הפעלת אורחים.',
+    'planDetail.noDecorations': 'עדיין אין קישוטים. אפשר ליצור מחדש את החלק הזה כדי לקבל רעיונות לקישוט שמתאימים לתוכנית.',
+    'planDetail.budgetLedger': 'יומן תקציב',
+
+    // --- Cost summary ---
+    'cost.within': 'בתוך התקציב',
+    'cost.atRisk': 'עלול לחרוג מהתקציב',
+    'cost.over': 'חריגה מהתקציב',
+    'cost.unknownStatus': 'אי אפשר להשוות לתקציב',
+    'cost.estTotal': 'סה״כ משוער:',
+    'cost.estimatedTotal': 'סה״כ משוער:',
+    'cost.unknown': 'לא ידוע',
+    'cost.budgetShort': 'תקציב {amount}',
+    'cost.budget': 'תקציב: {amount}',
+    'cost.toSpare': '(נשארים לפחות {amount})',
+    'cost.overBy': '(חריגה של לפחות {amount})',
+    'cost.noEstimateFor': 'אין הערכת עלות שמישה עבור: {sections}.',
+    'cost.mixedCurrencies': 'חלק מהעלויות במטבע שונה מהתקציב, ולכן הסכום הכולל משוער.',
+    'cost.perPerson': 'עלויות לאדם מחושבות עבור {count} אורחים.',
+    'cost.perPersonSuffix': 'לאדם',
+
+    // --- Calendar export ---
+    'calendar.includeSchedule': 'לכלול את פריטי לוח הזמנים',
+    'calendar.reminder': 'תזכורת',
+    'calendar.reminder.none': 'בלי תזכורת',
+    'calendar.reminder.hour': 'שעה לפני',
+    'calendar.reminder.day': 'יום לפני',
+    'calendar.reminder.week': 'שבוע לפני',
+    'calendar.add': 'הוספה ליומן (‎.ics)',
+    'calendar.error': 'יצירת קובץ היומן נכשלה.',
+
+    // --- Schedule timeline ---
+    'timeline.title': 'ציר זמן',
+    'timeline.empty': 'הוסיפו שעות התחלה וסיום ללוח הזמנים כדי לראות אותו על ציר זמן.',
+    'timeline.item': 'פריט {number}',
+    'timeline.overlap': '{a} חופף ל־{b}.',
+    'timeline.gap': 'פער של {duration} בין {a} לבין {b}.',
+    'timeline.unscheduled': 'ל־{activity} אין שעה קריאה והוא לא מוצג.',
+    'timeline.length.tooLong': '{duration} ארוך יותר מ־{range} שמתאים בדרך כלל ל{group}.',
+    'timeline.length.tooShort': '{duration} קצר יותר מ־{range} שמתאים בדרך כלל ל{group}.',
+    'timeline.length.ok': '{duration} בטווח של {range} שמתאים בדרך כלל ל{group}.',
+    'timeline.group.toddlers': 'פעוטות (עד 3)',
+    'timeline.group.youngChildren': 'ילדים צעירים (4-6)',
+    'timeline.group.children': 'ילדים (7-12)',
+    'timeline.group.teens': 'בני נוער (13-17)',
+    'timeline.group.adults': 'מבוגרים',
+
+    // --- Catering quantities and dietary check ---
+    'quantities.title': 'כמויות',
+    'quantities.hours': 'שעות',
+    'quantities.empty': 'הוסיפו מנות לתפריט כדי להעריך כמויות.',
+    'quantities.item': 'פריט',
+    'quantities.servings': 'מנות',
+    'quantities.buy': 'לקנות',
+    'quantities.unit.pieces': 'יח׳',
+    'quantities.unit.kg': 'ק״ג',
+    'quantities.unit.servings': 'מנות',
+    'quantities.unit.liters': 'ליטר',
+    'quantities.note': 'הערכות אצבע: ילד אוכל כ־60% ממנה של מבוגר, ולכמות הקנייה מתווספים 10%.',
+    'dietary.title': 'בדיקה תזונתית',
+    'dietary.requirements': 'דרישות:',
+    'dietary.noAllergen': 'בלי {allergen}',
+    'dietary.conflicts.one': 'פריט אחד בתפריט לא עומד בדרישות התזונה:',
+    'dietary.conflicts.other': '{count} פריטים בתפריט לא עומדים בדרישות התזונה:',
+    'dietary.contains': 'מכיל {allergen}',
+    'dietary.notDiet': 'לא {diet}',
+    'dietary.allFit': 'כל פריטי התפריט עומדים בדרישות התזונה.',
+    'dietary.none': 'לא הוגדרו הגבלות תזונה לאירוע הזה.',
+    'dietary.noAllergens': 'ללא אלרגנים נפוצים',
+    'dietary.note': 'כשאין תגית, אלרגנים מזוהים לפי שם המנה; תמיד כדאי לוודא עם הקייטרינג.',
+
+    // --- Budget ledger ---
+    'ledger.overBudget': 'חריגה מהתקציב:',
+    'ledger.overBudgetDetail': 'ההוצאה הצפויה גבוהה ב־{over} מהתקציב שלכם ({budget}).',
+    'ledger.empty': 'עדיין אין שורות.',
+    'ledger.import': 'להתחיל מהערכות העלות של התוכנית',
+    'ledger.item': 'פריט',
+    'ledger.category': 'קטגוריה',
+    'ledger.vendor': 'ספק',
+    'ledger.estimated': 'משוער',
+    'ledger.actual': 'בפועל',
+    'ledger.paid': 'שולם',
+    'ledger.descriptionPlaceholder': 'למשל: השכרת אולם',
+    'ledger.descriptionAria': 'תיאור הפריט',
+    'ledger.estimatedAria': 'סכום משוער',
+    'ledger.actualAria': 'סכום בפועל',
+    'ledger.removeAria': 'הסרת הפריט',
+    'ledger.add': '+ הוספת שורה',
+    'ledger.total': 'סה״כ ({currency})',
+    'ledger.exceedsBy': 'ההוצאה הצפויה חורגת מהתקציב ב־{amount}.',
+    'ledger.remaining': 'יתרת תקציב: {remaining} מתוך {budget}',
+    'ledger.note': 'ההוצאה הצפויה מחושבת לפי הסכום בפועל כשהוזן, ואחרת לפי ההערכה.',
+    'ledger.category.venue': 'מקום',
+    'ledger.category.food': 'אוכל ושתייה',
+    'ledger.category.activities': 'פעילויות',
+    'ledger.category.decorations': 'קישוטים',
+    'ledger.category.partyFavors': 'מתנות לאורחים',
+    'ledger.seed.venue': 'מקום',
+    'ledger.seed.catering': 'קייטרינג',
+    'ledger.seed.cateringStyle': 'קייטרינג ({style})',
+
+    // --- Budget optimizer and change review ---
+    'optimizerModal.title': 'מייעל התקציב',
+    'optimizer.intro': 'קבעו סדרי עדיפויות כדי להתאים את התוכנית לתקציב של:',
+    'optimizer.instructions': 'דרגו את החשיבות של כל קטגוריה (1 = הכי פחות חשוב, 5 = הכי חשוב). הבינה המלאכותית תציע התאמות לפי סדרי העדיפויות והתקציב.',
+    'optimizer.priority.venue': 'מקום',
+    'optimizer.priority.food': 'אוכל',
+    'optimizer.priority.activities': 'פעילויות',
+    'optimizer.priority.decorations': 'קישוטים',
+    'optimizer.priority.partyFavors': 'מתנות לאורחים',
+    'optimizer.optimizing': 'מייעלים...',
+    'optimizer.unexpectedResponse': 'התקבלה תשובה לא צפויה ממייעל התקציב.',
+    'optimizer.error': 'ייעול התקציב נכשל: {message}',
+    'review.title': 'סקירת השינויים המוצעים',
+    'review.noChanges': 'לא הוצעו שינויים בתוכנית.',
+    'review.acceptedCount': '{accepted} מתוך {total} שינויים התקבלו',
+    'review.acceptAll': 'לקבל הכול',
+    'review.rejectAll': 'לדחות הכול',
+    'review.other': 'אחר',
+    'review.discard': 'ביטול',
+    'review.applyAll': 'החלת כל השינויים',
+    'review.applySelected': 'החלת השינויים שנבחרו',
+    'diff.item': 'פריט {number}',
+    'field.name': 'שם',
+    'field.description': 'תיאור',
+    'field.profile': 'פרופיל',
+    'field.date': 'תאריך',
+    'field.venue': 'מקום',
+    'field.amenities': 'מתקנים',
+    'field.suitability': 'התאמה',
+    'field.cost': 'עלות',
+    'field.costRange': 'טווח עלות',
+    'field.min': 'מינימום',
+    'field.max': 'מקסימום',
+    'field.currency': 'מטבע',
+    'field.basis': 'בסיס חישוב',
+    'field.schedule': 'לוח זמנים',
+    'field.time': 'שעה',
+    'field.start': 'התחלה',
+    'field.end': 'סיום',
+    'field.activity': 'פעילות',
+    'field.durationMinutes': 'משך בדקות',
+    'field.catering': 'קייטרינג',
+    'field.estimatedCost': 'עלות משוערת',
+    'field.servingStyle': 'סגנון הגשה',
+    'field.menu': 'תפריט',
+    'field.appetizers': 'מנות ראשונות',
+    'field.mainCourses': 'מנות עיקריות',
+    'field.desserts': 'קינוחים',
+    'field.beverages': 'משקאות',
+    'field.menuTags': 'תגיות תפריט',
+    'field.allergens': 'אלרגנים',
+    'field.diets': 'תזונה',
+    'field.item': 'פריט',
+    'field.guestEngagement': 'הפעלת אורחים',
+    'field.icebreakers': 'שוברי קרח',
+    'field.interactiveElements': 'פעילויות אינטראקטיביות',
+    'field.photoOpportunities': 'פינות צילום',
+    'field.partyFavors': 'מתנות לאורחים',
+    'field.techIntegration': 'שילוב טכנולוגיה',
+    'field.venueSearchSuggestions': 'הצעות לחיפוש',
+    'field.cateringSearchSuggestions': 'הצעות לחיפוש',
+    'field.entertainmentSearchSuggestions': 'הצעות לחיפוש',
+    'field.decorations': 'קישוטים',
+    'field.colorPalette': 'פלטת צבעים',
+    'field.keyPieces': 'פריטים מרכזיים',
+    'field.source': 'להכין או לקנות',
+    'field.notes': 'הערות',
+    'field.decorationSearchSuggestions': 'הצעות לחיפוש',
+    'field.optimizationSummary': 'סיכום הייעול',
+
+    // --- Version history ---
+    'history.title': 'היסטוריית גרסאות',
+    'history.saved': 'נשמר',
+    'history.source': 'מקור',
+    'history.from': 'מ־',
+    'history.to': 'אל',
+    'history.current': 'נוכחית',
+    'history.compareFrom': 'השוואה מגרסה {number}',
+    'history.compareTo': 'השוואה לגרסה {number}',
+    'history.restore': 'שחזור',
+    'history.changes': 'שינויים',
+    'history.selectTwo': 'בחרו שתי גרסאות שונות להשוואה.',
+    'history.identical': 'הגרסאות זהות.',
+    'history.source.generation': 'נוצרה',
+    'history.source.manual-edit': 'עריכה ידנית',
+    'history.source.budget-optimization': 'ייעול תקציב',
+    'history.source.regeneration': 'יצירה מחדש',
+    'history.source.restore': 'שוחזרה',
+
+    // --- Section regeneration ---
+    'regenerate.title': 'יצירה מחדש: {section}',
+    'regenerate.intro': 'קבלו הצעה חדשה לחלק "{section}". שאר התוכנית נשאר כפי שהוא ומשמש כהקשר.',
+    'regenerate.guidance': 'הנחיות (לא חובה)',
+    'regenerate.loading': 'יוצרים מחדש...',
+    'regenerate.error': 'היצירה מחדש של החלק נכשלה. נסו שוב.',
+    'regenerate.example.venue': 'למשל: מקום בחוץ עם צל',
+    'regenerate.example.schedule': 'למשל: לסיים לפני 19:00',
+    'regenerate.example.catering': 'למשל: יותר אפשרויות צמחוניות',
+    'regenerate.example.guestEngagement': 'למשל: פעילויות שקטות יותר לילדים צעירים',
+    'regenerate.example.decorations': 'למשל: צבעי פסטל, בעיקר הכנה עצמית',
+
+    // --- Mix & match (custom plans) ---
+    'composite.title': 'בניית תוכנית מותאמת אישית',
+    'composite.intro': 'בחרו כל חלק מאחת התוכניות. התוכנית החדשה נשמרת לצד האחרות כתוכנית "מותאמת אישית".',
+    'composite.name': 'שם התוכנית',
+    'composite.defaultName': 'התוכנית המשולבת שלי',
+    'composite.description': 'שילוב של חלקים מהתוכניות שנוצרו ({sources}).',
+    'composite.takeFrom': '{section} מתוך',
+    'composite.notIncluded': 'בתוכנית הזו אין חלק "{section}", ולכן גם בתוכנית המותאמת לא יהיה.',
+    'composite.scheduleItems': '{count} פריטים: {items}',
+    'composite.harmonizeHint': 'התאמה מבקשת מהמתכנן לתקן פרטים שמתאימים רק לתוכניות המקוריות, למשל לו"ז שמזכיר מקום אחר. תוכלו לעבור על כל שינוי לפני השמירה.',
+    'composite.saveAsIs': 'שמירה כמו שהיא',
+    'composite.harmonize': 'התאמה ובדיקה',
+    'composite.harmonizing': 'מתאימים...',
+    'composite.harmonizeError': 'התאמת התוכנית נכשלה. נסו שוב.',
+    'composite.summaryTitle': 'מה המתכנן התאים',
+    'composite.noChanges': 'המתכנן לא מצא מה להתאים. חזרו כדי לשמור את התוכנית כמו שהיא.',
+
+    // --- Section editing ---
+    'edit.title': 'עריכה: {section}',
+    'edit.titleFallback': 'עריכת חלק',
+    'edit.unsupported': 'עדיין אין עריכה לחלק "{section}".',
+    'edit.loading': 'טוענים נתונים...',
+    'edit.save': 'שמירת השינויים',
+    'edit.planName': 'שם התוכנית',
+    'edit.venueName': 'שם המקום',
+    'edit.estimatedCost': 'עלות משוערת',
+    'edit.min': 'מינימום',
+    'edit.max': 'מקסימום',
+    'edit.basis': 'בסיס חישוב',
+    'edit.basis.flat': 'סכום כולל',
+    'edit.basis.perPerson': 'לאדם',
+    'edit.originalEstimate': 'ההערכה המקורית: {estimate}',
+    'edit.start': 'התחלה',
+    'edit.end': 'סיום',
+    'edit.currentTime': 'השעה הנוכחית: "{time}". קבעו שעת התחלה כדי למקם את הפריט על ציר הזמן.',
+    'edit.activity.placeholder': 'למשל: חיתוך העוגה',
+    'edit.details': 'פרטים (לא חובה)',
+    'edit.details.placeholder': 'למשל: עם מוזיקה',
+    'edit.deleteScheduleItem': 'מחיקת פריט מלוח הזמנים',
+    'edit.addScheduleItem': 'הוספת פריט ללוח הזמנים',
+    'edit.servingStyle.placeholder': 'למשל: מזנון, מנות אישיות',
+    'edit.desserts.placeholder': 'למשל: עוגה בנושא המסיבה, מגש פירות',
+    'edit.menuItem.appetizers': 'מנה ראשונה',
+    'edit.menuItem.mainCourses': 'מנה עיקרית',
+    'edit.menuItem.beverages': 'משקה',
+    'edit.enterItem': 'הזינו {item}',
+    'edit.deleteItem': 'מחיקת {item}',
+    'edit.addItem': 'הוספת {item}',
+    'edit.colorItem': 'צבע',
+    'edit.searchItem': 'מונח חיפוש',
+    'edit.pieceItem.placeholder': 'למשל: קשת בלונים',
+    'edit.pieceNotes.placeholder': 'איך להכין, או מה לקנות',
+    'edit.deletePiece': 'מחיקת פריט קישוט',
+    'edit.addPiece': 'הוספת פריט קישוט',
+
+    // --- Invitations ---
+    'invitationModal.title': 'יצירת הזמנה חכמה',
+    'invitation.template': 'בחרו סגנון עיצוב',
+    'invitation.template.classic': 'קלאסי',
+    'invitation.template.playful': 'שובב',
+    'invitation.template.themed': 'לפי הנושא',
+    'invitation.template.minimalist': 'מינימליסטי',
+    'invitation.date': 'תאריך האירוע',
+    'invitation.time': 'שעת האירוע',
+    'invitation.dateTimeRequired': 'בחרו תאריך ושעה תקינים לאירוע.',
+    'invitation.generating': 'יוצרים...',
+    'invitation.generate': 'יצירת הזמנה',
+    'invitation.unexpectedResponse': 'התקבלה תשובה לא צפויה ממחולל ההזמנות.',
+    'invitation.generateError': 'יצירת ההזמנה נכשלה: {message}',
+    'invitation.saveError': 'לא ניתן היה לשמור את ההזמנה באירוע. הורידו אותה כדי לשמור עותק.',
+    'invitation.imageAlt': 'הזמנה שנוצרה עבור {name}',
+    'invitation.noImage': 'יצירת התמונה נכשלה או שהתמונה לא זמינה',
+    'invitation.noText': 'לא ניתן היה ליצור את טקסט ההזמנה.',
+    'invitation.saved': '✓ נשמרה בהזמנות של האירוע.',
+    'invitation.savedLinkOnly': '✓ נשמרה בהזמנות של האירוע (התמונה תהיה זמינה רק כל עוד הקישור שלה עובד).',
+    'invitation.viewAll': 'לכל ההזמנות',
+    'invitation.printSize': 'גודל הדפסה',
+    'invitation.creatingPdf': 'יוצרים PDF...',
+    'invitation.downloadPdf': 'הורדת PDF להדפסה',
+    'invitation.pdfError': 'יצירת קובץ ה־PDF נכשלה: {message}',
+    'invitation.createNew': '→ יצירת הזמנה חדשה',
+    'invitation.downloadText': 'הורדת הטקסט',
+    'invitation.downloadImage': 'הורדת התמונה',
+    'invitation.editText': 'עריכת הטקסט',
+    'invitation.textLabel': 'טקסט ההזמנה',
+    'invitation.saveText': 'שמירת הטקסט',
+    'invitation.textSaveError': 'לא ניתן היה לשמור את הטקסט הערוך בהזמנות של האירוע.',
+    'invitation.rewriteLabel': 'ניסוח מחדש של הטקסט',
+    'invitation.rewrite.shorter': 'קצר יותר',
+    'invitation.rewrite.funnier': 'מצחיק יותר',
+    'invitation.rewrite.formal': 'רשמי יותר',
+    'invitation.rewrite.addRsvp': 'הוספת שורת אישור הגעה',
+    'invitation.rewrite.addDirections': 'הוספת הוראות הגעה',
+    'invitation.rewriting': 'מנסחים מחדש...',
+    'invitation.rewriteHint': 'רק הטקסט משתנה; התמונה נשארת כמו שהיא. בדקו את הטקסט החדש לפני השמירה.',
+    'invitation.rewriteError': 'הניסוח מחדש של ההזמנה נכשל: {message}',
+    'invitation.rsvpLine': 'לאישור הגעה: {url}',
+    'invitation.rsvpPublished': 'האורחים יכולים לאשר הגעה בעמוד:',
+    'invitation.rsvpPublishError': 'לא ניתן היה לעדכן את עמוד אישור ההגעה. פרסמו אותו מעמוד ההזמנות של האירוע.',
+
+    // --- Invitation gallery ---
+    'invitations.loading': 'טוען הזמנות...',
+    'invitations.loadError': 'אירעה שגיאה בטעינת ההזמנות.',
+    'invitations.savedCount': '{count} שמורות',
+    'invitations.when': '{date} בשעה {time}',
+    'invitations.imageAlt': 'הזמנה בסגנון {template} עבור {name}',
+    'invitations.noImage': 'התמונה אינה זמינה',
+    'invitations.shownOnRsvp': 'מוצגת בעמוד אישור ההגעה',
+    'invitations.rsvpPage': 'עמוד אישור הגעה',
+    'invitations.backToAll': '→ כל ההזמנות',
+    'invitations.publishing': 'מפרסם...',
+    'invitations.useForRsvp': 'שימוש לעמוד אישור ההגעה',
+    'invitations.publishError': 'פרסום עמוד אישור ההגעה נכשל: {message}',
+    'invitations.personalize': 'התאמה אישית לאורחים',
+    'invitations.downloadText': 'הורדת טקסט',
+    'invitations.downloadImage': 'הורדת תמונה',
+    'invitations.download': 'הורדה',
+    'invitations.open': 'פתיחה',
+    'invitations.openAria': 'פתיחת ההזמנה עבור {name}',
+    'invitations.confirmDelete': 'למחוק את ההזמנה? אי אפשר לבטל את הפעולה.',
+    'invitations.deleteError': 'מחיקת ההזמנה נכשלה. נסו שוב.',
+    'invitations.empty.title': 'עדיין אין הזמנות',
+    'invitations.empty.body': 'פתחו תוכנית ובחרו "יצירת הזמנה". כל הזמנה שתיצרו נשמרת כאן.',
+
+    // --- Invitation batches ---
+    'batch.title': 'התאמה אישית של ההזמנות',
+    'batch.loading': 'טוענים את ההזמנה...',
+    'batch.missingIds': 'בכתובת חסר מזהה אירוע או מזהה הזמנה.',
+    'batch.invitationNotFound': 'ההזמנה עם המזהה {id} לא נמצאה. ייתכן שהיא נמחקה.',
+    'batch.loadError': 'אירעה שגיאה בטעינת ההזמנה.',
+    'batch.messageCount.one': 'הודעה אחת',
+    'batch.messageCount.other': '{count} הודעות',
+    'batch.allInvitations': 'כל ההזמנות',
+    'batch.guestList': 'רשימת האורחים',
+    'batch.empty.title': 'אין אורחים להזמין',
+    'batch.empty.body': 'הוסיפו קודם אורחים לרשימת האורחים של האירוע. אורחים שסירבו לא נכללים.',
+    'batch.grouping': 'הודעה אחת לכל',
+    'batch.grouping.household': 'משק בית',
+    'batch.grouping.guest': 'אורח',
+    'batch.greeting': 'פתיחה',
+    'batch.greetingDefault': 'שלום {name},',
+    'batch.greetingHint': '{placeholder} מוחלף בשם. הפתיחה לא נוספת אם טקסט ההזמנה כבר כולל {placeholder}.',
+    'batch.toneForAll': 'טון לכולם',
+    'batch.toneFor': 'הטון עבור {name}',
+    'batch.choose': 'בחרו...',
+    'batch.tone.original': 'כפי שנכתב',
+    'batch.tone.funnier': 'מצחיק יותר',
+    'batch.tone.formal': 'רשמי יותר',
+    'batch.tone.shorter': 'קצר יותר',
+    'batch.pendingTones': 'נסחו מחדש את ההזמנה עבור: {tones}.',
+    'batch.planDeleted': 'התוכנית של ההזמנה הזו נמחקה, כך שאפשר לשלוח אותה רק כפי שנכתבה.',
+    'batch.ready': 'כל ההודעות מוכנות.',
+    'batch.applyTones': 'החלת הטונים',
+    'batch.downloadCsv': 'הורדת CSV',
+    'batch.downloadZip': 'הורדת קובץ Zip',
+    'batch.creatingZip': 'יוצרים קובץ Zip...',
+    'batch.zipError': 'יצירת קובץ ה־Zip נכשלה. נסו שוב.',
+    'batch.noContact': 'אין פרטי קשר',
+    'batch.waiting': 'ממתינים לניסוח "{tone}".',
+    'batch.copy': 'העתקה',
+    'batch.copied': 'הועתק',
+    'batch.copyError': 'לא ניתן היה להעתיק את ההודעה. סמנו את הטקסט והעתיקו אותו ידנית.',
+    'batch.send': 'שליחה',
+    'batch.subject': 'הוזמנתם: {name}',
+    'batch.csv.recipient': 'נמען',
+    'batch.csv.guests': 'אורחים',
+    'batch.csv.contact': 'פרטי קשר',
+    'batch.csv.tone': 'טון',
+    'batch.csv.message': 'הודעה',
+    'batch.csv.link': 'קישור',
+
+    // --- Shopping list ---
+    'shopping.title': 'רשימת קניות',
+    'shopping.loading': 'טוען את רשימת הקניות...',
+    'shopping.loadError': 'אירעה שגיאה בטעינת רשימת הקניות.',
+    'shopping.saveError': 'שמירת רשימת הקניות נכשלה. נסו שוב או רעננו את הדף.',
+    'shopping.boughtCount': '{bought} מתוך {total} נקנו',
+    'shopping.exportTitle': 'רשימת קניות: {name}',
+    'shopping.exportText': 'ייצוא טקסט',
+    'shopping.exportCsv': 'ייצוא CSV',
+    'shopping.backToPlan': 'חזרה לתוכנית',
+    'shopping.item': 'פריט',
+    'shopping.item.placeholder': 'לדוגמה: בלונים',
+    'shopping.quantity': 'כמות',
+    'shopping.unit': 'יחידה',
+    'shopping.unit.placeholder': 'לדוגמה: חבילות',
+    'shopping.section': 'מחלקה',
+    'shopping.add': '+ הוספת פריט',
+    'shopping.empty': 'עדיין אין מה לקנות. הוסיפו לתוכנית תפריט או מתנות לאורחים, או הוסיפו פריטים משלכם למעלה.',
+    'shopping.removeAria': 'הסרת {name}',
+    'shopping.note': 'הכמויות נגזרות מהתפריט ומרשימת האורחים, ומתעדכנות כשאחד מהם משתנה.',
+    'shopping.category.groceries': 'מכולת',
+    'shopping.category.bakery': 'מאפייה',
+    'shopping.category.beverages': 'משקאות',
+    'shopping.category.partySupplies': 'ציוד למסיבה',
+    'shopping.category.toysAndGifts': 'צעצועים ומתנות',
+    'shopping.category.other': 'אחר',
+    'shopping.unit.set': 'סט',
+    'shopping.unit.candles': 'נרות',
+    'shopping.item.plates': 'צלחות',
+    'shopping.item.cups': 'כוסות',
+    'shopping.item.napkins': 'מפיות',
+    'shopping.item.cutlery': 'סטים של סכו״ם',
+    'shopping.item.candles': 'נרות יום הולדת',
+    'shopping.csv.category': 'מחלקה',
+    'shopping.csv.item': 'פריט',
+    'shopping.csv.quantity': 'כמות',
+    'shopping.csv.unit': 'יחידה',
+    'shopping.csv.bought': 'נקנה',
+    'shopping.csv.yes': 'כן',
+    'shopping.csv.no': 'לא',
+
+    // --- Run of show (day-of view) ---
+    'runOfShow.title': 'לוח הזמנים ביום האירוע',
+    'runOfShow.loading': 'טוען את לוח הזמנים...',
+    'runOfShow.saveError': 'שמירת ההתקדמות נכשלה. השינויים יאבדו אם תצאו מהדף.',
+    'runOfShow.confirmReset': 'לנקות את כל הסימונים והעיכובים בתוכנית הזו?',
+    'runOfShow.backToPlan': 'חזרה לתוכנית',
+    'runOfShow.empty': 'ללוח הזמנים של התוכנית עדיין אין שעות. הוסיפו שעות התחלה כדי להשתמש בו ביום האירוע.',
+    'runOfShow.now': 'עכשיו',
+    'runOfShow.endsIn': 'מסתיים בעוד {time}',
+    'runOfShow.runningOver': 'חריגה של {time}',
+    'runOfShow.markDone': 'סימון כבוצע',
+    'runOfShow.markDoneAria': 'סימון {activity} כבוצע',
+    'runOfShow.allDone': 'הכול בוצע. תיהנו מהמשך המסיבה!',
+    'runOfShow.nothingRunning': 'שום דבר לא מתקיים כרגע.',
+    'runOfShow.next': 'הבא · {time}',
+    'runOfShow.startsIn': 'מתחיל בעוד {time}',
+    'runOfShow.readyToStart': 'מוכן להתחלה',
+    'runOfShow.runningLate': 'מאחרים?',
+    'runOfShow.pushAria': 'דקות לדחייה',
+    'runOfShow.minutes': '{minutes} דק׳',
+    'runOfShow.push': 'דחיית ההמשך',
+    'runOfShow.schedule': 'לוח זמנים',
+    'runOfShow.pushed': 'נדחה ב־{shift} דק׳',
+    'runOfShow.unscheduled.one': 'פריט אחד בלוח הזמנים בלי שעה קריאה אינו מוצג.',
+    'runOfShow.unscheduled.other': '{count} פריטים בלוח הזמנים בלי שעה קריאה אינם מוצגים.',
+    'runOfShow.reset': 'איפוס סימונים ועיכובים',
+
+    // --- Plan PDF ---
+    'pdf.estimatedCost': 'עלות משוערת',
+    'pdf.whyItFits': 'למה זה מתאים',
+    'pdf.servingStyle': 'סגנון הגשה',
+    'pdf.page': 'עמוד {page} מתוך {count}',
+
+    // --- Guest list ---
+    'guests.title': 'רשימת אורחים',
+    'guests.loading': 'טוען את רשימת האורחים...',
+    'guests.missingId': 'לא צוין מזהה אירוע בכתובת.',
+    'guests.loadError': 'אירעה שגיאה בטעינת רשימת האורחים.',
+    'guests.saveError': 'שמירת רשימת האורחים נכשלה. נסו שוב או רעננו את הדף.',
+    'guests.status.invited': 'ממתינים לתשובה',
+    'guests.status.yes': 'מגיעים',
+    'guests.status.maybe': 'אולי',
+    'guests.status.no': 'לא מגיעים',
+    'guests.split': '{adults} מבוגרים · {children} ילדים',
+    'guests.confirmed': 'אישרו הגעה: {count}',
+    'guests.ofPlanned': 'מתוך {total} אורחים מתוכננים ({adults} מבוגרים, {children} ילדים).',
+    'guests.headcountConfirmed': 'הקייטרינג והעלויות לאדם מחושבים עכשיו לפי {total} אורחים ({adults} מבוגרים, {children} ילדים), כי אישרו הגעה יותר ממה שתוכנן.',
+    'guests.headcountPlanned': 'הקייטרינג והעלויות לאדם מחושבים לפי המספרים המתוכננים, עד שיאשרו הגעה יותר אורחים ממה שתוכנן.',
+    'guestList.name': 'שם',
+    'guestList.name.placeholder': 'לדוגמה: דנה כהן',
+    'guestList.nameAria': 'שם האורח',
+    'guestList.type': 'סוג',
+    'guestList.typeAria': 'סוג האורח',
+    'guestList.type.adult': 'מבוגר',
+    'guestList.type.child': 'ילד',
+    'guestList.household': 'משפחה',
+    'guestList.household.placeholder': 'לדוגמה: משפחת כהן',
+    'guestList.noHousehold': 'ללא משפחה',
+    'guestList.contact': 'פרטי קשר',
+    'guestList.contact.placeholder': 'טלפון או אימייל',
+    'guestList.rsvp': 'אישור הגעה',
+    'guestList.rsvpAria': 'סטטוס אישור הגעה',
+    'guestList.plusOnes': 'מלווים',
+    'guestList.notes': 'הערות',
+    'guestList.add': '+ הוספת אורח',
+    'guestList.empty': 'עדיין אין אורחים. הוסיפו את האורח הראשון למעלה.',
+    'guestList.removeAria': 'הסרת {name}',
+    'guestList.removeGuestAria': 'הסרת אורח',
+
+    // --- RSVP page panel (guest list) ---
+    'rsvpPanel.none': 'עדיין אין עמוד אישור הגעה. צרו הזמנה, או פתחו הזמנה שמורה ובחרו "שימוש לעמוד אישור ההגעה", כדי שהאורחים יוכלו לאשר הגעה אונליין.',
+    'rsvpPanel.invitations': 'הזמנות',
+    'rsvpPanel.qrAlt': 'קוד QR לעמוד אישור ההגעה',
+    'rsvpPanel.title': 'עמוד אישור הגעה',
+    'rsvpPanel.hint': 'האורחים עונים בקישור הזה (הוא מופיע גם בטקסט ההזמנה ובכרטיס המודפס). תשובות מעדכנות אורחים עם אותו שם או מוסיפות אורחים חדשים.',
+    'rsvpPanel.copy': 'העתקת הקישור',
+    'rsvpPanel.copied': 'הועתק',
+    'rsvpPanel.check': 'בדיקת תשובות',
+    'rsvpPanel.checking': 'בודקים...',
+    'rsvpPanel.latest': 'התשובה האחרונה שנוספה: {date}',
+    'rsvpPanel.noNew': 'אין תשובות חדשות.',
+    'rsvpPanel.added.one': 'תשובה חדשה אחת נוספה לרשימת האורחים.',
+    'rsvpPanel.added.other': '{count} תשובות חדשות נוספו לרשימת האורחים.',
+    'rsvpPanel.syncError': 'טעינת התשובות נכשלה: {message}',
+    'rsvpNote.adults.one': 'מבוגר אחד',
+    'rsvpNote.adults.other': '{count} מבוגרים',
+    'rsvpNote.children.one': 'ילד אחד',
+    'rsvpNote.children.other': '{count} ילדים',
+    'rsvpNote.noHeadcount': 'לא צוין מספר משתתפים',
+    'rsvpNote.maybe': 'אולי, {headcount}',
+    'rsvpNote.declined': 'לא יכולים להגיע',
+    'rsvpNote.dietary': 'תזונה: {notes}',
+
+    // --- Public RSVP page ---
+    'rsvp.loading': 'טוענים את ההזמנה...',
+    'rsvp.notFound': 'קישור ההזמנה הזה לא עובד. ייתכן שהוא הוסר; בקשו מהמארחים קישור חדש.',
+    'rsvp.imageAlt': 'הזמנה ל{name}',
+    'rsvp.title': 'תגיעו?',
+    'rsvp.name': 'השם שלכם',
+    'rsvp.attendance': 'התשובה שלכם',
+    'rsvp.attendance.yes': 'כן, נגיע',
+    'rsvp.attendance.maybe': 'אולי',
+    'rsvp.attendance.no': 'מצטערים, לא נוכל להגיע',
+    'rsvp.adults': 'מבוגרים שמגיעים (כולל אתכם)',
+    'rsvp.children': 'ילדים שמגיעים',
+    'rsvp.dietaryNotes': 'העדפות תזונה או אלרגיות',
+    'rsvp.dietaryPlaceholder': 'לדוגמה: צמחוני אחד, אלרגיה לאגוזים',
+    'rsvp.send': 'שליחת תשובה',
+    'rsvp.sending': 'שולחים...',
+    'rsvp.submitError': 'לא ניתן היה לשלוח את התשובה. נסו שוב.',
+    'rsvp.thanks': 'תודה! נתראה במסיבה.',
+    'rsvp.thanksDeclined': 'תודה שעדכנתם. נתגעגע!',
+    'rsvp.thanksHint': 'התשובה נשלחה למארחים. כדי לשנות אותה, שלחו תשובה חדשה עם אותו שם.',
+    'rsvp.changeReply': 'שינוי התשובה',
+};
+
+export default he;
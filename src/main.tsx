@@ -7,3 +7,17 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
 <App />
 </React.StrictMode>,
 );
+
+// Register the service worker in production builds, so loaded pages (like the run of show) keep working offline
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+window.addEventListener('load', () => {
+navigator.serviceWorker.register('/sw.js')
+.then(() => navigator.serviceWorker.ready)
+.then(registration => {
+// Hand over the scripts and styles this first load already fetched, so they get cached as well
+const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+})
+.catch(err => console.warn('Service worker registration failed:', err));
+});
+}
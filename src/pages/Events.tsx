@@ -0,0 +1,148 @@
+// src/pages/Events.tsx
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { PartyEvent } from '../types';
+// Import the event store functions for listing and deleting events
+import { listEvents, deleteEvent } from '../utils/eventStore';
+import { summarizeGuests } from '../utils/guests';
+import { deleteInvitationImages } from '../utils/invitations';
+import { useTranslation } from '../i18n/I18nContext';
+
+/**
+ * Events Page Component
+ * Dashboard listing every birthday event stored locally.
+ * Lets the user open an event's plans, delete an event, or start planning a new one.
+ */
+export default function Events() {
+    const [events, setEvents] = useState<PartyEvent[]>([]); // All stored events, newest first
+    const [error, setError] = useState<string | null>(null); // State for displaying errors
+    const navigate = useNavigate(); // Hook for navigation
+    const { t, locale } = useTranslation();
+
+    // Load the events once when the dashboard mounts
+    useEffect(() => {
+        try {
+            setEvents(listEvents());
+        } catch (err) {
+            console.error('Events: Failed to load events:', err);
+            setError(t('events.loadError'));
+        }
+    }, [t]);
+
+    /**
+     * Deletes an event after user confirmation and refreshes the list.
+     * @param event - The event to delete.
+     */
+    const handleDelete = (event: PartyEvent) => {
+        const name = event.userInput?.birthdayPersonName;
+        if (!window.confirm(name ? t('events.confirmDelete', { name }) : t('events.confirmDeleteUnnamed'))) return;
+        try {
+            deleteEvent(event.id);
+            setEvents(listEvents());
+            // Invitation images live outside the event (in IndexedDB), so they're removed separately
+            void deleteInvitationImages(event);
+        } catch (err) {
+            console.error('Events: Failed to delete event:', err);
+            setError(t('events.deleteError'));
+        }
+    };
+
+    /** Formats an ISO timestamp for display, falling back to the raw value if invalid. */
+    const formatTimestamp = (iso: string) => {
+        const date = new Date(iso);
+        return isNaN(date.getTime()) ? iso : date.toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' });
+    };
+
+    // --- Render Component UI ---
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50 py-12 px-4 sm:px-6 lg:px-8">
+            <div className="max-w-5xl mx-auto">
+                {/* Page Header */}
+                <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-10">
+                    <div>
+                        <h1 className="text-4xl font-bold text-gray-800 tracking-tight">{t('events.title')}</h1>
+                        <p className="mt-2 text-gray-600">{t('events.subtitle')}</p>
+                    </div>
+                    <button
+                        onClick={() => navigate('/')}
+                        className="px-5 py-2 bg-green-500 text-white font-semibold rounded-md shadow-sm hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-opacity-50 transition duration-150 ease-in-out"
+                    >
+                        {t('events.new')}
+                    </button>
+                </header>
+
+                {/* Error Display Area */}
+                {error && (
+                    <div className="mb-6 p-4 bg-red-100 text-red-700 border border-red-300 rounded-md shadow text-center text-sm">
+                        {error}
+                    </div>
+                )}
+
+                {events.length === 0 ? (
+                    // Display message if no events exist yet
+                    <div className="text-center bg-white p-8 rounded-lg shadow-md max-w-md mx-auto border border-gray-200">
+                        <h2 className="text-xl font-semibold text-gray-700 mb-4">{t('events.empty.title')}</h2>
+                        <p className="text-gray-600">{t('events.empty.body')}</p>
+                    </div>
+                ) : (
+                    // Display a card for each event
+                    <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                        {events.map(event => (
+                            <div key={event.id} className="bg-white border border-gray-200 rounded-lg shadow-sm p-5 flex flex-col">
+                                <h2 className="text-xl font-bold text-gray-800">
+                                    {t('events.birthdayOf', { name: event.userInput?.birthdayPersonName || t('events.unnamed') })}
+                                </h2>
+                                {event.userInput?.age ? <p className="text-sm text-gray-500">{t('events.turning', { age: event.userInput.age })}</p> : null}
+                                {event.userInput?.theme && <p className="text-sm text-indigo-700 mt-1">{t('events.theme', { theme: event.userInput.theme })}</p>}
+                                <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600 flex-grow">
+                                    <dt className="font-medium text-gray-700">{t('events.plans')}</dt>
+                                    <dd>{event.plans.length}</dd>
+                                    <dt className="font-medium text-gray-700">{t('events.chosenPlan')}</dt>
+                                    <dd className="truncate">{event.plans.find(plan => plan.id === event.chosenPlanId)?.name ?? <span className="text-gray-400">{t('events.notChosen')}</span>}</dd>
+                                    <dt className="font-medium text-gray-700">{t('events.guests')}</dt>
+                                    <dd>{t('events.planned', { count: (event.userInput?.guestCountAdults ?? 0) + (event.userInput?.guestCountChildren ?? 0) })}</dd>
+                                    <dt className="font-medium text-gray-700">{t('events.confirmed')}</dt>
+                                    <dd>
+                                        {event.guests && event.guests.length > 0
+                                            ? t('events.confirmedOf', { confirmed: summarizeGuests(event.guests).yes.total, planned: (event.userInput?.guestCountAdults ?? 0) + (event.userInput?.guestCountChildren ?? 0) })
+                                            : <span className="text-gray-400">{t('events.noGuestList')}</span>}
+                                    </dd>
+                                    <dt className="font-medium text-gray-700">{t('events.location')}</dt>
+                                    <dd>{event.userInput?.location?.city || '-'}</dd>
+                                    <dt className="font-medium text-gray-700">{t('events.updated')}</dt>
+                                    <dd>{formatTimestamp(event.updatedAt)}</dd>
+                                </dl>
+                                <div className="flex flex-wrap justify-end gap-2 mt-4 pt-4 border-t border-gray-100">
+                                    <button
+                                        onClick={() => handleDelete(event)}
+                                        className="px-3 py-1.5 text-sm font-medium text-red-600 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400"
+                                    >
+                                        {t('events.delete')}
+                                    </button>
+                                    <button
+                                        onClick={() => navigate(`/events/${event.id}/guests`)}
+                                        className="px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                                    >
+                                        {t('events.guests')}
+                                    </button>
+                                    <button
+                                        onClick={() => navigate(`/events/${event.id}/invitations`)}
+                                        className="px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                                    >
+                                        {t('events.invitations')}{event.invitations?.length ? ` (${event.invitations.length})` : ''}
+                                    </button>
+                                    <button
+                                        onClick={() => navigate(`/events/${event.id}/results`)}
+                                        className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                                    >
+                                        {t('events.viewPlans')}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
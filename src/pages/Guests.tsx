@@ -0,0 +1,131 @@
+// src/pages/Guests.tsx
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import GuestList from '../components/GuestList';
+import RsvpLinkPanel from '../components/RsvpLinkPanel';
+import type { Guest, PartyEvent } from '../types';
+// Import the event store and guest helpers used to load, save and total the guest list
+import { getEvent } from '../utils/eventStore';
+import { RSVP_STATUSES, RSVP_STATUS_LABELS, getEventHeadcount, saveGuests, summarizeGuests } from '../utils/guests';
+import { useTranslation } from '../i18n/I18nContext';
+
+/**
+ * Guests Page Component
+ * Manages the guest list of one event: guests, households and RSVPs,
+ * with the confirmed headcount compared against the planned guest counts.
+ * Replies from the event's public RSVP page can be pulled into the list.
+ */
+export default function Guests() {
+    const { eventId } = useParams<{ eventId: string }>(); // Get eventId from URL parameters
+    const navigate = useNavigate(); // Hook for navigation
+    const { t } = useTranslation();
+
+    const [event, setEvent] = useState<PartyEvent | null>(null);
+    const [guests, setGuests] = useState<Guest[]>([]);
+    const [loadError, setLoadError] = useState<string | null>(null); // Error during initial load
+    const [saveError, setSaveError] = useState<string | null>(null); // Error during saving the guest list
+
+    // Load the event's guest list when the page mounts or the event changes
+    useEffect(() => {
+        setLoadError(null); setSaveError(null);
+        if (!eventId) {
+            setLoadError(t('guests.missingId'));
+            return;
+        }
+        try {
+            const storedEvent = getEvent(eventId);
+            if (!storedEvent) throw new Error(t('common.eventNotFound', { id: eventId }));
+            setEvent(storedEvent);
+            setGuests(storedEvent.guests ?? []);
+        } catch (err) {
+            console.error("Guests: Error loading event:", err);
+            setLoadError(err instanceof Error ? err.message : t('guests.loadError'));
+        }
+    }, [eventId, t]);
+
+    // Totals per RSVP status and the headcount used for catering and per-person costs
+    const summary = useMemo(() => summarizeGuests(guests), [guests]);
+    const headcount = useMemo(() => (event ? getEventHeadcount({ ...event, guests }) : null), [event, guests]);
+
+    /** Saves the guest list to the event store after every change. */
+    const handleGuestsChange = (updatedGuests: Guest[]) => {
+        setGuests(updatedGuests); // Update component state immediately for responsiveness
+        setSaveError(null);
+        try {
+            if (!eventId) throw new Error("No event ID available for saving.");
+            saveGuests(eventId, updatedGuests);
+        } catch (err) {
+            console.error("Guests: Error saving guest list to the event store:", err);
+            setSaveError(t('guests.saveError'));
+        }
+    };
+
+    /** Shows the guest list after RSVP replies were added to it. */
+    const handleRsvpSynced = (updatedEvent: PartyEvent) => {
+        setEvent(updatedEvent);
+        setGuests(updatedEvent.guests ?? []);
+    };
+
+    if (loadError) {
+        return <div className="p-6 text-center text-red-600">{t('common.errorPrefix')} {loadError}</div>;
+    }
+    if (!event || !headcount) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-600">{t('guests.loading')}</div>;
+    }
+
+    const plannedAdults = event.userInput?.guestCountAdults || 0;
+    const plannedChildren = event.userInput?.guestCountChildren || 0;
+
+    // --- Render Component UI ---
+    return (
+        <div className="container mx-auto p-4 md:p-8 max-w-5xl">
+            {/* Page Header */}
+            <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-800">{t('guests.title')}</h1>
+                    <p className="mt-1 text-gray-600">{t('events.birthdayOf', { name: event.userInput?.birthdayPersonName || t('events.unnamed') })}</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={() => navigate('/events')} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">
+                        {t('events.title')}
+                    </button>
+                    <button onClick={() => navigate(`/events/${event.id}/results`)} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2">
+                        {t('events.viewPlans')}
+                    </button>
+                </div>
+            </header>
+
+            {/* Headcount Summary */}
+            <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                    {RSVP_STATUSES.map(status => (
+                        <div key={status}>
+                            <p className="text-2xl font-bold text-gray-800">{summary[status].total}</p>
+                            <p className="text-xs uppercase text-gray-500">{t(RSVP_STATUS_LABELS[status])}</p>
+                            <p className="text-xs text-gray-400">{t('guests.split', { adults: summary[status].adults, children: summary[status].children })}</p>
+                        </div>
+                    ))}
+                </div>
+                <p className="mt-4 pt-3 border-t border-gray-100 text-sm text-gray-600">
+                    <span className="font-medium text-gray-800">{t('guests.confirmed', { count: summary.yes.total })}</span>{' '}
+                    {t('guests.ofPlanned', { total: plannedAdults + plannedChildren, adults: plannedAdults, children: plannedChildren })}
+                    {' '}
+                    {headcount.source === 'confirmed'
+                        ? t('guests.headcountConfirmed', { total: headcount.total, adults: headcount.adults, children: headcount.children })
+                        : t('guests.headcountPlanned')}
+                </p>
+            </section>
+
+            {/* RSVP Page */}
+            <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
+                <RsvpLinkPanel event={event} onSynced={handleRsvpSynced} />
+            </section>
+
+            {/* Guest List */}
+            <section className="p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
+                {saveError && <p className="text-red-500 text-sm mb-3">{saveError}</p>}
+                <GuestList guests={guests} onChange={handleGuestsChange} />
+            </section>
+        </div>
+    );
+}
@@ -1,14 +1,15 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, Link } from 'react-router-dom';
 import UserInputForm from '../components/UserInputForm'; // Ensure path is correct
 // Import necessary types
 import type { UserInput, BirthdayPlan } from '../types';
 // Import the API function for generating plans
 import { generateBirthdayPlans } from '../utils/api';
-
-// Define the possible plan profiles for generation
-type PlanProfile = 'DIY/Budget' | 'Premium/Convenience' | 'Unique/Adventure';
-const PROFILES: PlanProfile[] = ['DIY/Budget', 'Premium/Convenience', 'Unique/Adventure'];
+// Import the event store so each generation run becomes its own event
+import { createEvent } from '../utils/eventStore';
+// Configured plan profiles: the defaults and the order plans are shown in
+import { compareProfiles, getDefaultProfileNames } from '../utils/planProfiles';
+import { useTranslation } from '../i18n/I18nContext';
 
 // Define the expected structure of the API response from generateBirthdayPlans
 // (Used for type assertion later)
@@ -20,16 +21,17 @@ type GeneratePlansApiResponse = {
 /**
  * Home Page Component
  * Displays the main user input form to gather preferences for birthday plan generation.
- * Handles form submission, parallel API calls for different profiles, and navigation to results.
+ * Handles form submission, parallel API calls for the chosen profiles, and navigation to results.
  */
 export default function Home() {
     const [isLoading, setIsLoading] = useState(false); // State for loading indicator
     const [error, setError] = useState<string | null>(null); // State for displaying errors
     const navigate = useNavigate(); // Hook for programmatic navigation
+    const { t } = useTranslation();
 
     /**
      * Handles the submission of the user input form.
-     * Initiates parallel API calls for each defined plan profile.
+     * Initiates parallel API calls for each plan profile chosen in the form (the default profiles if none were).
      * Processes the results, stores successful plans, and navigates to the results page.
      * @param data - The validated user input data from the form.
      */
@@ -39,16 +41,17 @@ export default function Home() {
         console.log("Home: Submitting user input (Full Object):", JSON.stringify(data, null, 2));
 
         try {
-            console.log("Home: Initiating parallel API calls for 3 profiles...");
+            const profiles = (data.profiles && data.profiles.length > 0 ? [...data.profiles] : getDefaultProfileNames()).sort(compareProfiles);
+            console.log(`Home: Initiating parallel API calls for ${profiles.length} profiles...`);
 
             // Define the structure expected within the PromiseSettledResult's 'value' or 'reason'
             // This is based on the wrappers added in .then() and .catch() below
             type PromiseResultWrapper =
-                | { status: 'fulfilled'; value: GeneratePlansApiResponse; profile: PlanProfile }
-                | { status: 'rejected'; reason: any; profile: PlanProfile };
+                | { status: 'fulfilled'; value: GeneratePlansApiResponse; profile: string }
+                | { status: 'rejected'; reason: any; profile: string };
 
             // Create an array of promises for generating plans for each profile.
-            const promises = PROFILES.map(profile =>
+            const promises = profiles.map(profile =>
                 generateBirthdayPlans(data, profile)
                     // Wrap the successful API response
                     .then(response => ({ status: 'fulfilled' as const, value: response, profile }))
@@ -72,7 +75,7 @@ export default function Home() {
                 if (settledResult.status === 'fulfilled') {
                     // Explicitly assert the type of settledResult.value based on the wrapper structure
                     // This resolves the TS2339 error by telling TS the exact shape inside the 'fulfilled' case.
-                    const resultWrapper = settledResult.value as { status: 'fulfilled'; value: GeneratePlansApiResponse; profile: PlanProfile };
+                    const resultWrapper = settledResult.value as { status: 'fulfilled'; value: GeneratePlansApiResponse; profile: string };
                     const apiResponse = resultWrapper.value; // Access the inner value (the actual API response)
                     const profile = resultWrapper.profile; // Access the profile
 
@@ -88,7 +91,7 @@ export default function Home() {
                 } else {
                     // Handle promises that were rejected
                     // Assert the type of settledResult.reason based on the wrapper structure
-                    const reasonWrapper = settledResult.reason as { status: 'rejected'; reason: any; profile: PlanProfile };
+                    const reasonWrapper = settledResult.reason as { status: 'rejected'; reason: any; profile: string };
                     const profile = reasonWrapper.profile; // Get profile from our wrapped error object
                     const reason = reasonWrapper.reason; // Get the actual error/reason
                     console.error(`Home: API call failed for profile ${profile}:`, reason);
@@ -107,28 +110,20 @@ export default function Home() {
                 console.warn(`Home: Some plan profiles failed to generate. Errors: ${errors.join('; ')}`);
             }
 
-            // Sort the successfully generated plans based on the predefined profile order
-            finalPlans.sort((a, b) => {
-                const profileOrder: Record<PlanProfile, number> = { 'DIY/Budget': 1, 'Premium/Convenience': 2, 'Unique/Adventure': 3 };
-                // Use 'as PlanProfile' for type safety and provide a default order
-                return (profileOrder[a.profile as PlanProfile] || 4) - (profileOrder[b.profile as PlanProfile] || 4);
-            });
+            // Sort the successfully generated plans based on the configured profile order
+            finalPlans.sort((a, b) => compareProfiles(a.profile, b.profile));
 
-            // Store the final plans and original user input in localStorage
-            localStorage.setItem('generatedPlans', JSON.stringify(finalPlans));
-            localStorage.setItem('userInput', JSON.stringify(data));
-            console.log(`Home: ${finalPlans.length} plan(s) generated and saved to localStorage.`);
+            // Store the final plans and original user input as a new event
+            const event = createEvent({ ...data, profiles }, finalPlans);
+            console.log(`Home: ${finalPlans.length} plan(s) generated and saved as event ${event.id}.`);
 
-            // Navigate to the results page
-            navigate('/results');
+            // Navigate to the results page for the new event
+            navigate(`/events/${event.id}/results`);
 
         } catch (err) {
             // Catch any overall errors during the process
             console.error('Home: Overall error generating plans:', err);
-            setError(`Failed to generate plans. ${err instanceof Error ? err.message : 'Please try again.'}`);
-            // Clear potentially incomplete localStorage data on error
-            localStorage.removeItem('generatedPlans');
-            localStorage.removeItem('userInput');
+            setError(`${t('home.error')} ${err instanceof Error ? err.message : t('common.tryAgain')}`);
         } finally {
             // Ensure loading state is turned off
             setIsLoading(false);
@@ -143,11 +138,15 @@ export default function Home() {
                 {/* Page Header */}
                 <header className="text-center mb-12">
                     <h1 className="text-4xl font-bold text-gray-800 tracking-tight sm:text-5xl">
-                        AI Birthday Planner
+                        {t('home.title')}
                     </h1>
                     <p className="mt-3 text-xl text-gray-600">
-                        Let's create the perfect celebration!
+                        {t('home.subtitle')}
                     </p>
+                    {/* Link to the dashboard of previously planned events */}
+                    <Link to="/events" className="mt-4 inline-block text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                        {t('home.viewEvents')}
+                    </Link>
                 </header>
 
                 {/* User Input Form Component */}
@@ -0,0 +1,295 @@
+// src/pages/InvitationBatch.tsx
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import type { BirthdayPlan, PartyEvent, SavedInvitation } from '../types';
+import { getEvent } from '../utils/eventStore';
+// Import the helpers that load the invitation image and rewrite its text
+import { getImageExtension, loadInvitationImage } from '../utils/invitations';
+import { rewriteInvitationText } from '../utils/api';
+import { addRsvpLink, getRsvpUrl } from '../utils/rsvp';
+// Import the helpers that build and export the personalized messages
+import {
+    INVITATION_TONE_LABELS,
+    NAME_PLACEHOLDER,
+    buildRecipients,
+    createInvitationBatchZip,
+    formatInvitationBatchCsv,
+    getMessagingLink,
+    personalizeText,
+} from '../utils/invitationBatch';
+import type { InvitationTone, PersonalizedInvitation, RecipientGrouping } from '../utils/invitationBatch';
+import { downloadBlob, downloadTextFile, toFileName } from '../utils/download';
+import { useTranslation } from '../i18n/I18nContext';
+
+const TONES = Object.keys(INVITATION_TONE_LABELS) as InvitationTone[];
+
+/**
+ * Invitation Batch Page Component
+ * Personalizes one saved invitation for everyone on the guest list: one message per guest or per household,
+ * with their name filled in and an optional tone per recipient (e.g., funnier for the kids' friends, more formal
+ * for the grandparents). Each tone is rewritten by the AI once and shared by every recipient who uses it.
+ * The messages can be sent one by one or exported as a CSV or a zip of text files.
+ */
+export default function InvitationBatch() {
+    const { eventId, invitationId } = useParams<{ eventId: string; invitationId: string }>();
+    const navigate = useNavigate();
+    const { t, language } = useTranslation();
+
+    const [event, setEvent] = useState<PartyEvent | null>(null);
+    const [invitation, setInvitation] = useState<SavedInvitation | null>(null);
+    const [plan, setPlan] = useState<BirthdayPlan | null>(null); // The invitation's plan, needed for rewrites (null if it was deleted)
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const [grouping, setGrouping] = useState<RecipientGrouping>('household');
+    const [greeting, setGreeting] = useState(() => t('batch.greetingDefault'));
+    // Tone per recipient ID (missing entries use the text as written)
+    const [tones, setTones] = useState<Record<string, InvitationTone>>({});
+    // The invitation text in each tone that has been rewritten so far
+    const [tonedTexts, setTonedTexts] = useState<Partial<Record<InvitationTone, string>>>({});
+    const [isRewriting, setIsRewriting] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    // Load the event, the invitation and its plan (again when the language changes, since rewrites are in that language)
+    useEffect(() => {
+        setLoadError(null); setActionError(null);
+        if (!eventId || !invitationId) {
+            setLoadError(t('batch.missingIds'));
+            return;
+        }
+        try {
+            const storedEvent = getEvent(eventId);
+            if (!storedEvent) throw new Error(t('common.eventNotFound', { id: eventId }));
+            const storedInvitation = storedEvent.invitations?.find(item => item.id === invitationId);
+            if (!storedInvitation) throw new Error(t('batch.invitationNotFound', { id: invitationId }));
+            setEvent(storedEvent);
+            setInvitation(storedInvitation);
+            setPlan(storedEvent.plans.find(item => item.id === storedInvitation.planId) ?? null);
+            setTonedTexts({ original: storedInvitation.text });
+            setTones({});
+            setGreeting(t('batch.greetingDefault'));
+        } catch (err) {
+            console.error("InvitationBatch: Error loading invitation:", err);
+            setLoadError(err instanceof Error ? err.message : t('batch.loadError'));
+        }
+    }, [eventId, invitationId, t]);
+
+    const recipients = useMemo(() => buildRecipients(event?.guests ?? [], grouping), [event, grouping]);
+
+    // The message for each recipient; null while its tone hasn't been rewritten yet
+    const messages = useMemo(() => recipients.map(recipient => {
+        const tone = tones[recipient.id] ?? 'original';
+        const text = tonedTexts[tone];
+        return { recipient, tone, text: text === undefined ? null : personalizeText(text, recipient.name, greeting) };
+    }), [recipients, tones, tonedTexts, greeting]);
+
+    const pendingTones = useMemo(() => [...new Set(messages.filter(message => message.text === null).map(message => message.tone))], [messages]);
+    const readyMessages = messages.filter((message): message is PersonalizedInvitation => message.text !== null);
+    const subject = invitation ? t('batch.subject', { name: invitation.planName }) : '';
+
+    const setTone = (recipientId: string, tone: InvitationTone) => setTones(current => ({ ...current, [recipientId]: tone }));
+    const setAllTones = (tone: InvitationTone) => setTones(Object.fromEntries(recipients.map(recipient => [recipient.id, tone])));
+
+    /** Rewrites the invitation once for every tone that's in use but not rewritten yet. */
+    const handleRewriteTones = async () => {
+        if (!invitation || !plan) return;
+        setIsRewriting(true);
+        setActionError(null);
+        // Rewrites keep the RSVP link when the invitation has one, even if the AI dropped it
+        const rsvpUrl = event?.rsvp ? getRsvpUrl(event.rsvp.token) : null;
+        const keepsRsvpLink = !!rsvpUrl && invitation.text.includes(rsvpUrl);
+        try {
+            for (const tone of pendingTones) {
+                if (tone === 'original') continue;
+                const result = await rewriteInvitationText(plan, invitation.text, tone, invitation.date, invitation.time);
+                const text = keepsRsvpLink ? addRsvpLink(result.text, rsvpUrl, t('invitation.rsvpLine', { url: rsvpUrl })) : result.text;
+                setTonedTexts(current => ({ ...current, [tone]: text }));
+            }
+        } catch (err) {
+            console.error("InvitationBatch: Error rewriting the invitation:", err);
+            setActionError(t('invitation.rewriteError', { message: err instanceof Error ? err.message : t('common.unknownError') }));
+        } finally {
+            setIsRewriting(false);
+        }
+    };
+
+    const handleCopy = async (message: PersonalizedInvitation) => {
+        try {
+            await navigator.clipboard.writeText(message.text);
+            setCopiedId(message.recipient.id);
+        } catch (err) {
+            console.error("InvitationBatch: Error copying the message:", err);
+            setActionError(t('batch.copyError'));
+        }
+    };
+
+    const handleDownloadCsv = () => {
+        if (!invitation) return;
+        downloadTextFile(`${toFileName(invitation.planName)}-invitations.csv`, formatInvitationBatchCsv(readyMessages, subject, language), 'text/csv;charset=utf-8');
+    };
+
+    /** Downloads every message as its own text file, together with the CSV and the invitation image. */
+    const handleDownloadZip = async () => {
+        if (!invitation) return;
+        setIsExporting(true);
+        setActionError(null);
+        try {
+            const imageBlob = await loadInvitationImage(invitation);
+            const image = imageBlob ? { fileName: `invitation.${getImageExtension(imageBlob.type)}`, blob: imageBlob } : null;
+            downloadBlob(`${toFileName(invitation.planName)}-invitations.zip`, await createInvitationBatchZip(readyMessages, subject, language, image));
+        } catch (err) {
+            console.error("InvitationBatch: Error creating the zip file:", err);
+            setActionError(t('batch.zipError'));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    if (loadError) {
+        return <div className="p-6 text-center text-red-600">{t('common.errorPrefix')} {loadError}</div>;
+    }
+    if (!event || !invitation) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-600">{t('batch.loading')}</div>;
+    }
+
+    const needsRewrite = pendingTones.length > 0;
+    const canExport = readyMessages.length > 0 && !needsRewrite;
+
+    // --- Render Component UI ---
+    return (
+        <div className="container mx-auto p-4 md:p-8 max-w-5xl">
+            {/* Page Header */}
+            <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-800">{t('batch.title')}</h1>
+                    <p className="mt-1 text-gray-600">{invitation.planName} · {t(recipients.length === 1 ? 'batch.messageCount.one' : 'batch.messageCount.other', { count: recipients.length })}</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={() => navigate(`/events/${event.id}/invitations`)} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">
+                        {t('batch.allInvitations')}
+                    </button>
+                    <button onClick={() => navigate(`/events/${event.id}/guests`)} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2">
+                        {t('batch.guestList')}
+                    </button>
+                </div>
+            </header>
+
+            {recipients.length === 0 ? (
+                <div className="text-center bg-white p-8 rounded-lg shadow-md max-w-md mx-auto border border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-4">{t('batch.empty.title')}</h2>
+                    <p className="text-gray-600">{t('batch.empty.body')}</p>
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {/* Batch Settings */}
+                    <section className="bg-white border border-gray-200 rounded-lg shadow-sm p-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+                        <div>
+                            <span className="block text-sm font-medium text-gray-700 mb-1">{t('batch.grouping')}</span>
+                            <div className="flex gap-4 text-sm text-gray-700">
+                                {(['household', 'guest'] as const).map(option => (
+                                    <label key={option} className="flex items-center gap-1.5">
+                                        <input type="radio" name="grouping" checked={grouping === option} onChange={() => setGrouping(option)} />
+                                        {t(`batch.grouping.${option}`)}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="greeting" className="block text-sm font-medium text-gray-700 mb-1">{t('batch.greeting')}</label>
+                            <input
+                                id="greeting"
+                                value={greeting}
+                                onChange={(e) => setGreeting(e.target.value)}
+                                dir="auto"
+                                className="block w-full p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <p className="mt-1 text-xs text-gray-500">{t('batch.greetingHint', { placeholder: NAME_PLACEHOLDER })}</p>
+                        </div>
+                        <div>
+                            <label htmlFor="allTones" className="block text-sm font-medium text-gray-700 mb-1">{t('batch.toneForAll')}</label>
+                            <select
+                                id="allTones"
+                                value=""
+                                onChange={(e) => e.target.value && setAllTones(e.target.value as InvitationTone)}
+                                className="block w-full p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                                <option value="">{t('batch.choose')}</option>
+                                {TONES.map(tone => <option key={tone} value={tone}>{t(INVITATION_TONE_LABELS[tone])}</option>)}
+                            </select>
+                        </div>
+                    </section>
+
+                    {/* Rewrite and Export Actions */}
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <p className="text-sm text-gray-600">
+                            {needsRewrite
+                                ? (plan ? t('batch.pendingTones', { tones: pendingTones.map(tone => t(INVITATION_TONE_LABELS[tone])).join(', ') }) : t('batch.planDeleted'))
+                                : t('batch.ready')}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            {needsRewrite && plan && (
+                                <button onClick={handleRewriteTones} disabled={isRewriting} className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500">
+                                    {isRewriting ? t('invitation.rewriting') : t('batch.applyTones')}
+                                </button>
+                            )}
+                            <button onClick={handleDownloadCsv} disabled={!canExport} className="px-4 py-2 bg-white text-green-700 text-sm font-medium rounded-md shadow-sm border border-green-200 hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500">
+                                {t('batch.downloadCsv')}
+                            </button>
+                            <button onClick={handleDownloadZip} disabled={!canExport || isExporting} className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500">
+                                {isExporting ? t('batch.creatingZip') : t('batch.downloadZip')}
+                            </button>
+                        </div>
+                    </div>
+
+                    {actionError && <p className="text-red-500 text-sm">{actionError}</p>}
+
+                    {/* One Card per Message */}
+                    <ul className="space-y-4">
+                        {messages.map(({ recipient, tone, text }) => {
+                            const link = text === null ? '' : getMessagingLink(recipient.contact, text, subject);
+                            return (
+                                <li key={recipient.id} className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+                                    <div className="flex flex-wrap items-start justify-between gap-3 mb-3">
+                                        <div>
+                                            <h2 className="font-semibold text-gray-800">{recipient.name}</h2>
+                                            <p className="text-xs text-gray-500">
+                                                {recipient.guests.length > 1 || recipient.guests[0].name !== recipient.name ? `${recipient.guests.map(guest => guest.name).join(', ')} · ` : ''}
+                                                {recipient.contact || t('batch.noContact')}
+                                            </p>
+                                        </div>
+                                        <select
+                                            value={tone}
+                                            onChange={(e) => setTone(recipient.id, e.target.value as InvitationTone)}
+                                            aria-label={t('batch.toneFor', { name: recipient.name })}
+                                            className="p-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                        >
+                                            {TONES.map(option => <option key={option} value={option}>{t(INVITATION_TONE_LABELS[option])}</option>)}
+                                        </select>
+                                    </div>
+                                    {text === null ? (
+                                        <p className="text-sm italic text-gray-500">{t('batch.waiting', { tone: t(INVITATION_TONE_LABELS[tone]) })}</p>
+                                    ) : (
+                                        <>
+                                            <p className="text-sm text-gray-800 whitespace-pre-line" dir="auto">{text}</p>
+                                            <div className="flex justify-end gap-2 mt-3 pt-3 border-t border-gray-100">
+                                                <button onClick={() => handleCopy({ recipient, tone, text })} className="px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-400">
+                                                    {copiedId === recipient.id ? t('batch.copied') : t('batch.copy')}
+                                                </button>
+                                                {link && (
+                                                    <a href={link} target="_blank" rel="noopener noreferrer" className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2">
+                                                        {t('batch.send')}
+                                                    </a>
+                                                )}
+                                            </div>
+                                        </>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
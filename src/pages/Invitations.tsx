@@ -0,0 +1,260 @@
+// src/pages/Invitations.tsx
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import type { PartyEvent, SavedInvitation } from '../types';
+import { getEvent } from '../utils/eventStore';
+// Import the helpers that list, load and delete saved invitations
+import { deleteInvitation, getImageExtension, getInvitations, loadInvitationImage, updateInvitationText } from '../utils/invitations';
+// Import the helpers that publish an invitation as the event's RSVP page
+import { addRsvpLink, ensureRsvpSettings, getRsvpUrl, publishRsvpInvitation } from '../utils/rsvp';
+import { downloadBlob, downloadTextFile, toFileName } from '../utils/download';
+import { useTranslation } from '../i18n/I18nContext';
+import { hasMessage } from '../i18n/language';
+
+/**
+ * Invitations Page Component
+ * Gallery of every invitation generated for an event. Invitations can be reopened, downloaded and deleted;
+ * images come from the local copy, falling back to the original link when no copy could be made.
+ * An invitation can also be personalized for every guest or household on the guest list (see InvitationBatch)
+ * or published as the event's public RSVP page.
+ */
+export default function Invitations() {
+    const { eventId } = useParams<{ eventId: string }>();
+    const navigate = useNavigate();
+    const { t, locale } = useTranslation();
+
+    const [event, setEvent] = useState<PartyEvent | null>(null);
+    const [invitations, setInvitations] = useState<SavedInvitation[]>([]);
+    // Locally stored images, keyed by invitation ID
+    const [images, setImages] = useState<Record<string, Blob>>({});
+    const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+    // The invitation opened in the large view (null shows the gallery)
+    const [openId, setOpenId] = useState<string | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [isPublishing, setIsPublishing] = useState(false);
+
+    // Load the event and its invitations
+    useEffect(() => {
+        setLoadError(null); setActionError(null);
+        if (!eventId) {
+            setLoadError(t('guests.missingId'));
+            return;
+        }
+        try {
+            const storedEvent = getEvent(eventId);
+            if (!storedEvent) throw new Error(t('common.eventNotFound', { id: eventId }));
+            setEvent(storedEvent);
+            setInvitations(getInvitations(storedEvent));
+        } catch (err) {
+            console.error("Invitations: Error loading event:", err);
+            setLoadError(err instanceof Error ? err.message : t('invitations.loadError'));
+        }
+    }, [eventId, t]);
+
+    // Load the local image copies
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all(invitations.map(async invitation => [invitation.id, await loadInvitationImage(invitation)] as const))
+            .then(entries => {
+                if (cancelled) return;
+                const loaded: Record<string, Blob> = {};
+                entries.forEach(([id, image]) => { if (image) loaded[id] = image; });
+                setImages(loaded);
+            });
+        return () => { cancelled = true; };
+    }, [invitations]);
+
+    // Object URLs for displaying the images, released when the images change or the page closes
+    useEffect(() => {
+        const urls = Object.fromEntries(Object.entries(images).map(([id, image]) => [id, URL.createObjectURL(image)]));
+        setImageUrls(urls);
+        return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    }, [images]);
+
+    /** Formats an invitation's date and time for display (e.g., "Jun 14, 2026 at 16:00"). */
+    const formatWhen = (invitation: SavedInvitation) => {
+        const date = new Date(`${invitation.date}T00:00:00`);
+        const day = isNaN(date.getTime()) ? invitation.date : date.toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' });
+        return invitation.time ? t('invitations.when', { date: day, time: invitation.time }) : day;
+    };
+
+    /** The template's display name; templates without a translation are shown as they are. */
+    const templateLabel = (template: string) => {
+        const key = `invitation.template.${template}`;
+        return hasMessage(key) ? t(key) : template;
+    };
+
+    /** The image to show for an invitation: the local copy, or the original link if there's no copy. */
+    const getImageSrc = (invitation: SavedInvitation) => imageUrls[invitation.id] || invitation.imageUrl;
+
+    const handleDownloadImage = (invitation: SavedInvitation) => {
+        const image = images[invitation.id];
+        if (image) {
+            downloadBlob(`${toFileName(invitation.planName)}-invitation.${getImageExtension(image.type)}`, image);
+        } else if (invitation.imageUrl) {
+            window.open(invitation.imageUrl, '_blank', 'noopener');
+        }
+    };
+
+    const handleDownloadText = (invitation: SavedInvitation) => {
+        downloadTextFile(`${toFileName(invitation.planName)}-invitation.txt`, invitation.text, 'text/plain;charset=utf-8');
+    };
+
+    /**
+     * Shows an invitation on the event's RSVP page. The RSVP link is added to its text first if it's missing
+     * (e.g., invitations generated before RSVP pages existed).
+     */
+    const handlePublishRsvp = async (invitation: SavedInvitation) => {
+        if (!eventId) return;
+        setIsPublishing(true);
+        setActionError(null);
+        try {
+            const url = getRsvpUrl(ensureRsvpSettings(eventId).token);
+            const text = addRsvpLink(invitation.text, url, t('invitation.rsvpLine', { url }));
+            if (text !== invitation.text) updateInvitationText(eventId, invitation.id, text);
+            await publishRsvpInvitation(eventId, { ...invitation, text });
+            const updated = getEvent(eventId);
+            if (updated) {
+                setEvent(updated);
+                setInvitations(getInvitations(updated));
+            }
+        } catch (err) {
+            console.error("Invitations: Error publishing the RSVP page:", err);
+            setActionError(t('invitations.publishError', { message: err instanceof Error ? err.message : t('common.unknownError') }));
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
+    /** Deletes an invitation after user confirmation. */
+    const handleDelete = async (invitation: SavedInvitation) => {
+        if (!eventId || !window.confirm(t('invitations.confirmDelete'))) return;
+        setActionError(null);
+        try {
+            const updated = await deleteInvitation(eventId, invitation.id);
+            setInvitations(getInvitations(updated));
+            if (openId === invitation.id) setOpenId(null);
+        } catch (err) {
+            console.error("Invitations: Error deleting invitation:", err);
+            setActionError(t('invitations.deleteError'));
+        }
+    };
+
+    if (loadError) {
+        return <div className="p-6 text-center text-red-600">{t('common.errorPrefix')} {loadError}</div>;
+    }
+    if (!event) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-600">{t('invitations.loading')}</div>;
+    }
+
+    const openInvitation = invitations.find(invitation => invitation.id === openId) ?? null;
+    const imageFallbackClass = "w-full bg-gray-200 flex items-center justify-center text-sm text-gray-500";
+
+    // --- Render Component UI ---
+    return (
+        <div className="container mx-auto p-4 md:p-8 max-w-5xl">
+            {/* Page Header */}
+            <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-800">{t('events.invitations')}</h1>
+                    <p className="mt-1 text-gray-600">{t('events.birthdayOf', { name: event.userInput?.birthdayPersonName || t('events.unnamed') })} · {t('invitations.savedCount', { count: invitations.length })}</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={() => navigate('/events')} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">
+                        {t('events.title')}
+                    </button>
+                    <button onClick={() => navigate(`/events/${event.id}/results`)} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2">
+                        {t('events.viewPlans')}
+                    </button>
+                </div>
+            </header>
+
+            {actionError && <p className="text-red-500 text-sm mb-3">{actionError}</p>}
+
+            {openInvitation ? (
+                /* Large view of one invitation */
+                <div className="max-w-2xl mx-auto space-y-4">
+                    <div className="border rounded-lg overflow-hidden shadow-sm bg-white">
+                        {getImageSrc(openInvitation) ? (
+                            <img src={getImageSrc(openInvitation)} alt={t('invitations.imageAlt', { template: templateLabel(openInvitation.template), name: openInvitation.planName })} className="w-full h-auto object-contain max-h-[32rem] bg-gray-100" />
+                        ) : (
+                            <div className={`${imageFallbackClass} h-64`}>{t('invitations.noImage')}</div>
+                        )}
+                        <div className="p-4">
+                            <p className="text-xs text-gray-500 mb-2">
+                                {openInvitation.planName} · <span className="capitalize">{templateLabel(openInvitation.template)}</span> · {formatWhen(openInvitation)}
+                                {event.rsvp?.invitationId === openInvitation.id && <> · <a href={getRsvpUrl(event.rsvp.token)} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-800 underline">{t('invitations.shownOnRsvp')}</a></>}
+                            </p>
+                            <div className="prose prose-sm max-w-none text-gray-800">
+                                {openInvitation.text.split('\n').map((line, i) => (
+                                    line.trim() === '' ? <br key={i} /> : <p key={i}>{line}</p>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap justify-between gap-2">
+                        <button onClick={() => setOpenId(null)} className="px-4 py-2 bg-gray-300 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">
+                            {t('invitations.backToAll')}
+                        </button>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={() => handleDelete(openInvitation)} className="px-4 py-2 text-sm font-medium text-red-600 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400">
+                                {t('events.delete')}
+                            </button>
+                            {event.rsvp?.invitationId !== openInvitation.id && (
+                                <button onClick={() => handlePublishRsvp(openInvitation)} disabled={isPublishing} className="px-4 py-2 bg-white text-teal-700 text-sm font-medium rounded-md shadow-sm border border-teal-200 hover:bg-teal-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500">
+                                    {isPublishing ? t('invitations.publishing') : t('invitations.useForRsvp')}
+                                </button>
+                            )}
+                            <button onClick={() => navigate(`/events/${event.id}/invitations/${openInvitation.id}/personalize`)} className="px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-md shadow-sm border border-indigo-200 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                                {t('invitations.personalize')}
+                            </button>
+                            <button onClick={() => handleDownloadText(openInvitation)} className="px-4 py-2 bg-white text-green-700 text-sm font-medium rounded-md shadow-sm border border-green-200 hover:bg-green-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500">
+                                {t('invitations.downloadText')}
+                            </button>
+                            <button onClick={() => handleDownloadImage(openInvitation)} disabled={!getImageSrc(openInvitation)} className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500">
+                                {t('invitations.downloadImage')}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ) : invitations.length === 0 ? (
+                <div className="text-center bg-white p-8 rounded-lg shadow-md max-w-md mx-auto border border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-4">{t('invitations.empty.title')}</h2>
+                    <p className="text-gray-600">{t('invitations.empty.body')}</p>
+                </div>
+            ) : (
+                /* Gallery */
+                <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                    {invitations.map(invitation => (
+                        <div key={invitation.id} className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden flex flex-col">
+                            <button onClick={() => setOpenId(invitation.id)} className="block focus:outline-none focus:ring-2 focus:ring-indigo-400" aria-label={t('invitations.openAria', { name: invitation.planName })}>
+                                {getImageSrc(invitation) ? (
+                                    <img src={getImageSrc(invitation)} alt="" className="w-full h-48 object-cover bg-gray-100" />
+                                ) : (
+                                    <div className={`${imageFallbackClass} h-48`}>{t('invitations.noImage')}</div>
+                                )}
+                            </button>
+                            <div className="p-4 flex flex-col flex-grow">
+                                <h2 className="font-semibold text-gray-800">{invitation.planName}</h2>
+                                <p className="text-xs text-gray-500"><span className="capitalize">{templateLabel(invitation.template)}</span> · {formatWhen(invitation)}{event.rsvp?.invitationId === invitation.id && ` · ${t('invitations.rsvpPage')}`}</p>
+                                <p className="mt-2 text-sm text-gray-600 line-clamp-3 flex-grow">{invitation.text}</p>
+                                <div className="flex justify-end gap-2 mt-3 pt-3 border-t border-gray-100">
+                                    <button onClick={() => handleDelete(invitation)} className="px-3 py-1.5 text-sm font-medium text-red-600 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400">
+                                        {t('events.delete')}
+                                    </button>
+                                    <button onClick={() => handleDownloadImage(invitation)} disabled={!getImageSrc(invitation)} className="px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-indigo-400">
+                                        {t('invitations.download')}
+                                    </button>
+                                    <button onClick={() => setOpenId(invitation.id)} className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2">
+                                        {t('invitations.open')}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
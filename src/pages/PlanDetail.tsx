@@ -4,31 +4,66 @@ import EditPlanSectionModal from '../components/EditPlanSectionModal';
 // Import the actual modal components being used
 import BudgetOptimizerModal from '../components/BudgetOptimizerModal';
 import InvitationCreatorModal from '../components/InvitationCreatorModal';
+import PlanHistoryPanel from '../components/PlanHistoryPanel';
+import PlanCostSummary from '../components/PlanCostSummary';
+import BudgetLedger from '../components/BudgetLedger';
+import RegenerateSectionModal from '../components/RegenerateSectionModal';
+import CalendarExport from '../components/CalendarExport';
+import ScheduleTimeline from '../components/ScheduleTimeline';
+import CateringQuantities from '../components/CateringQuantities';
+import DietaryCheck from '../components/DietaryCheck';
 // Import necessary types
 // Removed unused types: SmartInvitation, Venue, Catering, GuestEngagement, ScheduleItem, CateringMenu
 import type {
     BirthdayPlan,
     UserInput,
+    PlanHistory,
+    LedgerItem,
+    PlanSection,
 } from '../types';
+// Import the event store used to load and persist this event's plans
+import { getEvent } from '../utils/eventStore';
+// Import the revision history helpers used for saving, undo/redo and restore
+import { getPlanHistory, commitPlanRevision, moveHistoryCursor, restoreRevision } from '../utils/planHistory';
+import { formatCostEstimate } from '../utils/cost';
+import { analyzeSchedule, formatDuration } from '../utils/timeline';
+import { repairPlan } from '../schema/plan';
+// Import the budget ledger helpers used to load, seed and persist line items
+import { getLedger, saveLedger, seedLedgerFromPlan } from '../utils/ledger';
+// Import the guest helper that turns the guest list into the headcount for per-person costs
+import { getEventHeadcount } from '../utils/guests';
+// Import the printable plan export
+import { createPlanPdf } from '../utils/planPdf';
+import { downloadBlob, toFileName } from '../utils/download';
+import type { EventHeadcount } from '../utils/guests';
+import { useTranslation } from '../i18n/I18nContext';
+import { getProfileLabel } from '../i18n/language';
 
 // Define local extended types to safely include properties expected by this component
 // This avoids modifying the original imported types while satisfying local usage.
 type ExtendedBirthdayPlan = BirthdayPlan & { date?: string | Date; optimizationSummary?: string }; // Added optimizationSummary based on usage
-type ExtendedScheduleItem = { time?: string; activity?: string; details?: string }; // Define based on usage in this file
 
 /**
  * PlanDetail Component
  * Displays the detailed view of a selected birthday plan.
  * Allows editing individual sections via EditPlanSectionModal.
  * Integrates BudgetOptimizerModal and InvitationCreatorModal for enhanced functionality.
+ * Every save is recorded as a revision, enabling undo/redo and the version history panel.
  */
 const PlanDetail: React.FC = () => {
-    const { planId } = useParams<{ planId: string }>(); // Get planId from URL parameters
+    const { eventId, planId } = useParams<{ eventId: string; planId: string }>(); // Get eventId and planId from URL parameters
     const navigate = useNavigate(); // Hook for navigation
+    const { t, language, locale } = useTranslation();
 
     // State for the currently viewed plan (using extended type) and original user input
     const [plan, setPlan] = useState<ExtendedBirthdayPlan | null>(null);
     const [userInput, setUserInput] = useState<UserInput | null>(null);
+    // State for the plan's revision history (drives undo/redo and the history panel)
+    const [history, setHistory] = useState<PlanHistory | null>(null);
+    // State for the plan's budget ledger line items
+    const [ledgerItems, setLedgerItems] = useState<LedgerItem[]>([]);
+    // Headcount for per-person costs (confirmed guest list, or the planned counts)
+    const [headcount, setHeadcount] = useState<EventHeadcount | null>(null);
 
     // State for loading and error messages
     const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -36,72 +71,70 @@ const PlanDetail: React.FC = () => {
     const [editError, setEditError] = useState<string | null>(null); // Error during saving edits
     const [optimizeError, setOptimizeError] = useState<string | null>(null); // Error during budget optimization saving
     const [inviteError, setInviteError] = useState<string | null>(null); // Error related to invitation modal (if needed)
+    const [ledgerError, setLedgerError] = useState<string | null>(null); // Error during saving the budget ledger
+    const [pdfError, setPdfError] = useState<string | null>(null); // Error during the PDF export
+    const [isExportingPdf, setIsExportingPdf] = useState<boolean>(false);
 
     // State for managing the visibility and data of modals
     const [editingSection, setEditingSection] = useState<string | null>(null); // Which section is being edited
     const [dataToEdit, setDataToEdit] = useState<any>(null); // Data passed to the edit modal
     const [isOptimizerOpen, setIsOptimizerOpen] = useState<boolean>(false); // Budget optimizer modal state
     const [isInvitationModalOpen, setIsInvitationModalOpen] = useState<boolean>(false); // Invitation creator modal state
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false); // Version history panel state
+    const [regeneratingSection, setRegeneratingSection] = useState<PlanSection | null>(null); // Which section is being regenerated
 
-    // --- Load Initial Plan Data & User Input from localStorage ---
+    // --- Load Initial Plan Data & User Input from the event store ---
     useEffect(() => {
         setIsLoading(true);
-        // Reset all errors and states on planId change
-        setLoadError(null); setEditError(null); setOptimizeError(null); setInviteError(null);
-        setPlan(null); setUserInput(null); setEditingSection(null); setDataToEdit(null);
-        setIsOptimizerOpen(false); setIsInvitationModalOpen(false);
+        // Reset all errors and states on eventId/planId change
+        setLoadError(null); setEditError(null); setOptimizeError(null); setInviteError(null); setLedgerError(null);
+        setPlan(null); setUserInput(null); setHistory(null); setLedgerItems([]); setHeadcount(null); setEditingSection(null); setDataToEdit(null);
+        setIsOptimizerOpen(false); setIsInvitationModalOpen(false); setIsHistoryOpen(false); setRegeneratingSection(null);
 
-        console.log(`PlanDetail: useEffect running for planId: ${planId}`);
+        console.log(`PlanDetail: useEffect running for event ${eventId}, planId: ${planId}`);
 
-        // Validate planId presence
-        if (!planId) {
-            setLoadError("No Plan ID provided in the URL.");
-            setIsLoading(false);
-            return;
-        }
-
-        // Attempt to retrieve data from localStorage
-        const storedPlansString = localStorage.getItem('generatedPlans');
-        const storedUserInputString = localStorage.getItem('userInput');
-
-        console.log(`PlanDetail: Value from localStorage.getItem('generatedPlans'):`, storedPlansString ? storedPlansString.substring(0, 100) + '...' : storedPlansString);
-        console.log(`PlanDetail: Value from localStorage.getItem('userInput'):`, storedUserInputString ? storedUserInputString.substring(0, 100) + '...' : storedUserInputString);
-
-        // Validate presence of stored data
-        if (!storedPlansString || !storedUserInputString) {
-            setLoadError("Plan data or user input missing from storage. Please generate plans again.");
+        // Validate eventId and planId presence
+        if (!eventId || !planId) {
+            setLoadError(t('planDetail.missingIds'));
             setIsLoading(false);
             return;
         }
 
         try {
-            // Parse stored data
-            const storedPlans: ExtendedBirthdayPlan[] = JSON.parse(storedPlansString);
-            const parsedUserInput: UserInput = JSON.parse(storedUserInputString);
-            console.log("PlanDetail: Successfully parsed plans and user input from storage.");
+            // Load the event that owns this plan
+            const event = getEvent(eventId);
+            if (!event) {
+                throw new Error(t('common.eventNotFound', { id: eventId }));
+            }
+            console.log("PlanDetail: Successfully loaded event from storage.");
 
             // Find the specific plan by ID
-            const foundPlan = storedPlans.find(p => p.id === planId);
+            const storedPlan = event.plans.find(p => p.id === planId);
 
-            if (foundPlan) {
+            if (storedPlan) {
+                // Repair the stored plan with the shared schema (e.g., legacy fields from older versions)
+                const foundPlan: ExtendedBirthdayPlan = repairPlan(storedPlan, { currency: event.userInput?.currency || 'NIS', id: planId });
                 console.log("PlanDetail: Plan found:", foundPlan);
                 setPlan(foundPlan); // Set the found plan state
-                setUserInput(parsedUserInput); // Set the user input state
+                setUserInput(event.userInput); // Set the user input state
+                setHistory(getPlanHistory(event, planId)); // Load (or seed) the plan's revision history
+                setLedgerItems(getLedger(event, planId, language)); // Load (or seed) the plan's budget ledger
+                setHeadcount(getEventHeadcount(event)); // Planned or confirmed headcount, used for per-person costs
             } else {
                 // Handle case where plan ID doesn't match any stored plan
-                console.warn(`PlanDetail: Plan with ID ${planId} not found within the stored plans array.`);
-                throw new Error(`Plan with ID ${planId} not found. Please go back and select a valid plan.`);
+                console.warn(`PlanDetail: Plan with ID ${planId} not found within event ${eventId}.`);
+                throw new Error(t('planDetail.planNotFound', { id: planId }));
             }
         } catch (err: any) {
-            // Handle JSON parsing errors or other issues during loading
+            // Handle storage errors or other issues during loading
             console.error("PlanDetail: Error loading plan or user input:", err);
-            setLoadError(err.message || "An error occurred while loading plan data.");
+            setLoadError(err.message || t('planDetail.loadError'));
         } finally {
             // Ensure loading state is turned off
             setIsLoading(false);
             console.log("PlanDetail: useEffect finished.");
         }
-    }, [planId]); // Re-run effect only when planId changes
+    }, [eventId, planId, t, language]); // Re-run effect only when the event or plan (or the language of the messages) changes
 
     // --- Edit Modal Handlers ---
 
@@ -110,13 +143,13 @@ const PlanDetail: React.FC = () => {
         if (!plan) return; // Ensure plan data is loaded
 
         let currentData: any;
-        // Check if the section key exists directly on the plan object
-        if (Object.prototype.hasOwnProperty.call(plan, section)) {
+        // Check if the section key exists directly on the plan object (older plans have no decorations yet; they start empty)
+        if (Object.prototype.hasOwnProperty.call(plan, section) || section === 'decorations') {
             currentData = plan[section as keyof ExtendedBirthdayPlan];
         } else {
             // Prevent editing if the section key is invalid or not handled
             console.warn(`Attempting to edit unhandled or invalid section: ${section}`);
-            setEditError(`Editing for section "${section}" is not currently supported.`);
+            setEditError(t('planDetail.editUnsupported', { section }));
             return;
         }
         // Set state to open the modal with the correct data
@@ -128,7 +161,7 @@ const PlanDetail: React.FC = () => {
     /** Closes the generic edit modal. */
     const handleCloseModal = () => setEditingSection(null);
 
-    /** Saves changes made in the generic edit modal back to the plan state and localStorage. */
+    /** Saves changes made in the generic edit modal back to the plan state and the event store. */
     const handleSaveChanges = (updatedData: any) => {
         if (!plan || !editingSection) return; // Ensure plan and section context exist
 
@@ -137,25 +170,65 @@ const PlanDetail: React.FC = () => {
         setPlan(updatedPlan); // Update component state immediately for responsiveness
         setEditError(null); // Clear previous save errors
 
-        // Attempt to save the updated plan list back to localStorage
+        // Attempt to save the updated plan back into its event as a new revision
         try {
-            const currentStoredPlansString = localStorage.getItem('generatedPlans');
-            if (!currentStoredPlansString) throw new Error("Failed to retrieve plans from storage for saving.");
+            if (!eventId) throw new Error("No event ID available for saving.");
+            const result = commitPlanRevision(eventId, updatedPlan, 'manual-edit', { section: editingSection });
+            setHistory(result.history);
+            console.log("PlanDetail: Plan updated successfully in the event store.");
+        } catch (err: any) {
+            console.error("PlanDetail: Error saving plan changes to the event store:", err);
+            setEditError(t('planDetail.saveError'));
+            // Optionally revert state: setPlan(plan); // Revert to previous state if save fails
+        }
+    };
 
-            const storedPlans: ExtendedBirthdayPlan[] = JSON.parse(currentStoredPlansString);
-            const planIndex = storedPlans.findIndex(p => p.id === planId);
+    // --- Regenerate Section Modal Handlers ---
 
-            if (planIndex === -1) throw new Error(`Plan with ID ${planId} not found in storage during save attempt.`);
+    /** Opens the regenerate modal for a specific section of the plan. */
+    const handleRegenerateClick = (section: PlanSection) => {
+        if (!plan) return; // Ensure plan data is loaded
+        setEditError(null);
+        setRegeneratingSection(section);
+    };
 
-            // Update the plan in the array and save back to localStorage
-            storedPlans[planIndex] = updatedPlan;
-            localStorage.setItem('generatedPlans', JSON.stringify(storedPlans));
-            console.log("PlanDetail: Plan updated successfully in localStorage.");
-        } catch (err: any) {
-            console.error("PlanDetail: Error saving plan changes to localStorage:", err);
-            setEditError("Failed to save changes. Please try again or refresh the page.");
-            // Optionally revert state: setPlan(plan); // Revert to previous state if save fails
+    /** Saves the plan with the accepted changes from a regenerated section as a new revision. */
+    const handleApplyRegeneratedSection = (updatedPlan: BirthdayPlan) => {
+        if (!regeneratingSection) return;
+        setPlan(updatedPlan); // Update component state immediately for responsiveness
+        setEditError(null);
+        try {
+            if (!eventId) throw new Error("No event ID available for saving.");
+            const result = commitPlanRevision(eventId, updatedPlan, 'regeneration', { section: regeneratingSection });
+            setHistory(result.history);
+            console.log("PlanDetail: Regenerated section saved successfully in the event store.");
+        } catch (err) {
+            console.error("PlanDetail: Error saving regenerated section to the event store:", err);
+            setEditError(t('planDetail.regenerateSaveError'));
         }
+        setRegeneratingSection(null); // Close the modal
+    };
+
+    // --- Budget Ledger Handlers ---
+
+    /** Saves the ledger's line items to the event store after every change. */
+    const handleLedgerChange = (items: LedgerItem[]) => {
+        setLedgerItems(items); // Update component state immediately for responsiveness
+        setLedgerError(null);
+        try {
+            if (!eventId || !planId) throw new Error("No event or plan ID available for saving.");
+            saveLedger(eventId, planId, items);
+        } catch (err) {
+            console.error("PlanDetail: Error saving budget ledger to the event store:", err);
+            setLedgerError(t('planDetail.ledgerSaveError'));
+        }
+    };
+
+    /** Adds line items built from the plan's current AI cost estimates. */
+    const handleImportLedgerEstimates = () => {
+        if (!plan || !userInput) return;
+        const guestCount = headcount?.total ?? (userInput.guestCountAdults || 0) + (userInput.guestCountChildren || 0);
+        handleLedgerChange([...ledgerItems, ...seedLedgerFromPlan(plan, guestCount, userInput.currency, language)]);
     };
 
     // --- Budget Optimizer Modal Handlers ---
@@ -164,7 +237,7 @@ const PlanDetail: React.FC = () => {
     const handleOpenOptimizer = () => {
         // Ensure required data is available before opening
         if (!plan || !userInput) {
-            setLoadError("Cannot open optimizer: Plan or User Input data is missing.");
+            setLoadError(t('planDetail.optimizerMissingData'));
             return;
         }
         setOptimizeError(null); // Clear previous optimizer errors
@@ -190,29 +263,64 @@ const PlanDetail: React.FC = () => {
         setPlan(updatedPlan); // Update state
         setOptimizeError(null); // Clear errors
 
-        // Save the updated plan to localStorage (similar logic to handleSaveChanges)
+        // Save the updated plan to its event as a new revision (similar logic to handleSaveChanges)
         try {
-            const currentStoredPlansString = localStorage.getItem('generatedPlans');
-            if (!currentStoredPlansString) throw new Error("Failed to retrieve plans from storage for saving optimized plan.");
-            const storedPlans: ExtendedBirthdayPlan[] = JSON.parse(currentStoredPlansString);
-            const planIndex = storedPlans.findIndex(p => p.id === planId);
-            if (planIndex === -1) throw new Error(`Original plan with ID ${planId} not found in storage during optimized save.`);
-            storedPlans[planIndex] = updatedPlan;
-            localStorage.setItem('generatedPlans', JSON.stringify(storedPlans));
-            console.log("PlanDetail: Optimized plan updated successfully in localStorage.");
+            if (!eventId) throw new Error("No event ID available for saving the optimized plan.");
+            const result = commitPlanRevision(eventId, updatedPlan, 'budget-optimization');
+            setHistory(result.history);
+            console.log("PlanDetail: Optimized plan updated successfully in the event store.");
         } catch (err: any) {
-            console.error("PlanDetail: Error saving optimized plan changes to localStorage:", err);
-            setOptimizeError("Failed to save optimized changes. Please try again.");
+            console.error("PlanDetail: Error saving optimized plan changes to the event store:", err);
+            setOptimizeError(t('planDetail.optimizeSaveError'));
         }
         setIsOptimizerOpen(false); // Close the modal on successful update
     };
 
+    // --- Version History Handlers ---
+
+    /**
+     * Moves the history cursor by one step (-1 = undo, +1 = redo) and shows that revision.
+     * @param step - The direction to move in the revision history.
+     */
+    const handleHistoryStep = (step: -1 | 1) => {
+        if (!eventId || !planId || !history) return;
+        const targetCursor = history.cursor + step;
+        if (targetCursor < 0 || targetCursor >= history.revisions.length) return;
+        try {
+            const result = moveHistoryCursor(eventId, planId, targetCursor);
+            setHistory(result.history);
+            setPlan(result.history.revisions[result.history.cursor].plan as ExtendedBirthdayPlan);
+            setEditError(null);
+        } catch (err) {
+            console.error("PlanDetail: Error moving through plan history:", err);
+            setEditError(t(step === -1 ? 'planDetail.undoError' : 'planDetail.redoError'));
+        }
+    };
+
+    /**
+     * Restores an earlier revision from the history panel as a new revision.
+     * @param revisionId - The ID of the revision to restore.
+     */
+    const handleRestoreRevision = (revisionId: string) => {
+        if (!eventId || !planId) return;
+        try {
+            const result = restoreRevision(eventId, planId, revisionId);
+            setHistory(result.history);
+            setPlan(result.history.revisions[result.history.cursor].plan as ExtendedBirthdayPlan);
+            setEditError(null);
+            setIsHistoryOpen(false);
+        } catch (err) {
+            console.error("PlanDetail: Error restoring plan revision:", err);
+            setEditError(t('planDetail.restoreError'));
+        }
+    };
+
     // --- Invitation Creator Modal Handlers ---
 
     /** Opens the Invitation Creator modal. */
     const handleOpenInvitationModal = () => {
         if (!plan) { // Ensure plan data is loaded
-            setLoadError("Cannot create invitation: Plan data is missing.");
+            setLoadError(t('planDetail.invitationMissingData'));
             return;
         }
         setInviteError(null); // Clear previous invitation errors
@@ -222,6 +330,23 @@ const PlanDetail: React.FC = () => {
     /** Closes the Invitation Creator modal. */
     const handleCloseInvitationModal = () => setIsInvitationModalOpen(false);
 
+    // --- PDF Export Handler ---
+
+    /** Downloads the plan (venue, schedule, menu, guest engagement and decorations) as a printable PDF. */
+    const handleDownloadPdf = async () => {
+        if (!plan) return;
+        setIsExportingPdf(true);
+        setPdfError(null);
+        try {
+            downloadBlob(`${toFileName(plan.name)}.pdf`, await createPlanPdf(plan, language));
+        } catch (err) {
+            console.error("PlanDetail: Error creating the plan PDF:", err);
+            setPdfError(t('planDetail.pdfError'));
+        } finally {
+            setIsExportingPdf(false);
+        }
+    };
+
     // --- Helper function to render list items (e.g., amenities, menu items) ---
     // Refined to handle types and empty states correctly
     const renderList = (items: string[] | string | undefined, title: string): React.ReactNode => {
@@ -250,7 +375,7 @@ const PlanDetail: React.FC = () => {
         return (
             <>
                 <h4 className="text-md font-semibold mt-3 mb-1 text-gray-700">{title}</h4>
-                <ul className="list-disc list-inside pl-2 space-y-1 text-sm text-gray-600">
+                <ul className="list-disc list-inside ps-2 space-y-1 text-sm text-gray-600">
                     {/* Render the list content (either single node or array of nodes) */}
                     {listContent}
                 </ul>
@@ -262,11 +387,11 @@ const PlanDetail: React.FC = () => {
     // --- Main Render Logic ---
 
     // Display loading indicator while fetching data
-    if (isLoading) return <div className="p-6 text-center text-gray-600">Loading plan details...</div>;
+    if (isLoading) return <div className="p-6 text-center text-gray-600">{t('planDetail.loading')}</div>;
 
     // Display critical loading errors if plan couldn't be loaded
     const displayLoadError = loadError ? <div className="p-4 mb-4 text-center text-red-600 bg-red-100 border border-red-300 rounded-md">{loadError}</div> : null;
-    if (!plan && !isLoading) return <div className="p-6 text-center text-red-600">Error: {loadError || 'Plan data could not be loaded.'}</div>;
+    if (!plan && !isLoading) return <div className="p-6 text-center text-red-600">{t('common.errorPrefix')} {loadError || t('planDetail.notLoaded')}</div>;
 
     // If plan is null after loading (shouldn't happen if error handling is correct, but for safety)
     if (!plan) return null;
@@ -275,6 +400,11 @@ const PlanDetail: React.FC = () => {
     const displayEditError = editError ? <div className="p-3 mb-4 text-sm text-red-700 bg-red-100 border border-red-300 rounded-md">{editError}</div> : null;
     const displayOptimizeError = optimizeError ? <div className="p-3 mb-4 text-sm text-red-700 bg-red-100 border border-red-300 rounded-md">{optimizeError}</div> : null;
     const displayInviteError = inviteError ? <div className="p-3 mb-4 text-sm text-red-700 bg-red-100 border border-red-300 rounded-md">{inviteError}</div> : null;
+    const displayPdfError = pdfError ? <div className="p-3 mb-4 text-sm text-red-700 bg-red-100 border border-red-300 rounded-md">{pdfError}</div> : null;
+
+    // Adult/child counts and party length for the catering quantity calculator
+    const guestCounts = headcount ?? { adults: userInput?.guestCountAdults || 0, children: userInput?.guestCountChildren || 0 };
+    const partyMinutes = plan.schedule ? analyzeSchedule(plan.schedule).totalMinutes || null : null;
 
 
     // Render the main plan detail view
@@ -285,54 +415,122 @@ const PlanDetail: React.FC = () => {
             {displayEditError}
             {displayOptimizeError}
             {displayInviteError}
+            {displayPdfError}
 
-            {/* Action Buttons (Top Right) */}
-            <div className="absolute top-4 right-4 flex flex-wrap gap-2 z-10">
+            {/* Action Buttons (Top End) */}
+            <div className="absolute top-4 end-4 flex flex-wrap justify-end gap-2 z-10">
+                {/* Undo / Redo Buttons */}
+                <button
+                    onClick={() => handleHistoryStep(-1)}
+                    className="px-3 py-2 bg-white text-gray-700 text-sm font-medium rounded-md shadow-sm border border-gray-300 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={t('planDetail.undoAria')}
+                    disabled={!history || history.cursor === 0}
+                >
+                    {t('planDetail.undo')}
+                </button>
+                <button
+                    onClick={() => handleHistoryStep(1)}
+                    className="px-3 py-2 bg-white text-gray-700 text-sm font-medium rounded-md shadow-sm border border-gray-300 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={t('planDetail.redoAria')}
+                    disabled={!history || history.cursor >= history.revisions.length - 1}
+                >
+                    {t('planDetail.redo')}
+                </button>
+                {/* Version History Button */}
+                <button
+                    onClick={() => setIsHistoryOpen(true)}
+                    className="px-4 py-2 bg-gray-700 text-white text-sm font-medium rounded-md shadow-sm hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={t('planDetail.historyAria')}
+                    disabled={!history}
+                >
+                    {t('planDetail.history')}{history ? ` (${history.revisions.length})` : ''}
+                </button>
+                {/* Guest List Button */}
+                <button
+                    onClick={() => navigate(`/events/${eventId}/guests`)}
+                    className="px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-md shadow-sm border border-indigo-200 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400 transition duration-150 ease-in-out"
+                    aria-label={t('planDetail.guestsAria')}
+                >
+                    {t('planDetail.guests')}{headcount?.source === 'confirmed' ? ` (${headcount.total})` : ''}
+                </button>
+                {/* Run of Show Button */}
+                <button
+                    onClick={() => navigate(`/events/${eventId}/plan/${planId}/run`)}
+                    className="px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-md shadow-sm border border-indigo-200 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400 transition duration-150 ease-in-out"
+                    aria-label={t('planDetail.runOfShowAria')}
+                >
+                    {t('planDetail.runOfShow')}
+                </button>
+                {/* Shopping List Button */}
+                <button
+                    onClick={() => navigate(`/events/${eventId}/plan/${planId}/shopping`)}
+                    className="px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-md shadow-sm border border-indigo-200 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400 transition duration-150 ease-in-out"
+                    aria-label={t('planDetail.shoppingAria')}
+                >
+                    {t('planDetail.shopping')}
+                </button>
+                {/* Saved Invitations Button */}
+                <button
+                    onClick={() => navigate(`/events/${eventId}/invitations`)}
+                    className="px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-md shadow-sm border border-indigo-200 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400 transition duration-150 ease-in-out"
+                    aria-label={t('planDetail.invitationsAria')}
+                >
+                    {t('planDetail.invitations')}
+                </button>
+                {/* PDF Export Button */}
+                <button
+                    onClick={handleDownloadPdf}
+                    className="px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-md shadow-sm border border-indigo-200 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400 transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={t('planDetail.pdfAria')}
+                    disabled={isExportingPdf}
+                >
+                    {isExportingPdf ? t('planDetail.pdfCreating') : t('planDetail.pdf')}
+                </button>
                 {/* Optimize Budget Button */}
                 <button
                     onClick={handleOpenOptimizer}
                     className="px-4 py-2 bg-purple-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
-                    aria-label="Optimize Budget"
+                    aria-label={t('planDetail.optimize')}
                     disabled={!userInput || !plan} // Disable if required data isn't loaded
                 >
-                    Optimize Budget
+                    {t('planDetail.optimize')}
                 </button>
                 {/* Create Invitation Button */}
                 <button
                     onClick={handleOpenInvitationModal}
                     className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
-                    aria-label="Create Invitation"
+                    aria-label={t('planDetail.createInvitation')}
                     disabled={!plan} // Disable if plan isn't loaded
                 >
-                    Create Invitation
+                    {t('planDetail.createInvitation')}
                 </button>
             </div>
 
-            {/* Back Button (Top Left) */}
+            {/* Back Button (Top Start) */}
             <button
-                onClick={() => navigate('/results')} // Navigate back to the results page
-                className="absolute top-4 left-4 mb-4 px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md shadow-sm hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out z-10"
-                aria-label="Back to results"
+                onClick={() => navigate(`/events/${eventId}/results`)} // Navigate back to this event's results page
+                className="absolute top-4 start-4 mb-4 px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md shadow-sm hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out z-10"
+                aria-label={t('planDetail.backAria')}
             >
-                &larr; Back to Results {/* Left arrow */}
+                {t('planDetail.back')}
             </button>
 
 
             {/* Plan Name & Profile Section */}
-            <div className="flex justify-between items-start mb-6 pb-2 border-b border-gray-300 pt-20"> {/* Added padding-top */}
+            <div className="flex justify-between items-start mb-6 pb-2 border-b border-gray-300 pt-28"> {/* Added padding-top to clear the action buttons */}
                 <div>
                     {/* Display Plan Name */}
-                    <h1 className="text-3xl font-bold text-gray-800">{plan.name ?? 'Unnamed Plan'}</h1>
+                    <h1 className="text-3xl font-bold text-gray-800">{plan.name ?? t('plan.unnamed')}</h1>
                     {/* Display Plan Profile */}
-                    {plan.profile && <p className="text-sm text-gray-500 mt-1">Profile: {plan.profile}</p>}
+                    {plan.profile && <p className="text-sm text-gray-500 mt-1">{t('planDetail.profile', { profile: getProfileLabel(language, plan.profile) })}</p>}
                 </div>
                 {/* Edit Button for Name (only if 'name' property exists) */}
                 {Object.prototype.hasOwnProperty.call(plan, 'name') && (
                     <button
                         onClick={() => handleEditClick('name')}
-                        className="ml-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 flex-shrink-0 mt-1"
+                        className="ms-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 flex-shrink-0 mt-1"
                     >
-                        Edit Name
+                        {t('planDetail.editName')}
                     </button>
                 )}
             </div>
@@ -340,29 +538,42 @@ const PlanDetail: React.FC = () => {
             {/* Optimization Summary Section (Conditional) */}
             {plan.optimizationSummary && (
                 <section className="mb-6 p-4 border border-green-200 rounded-lg shadow-sm bg-green-50">
-                    <h2 className="text-xl font-semibold text-green-800 mb-2">Optimization Summary</h2>
+                    <h2 className="text-xl font-semibold text-green-800 mb-2">{t('planDetail.optimizationSummary')}</h2>
                     <p className="text-green-700 whitespace-pre-wrap">{plan.optimizationSummary}</p>
                 </section>
             )}
 
+            {/* Cost Summary Section (total vs budget) */}
+            {userInput && (
+                <section className="mb-6">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-3">{t('planDetail.costSummary')}</h2>
+                    <PlanCostSummary
+                        plan={plan}
+                        guestCount={headcount?.total ?? (userInput.guestCountAdults || 0) + (userInput.guestCountChildren || 0)}
+                        budgetAmount={userInput.budgetAmount || 0}
+                        currency={userInput.currency}
+                    />
+                </section>
+            )}
+
             {/* Description Section */}
             <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
                 <div className="flex justify-between items-center mb-3">
-                    <h2 className="text-xl font-semibold text-gray-700">Description</h2>
+                    <h2 className="text-xl font-semibold text-gray-700">{t('plan.section.description')}</h2>
                     {Object.prototype.hasOwnProperty.call(plan, 'description') && (
-                        <button onClick={() => handleEditClick('description')} className="ml-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">Edit</button>
+                        <button onClick={() => handleEditClick('description')} className="ms-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">{t('common.edit')}</button>
                     )}
                 </div>
-                <p className="text-gray-600 whitespace-pre-wrap">{plan.description ?? 'No description available.'}</p>
+                <p className="text-gray-600 whitespace-pre-wrap">{plan.description ?? t('planDetail.noDescription')}</p>
             </section>
 
             {/* Date Section (Conditional based on plan.date existence) */}
             {plan.date && (
                 <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
                     <div className="flex justify-between items-center mb-3">
-                        <h2 className="text-xl font-semibold text-gray-700">Date</h2>
+                        <h2 className="text-xl font-semibold text-gray-700">{t('plan.section.date')}</h2>
                         {Object.prototype.hasOwnProperty.call(plan, 'date') && (
-                            <button onClick={() => handleEditClick('date')} className="ml-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">Edit</button>
+                            <button onClick={() => handleEditClick('date')} className="ms-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">{t('common.edit')}</button>
                         )}
                     </div>
                     <p className="text-gray-600">
@@ -371,121 +582,191 @@ const PlanDetail: React.FC = () => {
                             try {
                                 const dateObj = new Date(plan.date as string | Date); // Use extended type
                                 // Check if date is valid after parsing
-                                if (isNaN(dateObj.getTime())) return 'Invalid date format';
+                                if (isNaN(dateObj.getTime())) return t('planDetail.invalidDateFormat');
                                 // Format date for display (adjust options as needed)
-                                return dateObj.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }); // Use UTC to avoid timezone shifts from string parsing
+                                return dateObj.toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }); // Use UTC to avoid timezone shifts from string parsing
                             } catch (e) {
                                 console.error("Error formatting date:", e);
-                                return 'Invalid date';
+                                return t('planDetail.invalidDate');
                             }
                         })()}
                     </p>
+                    {/* Calendar export (.ics) of the party and, optionally, its schedule */}
+                    {eventId && <CalendarExport plan={plan} eventId={eventId} />}
                 </section>
             )}
 
             {/* Venue Section */}
             <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
                 <div className="flex justify-between items-center mb-3">
-                    <h2 className="text-xl font-semibold text-gray-700">Venue</h2>
+                    <h2 className="text-xl font-semibold text-gray-700">{t('plan.section.venue')}</h2>
                     {Object.prototype.hasOwnProperty.call(plan, 'venue') && (
-                        <button onClick={() => handleEditClick('venue')} className="ml-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">Edit</button>
+                        <div className="flex items-center">
+                            <button onClick={() => handleRegenerateClick('venue')} className="ms-4 px-3 py-1 bg-indigo-100 text-indigo-700 text-sm font-medium rounded-md shadow-sm hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">{t('planDetail.regenerate')}</button>
+                            <button onClick={() => handleEditClick('venue')} className="ms-2 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">{t('common.edit')}</button>
+                        </div>
                     )}
                 </div>
                 {plan.venue ? (
                     <div className="space-y-2 text-gray-600">
-                        <p><span className="font-medium text-gray-800">Name:</span> {plan.venue.name ?? 'N/A'}</p>
-                        <p><span className="font-medium text-gray-800">Description:</span> {plan.venue.description ?? 'N/A'}</p>
-                        <p><span className="font-medium text-gray-800">Cost Range:</span> {plan.venue.costRange ?? 'N/A'}</p>
-                        <p><span className="font-medium text-gray-800">Suitability:</span> {plan.venue.suitability ?? 'N/A'}</p>
+                        <p><span className="font-medium text-gray-800">{t('plan.name')}</span> {plan.venue.name ?? t('common.notAvailable')}</p>
+                        <p><span className="font-medium text-gray-800">{t('plan.description')}</span> {plan.venue.description ?? t('common.notAvailable')}</p>
+                        <p><span className="font-medium text-gray-800">{t('plan.cost')}</span> {plan.venue.cost ? formatCostEstimate(plan.venue.cost, t('cost.perPersonSuffix')) : (plan.venue.costRange ?? t('common.notAvailable'))}</p>
+                        <p><span className="font-medium text-gray-800">{t('plan.suitability')}</span> {plan.venue.suitability ?? t('common.notAvailable')}</p>
                         {/* Use renderList helper for amenities */}
-                        {renderList(plan.venue.amenities, 'Amenities')}
+                        {renderList(plan.venue.amenities, t('plan.section.amenities'))}
                     </div>
                 ) : (
-                    <p className="text-gray-500 italic">No venue details specified.</p>
+                    <p className="text-gray-500 italic">{t('planDetail.noVenue')}</p>
                 )}
             </section>
 
             {/* Schedule Section */}
             <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
                 <div className="flex justify-between items-center mb-3">
-                    <h2 className="text-xl font-semibold text-gray-700">Schedule</h2>
+                    <h2 className="text-xl font-semibold text-gray-700">{t('plan.section.schedule')}</h2>
                     {Object.prototype.hasOwnProperty.call(plan, 'schedule') && (
-                        <button onClick={() => handleEditClick('schedule')} className="ml-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">Edit</button>
+                        <div className="flex items-center">
+                            <button onClick={() => handleRegenerateClick('schedule')} className="ms-4 px-3 py-1 bg-indigo-100 text-indigo-700 text-sm font-medium rounded-md shadow-sm hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">{t('planDetail.regenerate')}</button>
+                            <button onClick={() => handleEditClick('schedule')} className="ms-2 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">{t('common.edit')}</button>
+                        </div>
                     )}
                 </div>
                 {plan.schedule && plan.schedule.length > 0 ? (
-                    <ul className="list-disc pl-5 space-y-2">
+                    <ul className="list-disc ps-5 space-y-2">
                         {/* Map through schedule items, ensuring item structure is valid */}
-                        {(plan.schedule as ExtendedScheduleItem[]).map((item, index) => ( // Cast to use ExtendedScheduleItem
+                        {plan.schedule.map((item, index) => (
                             (item && typeof item === 'object' && item.time && item.activity) ? (
                                 <li key={index} className="text-gray-600">
                                     <span className="font-medium text-gray-800">{item.time}:</span> {item.activity}
+                                    {item.durationMinutes !== undefined && <span className="text-xs text-gray-500 ms-2">{formatDuration(item.durationMinutes)}</span>}
                                     {/* Conditionally display details if they exist */}
-                                    {item.details && <span className="text-sm italic ml-2">({item.details})</span>}
+                                    {item.description && <span className="text-sm italic ms-2">({item.description})</span>}
                                 </li>
                             ) : null // Skip rendering if item structure is invalid
                         ))}
                     </ul>
                 ) : (
-                    <p className="text-gray-500 italic">No schedule items added yet.</p>
+                    <p className="text-gray-500 italic">{t('planDetail.noSchedule')}</p>
                 )}
+                {/* Visual timeline with overlap, gap and party length checks */}
+                {plan.schedule && plan.schedule.length > 0 && <ScheduleTimeline schedule={plan.schedule} age={userInput?.age} />}
             </section>
 
             {/* Catering Section */}
             <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
                 <div className="flex justify-between items-center mb-3">
-                    <h2 className="text-xl font-semibold text-gray-700">Catering</h2>
+                    <h2 className="text-xl font-semibold text-gray-700">{t('plan.section.catering')}</h2>
                     {Object.prototype.hasOwnProperty.call(plan, 'catering') && (
-                        <button onClick={() => handleEditClick('catering')} className="ml-4 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">Edit</button>
+                        <div className="flex items-center">
+                            <button onClick={() => handleRegenerateClick('catering')} className="ms-4 px-3 py-1 bg-indigo-100 text-indigo-700 text-sm font-medium rounded-md shadow-sm hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">{t('planDetail.regenerate')}</button>
+                            <button onClick={() => handleEditClick('catering')} className="ms-2 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">{t('common.edit')}</button>
+                        </div>
                     )}
                 </div>
                 {plan.catering ? (
                     <div className="space-y-2 text-gray-600">
-                        <p><span className="font-medium text-gray-800">Estimated Cost:</span> {plan.catering.estimatedCost ?? 'N/A'}</p>
-                        <p><span className="font-medium text-gray-800">Serving Style:</span> {plan.catering.servingStyle ?? 'N/A'}</p>
+                        <p><span className="font-medium text-gray-800">{t('plan.estimatedCost')}</span> {plan.catering.cost ? formatCostEstimate(plan.catering.cost, t('cost.perPersonSuffix')) : (plan.catering.estimatedCost ?? t('common.notAvailable'))}</p>
+                        <p><span className="font-medium text-gray-800">{t('plan.servingStyle')}</span> {plan.catering.servingStyle ?? t('common.notAvailable')}</p>
                         {/* Display Menu Details if available */}
                         {plan.catering.menu ? (
                             <div className="mt-3 pt-3 border-t border-gray-200">
-                                <h3 className="text-lg font-semibold mb-2 text-gray-800">Menu</h3>
-                                {renderList(plan.catering.menu.appetizers, 'Appetizers')}
-                                {renderList(plan.catering.menu.mainCourses, 'Main Courses')}
+                                <h3 className="text-lg font-semibold mb-2 text-gray-800">{t('plan.section.menu')}</h3>
+                                {renderList(plan.catering.menu.appetizers, t('plan.section.appetizers'))}
+                                {renderList(plan.catering.menu.mainCourses, t('plan.section.mainCourses'))}
                                 {/* Handle desserts (string) */}
                                 {plan.catering.menu.desserts ? (
                                     <>
-                                        <h4 className="text-md font-semibold mt-3 mb-1 text-gray-700">Desserts</h4>
-                                        <p className="text-sm text-gray-600 pl-2">{typeof plan.catering.menu.desserts === 'string' ? plan.catering.menu.desserts : 'N/A'}</p>
+                                        <h4 className="text-md font-semibold mt-3 mb-1 text-gray-700">{t('plan.section.desserts')}</h4>
+                                        <p className="text-sm text-gray-600 ps-2">{typeof plan.catering.menu.desserts === 'string' ? plan.catering.menu.desserts : t('common.notAvailable')}</p>
                                     </>
                                 ) : null}
-                                {renderList(plan.catering.menu.beverages, 'Beverages')}
+                                {renderList(plan.catering.menu.beverages, t('plan.section.beverages'))}
+                                <CateringQuantities menu={plan.catering.menu} adults={guestCounts.adults} children={guestCounts.children} partyMinutes={partyMinutes} />
+                                <DietaryCheck catering={plan.catering} restrictions={userInput?.dietaryRestrictions} />
                             </div>
-                        ) : <p className="text-gray-500 italic mt-2">No menu details specified.</p>}
+                        ) : <p className="text-gray-500 italic mt-2">{t('planDetail.noMenu')}</p>}
                     </div>
                 ) : (
-                    <p className="text-gray-500 italic">No catering details specified.</p>
+                    <p className="text-gray-500 italic">{t('planDetail.noCatering')}</p>
                 )}
             </section>
 
             {/* Guest Engagement Section */}
             <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
                 <div className="flex justify-between items-center mb-3">
-                    <h2 className="text-xl font-semibold text-gray-700">Guest Engagement</h2>
+                    <h2 className="text-xl font-semibold text-gray-700">{t('plan.section.guestEngagement')}</h2>
                     {/* Edit button can be added here if editing functionality is implemented */}
                     {/* {Object.prototype.hasOwnProperty.call(plan, 'guestEngagement') && ( <button onClick={() => handleEditClick('guestEngagement')} className="...">Edit</button> )} */}
+                    {Object.prototype.hasOwnProperty.call(plan, 'guestEngagement') && (
+                        <button onClick={() => handleRegenerateClick('guestEngagement')} className="ms-4 px-3 py-1 bg-indigo-100 text-indigo-700 text-sm font-medium rounded-md shadow-sm hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">{t('planDetail.regenerate')}</button>
+                    )}
                 </div>
                 {plan.guestEngagement ? (
                     <div className="space-y-2 text-gray-600">
                         {/* Use renderList helper for each sub-section */}
-                        {renderList(plan.guestEngagement.icebreakers, 'Icebreakers')}
-                        {renderList(plan.guestEngagement.interactiveElements, 'Interactive Elements')}
-                        {renderList(plan.guestEngagement.photoOpportunities, 'Photo Opportunities')}
-                        {renderList(plan.guestEngagement.partyFavors, 'Party Favors')}
-                        {renderList(plan.guestEngagement.techIntegration, 'Tech Integration')}
+                        {renderList(plan.guestEngagement.icebreakers, t('plan.section.icebreakers'))}
+                        {renderList(plan.guestEngagement.interactiveElements, t('plan.section.interactiveElements'))}
+                        {renderList(plan.guestEngagement.photoOpportunities, t('plan.section.photoOpportunities'))}
+                        {renderList(plan.guestEngagement.partyFavors, t('plan.section.partyFavors'))}
+                        {renderList(plan.guestEngagement.techIntegration, t('plan.section.techIntegration'))}
                     </div>
                 ) : (
-                    <p className="text-gray-500 italic">No guest engagement details specified.</p>
+                    <p className="text-gray-500 italic">{t('planDetail.noEngagement')}</p>
                 )}
             </section>
 
+            {/* Decorations Section */}
+            <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
+                <div className="flex justify-between items-center mb-3">
+                    <h2 className="text-xl font-semibold text-gray-700">{t('plan.section.decorations')}</h2>
+                    {/* Shown for older plans without decorations too, so they can get a decorations section */}
+                    <div className="flex items-center">
+                        <button onClick={() => handleRegenerateClick('decorations')} className="ms-4 px-3 py-1 bg-indigo-100 text-indigo-700 text-sm font-medium rounded-md shadow-sm hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">{t('planDetail.regenerate')}</button>
+                        <button onClick={() => handleEditClick('decorations')} className="ms-2 px-3 py-1 bg-blue-500 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">{t('common.edit')}</button>
+                    </div>
+                </div>
+                {plan.decorations ? (
+                    <div className="space-y-2 text-gray-600">
+                        {plan.decorations.colorPalette.length > 0 && (
+                            <p><span className="font-medium text-gray-800">{t('plan.colorPalette')}</span> {plan.decorations.colorPalette.join(', ')}</p>
+                        )}
+                        {plan.decorations.keyPieces.length > 0 && (
+                            <>
+                                <h4 className="text-md font-semibold mt-3 mb-1 text-gray-700">{t('plan.section.keyPieces')}</h4>
+                                <ul className="list-disc list-inside ps-2 space-y-1 text-sm text-gray-600">
+                                    {plan.decorations.keyPieces.map((piece, index) => (
+                                        <li key={index}>
+                                            <span className="text-gray-800">{piece.item}</span>
+                                            <span className={`ms-2 text-xs font-medium px-1.5 py-0.5 rounded ${piece.source === 'diy' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'}`}>{t(`plan.decorationSource.${piece.source}`)}</span>
+                                            {piece.notes && <span className="text-sm italic ms-2">({piece.notes})</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                        {renderList(plan.decorations.decorationSearchSuggestions, t('field.decorationSearchSuggestions'))}
+                    </div>
+                ) : (
+                    <p className="text-gray-500 italic">{t('planDetail.noDecorations')}</p>
+                )}
+            </section>
+
+            {/* Budget Ledger Section (real spending vs budget) */}
+            {userInput && (
+                <section className="mb-6 p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-3">{t('planDetail.budgetLedger')}</h2>
+                    {ledgerError && <p className="text-red-500 text-sm mb-3">{ledgerError}</p>}
+                    <BudgetLedger
+                        items={ledgerItems}
+                        onChange={handleLedgerChange}
+                        onImportEstimates={handleImportLedgerEstimates}
+                        budgetAmount={userInput.budgetAmount || 0}
+                        currency={userInput.currency}
+                    />
+                </section>
+            )}
+
 
             {/* --- Render Modals (Portal recommended for production) --- */}
 
@@ -496,6 +777,19 @@ const PlanDetail: React.FC = () => {
                 section={editingSection}
                 currentData={dataToEdit}
                 onSave={handleSaveChanges}
+                currency={userInput?.currency} // Default currency for cost estimates
+                guestCounts={guestCounts} // Used by the catering quantity calculator
+                partyMinutes={partyMinutes}
+            />
+
+            {/* Regenerate Section Modal */}
+            <RegenerateSectionModal
+                isOpen={!!regeneratingSection} // Open if regeneratingSection is not null
+                onClose={() => setRegeneratingSection(null)}
+                section={regeneratingSection}
+                currentPlan={plan} // Sent as context for the new section
+                userInput={userInput}
+                onApply={handleApplyRegeneratedSection}
             />
 
             {/* Budget Optimizer Modal */}
@@ -507,15 +801,24 @@ const PlanDetail: React.FC = () => {
                 onPlanUpdate={handlePlanUpdateFromOptimizer} // Handler for receiving optimized plan
             />
 
-            {/* Invitation Creator Modal */}
-            <InvitationCreatorModal
-                isOpen={isInvitationModalOpen}
-                onClose={handleCloseInvitationModal}
-                currentPlan={plan} // Pass the current plan state
-            // Optional: Pass a handler if needed:
-            // onInvitationGenerated={handleInvitationGenerated}
+            {/* Version History Panel */}
+            <PlanHistoryPanel
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                history={history}
+                onRestore={handleRestoreRevision}
             />
 
+            {/* Invitation Creator Modal */}
+            {eventId && (
+                <InvitationCreatorModal
+                    isOpen={isInvitationModalOpen}
+                    onClose={handleCloseInvitationModal}
+                    currentPlan={plan} // Pass the current plan state
+                    eventId={eventId} // Generated invitations are saved to this event
+                />
+            )}
+
         </div> // Close main container
     );
 };
@@ -1,170 +1,100 @@
 // src/pages/Results.tsx
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import PlanCard from '../components/PlanCard'; // Component to display each plan summary
-import type { BirthdayPlan as OriginalBirthdayPlan, UserInput } from '../types'; // Import original type
-
-// Define a local extended type to safely include properties expected by this component/function
-type ExtendedBirthdayPlan = OriginalBirthdayPlan & { date?: string | Date; optimizationSummary?: string | undefined };
+import PlanComparison from '../components/PlanComparison'; // Side-by-side comparison of the plans
+import CompositePlanModal from '../components/CompositePlanModal'; // Mix & match builder for custom plans
+import type { BirthdayPlan, UserInput } from '../types';
+import { getEvent, setChosenPlan, addPlanToEvent } from '../utils/eventStore'; // Event store holding each party's plans
+import { repairPlan } from '../schema/plan'; // Shared plan schema used to repair stored plans
+import { getEventHeadcount } from '../utils/guests'; // Planned headcount, raised to the confirmed guests
+import { useTranslation } from '../i18n/I18nContext';
 
 /**
- * Cleans up plan data loaded from storage, ensuring it conforms to the expected structure
- * and providing default values for missing or invalid fields.
- * Uses the local ExtendedBirthdayPlan type internally.
- * @param plans - The raw array of plans parsed from localStorage.
- * @returns A sanitized array of plans conforming to ExtendedBirthdayPlan.
+ * Cleans up plan data loaded from storage with the shared plan schema,
+ * repairing missing or invalid fields the same way the backend does.
+ * @param plans - The raw array of plans loaded from the event store.
+ * @param currency - The event's budget currency, assumed for costs that don't name one.
+ * @returns A sanitized array of plans conforming to BirthdayPlan.
  */
-const sanitizePlans = (plans: unknown[]): ExtendedBirthdayPlan[] => {
-    console.log("--- Starting Sanitization ---");
+const sanitizePlans = (plans: unknown[], currency: string): BirthdayPlan[] => {
     // Ensure input is an array
     if (!Array.isArray(plans)) {
         console.error('sanitizePlans received non-array input:', plans);
         return []; // Return empty array if input is invalid
     }
-
-    const sanitized = plans.map((plan, index): ExtendedBirthdayPlan => {
-        // Check if the current item is a valid object
-        if (typeof plan !== 'object' || plan === null) {
-            console.warn(`[Plan ${index + 1}] Sanitizing encountered invalid plan item:`, plan);
-            // Return a default structure conforming to ExtendedBirthdayPlan
-            return {
-                id: `invalid-${Date.now()}-${Math.random()}`,
-                name: 'Invalid Plan Data',
-                description: 'Data could not be loaded correctly.',
-                profile: 'Unknown',
-                date: '', // Default date for the extended type
-                venue: { name: '', description: '', costRange: '', amenities: [], suitability: '', venueSearchSuggestions: [] },
-                schedule: [],
-                catering: { estimatedCost: '', servingStyle: '', menu: { appetizers: [], mainCourses: [], desserts: '', beverages: [] }, cateringSearchSuggestions: [] },
-                guestEngagement: { icebreakers: [], interactiveElements: [], photoOpportunities: [], partyFavors: [], techIntegration: [], entertainmentSearchSuggestions: [] },
-                optimizationSummary: undefined, // Default optimization summary
-                // Add defaults for any other fields required by OriginalBirthdayPlan if necessary
-            };
-        }
-
-        // Cast the potentially untyped plan object for safer access
-        const p = plan as Partial<ExtendedBirthdayPlan>; // Treat as partial extended plan
-
-        // Build the sanitized plan object, ensuring all fields conform to ExtendedBirthdayPlan
-        const sanitizedPlan: ExtendedBirthdayPlan = {
-            id: typeof p.id === 'string' ? p.id : `generated-${Date.now()}-${Math.random()}`,
-            name: typeof p.name === 'string' ? p.name : 'Unnamed Plan',
-            description: typeof p.description === 'string' ? p.description : '',
-            profile: typeof p.profile === 'string' ? p.profile : 'Unknown',
-            date: typeof p.date === 'string' || p.date instanceof Date ? p.date : '', // Safely handle date
-            venue: { // Ensure venue and its properties exist
-                name: p.venue?.name || '',
-                description: p.venue?.description || '',
-                costRange: p.venue?.costRange || '',
-                amenities: Array.isArray(p.venue?.amenities) ? p.venue.amenities.filter(a => typeof a === 'string') : [],
-                suitability: p.venue?.suitability || '',
-                venueSearchSuggestions: Array.isArray(p.venue?.venueSearchSuggestions) ? p.venue.venueSearchSuggestions.filter(s => typeof s === 'string') : [],
-            },
-            // Ensure schedule is an array of objects with expected properties
-            schedule: Array.isArray(p.schedule)
-                ? p.schedule.map(item => ({
-                    time: item?.time || '',
-                    activity: item?.activity || '',
-                    // Use 'details' if it exists from ExtendedScheduleItem definition (used in PlanDetail)
-                    details: (item as any)?.details || undefined, // Safely access potential 'details'
-                }))
-                : [],
-            catering: { // Ensure catering and its properties exist
-                estimatedCost: p.catering?.estimatedCost || '',
-                servingStyle: p.catering?.servingStyle || '',
-                menu: { // Ensure menu and its properties exist
-                    appetizers: Array.isArray(p.catering?.menu?.appetizers) ? p.catering.menu.appetizers.filter(a => typeof a === 'string') : [],
-                    mainCourses: Array.isArray(p.catering?.menu?.mainCourses) ? p.catering.menu.mainCourses.filter(mc => typeof mc === 'string') : [],
-                    desserts: typeof p.catering?.menu?.desserts === 'string' ? p.catering.menu.desserts : '',
-                    beverages: Array.isArray(p.catering?.menu?.beverages) ? p.catering.menu.beverages.filter(b => typeof b === 'string') : [],
-                },
-                cateringSearchSuggestions: Array.isArray(p.catering?.cateringSearchSuggestions) ? p.catering.cateringSearchSuggestions.filter(s => typeof s === 'string') : [],
-            },
-            guestEngagement: { // Ensure guestEngagement and its properties exist
-                icebreakers: Array.isArray(p.guestEngagement?.icebreakers) ? p.guestEngagement.icebreakers.filter(i => typeof i === 'string') : [],
-                interactiveElements: Array.isArray(p.guestEngagement?.interactiveElements) ? p.guestEngagement.interactiveElements.filter(i => typeof i === 'string') : [],
-                photoOpportunities: Array.isArray(p.guestEngagement?.photoOpportunities) ? p.guestEngagement.photoOpportunities.filter(p => typeof p === 'string') : [],
-                partyFavors: Array.isArray(p.guestEngagement?.partyFavors) ? p.guestEngagement.partyFavors.filter(p => typeof p === 'string') : [],
-                techIntegration: Array.isArray(p.guestEngagement?.techIntegration) ? p.guestEngagement.techIntegration.filter(t => typeof t === 'string') : [],
-                entertainmentSearchSuggestions: Array.isArray(p.guestEngagement?.entertainmentSearchSuggestions) ? p.guestEngagement.entertainmentSearchSuggestions.filter(s => typeof s === 'string') : [],
-            },
-            optimizationSummary: typeof p.optimizationSummary === 'string' ? p.optimizationSummary : undefined,
-            // Ensure all properties from OriginalBirthdayPlan are included if not already covered
-        };
-        return sanitizedPlan;
-    });
-    console.log("--- Finished Sanitization ---");
-    return sanitized;
+    return plans.map(plan => repairPlan(plan, { currency }));
 };
 
 
 /**
  * Results Page Component
- * Displays generated birthday plans loaded from localStorage as interactive cards.
+ * Displays the generated birthday plans of one event (from the event store) as interactive cards.
  * Allows navigation to a detail view for each plan.
  */
 export default function Results() {
-    // State for the sanitized plans (using extended type) and user input
-    const [plans, setPlans] = useState<ExtendedBirthdayPlan[]>([]);
+    const { eventId } = useParams<{ eventId: string }>(); // Get eventId from URL parameters
+    // State for the sanitized plans and user input
+    const [plans, setPlans] = useState<BirthdayPlan[]>([]);
     const [userInput, setUserInput] = useState<UserInput | null>(null);
-    // State for potential styling of selected card (currently unused for navigation)
+    const [guestCount, setGuestCount] = useState<number | undefined>(undefined); // Headcount for per-person costs
+    // The plan chosen as the winner (highlighted on its card and in the comparison)
     const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null);
+    // Whether the plans are shown as cards or lined up side by side
+    const [view, setView] = useState<'cards' | 'compare'>('cards');
+    // Whether the mix & match builder is open
+    const [isCompositeModalOpen, setIsCompositeModalOpen] = useState<boolean>(false);
     // State for loading and error handling
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
     const navigate = useNavigate(); // Hook for navigation
+    const { t } = useTranslation();
 
-    // Effect to load and process plan data from localStorage when the component mounts
+    // Effect to load and process the event's plan data when the component mounts or the event changes
     useEffect(() => {
-        console.log('Results component mounted. Loading data...');
+        console.log(`Results component mounted. Loading event ${eventId}...`);
         setIsLoading(true); setError(null); // Reset state on load
 
-        // Retrieve data strings from localStorage
-        const storedPlans = localStorage.getItem('generatedPlans');
-        const storedUserInput = localStorage.getItem('userInput');
-
-        // If essential data is missing, navigate back to the home page
-        if (!storedPlans || !storedUserInput) {
-            console.warn("Missing 'generatedPlans' or 'userInput' in localStorage. Navigating home.");
-            // Use navigate within useEffect requires it in dependency array or careful consideration
-            navigate('/');
+        // If the event ID is missing, navigate to the events dashboard
+        if (!eventId) {
+            console.warn("No event ID in the URL. Navigating to events dashboard.");
+            navigate('/events');
             return; // Stop execution
         }
 
         try {
-            // Parse the stored JSON strings
-            const parsedPlans: unknown = JSON.parse(storedPlans); // Parse as unknown first
-            const parsedUserInput: UserInput = JSON.parse(storedUserInput);
+            // Load the event record from the event store
+            const event = getEvent(eventId);
+            if (!event) {
+                throw new Error(t('common.eventNotFound', { id: eventId }));
+            }
 
-            // Validate that parsed plan data is an array
-            if (!Array.isArray(parsedPlans)) {
-                throw new Error('Stored plan data is corrupted (not an array).');
+            // Validate that stored plan data is an array
+            if (!Array.isArray(event.plans)) {
+                throw new Error(t('results.corrupted'));
             }
-            console.log('Successfully parsed data.');
+            console.log('Successfully loaded event data.');
 
             // Sanitize the loaded plan data to ensure structure and defaults
-            // Pass parsedPlans (unknown[]) to sanitizePlans which expects unknown[]
-            const sanitizedLoadedPlans = sanitizePlans(parsedPlans);
+            const sanitizedLoadedPlans = sanitizePlans(event.plans, event.userInput?.currency || 'NIS');
             console.log('Sanitization complete.');
 
             // Update state with the sanitized plans and user input
             setPlans(sanitizedLoadedPlans);
-            setUserInput(parsedUserInput);
-            setSelectedPlanId(null); // Reset any previous selection state
+            setUserInput(event.userInput);
+            setGuestCount(getEventHeadcount(event).total);
+            setSelectedPlanId(event.chosenPlanId ?? null); // Restore the chosen plan, if any
 
         } catch (err) {
-            // Handle errors during parsing or sanitization
-            console.error('Error processing stored data:', err);
-            setError(`Failed to load plan data. ${err instanceof Error ? err.message : 'Data might be corrupted.'}`);
-            // Clear potentially corrupted data from localStorage
-            localStorage.removeItem('generatedPlans');
-            localStorage.removeItem('userInput');
+            // Handle errors during loading or sanitization
+            console.error('Error processing stored event data:', err);
+            setError(`${t('results.loadError')} ${err instanceof Error ? err.message : t('results.maybeCorrupted')}`);
         } finally {
             // Ensure loading state is turned off
             setIsLoading(false);
         }
         // navigate is included in dependency array as it's used conditionally
-    }, [navigate]);
+    }, [eventId, navigate, t]);
 
     /**
      * Navigates to the detail page for the selected plan.
@@ -177,53 +107,129 @@ export default function Results() {
             return;
         }
         console.log(`Navigating to plan detail for ID: ${planId}`);
-        // Navigate to the dynamic route for plan details
-        navigate(`/plan/${planId}`);
+        // Navigate to the dynamic route for plan details within this event
+        navigate(`/events/${eventId}/plan/${planId}`);
+    };
+
+    /**
+     * Saves a plan as the event's chosen plan.
+     * @param planId - The ID of the winning plan.
+     */
+    const handleChoosePlan = (planId: string) => {
+        if (!eventId) return;
+        try {
+            setChosenPlan(eventId, planId);
+            setSelectedPlanId(planId);
+        } catch (err) {
+            console.error('Error saving the chosen plan:', err);
+            setError(t('results.chooseError'));
+        }
+    };
+
+    /**
+     * Saves a custom plan built from sections of the other plans and opens it.
+     * @param plan - The new custom plan.
+     */
+    const handleSaveCompositePlan = (plan: BirthdayPlan) => {
+        if (!eventId) return;
+        try {
+            addPlanToEvent(eventId, plan);
+            setPlans(prev => [...prev, plan]);
+            setIsCompositeModalOpen(false);
+            navigate(`/events/${eventId}/plan/${plan.id}`);
+        } catch (err) {
+            console.error('Error saving the custom plan:', err);
+            setIsCompositeModalOpen(false);
+            setError(t('results.saveCustomError'));
+        }
     };
 
     // --- Render Logic ---
 
     // Display loading state
     if (isLoading) {
-        return ( <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4"><div className="text-center"><div className="inline-block animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500 mb-4"></div><p className="text-lg text-gray-600">Loading plans...</p></div></div> );
+        return ( <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4"><div className="text-center"><div className="inline-block animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500 mb-4"></div><p className="text-lg text-gray-600">{t('results.loading')}</p></div></div> );
     }
 
     // Display error state
     if (error) {
-        return ( <div className="min-h-screen bg-red-50 flex items-center justify-center p-4"><div className="text-center bg-white p-8 rounded-lg shadow-xl max-w-md border border-red-200"><h2 className="text-2xl font-semibold text-red-600 mb-4">Loading Error</h2><p className="text-gray-700 mb-6">{error}</p><button onClick={() => { setError(null); navigate('/'); }} className="px-6 py-2 bg-red-500 text-white font-medium rounded-md hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-opacity-50 transition duration-150 ease-in-out" > Start Over </button></div></div> );
+        return ( <div className="min-h-screen bg-red-50 flex items-center justify-center p-4"><div className="text-center bg-white p-8 rounded-lg shadow-xl max-w-md border border-red-200"><h2 className="text-2xl font-semibold text-red-600 mb-4">{t('common.loadingError')}</h2><p className="text-gray-700 mb-6">{error}</p><button onClick={() => { setError(null); navigate('/events'); }} className="px-6 py-2 bg-red-500 text-white font-medium rounded-md hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-opacity-50 transition duration-150 ease-in-out" > {t('common.backToEvents')} </button></div></div> );
     }
 
     // Display main results view
     return (
         <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
             <div className="max-w-7xl mx-auto">
+                {/* Back Button to the events dashboard */}
+                <button
+                    onClick={() => navigate('/events')}
+                    className="mb-6 px-4 py-2 bg-white text-gray-800 text-sm font-medium rounded-md shadow-sm hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition duration-150 ease-in-out"
+                    aria-label={t('common.backToEvents')}
+                >
+                    {t('common.myEventsBack')}
+                </button>
+
                 {/* Page Header */}
                 <header className="text-center mb-10">
-                    <h1 className="text-4xl font-bold text-gray-900 tracking-tight sm:text-5xl">Your Generated Plans</h1>
+                    <h1 className="text-4xl font-bold text-gray-900 tracking-tight sm:text-5xl">{t('results.title')}</h1>
                     {/* Display context from user input if available */}
                     {userInput?.birthdayPersonName && userInput?.theme && (
                         <p className="mt-4 text-xl text-gray-600">
-                            For <span className="font-semibold text-indigo-700">{userInput.birthdayPersonName}</span>'s <span className="font-medium">{userInput.theme}</span> themed party!
+                            {t('results.subtitle', { name: userInput.birthdayPersonName, theme: userInput.theme })}
                         </p>
                     )}
-                    <p className="mt-2 text-md text-gray-500">Select a plan to view details and edit.</p>
+                    <p className="mt-2 text-md text-gray-500">{t('results.hint')}</p>
                 </header>
 
+                {/* Switch between the cards and the side-by-side comparison, and build a custom plan from their sections */}
+                {plans.length > 1 && (
+                    <div className="flex flex-wrap justify-center items-center gap-3 mb-6">
+                        <div className="inline-flex rounded-md shadow-sm" role="group">
+                            {(['cards', 'compare'] as const).map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setView(option)}
+                                    aria-pressed={view === option}
+                                    className={`px-4 py-2 text-sm font-medium border border-indigo-200 first:rounded-s-md last:rounded-e-md focus:outline-none focus:ring-2 focus:ring-indigo-400 ${view === option ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-700 hover:bg-indigo-50'}`}
+                                >
+                                    {t(`results.view.${option}`)}
+                                </button>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => setIsCompositeModalOpen(true)}
+                            className="px-4 py-2 text-sm font-medium rounded-md shadow-sm bg-amber-500 text-white hover:bg-amber-600 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                        >
+                            {t('results.mixAndMatch')}
+                        </button>
+                    </div>
+                )}
+
                 {/* Conditional rendering based on whether plans were loaded */}
                 {plans.length === 0 && !isLoading ? (
                     // Display message if no plans are available
                     <div className="text-center bg-white p-8 rounded-lg shadow-md max-w-md mx-auto border border-gray-200">
-                        <h2 className="text-xl font-semibold text-gray-700 mb-4">No Plans Available</h2>
+                        <h2 className="text-xl font-semibold text-gray-700 mb-4">{t('results.empty.title')}</h2>
                         <p className="text-gray-600 mb-6">
-                            No plans were found or generated successfully. Please go back and try again.
+                            {t('results.empty.body')}
                         </p>
                         <button
                             onClick={() => navigate('/')} // Button to navigate back home
                             className="px-6 py-2 bg-blue-500 text-white font-medium rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-opacity-50 transition duration-150 ease-in-out"
                         >
-                            Start Over
+                            {t('results.startOver')}
                         </button>
                     </div>
+                ) : view === 'compare' ? (
+                    // Display the plans side by side
+                    <PlanComparison
+                        plans={plans}
+                        userInput={userInput}
+                        guestCount={guestCount ?? (userInput?.guestCountAdults || 0) + (userInput?.guestCountChildren || 0)}
+                        chosenPlanId={selectedPlanId}
+                        onChoose={handleChoosePlan}
+                        onView={handleNavigateToDetail}
+                    />
                 ) : (
                     // Display grid of Plan Cards if plans are available
                     <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-3">
@@ -233,8 +239,10 @@ export default function Results() {
                             plan && plan.id ? (
                                 <PlanCard
                                     key={plan.id}
-                                    plan={plan} // Pass the plan data (ExtendedBirthdayPlan is compatible with BirthdayPlan)
-                                    isSelected={plan.id === selectedPlanId} // Pass selection state (currently unused)
+                                    plan={plan} // Pass the plan data
+                                    isSelected={plan.id === selectedPlanId} // Highlights the chosen plan
+                                    userInput={userInput} // Pass user input for the budget comparison
+                                    guestCount={guestCount} // Confirmed guests feed into per-person costs
                                     // Pass the navigation handler, ensuring plan.id is valid
                                     onSelect={() => handleNavigateToDetail(plan.id)}
                                 />
@@ -243,11 +251,19 @@ export default function Results() {
                     </div>
                 )}
             </div>
+            {/* Mix & match builder */}
+            <CompositePlanModal
+                isOpen={isCompositeModalOpen}
+                onClose={() => setIsCompositeModalOpen(false)}
+                plans={plans}
+                userInput={userInput}
+                onSave={handleSaveCompositePlan}
+            />
             {/* Optional Error Snackbar (for non-critical errors) */}
             {error && !isLoading && ( // Re-check condition if error state is used differently now
-                <div className="fixed bottom-4 right-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-lg z-50 flex items-center" role="alert">
+                <div className="fixed bottom-4 end-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-lg z-50 flex items-center" role="alert">
                     <span className="block sm:inline">{error}</span>
-                    <button onClick={() => setError(null)} className="ml-4 text-red-500 hover:text-red-700">
+                    <button onClick={() => setError(null)} className="ms-4 text-red-500 hover:text-red-700">
                         <span className="text-2xl">&times;</span> {/* Close icon */}
                     </button>
                 </div>
@@ -0,0 +1,152 @@
+// src/pages/Rsvp.tsx
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import type { FormEvent } from 'react';
+import type { RsvpAttendance, RsvpPage } from '../types';
+import { getRsvpPage, submitRsvp } from '../utils/api';
+import { useTranslation } from '../i18n/I18nContext';
+
+const ATTENDANCE_OPTIONS: RsvpAttendance[] = ['yes', 'maybe', 'no'];
+
+/**
+ * RSVP Page Component
+ * The public page guests open from the invitation link (/rsvp/:token). It shows the invitation and collects
+ * the guest's reply: attendance, how many adults and children are coming, and dietary notes.
+ * It reads and writes only through the RSVP actions of the Netlify function, never the host's local data.
+ */
+export default function Rsvp() {
+    const { token } = useParams<{ token: string }>();
+    const { t, locale } = useTranslation();
+
+    const [page, setPage] = useState<RsvpPage | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    // Form state
+    const [name, setName] = useState('');
+    const [attendance, setAttendance] = useState<RsvpAttendance>('yes');
+    const [adults, setAdults] = useState(1);
+    const [children, setChildren] = useState(0);
+    const [dietaryNotes, setDietaryNotes] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+    const [submitted, setSubmitted] = useState(false);
+
+    // Load the published invitation
+    useEffect(() => {
+        let cancelled = false;
+        setLoadError(null);
+        if (!token) {
+            setLoadError(t('rsvp.notFound'));
+            return;
+        }
+        getRsvpPage(token)
+            .then(result => { if (!cancelled) setPage(result.page); })
+            .catch(err => {
+                console.error("Rsvp: Error loading the RSVP page:", err);
+                if (!cancelled) setLoadError(t('rsvp.notFound'));
+            });
+        return () => { cancelled = true; };
+    }, [token, t]);
+
+    /** Sends the reply; a guest can send it again under the same name to change it. */
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!token || !name.trim()) return;
+        setIsSubmitting(true);
+        setSubmitError(null);
+        try {
+            const attending = attendance !== 'no';
+            await submitRsvp(token, { name: name.trim(), attendance, adults: attending ? adults : 0, children: attending ? children : 0, dietaryNotes: dietaryNotes.trim() });
+            setSubmitted(true);
+        } catch (err) {
+            console.error("Rsvp: Error sending the reply:", err);
+            setSubmitError(t('rsvp.submitError'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (loadError) {
+        return <div className="p-6 text-center text-gray-600">{loadError}</div>;
+    }
+    if (!page) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-600">{t('rsvp.loading')}</div>;
+    }
+
+    const eventDate = new Date(`${page.date}T00:00:00`);
+    const when = [
+        isNaN(eventDate.getTime()) ? page.date : eventDate.toLocaleDateString(locale, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+        page.time,
+    ].filter(Boolean).join(' · ');
+    const inputClass = "block w-full p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+    // --- Render Component UI ---
+    return (
+        <div className="container mx-auto p-4 md:p-8 max-w-2xl space-y-6">
+            {/* The Invitation */}
+            <article className="bg-white border rounded-lg overflow-hidden shadow-sm">
+                {page.imageUrl && <img src={page.imageUrl} alt={t('rsvp.imageAlt', { name: page.title })} className="w-full h-auto object-contain max-h-[28rem] bg-gray-100" />}
+                <div className="p-4">
+                    <h1 className="text-2xl font-bold text-gray-800" dir="auto">{page.title}</h1>
+                    {when && <p className="text-sm text-gray-500 mb-3">{when}</p>}
+                    <p className="text-gray-800 whitespace-pre-line" dir="auto">{page.text}</p>
+                </div>
+            </article>
+
+            {/* The Reply */}
+            <section className="bg-white border rounded-lg shadow-sm p-4">
+                {submitted ? (
+                    <div className="text-center space-y-3">
+                        <h2 className="text-xl font-semibold text-gray-800">{attendance === 'no' ? t('rsvp.thanksDeclined') : t('rsvp.thanks')}</h2>
+                        <p className="text-sm text-gray-600">{t('rsvp.thanksHint')}</p>
+                        <button onClick={() => setSubmitted(false)} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">{t('rsvp.changeReply')}</button>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <h2 className="text-xl font-semibold text-gray-800">{t('rsvp.title')}</h2>
+                        <div>
+                            <label htmlFor="rsvpName" className="block text-sm font-medium text-gray-700 mb-1">{t('rsvp.name')}</label>
+                            <input id="rsvpName" value={name} onChange={(e) => setName(e.target.value)} required maxLength={100} dir="auto" className={inputClass} />
+                        </div>
+                        <fieldset>
+                            <legend className="block text-sm font-medium text-gray-700 mb-1">{t('rsvp.attendance')}</legend>
+                            <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                                {ATTENDANCE_OPTIONS.map(option => (
+                                    <label key={option} className="flex items-center gap-1.5">
+                                        <input type="radio" name="attendance" checked={attendance === option} onChange={() => setAttendance(option)} />
+                                        {t(`rsvp.attendance.${option}`)}
+                                    </label>
+                                ))}
+                            </div>
+                        </fieldset>
+                        {attendance !== 'no' && (
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="rsvpAdults" className="block text-sm font-medium text-gray-700 mb-1">{t('rsvp.adults')}</label>
+                                    <input id="rsvpAdults" type="number" min={0} max={20} value={adults} onChange={(e) => setAdults(Math.max(0, parseInt(e.target.value, 10) || 0))} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label htmlFor="rsvpChildren" className="block text-sm font-medium text-gray-700 mb-1">{t('rsvp.children')}</label>
+                                    <input id="rsvpChildren" type="number" min={0} max={20} value={children} onChange={(e) => setChildren(Math.max(0, parseInt(e.target.value, 10) || 0))} className={inputClass} />
+                                </div>
+                            </div>
+                        )}
+                        <div>
+                            <label htmlFor="rsvpDietary" className="block text-sm font-medium text-gray-700 mb-1">{t('rsvp.dietaryNotes')}</label>
+                            <textarea id="rsvpDietary" value={dietaryNotes} onChange={(e) => setDietaryNotes(e.target.value)} rows={2} maxLength={500} dir="auto" placeholder={t('rsvp.dietaryPlaceholder')} className={inputClass} />
+                        </div>
+                        {submitError && <p className="text-red-500 text-sm">{submitError}</p>}
+                        <div className="flex justify-end">
+                            <button
+                                type="submit"
+                                disabled={isSubmitting || !name.trim() || (attendance !== 'no' && adults + children === 0)}
+                                className="px-6 py-2 bg-teal-600 text-white font-semibold rounded-md shadow hover:bg-teal-700 disabled:bg-teal-300 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-400 focus:ring-opacity-50"
+                            >
+                                {isSubmitting ? t('rsvp.sending') : t('rsvp.send')}
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </section>
+        </div>
+    );
+}
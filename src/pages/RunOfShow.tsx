@@ -0,0 +1,221 @@
+// src/pages/RunOfShow.tsx
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import type { BirthdayPlan, RunOfShowState } from '../types';
+import { getEvent } from '../utils/eventStore';
+import { repairPlan } from '../schema/plan';
+import { formatClockTime } from '../utils/scheduleTime';
+import { formatDuration } from '../utils/timeline';
+import {
+    buildRunOfShow,
+    createRunOfShowState,
+    findCurrentAndNext,
+    formatCountdown,
+    getRunOfShow,
+    pushRemaining,
+    saveRunOfShow,
+    toggleCompleted,
+} from '../utils/runOfShow';
+import { useTranslation } from '../i18n/I18nContext';
+
+// Delay choices for pushing the rest of the schedule back, in minutes
+const PUSH_OPTIONS = [5, 10, 15, 30];
+
+/** Returns the current time of day in minutes since midnight, including seconds as a fraction. */
+const getNowMinutes = (now: Date) => now.getHours() * 60 + now.getMinutes() + now.getSeconds() / 60;
+
+/**
+ * RunOfShow Page Component
+ * Day-of view of a plan's schedule for the host's phone: highlights the current and next activity,
+ * counts down to each transition, and lets the host mark items done or push the rest of the schedule back.
+ * Everything is read from and saved to local storage, so it keeps working offline once loaded.
+ */
+export default function RunOfShow() {
+    const { eventId, planId } = useParams<{ eventId: string; planId: string }>();
+    const navigate = useNavigate();
+    const { t, locale } = useTranslation();
+
+    const [plan, setPlan] = useState<BirthdayPlan | null>(null);
+    const [state, setState] = useState<RunOfShowState>(() => createRunOfShowState());
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [now, setNow] = useState<Date>(() => new Date()); // Ticks every second to drive the countdowns
+    const [pushMinutes, setPushMinutes] = useState<number>(PUSH_OPTIONS[1]);
+
+    // Load the plan and its saved day-of progress
+    useEffect(() => {
+        setLoadError(null);
+        if (!eventId || !planId) {
+            setLoadError(t('planDetail.missingIds'));
+            return;
+        }
+        try {
+            const event = getEvent(eventId);
+            if (!event) throw new Error(t('common.eventNotFound', { id: eventId }));
+            const storedPlan = event.plans.find(p => p.id === planId);
+            if (!storedPlan) throw new Error(t('planDetail.planNotFound', { id: planId }));
+            const repairedPlan = repairPlan(storedPlan, { currency: event.userInput?.currency || 'NIS', id: planId });
+            setPlan(repairedPlan);
+            setState(getRunOfShow(event, planId, repairedPlan.schedule));
+        } catch (err) {
+            console.error("RunOfShow: Error loading plan:", err);
+            setLoadError(err instanceof Error ? err.message : t('planDetail.loadError'));
+        }
+    }, [eventId, planId, t]);
+
+    // Clock tick for the countdowns
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(new Date()), 1000);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    // Keep the phone screen on while the run of show is open (where supported)
+    useEffect(() => {
+        let wakeLock: WakeLockSentinel | null = null;
+        const requestWakeLock = async () => {
+            try {
+                if ('wakeLock' in navigator && document.visibilityState === 'visible') wakeLock = await navigator.wakeLock.request('screen');
+            } catch (err) {
+                console.warn("RunOfShow: Screen wake lock unavailable:", err);
+            }
+        };
+        requestWakeLock();
+        // The lock is released when the page is hidden, so request it again when the host comes back
+        document.addEventListener('visibilitychange', requestWakeLock);
+        return () => {
+            document.removeEventListener('visibilitychange', requestWakeLock);
+            wakeLock?.release().catch(() => undefined);
+        };
+    }, []);
+
+    const entries = useMemo(() => (plan ? buildRunOfShow(plan.schedule, state) : []), [plan, state]);
+    const nowMinutes = getNowMinutes(now);
+    const { current, next } = findCurrentAndNext(entries, nowMinutes);
+
+    /** Updates the run of show and saves it right away. */
+    const updateState = (updated: RunOfShowState) => {
+        setState(updated);
+        setSaveError(null);
+        try {
+            if (!eventId || !planId) throw new Error("No event or plan ID available for saving.");
+            saveRunOfShow(eventId, planId, updated);
+        } catch (err) {
+            console.error("RunOfShow: Error saving progress:", err);
+            setSaveError(t('runOfShow.saveError'));
+        }
+    };
+
+    /** Pushes the current (or next) activity and everything after it back by the chosen delay. */
+    const handlePushRemaining = () => {
+        const from = current ?? next;
+        if (!from) return;
+        updateState(pushRemaining(state, entries, from.index, pushMinutes));
+    };
+
+    /** Clears all done marks and delays after confirmation. */
+    const handleReset = () => {
+        if (!window.confirm(t('runOfShow.confirmReset'))) return;
+        updateState(createRunOfShowState(plan?.schedule));
+    };
+
+    if (loadError) {
+        return <div className="p-6 text-center text-red-600">{t('common.errorPrefix')} {loadError}</div>;
+    }
+    if (!plan) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-600">{t('runOfShow.loading')}</div>;
+    }
+
+    const unscheduledCount = plan.schedule.length - entries.length;
+    const allDone = entries.length > 0 && entries.every(entry => entry.isDone);
+
+    // --- Render Component UI ---
+    return (
+        <div className="min-h-screen bg-gray-900 text-gray-100 p-4 max-w-xl mx-auto">
+            {/* Header */}
+            <header className="flex justify-between items-start mb-4">
+                <div>
+                    <p className="text-xs uppercase tracking-wide text-gray-400">{t('runOfShow.title')}</p>
+                    <h1 className="text-xl font-bold">{plan.name}</h1>
+                </div>
+                <div className="text-end">
+                    <p className="text-2xl font-mono">{now.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}</p>
+                    <button onClick={() => navigate(`/events/${eventId}/plan/${planId}`)} className="text-xs text-indigo-300 hover:underline">{t('runOfShow.backToPlan')}</button>
+                </div>
+            </header>
+
+            {saveError && <p className="mb-3 p-2 text-sm bg-red-900 text-red-100 rounded">{saveError}</p>}
+
+            {entries.length === 0 ? (
+                <p className="text-gray-400 italic">{t('runOfShow.empty')}</p>
+            ) : (
+                <>
+                    {/* Now / Next */}
+                    <section className="space-y-3 mb-6">
+                        <div className={`p-4 rounded-lg ${current ? (nowMinutes > current.end ? 'bg-red-800' : 'bg-green-800') : 'bg-gray-800'}`}>
+                            <p className="text-xs uppercase tracking-wide opacity-75">{t('runOfShow.now')}</p>
+                            {current ? (
+                                <>
+                                    <p className="text-2xl font-bold">{current.item.activity}</p>
+                                    {current.item.description && <p className="text-sm opacity-80">{current.item.description}</p>}
+                                    <p className="mt-2 text-lg font-mono">
+                                        {nowMinutes <= current.end
+                                            ? t('runOfShow.endsIn', { time: formatCountdown((current.end - nowMinutes) * 60) })
+                                            : t('runOfShow.runningOver', { time: formatCountdown((nowMinutes - current.end) * 60) })}
+                                    </p>
+                                    <button onClick={() => updateState(toggleCompleted(state, current.index))} className="mt-3 w-full py-3 bg-white text-gray-900 font-semibold rounded-md">
+                                        {t('runOfShow.markDone')}
+                                    </button>
+                                </>
+                            ) : (
+                                <p className="text-lg">{allDone ? t('runOfShow.allDone') : t('runOfShow.nothingRunning')}</p>
+                            )}
+                        </div>
+                        {next && (
+                            <div className="p-4 rounded-lg bg-gray-800">
+                                <p className="text-xs uppercase tracking-wide opacity-75">{t('runOfShow.next', { time: formatClockTime(next.start) })}</p>
+                                <p className="text-xl font-semibold">{next.item.activity}</p>
+                                <p className="mt-1 font-mono text-indigo-300">
+                                    {next.start > nowMinutes ? t('runOfShow.startsIn', { time: formatCountdown((next.start - nowMinutes) * 60) }) : t('runOfShow.readyToStart')}
+                                </p>
+                            </div>
+                        )}
+                    </section>
+
+                    {/* Push remaining items */}
+                    {(current || next) && (
+                        <section className="flex items-center gap-2 mb-6">
+                            <span className="text-sm text-gray-300">{t('runOfShow.runningLate')}</span>
+                            <select value={pushMinutes} onChange={(e) => setPushMinutes(Number(e.target.value))} className="bg-gray-800 border border-gray-600 rounded-md px-2 py-2 text-sm" aria-label={t('runOfShow.pushAria')}>
+                                {PUSH_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{t('runOfShow.minutes', { minutes })}</option>)}
+                            </select>
+                            <button onClick={handlePushRemaining} className="flex-grow py-2 bg-yellow-500 text-gray-900 text-sm font-semibold rounded-md">
+                                {t('runOfShow.push')}
+                            </button>
+                        </section>
+                    )}
+
+                    {/* Full schedule */}
+                    <section>
+                        <h2 className="text-sm uppercase tracking-wide text-gray-400 mb-2">{t('runOfShow.schedule')}</h2>
+                        <ul className="space-y-2">
+                            {entries.map(entry => (
+                                <li key={entry.index} className={`flex items-center gap-3 p-3 rounded-md ${entry === current ? 'bg-green-900' : entry === next ? 'bg-gray-700' : 'bg-gray-800'} ${entry.isDone ? 'opacity-50' : ''}`}>
+                                    <input type="checkbox" checked={entry.isDone} onChange={() => updateState(toggleCompleted(state, entry.index))} className="h-5 w-5 flex-shrink-0" aria-label={t('runOfShow.markDoneAria', { activity: entry.item.activity })} />
+                                    <div className="flex-grow min-w-0">
+                                        <p className={`font-medium ${entry.isDone ? 'line-through' : ''}`}>{entry.item.activity}</p>
+                                        <p className="text-xs text-gray-400">
+                                            {formatClockTime(entry.start)} – {formatClockTime(entry.end)} · {formatDuration(entry.end - entry.start)}
+                                            {entry.shift !== 0 && <span className="ms-2 text-yellow-400">{t('runOfShow.pushed', { shift: `${entry.shift > 0 ? '+' : ''}${entry.shift}` })}</span>}
+                                        </p>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                        {unscheduledCount > 0 && <p className="mt-2 text-xs text-gray-500">{t(unscheduledCount === 1 ? 'runOfShow.unscheduled.one' : 'runOfShow.unscheduled.other', { count: unscheduledCount })}</p>}
+                        <button onClick={handleReset} className="mt-6 text-xs text-gray-400 hover:text-gray-200 underline">{t('runOfShow.reset')}</button>
+                    </section>
+                </>
+            )}
+        </div>
+    );
+}
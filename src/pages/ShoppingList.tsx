@@ -0,0 +1,211 @@
+// src/pages/ShoppingList.tsx
+import { useState, useEffect, useMemo } from 'react';
+import type { FormEvent } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import type { BirthdayPlan, PartyEvent, ShoppingCategory, ShoppingItem, ShoppingListState } from '../types';
+import { getEvent } from '../utils/eventStore';
+import { repairPlan } from '../schema/plan';
+import { getEventHeadcount } from '../utils/guests';
+import { analyzeSchedule } from '../utils/timeline';
+import { downloadTextFile, toFileName } from '../utils/download';
+import {
+    SHOPPING_CATEGORIES,
+    SHOPPING_CATEGORY_LABELS,
+    addCustomShoppingItem,
+    buildShoppingList,
+    createShoppingItem,
+    formatShoppingListCsv,
+    formatShoppingListText,
+    formatShoppingQuantity,
+    getShoppingListState,
+    groupShoppingItems,
+    saveShoppingListState,
+} from '../utils/shoppingList';
+import { useTranslation } from '../i18n/I18nContext';
+
+/**
+ * ShoppingList Page Component
+ * Checklist of everything to buy for a plan, built from its menu, party favors, photo-booth props and tableware
+ * and scaled to the guest counts. Items can be checked off, custom items added, and the list exported.
+ */
+export default function ShoppingList() {
+    const { eventId, planId } = useParams<{ eventId: string; planId: string }>();
+    const navigate = useNavigate();
+    const { t, language } = useTranslation();
+
+    const [event, setEvent] = useState<PartyEvent | null>(null);
+    const [plan, setPlan] = useState<BirthdayPlan | null>(null);
+    const [state, setState] = useState<ShoppingListState>({ checked: [], customItems: [] });
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    // New custom item form state
+    const [newItem, setNewItem] = useState<ShoppingItem>(() => createShoppingItem());
+
+    // Load the plan and the saved checks and custom items
+    useEffect(() => {
+        setLoadError(null); setSaveError(null);
+        if (!eventId || !planId) {
+            setLoadError(t('planDetail.missingIds'));
+            return;
+        }
+        try {
+            const storedEvent = getEvent(eventId);
+            if (!storedEvent) throw new Error(t('common.eventNotFound', { id: eventId }));
+            const storedPlan = storedEvent.plans.find(p => p.id === planId);
+            if (!storedPlan) throw new Error(t('planDetail.planNotFound', { id: planId }));
+            setEvent(storedEvent);
+            setPlan(repairPlan(storedPlan, { currency: storedEvent.userInput?.currency || 'NIS', id: planId }));
+            setState(getShoppingListState(storedEvent, planId));
+        } catch (err) {
+            console.error("ShoppingList: Error loading plan:", err);
+            setLoadError(err instanceof Error ? err.message : t('shopping.loadError'));
+        }
+    }, [eventId, planId, t]);
+
+    // Plan items are rebuilt from the current plan and guest list, followed by the user's own items
+    const items = useMemo(() => {
+        if (!event || !plan) return [];
+        const headcount = getEventHeadcount(event);
+        const planItems = buildShoppingList(plan, {
+            adults: headcount.adults,
+            children: headcount.children,
+            age: event.userInput?.age,
+            partyMinutes: analyzeSchedule(plan.schedule).totalMinutes || null,
+            language,
+        });
+        return [...planItems, ...state.customItems];
+    }, [event, plan, state.customItems, language]);
+    const groups = useMemo(() => groupShoppingItems(items), [items]);
+    const boughtCount = items.filter(item => state.checked.includes(item.id)).length;
+
+    /** Updates the shopping list state and saves it right away. */
+    const updateState = (updated: ShoppingListState) => {
+        setState(updated);
+        setSaveError(null);
+        try {
+            if (!eventId || !planId) throw new Error("No event or plan ID available for saving.");
+            saveShoppingListState(eventId, planId, updated);
+        } catch (err) {
+            console.error("ShoppingList: Error saving shopping list:", err);
+            setSaveError(t('shopping.saveError'));
+        }
+    };
+
+    const handleToggle = (id: string) => {
+        const checked = state.checked.includes(id) ? state.checked.filter(itemId => itemId !== id) : [...state.checked, id];
+        updateState({ ...state, checked });
+    };
+
+    /** Adds the custom item from the form and resets it, keeping the category for adding similar items quickly. */
+    const handleAddItem = (e: FormEvent) => {
+        e.preventDefault();
+        if (!newItem.name.trim()) return;
+        updateState(addCustomShoppingItem(state, { ...newItem, name: newItem.name.trim(), unit: newItem.unit.trim() }));
+        setNewItem(createShoppingItem({ category: newItem.category }));
+    };
+
+    const handleRemoveItem = (id: string) => {
+        updateState({ checked: state.checked.filter(itemId => itemId !== id), customItems: state.customItems.filter(item => item.id !== id) });
+    };
+
+    const handleExportText = () => {
+        if (!plan) return;
+        downloadTextFile(`${toFileName(plan.name)}-shopping-list.txt`, formatShoppingListText(t('shopping.exportTitle', { name: plan.name }), items, state.checked, language), 'text/plain;charset=utf-8');
+    };
+
+    const handleExportCsv = () => {
+        if (!plan) return;
+        downloadTextFile(`${toFileName(plan.name)}-shopping-list.csv`, formatShoppingListCsv(items, state.checked, language), 'text/csv;charset=utf-8');
+    };
+
+    if (loadError) {
+        return <div className="p-6 text-center text-red-600">{t('common.errorPrefix')} {loadError}</div>;
+    }
+    if (!event || !plan) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-600">{t('shopping.loading')}</div>;
+    }
+
+    const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+    // --- Render Component UI ---
+    return (
+        <div className="container mx-auto p-4 md:p-8 max-w-3xl">
+            {/* Page Header */}
+            <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-800">{t('shopping.title')}</h1>
+                    <p className="mt-1 text-gray-600">{plan.name} · {t('shopping.boughtCount', { bought: boughtCount, total: items.length })}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={handleExportText} disabled={items.length === 0} className="px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-md shadow-sm border border-indigo-200 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed">
+                        {t('shopping.exportText')}
+                    </button>
+                    <button onClick={handleExportCsv} disabled={items.length === 0} className="px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-md shadow-sm border border-indigo-200 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed">
+                        {t('shopping.exportCsv')}
+                    </button>
+                    <button onClick={() => navigate(`/events/${event.id}/plan/${plan.id}`)} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2">
+                        {t('shopping.backToPlan')}
+                    </button>
+                </div>
+            </header>
+
+            {saveError && <p className="text-red-500 text-sm mb-3">{saveError}</p>}
+
+            {/* Add Custom Item Form */}
+            <form onSubmit={handleAddItem} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end mb-6 p-3 bg-gray-50 border border-gray-200 rounded-md">
+                <div className="col-span-2">
+                    <label htmlFor="new-item-name" className="block text-xs font-medium text-gray-600 mb-1">{t('shopping.item')}</label>
+                    <input id="new-item-name" type="text" value={newItem.name} onChange={(e) => setNewItem({ ...newItem, name: e.target.value })} placeholder={t('shopping.item.placeholder')} className={inputClass} required />
+                </div>
+                <div>
+                    <label htmlFor="new-item-quantity" className="block text-xs font-medium text-gray-600 mb-1">{t('shopping.quantity')}</label>
+                    <input id="new-item-quantity" type="number" min="0" step="any" value={newItem.quantity} onChange={(e) => setNewItem({ ...newItem, quantity: Math.max(0, Number(e.target.value) || 0) })} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="new-item-unit" className="block text-xs font-medium text-gray-600 mb-1">{t('shopping.unit')}</label>
+                    <input id="new-item-unit" type="text" value={newItem.unit} onChange={(e) => setNewItem({ ...newItem, unit: e.target.value })} placeholder={t('shopping.unit.placeholder')} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="new-item-category" className="block text-xs font-medium text-gray-600 mb-1">{t('shopping.section')}</label>
+                    <select id="new-item-category" value={newItem.category} onChange={(e) => setNewItem({ ...newItem, category: e.target.value as ShoppingCategory })} className={inputClass}>
+                        {SHOPPING_CATEGORIES.map(category => <option key={category} value={category}>{t(SHOPPING_CATEGORY_LABELS[category])}</option>)}
+                    </select>
+                </div>
+                <button type="submit" className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2">
+                    {t('shopping.add')}
+                </button>
+            </form>
+
+            {/* Items grouped by store section */}
+            {groups.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">{t('shopping.empty')}</p>
+            ) : (
+                <div className="space-y-4">
+                    {groups.map(group => (
+                        <section key={group.category} className="p-4 border border-gray-200 rounded-lg shadow-sm bg-white">
+                            <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-600 mb-2">{t(SHOPPING_CATEGORY_LABELS[group.category])}</h2>
+                            <ul className="divide-y divide-gray-100">
+                                {group.items.map(item => {
+                                    const isChecked = state.checked.includes(item.id);
+                                    return (
+                                        <li key={item.id} className="flex items-center gap-3 py-2">
+                                            <input id={`shopping-${item.id}`} type="checkbox" checked={isChecked} onChange={() => handleToggle(item.id)} className="h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                            <label htmlFor={`shopping-${item.id}`} className={`flex-grow text-sm ${isChecked ? 'line-through text-gray-400' : 'text-gray-800'}`}>
+                                                {item.name}
+                                            </label>
+                                            <span className="text-sm text-gray-600 whitespace-nowrap">{formatShoppingQuantity(item, language)}</span>
+                                            {item.source === 'custom' && (
+                                                <button onClick={() => handleRemoveItem(item.id)} className="text-red-500 hover:text-red-700 text-xs font-medium px-2 py-1" aria-label={t('shopping.removeAria', { name: item.name })}>{t('common.remove')}</button>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </section>
+                    ))}
+                </div>
+            )}
+            <p className="mt-4 text-xs text-gray-400">{t('shopping.note')}</p>
+        </div>
+    );
+}
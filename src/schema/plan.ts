@@ -0,0 +1,339 @@
+// src/schema/plan.ts
+// Single source of truth for the BirthdayPlan shape. It produces:
+//   - the TypeScript types (re-exported from src/types),
+//   - the OpenAI tool JSON schema (toJsonSchema),
+//   - the runtime validator and repair function used by the frontend and the openai-proxy function.
+// Shared with the Netlify Function (bundled by esbuild), so keep this module free of browser APIs.
+import { z } from 'zod';
+import { normalizeCostEstimate, parseCostText } from '../utils/cost';
+import { createId } from '../utils/ids';
+import { formatTimeRange, getItemTimes, toTimeOfDay } from '../utils/scheduleTime';
+
+// --- Schema annotations ---
+// Extra behavior attached to individual schema nodes, read by toJsonSchema and repairPlan.
+
+/** Context passed to custom repair functions. */
+interface RepairContext {
+    currency: string; // Budget currency, assumed for costs that don't name one
+}
+
+interface SchemaAnnotation {
+    aliases?: Record<string, string[]>; // Objects: alternative keys accepted for a field (e.g., schedule 'details' -> 'description')
+    repair?: (value: unknown, parent: Record<string, unknown>, ctx: RepairContext) => unknown; // Custom repair, given the raw parent object
+    legacy?: boolean; // Not generated by the AI (e.g., legacy fields kept for stored plans); left out of the AI tool schema
+    derived?: boolean; // Computed from other fields during repair; left out of the AI tool schema
+    requiredForAI?: boolean; // Optional in stored plans, but the AI must always provide it
+}
+
+const annotations = new WeakMap<z.ZodTypeAny, SchemaAnnotation>();
+
+/** Attaches an annotation to a schema node and returns the node (so it can be used inline). */
+function annotate<T extends z.ZodTypeAny>(schema: T, annotation: SchemaAnnotation): T {
+    annotations.set(schema, { ...annotations.get(schema), ...annotation });
+    return schema;
+}
+
+const stringList = () => z.array(z.string());
+
+// --- Plan Schemas ---
+
+export const costBasisSchema = z.enum(['flat', 'per-person']).describe("'flat' for a total price, 'per-person' if charged per guest.");
+
+export const costEstimateSchema = z.object({
+    min: z.number().describe('Lower end of the estimate.'),
+    max: z.number().describe('Upper end of the estimate.'),
+    currency: z.string().describe("Currency code, matching the user's budget currency when possible (e.g., NIS, USD, EUR)."),
+    basis: costBasisSchema,
+}).describe('Numeric cost estimate. Use a single amount for both min and max if there is no range.');
+
+/** Builds the optional structured cost field, falling back to parsing the legacy free-text field. */
+const costField = (legacyKey: string) => annotate(costEstimateSchema.optional(), {
+    requiredForAI: true,
+    repair: (value, parent, ctx) =>
+        normalizeCostEstimate(value, ctx.currency) ?? parseCostText(typeof parent[legacyKey] === 'string' ? parent[legacyKey] : undefined, ctx.currency) ?? undefined,
+});
+
+/** Builds the legacy free-text cost field (older AI responses sometimes put the text in 'cost'). */
+const legacyCostText = (description: string) => annotate(z.string().optional().describe(description), {
+    legacy: true,
+    repair: (value, parent) => (typeof value === 'string' ? value : typeof parent.cost === 'string' ? parent.cost : undefined),
+});
+
+export const venueSchema = annotate(z.object({
+    name: z.string().default('Venue Name Missing'),
+    description: z.string().default(''),
+    cost: costField('costRange'),
+    costRange: legacyCostText('Legacy free-text range (e.g., "1000-1500 NIS").'),
+    amenities: stringList(),
+    suitability: z.string().default(''),
+    venueSearchSuggestions: stringList().optional().describe('Example search terms for finding similar venues.'),
+}), { aliases: { amenities: ['features'] } });
+
+/** Builds a structured 24-hour time field, parsed from the item's time text when missing (e.g., in older plans). */
+const timeOfDayField = (part: 'start' | 'end', description: string) => annotate(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe(description), {
+    requiredForAI: true,
+    repair: (_value, parent) => {
+        const minutes = getItemTimes(parent)?.[part];
+        return typeof minutes === 'number' ? toTimeOfDay(minutes) : undefined;
+    },
+});
+
+export const scheduleItemSchema = annotate(z.object({
+    time: annotate(z.string().default('').describe('e.g., "2:00 PM - 2:30 PM"'), {
+        // Build the display text from the structured times if it's missing
+        repair: (value, parent) => {
+            if (typeof value === 'string' && value.trim() !== '') return value;
+            const times = getItemTimes(parent);
+            return times ? formatTimeRange(times.start, times.end) : value;
+        },
+    }),
+    start: timeOfDayField('start', 'Start time in 24-hour "HH:MM" format (e.g., "14:00").'),
+    end: timeOfDayField('end', 'End time in 24-hour "HH:MM" format (e.g., "14:30").'),
+    durationMinutes: annotate(z.number().optional().describe('Length of the activity in minutes.'), {
+        derived: true,
+        repair: (_value, parent) => {
+            const times = getItemTimes(parent);
+            return times && times.end !== null ? times.end - times.start : undefined;
+        },
+    }),
+    activity: z.string().min(1),
+    description: z.string().optional().describe('Optional details about the activity.'),
+}), { aliases: { description: ['details'] } });
+
+export const cateringMenuSchema = annotate(z.object({
+    appetizers: stringList(),
+    mainCourses: stringList(),
+    desserts: z.string().default('').describe('Single string description (e.g., "Themed Birthday Cake, Fruit Platter").'),
+    beverages: stringList(),
+}), { aliases: { appetizers: ['starter'], mainCourses: ['mainCourse'], desserts: ['dessert'] } });
+
+// Allergens and diets used for the user's dietary restrictions and for tagging menu items
+export const ALLERGENS = ['nuts', 'peanuts', 'gluten', 'dairy', 'eggs', 'soy', 'fish', 'shellfish', 'sesame'] as const;
+export const DIETS = ['vegetarian', 'vegan', 'kosher', 'halal'] as const;
+
+export const menuItemTagSchema = z.object({
+    item: z.string().min(1).describe('The menu item, written exactly as in the menu.'),
+    allergens: z.array(z.enum(ALLERGENS)).describe('Allergens the item contains (empty if none).'),
+    diets: z.array(z.enum(DIETS)).describe('Diets the item is suitable for.'),
+});
+
+export const cateringSchema = annotate(z.object({
+    cost: costField('estimatedCost'),
+    estimatedCost: legacyCostText('Legacy free-text cost (e.g., "Approx. 800 NIS").'),
+    servingStyle: z.string().default('').describe('e.g., "Buffet", "Sit-down", "Food stations"'),
+    menu: annotate(cateringMenuSchema, {
+        // Some responses put beverages next to the menu instead of inside it
+        repair: (value, parent) => {
+            const menu = typeof value === 'object' && value !== null ? { ...(value as Record<string, unknown>) } : {};
+            if (!Array.isArray(menu.beverages) && Array.isArray(parent.beverages)) menu.beverages = parent.beverages;
+            return menu;
+        },
+    }),
+    menuTags: annotate(z.array(menuItemTagSchema).optional().describe('Allergen and diet tags for every menu item (each appetizer, main course, dessert and beverage).'), { requiredForAI: true }),
+    cateringSearchSuggestions: stringList().optional().describe('Example search terms for finding similar vendors.'),
+}), { aliases: { servingStyle: ['service'] } });
+
+export const guestEngagementSchema = annotate(z.object({
+    icebreakers: stringList(),
+    interactiveElements: stringList(),
+    photoOpportunities: stringList(),
+    partyFavors: stringList(),
+    techIntegration: stringList().optional(),
+    entertainmentSearchSuggestions: stringList().optional().describe('Example search terms for finding relevant vendors (e.g., entertainers).'),
+}), { aliases: { interactiveElements: ['activities'], entertainmentSearchSuggestions: ['entertainment'] } });
+
+// Whether a decoration piece is made by the hosts or bought (or rented) ready-made
+export const DECORATION_SOURCES = ['diy', 'buy'] as const;
+
+export const decorationPieceSchema = annotate(z.object({
+    item: z.string().min(1).describe('The decoration piece (e.g., "Balloon arch in the palette colors").'),
+    source: z.enum(DECORATION_SOURCES).default('buy').describe("'diy' if the hosts can make it themselves, 'buy' to buy or rent it ready-made."),
+    notes: z.string().default('').describe('How to make it, or what to look for when buying it.'),
+}), { aliases: { item: ['name'], notes: ['description'] } });
+
+export const decorationsSchema = annotate(z.object({
+    colorPalette: stringList().describe('3-5 colors that fit the theme (e.g., "Navy blue", "Gold").'),
+    keyPieces: annotate(z.array(decorationPieceSchema).describe('The main decoration pieces, each marked DIY or buy.'), {
+        // Some responses list the pieces as plain strings
+        repair: (value) => (Array.isArray(value) ? value.map(piece => (typeof piece === 'string' ? { item: piece } : piece)) : value),
+    }),
+    decorationSearchSuggestions: stringList().optional().describe('Example search terms for finding decoration shops or rentals.'),
+}), { aliases: { colorPalette: ['colors'], keyPieces: ['pieces'], decorationSearchSuggestions: ['searchSuggestions'] } });
+
+export const birthdayPlanSchema = z.object({
+    id: z.string().describe('Unique ID for the plan (use the ID given in the request).'),
+    name: z.string().default('Unnamed Plan').describe('Specific name for the birthday plan.'),
+    description: z.string().default('').describe('Concise description of the plan.'),
+    profile: z.string().describe('The profile category of the plan, exactly as requested (e.g., DIY/Budget).'),
+    date: annotate(z.string().optional().describe('The date for the party (YYYY-MM-DD format preferred).'), { requiredForAI: true }),
+    venue: venueSchema,
+    schedule: z.array(scheduleItemSchema),
+    catering: cateringSchema,
+    guestEngagement: guestEngagementSchema,
+    // Optional so plans saved before decorations were added stay valid
+    decorations: annotate(decorationsSchema.optional(), { requiredForAI: true }),
+    // Written by the optimizer itself, so it's not part of the plan generation schema
+    optimizationSummary: annotate(z.string().optional().describe('Summary of changes made by the budget optimizer.'), { legacy: true }),
+});
+
+// Plan sections that can be edited or regenerated on their own
+export const PLAN_SECTIONS = ['venue', 'schedule', 'catering', 'guestEngagement', 'decorations'] as const;
+
+// --- Inferred Types (re-exported from src/types) ---
+export type CostBasis = z.infer<typeof costBasisSchema>;
+export type CostEstimate = z.infer<typeof costEstimateSchema>;
+export type Venue = z.infer<typeof venueSchema>;
+export type ScheduleItem = z.infer<typeof scheduleItemSchema>;
+export type CateringMenu = z.infer<typeof cateringMenuSchema>;
+export type Catering = z.infer<typeof cateringSchema>;
+export type Allergen = typeof ALLERGENS[number];
+export type Diet = typeof DIETS[number];
+export type MenuItemTag = z.infer<typeof menuItemTagSchema>;
+export type GuestEngagement = z.infer<typeof guestEngagementSchema>;
+export type DecorationSource = typeof DECORATION_SOURCES[number];
+export type DecorationPiece = z.infer<typeof decorationPieceSchema>;
+export type Decorations = z.infer<typeof decorationsSchema>;
+export type BirthdayPlan = z.infer<typeof birthdayPlanSchema>;
+export type PlanSection = typeof PLAN_SECTIONS[number];
+
+// --- JSON Schema (for the OpenAI tool definition) ---
+
+type JsonSchema = Record<string, unknown>;
+
+/** Returns true if a field may be left out of the AI response. */
+function isOptionalForAI(schema: z.ZodTypeAny): boolean {
+    if (annotations.get(schema)?.requiredForAI) return false;
+    return schema instanceof z.ZodOptional;
+}
+
+/**
+ * Converts a plan schema node into a JSON schema for the OpenAI tool definition.
+ * Legacy fields are left out, and fields with defaults are still required (the AI should always fill them).
+ * @param schema - The zod schema node to convert.
+ * @returns The JSON schema object.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    const withDescription = (json: JsonSchema): JsonSchema => (schema.description ? { ...json, description: schema.description } : json);
+
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+        const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema.removeDefault();
+        return withDescription(toJsonSchema(inner));
+    }
+    if (schema instanceof z.ZodObject) {
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+        Object.entries(schema.shape as Record<string, z.ZodTypeAny>).forEach(([key, field]) => {
+            const annotation = annotations.get(field);
+            if (annotation?.legacy || annotation?.derived) return;
+            properties[key] = toJsonSchema(field);
+            if (!isOptionalForAI(field)) required.push(key);
+        });
+        return withDescription({ type: 'object', properties, required });
+    }
+    if (schema instanceof z.ZodArray) return withDescription({ type: 'array', items: toJsonSchema(schema.element) });
+    if (schema instanceof z.ZodEnum) return withDescription({ type: 'string', enum: [...schema.options] });
+    if (schema instanceof z.ZodString) return withDescription({ type: 'string' });
+    if (schema instanceof z.ZodNumber) return withDescription({ type: 'number' });
+    if (schema instanceof z.ZodBoolean) return withDescription({ type: 'boolean' });
+    throw new Error(`toJsonSchema: Unsupported schema type ${schema.constructor.name}`);
+}
+
+// --- Repair ---
+
+/** Marks a value that couldn't be repaired (the field is dropped, or the default is used). */
+const INVALID = Symbol('invalid');
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Recursively coerces a raw value into the shape of a schema node.
+ * Strings and numbers are converted where sensible, single strings become one-item lists,
+ * invalid list items are dropped and missing fields get their defaults.
+ */
+function repairValue(schema: z.ZodTypeAny, value: unknown, ctx: RepairContext): unknown {
+    if (schema instanceof z.ZodOptional) {
+        if (value === undefined || value === null) return undefined;
+        const repaired = repairValue(schema.unwrap(), value, ctx);
+        return repaired === INVALID ? undefined : repaired;
+    }
+    if (schema instanceof z.ZodDefault) {
+        const repaired = repairValue(schema.removeDefault(), value, ctx);
+        return repaired === INVALID ? schema._def.defaultValue() : repaired;
+    }
+    if (schema instanceof z.ZodObject) {
+        const raw = isRecord(value) ? value : {};
+        const { aliases = {} } = annotations.get(schema) ?? {};
+        const result: Record<string, unknown> = {};
+        Object.entries(schema.shape as Record<string, z.ZodTypeAny>).forEach(([key, field]) => {
+            // Use the first alias present when the canonical key is missing
+            const sourceKey = [key, ...(aliases[key] ?? [])].find(k => raw[k] !== undefined && raw[k] !== null) ?? key;
+            const customRepair = annotations.get(field)?.repair;
+            const fieldValue = customRepair ? customRepair(raw[sourceKey], raw, ctx) : raw[sourceKey];
+            const repaired = repairValue(field, fieldValue, ctx);
+            if (repaired === INVALID) {
+                // Required field with no usable value: fall back to an empty value of the right type
+                result[key] = emptyValue(field);
+            } else if (repaired !== undefined) {
+                result[key] = repaired;
+            }
+        });
+        return result;
+    }
+    if (schema instanceof z.ZodArray) {
+        const items = Array.isArray(value) ? value : typeof value === 'string' && value.trim() !== '' ? [value] : [];
+        return items
+            .map(item => repairValue(schema.element, item, ctx))
+            .filter(item => item !== INVALID && schema.element.safeParse(item).success);
+    }
+    if (schema instanceof z.ZodEnum) return schema.options.includes(value) ? value : INVALID;
+    if (schema instanceof z.ZodString) {
+        if (typeof value === 'string') return schema.safeParse(value).success ? value : INVALID;
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+        return INVALID;
+    }
+    if (schema instanceof z.ZodNumber) {
+        const num = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : NaN;
+        return Number.isFinite(num) ? num : INVALID;
+    }
+    return schema.safeParse(value).success ? value : INVALID;
+}
+
+/** Returns an empty value for a required field that had no usable value. */
+function emptyValue(schema: z.ZodTypeAny): unknown {
+    if (schema instanceof z.ZodArray) return [];
+    if (schema instanceof z.ZodObject) return repairValue(schema, {}, { currency: '' });
+    if (schema instanceof z.ZodNumber) return 0;
+    return '';
+}
+
+/** Options for repairPlan. */
+export interface RepairPlanOptions {
+    currency: string; // Budget currency, assumed for costs that don't name one
+    id?: string; // Forces the plan ID (e.g., the ID the function assigned for the requested profile)
+    profile?: string; // Forces the plan profile
+}
+
+/**
+ * Repairs an unknown value (AI output, stored data) into a valid BirthdayPlan.
+ * Every layer uses this, so plans are accepted and repaired the same way everywhere.
+ * Legacy aliases are mapped to their current fields (e.g., schedule 'details' -> 'description')
+ * and legacy free-text costs are parsed into structured estimates.
+ * @param raw - The raw plan value.
+ * @param options - The budget currency and optional forced id/profile.
+ * @returns A plan that passes birthdayPlanSchema.
+ */
+export function repairPlan(raw: unknown, options: RepairPlanOptions): BirthdayPlan {
+    const repaired = repairValue(birthdayPlanSchema, raw, { currency: options.currency }) as BirthdayPlan;
+    if (options.id) repaired.id = options.id;
+    else if (!repaired.id) repaired.id = createId('plan');
+    if (options.profile) repaired.profile = options.profile;
+    else if (!repaired.profile) repaired.profile = 'Unknown';
+    return repaired;
+}
+
+/** Returns true if a value is already a valid BirthdayPlan (without repairing it). */
+export function isValidPlan(value: unknown): value is BirthdayPlan {
+    return birthdayPlanSchema.safeParse(value).success;
+}
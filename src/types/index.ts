@@ -1,4 +1,6 @@
 // src/types/index.ts
+import type { Allergen, BirthdayPlan, Diet, PlanSection } from '../schema/plan';
+import { isValidPlan } from '../schema/plan';
 
 // --- User Input ---
 // Defines the structure of data collected from the user form
@@ -30,73 +32,160 @@ export interface UserInput {
 	// Added: Specific food/drink wishes
 	foodPreferences: string;
 	drinkPreferences: string;
+	dietaryRestrictions?: DietaryRestrictions; // Hard requirements for the menu (missing for events created before they existed)
 
 	additionalPreferences?: string; // Optional field for other notes
+	profiles?: string[]; // Plan profiles to generate (names from PLAN_PROFILES; missing for events created before they could be chosen)
+}
+
+// Allergens to avoid and diets the whole menu must follow
+export interface DietaryRestrictions {
+	allergens: Allergen[];
+	diets: Diet[];
 }
 
 
 // --- AI Generated Plan Structure ---
-// Defines the detailed structure of a single birthday plan generated by the AI
+// The plan types are inferred from the zod schema in src/schema/plan.ts, which also produces
+// the OpenAI tool schema and the runtime validators, so every layer agrees on the plan shape.
+export type {
+	CostBasis, // Whether a cost is a fixed total or charged for each guest
+	CostEstimate, // Structured cost estimate (min/max/currency/basis), so plans can be totaled against the budget
+	Venue, // Venue details (cost, amenities, suitability, search suggestions)
+	ScheduleItem, // A single schedule item (time, activity, optional description)
+	CateringMenu, // Menu lists (appetizers, main courses, desserts, beverages)
+	Catering, // Catering details (cost, serving style, menu)
+	Allergen, // An allergen a menu item can contain (e.g., nuts, gluten)
+	Diet, // A diet a menu item can be suitable for (e.g., vegan, kosher)
+	MenuItemTag, // Allergens and suitable diets of one menu item
+	GuestEngagement, // Icebreakers, interactive elements, photo opportunities, favors
+	DecorationSource, // Whether a decoration piece is DIY or bought
+	DecorationPiece, // One key decoration piece (item, DIY or buy, notes)
+	Decorations, // Color palette, key decoration pieces, search suggestions
+	BirthdayPlan, // A complete birthday plan
+	PlanSection, // A plan section that can be edited or regenerated on its own
+} from '../schema/plan';
+
+
+// --- Event Workspace ---
+// Defines a single birthday event stored locally. Each event keeps its own input and plans,
+// so planning a second party never overwrites the first one.
+export interface PartyEvent {
+	id: string; // Unique ID for the event (e.g., "event-lq2x8k-3f9a")
+	createdAt: string; // ISO timestamp of when the event was created
+	updatedAt: string; // ISO timestamp of the last change (used for dashboard ordering)
+	userInput: UserInput; // The form input used to generate this event's plans
+	plans: BirthdayPlan[]; // Generated plans, including any edits saved from PlanDetail
+	chosenPlanId?: string; // The plan picked as the winner on the Results page (missing until one is chosen)
+	planHistory?: Record<string, PlanHistory>; // Revision history per plan ID (missing for events created before history existed)
+	ledgers?: Record<string, LedgerItem[]>; // Budget ledger per plan ID (missing until the user edits a plan's ledger)
+	guests?: Guest[]; // The event's guest list (missing until the first guest is added)
+	runOfShow?: Record<string, RunOfShowState>; // Day-of progress per plan ID (missing until the run of show is used)
+	shoppingLists?: Record<string, ShoppingListState>; // Shopping list progress per plan ID (missing until an item is checked or added)
+	invitations?: SavedInvitation[]; // Generated invitations, oldest first (missing until the first invitation is generated)
+	rsvp?: RsvpSettings; // The event's public RSVP page (missing until the first invitation is generated)
+}
+
+// --- Shopping List ---
+// Store section an item is bought in, used to group the list for errands
+export type ShoppingCategory = 'groceries' | 'bakery' | 'beverages' | 'partySupplies' | 'toysAndGifts' | 'other';
+
+// A single line on the shopping list
+export interface ShoppingItem {
+	id: string; // Stable ID (items from the plan keep their ID as long as their name stays the same)
+	name: string;
+	category: ShoppingCategory;
+	quantity: number;
+	unit: string; // e.g., "pieces", "kg", "L" (may be empty)
+	source: 'plan' | 'custom'; // Built from the plan, or added by the user
+}
+
+// What the user changed on a plan's shopping list. Plan items are rebuilt from the plan on every load,
+// so they follow edits to the menu and the guest list.
+export interface ShoppingListState {
+	checked: string[]; // IDs of items that were bought
+	customItems: ShoppingItem[]; // Items added by the user
+}
+
+// --- Run of Show ---
+// Day-of progress through a plan's schedule. Kept separate from the plan, so the plan itself stays as planned.
+export interface RunOfShowState {
+	completed: number[]; // Indexes of schedule items marked done
+	shiftMinutes: number[]; // Delay applied to each schedule item by index (missing entries mean no delay)
+	scheduleFingerprint?: string; // Fingerprint of the schedule the indexes refer to (progress is reset when it changes)
+	updatedAt: string; // ISO timestamp of the last change
+}
+
+// --- Guest List ---
+// RSVP status of an invited guest
+export type RsvpStatus = 'invited' | 'yes' | 'no' | 'maybe';
 
-// Represents venue details
-export interface Venue {
+// A single invited guest (plus-ones are counted as adults)
+export interface Guest {
+	id: string; // Unique ID for the guest
 	name: string;
-	description: string;
-	costRange: string; // AI provides descriptive range (e.g., "1000-1500 NIS", "$$$")
-	amenities: string[]; // List of available amenities
-	suitability: string; // Description of why it's suitable
-	// Added: Example search terms for finding similar vendors/venues
-	venueSearchSuggestions?: string[]; // Optional array of search strings
-}
-
-// Represents a single item in the party schedule
-export interface ScheduleItem {
-	time: string; // e.g., "2:00 PM - 2:30 PM"
-	activity: string; // Name of the activity
-	description?: string; // Optional details about the activity
-}
-
-// Represents the menu structure within catering suggestions
-export interface CateringMenu {
-	appetizers: string[];
-	mainCourses: string[];
-	desserts: string; // Single string description (e.g., "Themed Birthday Cake, Fruit Platter")
-	beverages: string[];
-}
-
-// Represents catering details
-export interface Catering {
-	estimatedCost: string; // AI provides descriptive cost (e.g., "Approx. 800 NIS", "$$")
-	servingStyle: string; // e.g., "Buffet", "Sit-down", "Food stations"
-	menu: CateringMenu;
-	// Added: Example search terms for finding similar vendors
-	cateringSearchSuggestions?: string[]; // Optional array of search strings
-}
-
-// Represents guest engagement ideas
-export interface GuestEngagement {
-	icebreakers: string[];
-	interactiveElements: string[];
-	photoOpportunities: string[];
-	partyFavors: string[];
-	techIntegration?: string[]; // Optional array for tech ideas
-	// Added: Example search terms for finding relevant vendors (e.g., entertainers)
-	entertainmentSearchSuggestions?: string[]; // Optional array of search strings
-}
-
-// Represents a complete birthday plan
-export interface BirthdayPlan {
-	id: string; // Unique ID for the plan (e.g., "plan-1")
-	name: string; // Name of the plan (e.g., "DIY Delight Party")
-	description: string; // Brief description of the plan
-	// Added: Profile to track the distinction (as requested in prompts)
-	profile: 'DIY/Budget' | 'Premium/Convenience' | 'Unique/Adventure' | string;
-	venue: Venue;
-	schedule: ScheduleItem[]; // Array of schedule items
-	catering: Catering;
-	guestEngagement: GuestEngagement;
-    // Added: Optional field for optimization summary
-    optimizationSummary?: string;
+	type: 'adult' | 'child';
+	contact: string; // Phone number or email (may be empty)
+	household: string; // Household or family name, used to group guests (may be empty)
+	rsvp: RsvpStatus;
+	plusOnes: number; // Additional unnamed guests this guest is bringing
+	notes: string; // Free-form notes (e.g., "arriving late")
+}
+
+// --- Public RSVP Page ---
+// Answers a guest can give on the RSVP page
+export type RsvpAttendance = Exclude<RsvpStatus, 'invited'>;
+
+// The event's public RSVP page. Guests only get the token (in the link); the host key stays in this browser.
+export interface RsvpSettings {
+	token: string; // Random ID used in the page's link (/rsvp/:token)
+	hostKey: string; // Secret required to publish the page and read the replies
+	invitationId: string | null; // The saved invitation shown on the page (null until published)
+	publishedAt: string | null; // ISO timestamp of the last publish
+	syncedAt: string | null; // Submission time (server clock) of the newest reply applied to the guest list
+}
+
+// What guests see on the RSVP page
+export interface RsvpPage {
+	title: string; // The plan name
+	text: string; // The invitation text
+	template: string; // The invitation's template style
+	date: string; // Event date (YYYY-MM-DD)
+	time: string; // Event time (HH:MM)
+	imageUrl: string; // The invitation image as a data URL or hosted URL (may be empty)
+	publishedAt?: string;
+}
+
+// A guest's reply from the RSVP page
+export interface RsvpResponse {
+	id: string;
+	key: string; // The guest's normalized name; a new reply under the same name replaces the old one
+	name: string;
+	attendance: RsvpAttendance;
+	adults: number; // Adults attending, including the guest if they're an adult
+	children: number; // Children attending, including the guest if they're a child
+	dietaryNotes: string;
+	submittedAt: string; // ISO timestamp (server clock)
+}
+
+// --- Plan Version History ---
+// What caused a new revision of a plan to be saved
+export type PlanRevisionSource = 'generation' | 'manual-edit' | 'budget-optimization' | 'regeneration' | 'restore';
+
+// A timestamped snapshot of a plan, saved every time the plan changes
+export interface PlanRevision {
+	id: string; // Unique ID for the revision
+	timestamp: string; // ISO timestamp of when the revision was saved
+	source: PlanRevisionSource;
+	section?: string; // Plan section that changed (for manual edits and regeneration)
+	restoredFromId?: string; // ID of the revision that was restored (for 'restore' revisions)
+	plan: BirthdayPlan; // Full snapshot of the plan at this revision
+}
+
+// The ordered revisions of one plan plus the position used for undo/redo
+export interface PlanHistory {
+	revisions: PlanRevision[]; // Oldest first
+	cursor: number; // Index of the revision currently shown (undo moves back, redo moves forward)
 }
 
 // --- API Payloads / Responses ---
@@ -124,10 +213,42 @@ export interface GenerateInvitationPayload {
 // Response expected FROM the backend AFTER generating invitation components
 export interface SmartInvitation {
 	text: string; // Generated invitation text
-	imageUrl: string; // URL for the AI-generated image
+	imageUrl: string; // URL for the AI-generated image (hosted URLs expire within hours)
+	imageDataUrl?: string | null; // The same image as a data URL, for keeping a local copy (null if it couldn't be fetched)
 	template: string; // The template style used
 }
 
+// A generated invitation saved with its event; the image itself is kept in IndexedDB (see utils/imageStore)
+export interface SavedInvitation {
+	id: string; // Unique ID, also the key of the stored image
+	planId: string; // The plan the invitation was generated for
+	planName: string; // The plan's name when the invitation was generated
+	template: string; // The template style used
+	date: string; // Event date shown on the invitation (YYYY-MM-DD)
+	time: string; // Event time shown on the invitation (HH:MM)
+	text: string; // Generated invitation text
+	imageUrl: string; // Original hosted image URL, used only when no local copy exists (may have expired)
+	hasLocalImage: boolean; // Whether a copy of the image is stored locally
+	createdAt: string; // ISO timestamp of when the invitation was generated
+}
+
+// Ways the invitation text can be rewritten by the AI (the image is left as it is)
+export type InvitationRewriteStyle = 'shorter' | 'funnier' | 'formal' | 'addRsvp' | 'addDirections';
+
+// Payload sent TO the backend FOR rewriting the text of an invitation
+export interface RewriteInvitationPayload {
+	action: 'rewriteInvitation';
+	plan: BirthdayPlan; // The plan the invitation is for, sent as context (name, theme, venue)
+	text: string; // The current invitation text, including any manual edits
+	style: InvitationRewriteStyle; // How to rewrite it
+	date: string; // Event date (YYYY-MM-DD), used for RSVP deadlines
+	time: string; // Event time (HH:MM)
+}
+// Response expected FROM the backend AFTER rewriting invitation text
+export interface RewriteInvitationResponse {
+	text: string; // The rewritten invitation text
+}
+
 
 // Structure defining budget priorities (used in payload)
 export interface BudgetPriorities {
@@ -137,6 +258,21 @@ export interface BudgetPriorities {
 	decorations: number;
 	partyFavors: number;
 }
+// --- Budget Ledger ---
+// Ledger categories match the budget priority categories, so spending can be compared against priorities
+export type BudgetCategory = keyof BudgetPriorities;
+
+// A single line item of real (or planned) spending for a plan
+export interface LedgerItem {
+	id: string; // Unique ID for the line item
+	description: string; // What the money is for (e.g., "Hall rental")
+	category: BudgetCategory;
+	vendor: string; // Who is being paid (may be empty)
+	estimated: number; // Expected amount in the budget currency
+	actual?: number; // Amount actually spent, once known
+	paid: boolean; // Whether the item has been paid
+}
+
 // Payload sent TO the backend FOR optimizing budget
 export interface OptimizeBudgetPayload {
 	action: 'optimizeBudget';
@@ -145,24 +281,78 @@ export interface OptimizeBudgetPayload {
 	// Added: Send the specific budget context for better optimization
 	numericBudget: number;
 	currency: string;
+	dietaryRestrictions?: DietaryRestrictions; // Hard requirements the optimized menu must still meet
 }
 // Response expected FROM the backend AFTER optimizing budget
 export interface OptimizeBudgetResponse {
 	optimizedPlan: BirthdayPlan; // Expects the single optimized plan object
 }
 
-// --- Utility Type Guard ---
-// Helper function to perform a basic check if an object looks like a BirthdayPlan
-// Useful after parsing data from unknown sources (like localStorage or API)
-export function isValidBirthdayPlan(obj: any): obj is BirthdayPlan {
-	// Basic checks - expand if more rigorous validation is needed
-	return obj &&
-		   typeof obj.id === 'string' &&
-		   typeof obj.name === 'string' &&
-		   typeof obj.description === 'string' &&
-		   typeof obj.venue === 'object' && // Check if venue exists
-		   Array.isArray(obj.schedule) && // Check if schedule is an array
-		   typeof obj.catering === 'object' && // Check if catering exists
-		   typeof obj.guestEngagement === 'object'; // Check if guestEngagement exists
+// Payload sent TO the backend FOR regenerating one section of a plan
+export interface RegenerateSectionPayload {
+	action: 'regenerateSection';
+	plan: BirthdayPlan; // The full plan, sent as context for the new section
+	section: PlanSection; // The section to regenerate
+	guidance?: string; // Optional user guidance (e.g., "more vegetarian options")
+	userInput?: UserInput; // Original user input (location, guests, budget), if available
+}
+// Response expected FROM the backend AFTER regenerating a section
+export interface RegenerateSectionResponse {
+	section: PlanSection;
+	content: BirthdayPlan[PlanSection]; // The new content for the section (validated against the plan schema)
 }
 
+// Payload sent TO the backend FOR harmonizing a plan built from sections of other plans
+export interface HarmonizePlanPayload {
+	action: 'harmonizePlan';
+	plan: BirthdayPlan; // The custom plan as put together
+	sectionSources?: Partial<Record<PlanSection, string>>; // Profile of the plan each section was taken from
+	userInput?: UserInput; // Original user input (location, guests, budget), if available
+}
+// Response expected FROM the backend AFTER harmonizing a plan
+export interface HarmonizePlanResponse {
+	harmonizedPlan: BirthdayPlan; // The plan with the sections adjusted to fit together
+	summary: string; // What was changed and why
+}
+
+// Payloads sent TO the backend FOR the public RSVP page
+export interface PublishRsvpPagePayload {
+	action: 'publishRsvpPage';
+	token: string;
+	hostKey: string;
+	page: RsvpPage;
+}
+export interface GetRsvpPagePayload {
+	action: 'getRsvpPage';
+	token: string;
+}
+export interface SubmitRsvpPayload {
+	action: 'submitRsvp';
+	token: string;
+	response: Pick<RsvpResponse, 'name' | 'attendance' | 'adults' | 'children' | 'dietaryNotes'>;
+}
+export interface ListRsvpResponsesPayload {
+	action: 'listRsvpResponses';
+	token: string;
+	hostKey: string;
+}
+// Responses expected FROM the backend for the RSVP page actions
+export interface PublishRsvpPageResponse {
+	publishedAt: string;
+}
+export interface GetRsvpPageResponse {
+	page: RsvpPage;
+}
+export interface SubmitRsvpResponse {
+	submittedAt: string;
+}
+export interface ListRsvpResponsesResponse {
+	responses: RsvpResponse[];
+}
+
+// --- Utility Type Guard ---
+// Helper function to check if an object is a valid BirthdayPlan (validated against the shared plan schema)
+// Useful after parsing data from unknown sources (like localStorage or API); use repairPlan to fix invalid data
+export function isValidBirthdayPlan(obj: unknown): obj is BirthdayPlan {
+	return isValidPlan(obj);
+}
@@ -0,0 +1,55 @@
+// src/utils/activities.ts
+// The activity types offered in the planning form, and a check of which of them a plan actually includes.
+import type { BirthdayPlan } from '../types';
+import type { MessageKey } from '../i18n/messages/en';
+
+/** An activity type the user can pick in the planning form. */
+export interface ActivityOption {
+    value: string; // Sent to the planner and stored in UserInput.activities (always English)
+    label: MessageKey; // Translated label shown in the form
+    pattern: RegExp; // Words in the plan that show the activity is included (English and Hebrew)
+}
+
+// Activity options, in form order
+export const ACTIVITY_OPTIONS: ActivityOption[] = [
+    { value: 'Interactive games (e.g., scavenger hunt, trivia)', label: 'form.activity.games', pattern: /\bgames?\b|trivia|quiz|scavenger|treasure hunt|bingo|puzzle|challenge|משחק|טריוויה|חידון|מטמון|אתגר/i },
+    { value: 'Workshops/DIY activities (e.g., crafts, cooking)', label: 'form.activity.workshops', pattern: /workshop|crafts?\b|cooking|baking|make[- ]your[- ]own|decorating|סדנ|יצירה|בישול|אפייה/i },
+    { value: 'Performances/Entertainment (e.g., magician, DJ)', label: 'form.activity.performances', pattern: /magician|\bdj\b|live music|\bband\b|performer|entertainer|\bshows?\b|concert|acoustic|קוסם|די ג'יי|הופעה|להקה|מופע/i },
+    { value: 'Sports/Physical activities (e.g., bouncy castle, park games)', label: 'form.activity.sports', pattern: /sports?\b|bouncy|trampoline|climbing|\brac(e|es|ing)\b|relay|\bball games\b|obstacle|football|soccer|ספורט|מתנפח|טרמפולינ|טיפוס|מרוץ|כדור/i },
+    { value: 'Food experiences (e.g., cooking class, themed snacks)', label: 'form.activity.food', pattern: /cooking class|baking|tasting|make[- ]your[- ]own|food station|pizza making|cupcake decorating|סדנת בישול|טעימות|אפייה/i },
+    { value: 'Relaxed social gathering (e.g., mingling, board games)', label: 'form.activity.social', pattern: /mingl|board games?|lounge|social|conversation|toasts?\b|מינגלינג|משחקי קופסה|טרקלין|מפגש/i },
+    { value: 'Movie screening', label: 'form.activity.movie', pattern: /movie|film|screening|cinema|סרט|הקרנה|קולנוע/i },
+    { value: 'Pool party (if applicable)', label: 'form.activity.pool', pattern: /\bpool\b|swim|water (games|slide)|בריכה|שחייה/i },
+    { value: 'Adventure/Outdoor activity (e.g., hiking, climbing)', label: 'form.activity.adventure', pattern: /adventure|hik(e|ing)|climbing|outdoor|nature|kayak|zip ?line|escape room|הרפתקה|טיול|טיפוס|בטבע/i },
+];
+
+/** Collects the plan text that describes what guests do: the schedule, guest engagement and venue. */
+function getActivityText(plan: BirthdayPlan): string {
+    return [
+        ...(plan.schedule ?? []).flatMap(item => [item.activity, item.description ?? '']),
+        ...(plan.guestEngagement?.icebreakers ?? []),
+        ...(plan.guestEngagement?.interactiveElements ?? []),
+        ...(plan.guestEngagement?.photoOpportunities ?? []),
+        ...(plan.guestEngagement?.techIntegration ?? []),
+        plan.venue?.name ?? '',
+        plan.venue?.description ?? '',
+        ...(plan.venue?.amenities ?? []),
+    ].join('\n');
+}
+
+/**
+ * Lists the selected activity types the plan includes, found by keywords in the schedule,
+ * guest engagement and venue. Activities that aren't form options are matched by their own longer words.
+ * @param plan - The plan to check.
+ * @param activities - The activity types selected in the form (UserInput.activities).
+ * @returns The included activities, in the order they were selected.
+ */
+export function findCoveredActivities(plan: BirthdayPlan, activities: string[]): string[] {
+    const text = getActivityText(plan);
+    return activities.filter(activity => {
+        const option = ACTIVITY_OPTIONS.find(o => o.value === activity);
+        if (option) return option.pattern.test(text);
+        const words = activity.split('(')[0].toLowerCase().split(/[^\p{L}]+/u).filter(word => word.length >= 4);
+        return words.some(word => text.toLowerCase().includes(word));
+    });
+}
@@ -7,9 +7,29 @@ import type {
     GeneratePlansResponse,
     GenerateInvitationPayload,
     SmartInvitation,
+    InvitationRewriteStyle,
+    RewriteInvitationPayload,
+    RewriteInvitationResponse,
+    RsvpPage,
+    RsvpSettings,
+    PublishRsvpPagePayload,
+    PublishRsvpPageResponse,
+    GetRsvpPagePayload,
+    GetRsvpPageResponse,
+    SubmitRsvpPayload,
+    SubmitRsvpResponse,
+    ListRsvpResponsesPayload,
+    ListRsvpResponsesResponse,
     OptimizeBudgetPayload,
-    OptimizeBudgetResponse
+    OptimizeBudgetResponse,
+    PlanSection,
+    RegenerateSectionPayload,
+    RegenerateSectionResponse,
+    HarmonizePlanPayload,
+    HarmonizePlanResponse,
+    DietaryRestrictions
 } from '../types'; // Import all necessary types
+import { getStoredLanguage } from '../i18n/language';
 
 // Define the base URL for the Netlify functions
 const FUNCTIONS_BASE_URL = '/.netlify/functions/openai-proxy';
@@ -17,6 +37,7 @@ const FUNCTIONS_BASE_URL = '/.netlify/functions/openai-proxy';
 /**
  * Reusable function to call the backend Netlify function proxy.
  * Handles the fetch request, JSON stringification, and basic error handling.
+ * The current UI language is added to every payload so generated text comes back in it.
  * @param payload - The data payload to send (must include an 'action' field).
  * @returns The parsed JSON response from the function.
  * @throws Throws an error if the network request fails or the function returns an error status.
@@ -30,7 +51,7 @@ async function callOpenAIProxy<T>(payload: object): Promise<T> {
             headers: {
                 'Content-Type': 'application/json',
             },
-            body: JSON.stringify(payload), // Send payload as JSON string
+            body: JSON.stringify({ ...payload, language: getStoredLanguage() }), // Send payload as JSON string
         });
 
         if (!response.ok) {
@@ -60,12 +81,12 @@ async function callOpenAIProxy<T>(payload: object): Promise<T> {
 /**
  * Calls the backend to generate ONE birthday plan based on user input and a specific profile.
  * @param userInput - The user's input data conforming to the UserInput type.
- * @param profile - The specific plan profile to request ('DIY/Budget', 'Premium/Convenience', 'Unique/Adventure').
+ * @param profile - The name of the plan profile to request (one of PLAN_PROFILES, e.g., 'DIY/Budget').
  * @returns A promise that resolves to the GeneratePlansResponse containing ONE plan in the array.
  */
 export async function generateBirthdayPlans(
     userInput: UserInput,
-    profile: 'DIY/Budget' | 'Premium/Convenience' | 'Unique/Adventure' // Add profile parameter
+    profile: string // Add profile parameter
 ): Promise<GeneratePlansResponse> {
     // Define payload structure inline, including the optional profile
     const payload: {
@@ -106,27 +127,156 @@ export async function generateSmartInvitation(
     return callOpenAIProxy<SmartInvitation>(payload);
 }
 
+/**
+ * Calls the backend to rewrite ONLY the text of an invitation; no new image is generated.
+ * @param plan - The BirthdayPlan the invitation is for.
+ * @param text - The current invitation text (including manual edits).
+ * @param style - How to rewrite it (e.g., 'shorter', 'addRsvp').
+ * @param date - The event date string.
+ * @param time - The event time string.
+ * @returns A promise that resolves to the RewriteInvitationResponse containing the new text.
+ */
+export async function rewriteInvitationText(
+    plan: BirthdayPlan,
+    text: string,
+    style: InvitationRewriteStyle,
+    date: string,
+    time: string
+): Promise<RewriteInvitationResponse> {
+    const payload: RewriteInvitationPayload = {
+        action: 'rewriteInvitation',
+        plan,
+        text,
+        style,
+        date,
+        time,
+    };
+    return callOpenAIProxy<RewriteInvitationResponse>(payload);
+}
+
 /**
  * Calls the backend to optimize a birthday plan based on budget priorities and target budget.
  * @param selectedPlan - The current BirthdayPlan object to optimize.
  * @param priorities - The user-defined BudgetPriorities object.
  * @param numericBudget - The user's target budget amount (number).
  * @param currency - The currency code (string, e.g., "NIS").
+ * @param dietaryRestrictions - Optional dietary restrictions the optimized menu must still meet.
  * @returns A promise that resolves to the OptimizeBudgetResponse containing the optimized plan.
  */
 export async function optimizeBudget(
     selectedPlan: BirthdayPlan,
     priorities: BudgetPriorities,
     numericBudget: number,
-    currency: string
+    currency: string,
+    dietaryRestrictions?: DietaryRestrictions
 ): Promise<OptimizeBudgetResponse> {
     const payload: OptimizeBudgetPayload = {
         action: 'optimizeBudget',
         plan: selectedPlan,
         priorities: priorities,
         numericBudget: numericBudget,
-        currency: currency
+        currency: currency,
+        dietaryRestrictions: dietaryRestrictions
     };
     return callOpenAIProxy<OptimizeBudgetResponse>(payload);
 }
 
+
+/**
+ * Calls the backend to regenerate ONE section of a plan, keeping the rest of the plan as context.
+ * @param plan - The current BirthdayPlan object.
+ * @param section - The section to regenerate ('venue', 'schedule', 'catering' or 'guestEngagement').
+ * @param guidance - Optional user guidance for the new section (e.g., "more vegetarian options").
+ * @param userInput - The original user input, if available (location, guests, budget).
+ * @returns A promise that resolves to the RegenerateSectionResponse containing the new section content.
+ */
+export async function regenerateSection(
+    plan: BirthdayPlan,
+    section: PlanSection,
+    guidance?: string,
+    userInput?: UserInput
+): Promise<RegenerateSectionResponse> {
+    const payload: RegenerateSectionPayload = {
+        action: 'regenerateSection',
+        plan,
+        section,
+        guidance: guidance?.trim() || undefined,
+        userInput,
+    };
+    return callOpenAIProxy<RegenerateSectionResponse>(payload);
+}
+
+
+/**
+ * Calls the backend to make the sections of a custom plan fit together (e.g., a schedule that mentions
+ * another plan's venue), keeping the picked venue, activities, food and decorations.
+ * @param plan - The custom plan built from sections of other plans.
+ * @param sectionSources - The profile of the plan each section was taken from.
+ * @param userInput - The original user input, if available (location, guests, budget).
+ * @returns A promise that resolves to the HarmonizePlanResponse with the adjusted plan and a summary.
+ */
+export async function harmonizePlan(
+    plan: BirthdayPlan,
+    sectionSources: Partial<Record<PlanSection, string>>,
+    userInput?: UserInput
+): Promise<HarmonizePlanResponse> {
+    const payload: HarmonizePlanPayload = {
+        action: 'harmonizePlan',
+        plan,
+        sectionSources,
+        userInput,
+    };
+    return callOpenAIProxy<HarmonizePlanResponse>(payload);
+}
+
+
+/**
+ * Publishes (or replaces) the event's public RSVP page.
+ * @param settings - The event's RSVP token and host key.
+ * @param page - The invitation shown on the page.
+ * @returns A promise that resolves to the PublishRsvpPageResponse with the publish time.
+ */
+export async function publishRsvpPage(settings: RsvpSettings, page: RsvpPage): Promise<PublishRsvpPageResponse> {
+    const payload: PublishRsvpPagePayload = {
+        action: 'publishRsvpPage',
+        token: settings.token,
+        hostKey: settings.hostKey,
+        page,
+    };
+    return callOpenAIProxy<PublishRsvpPageResponse>(payload);
+}
+
+/**
+ * Loads a public RSVP page (used by guests; needs only the token).
+ * @param token - The token from the RSVP link.
+ * @returns A promise that resolves to the GetRsvpPageResponse containing the page.
+ */
+export async function getRsvpPage(token: string): Promise<GetRsvpPageResponse> {
+    const payload: GetRsvpPagePayload = { action: 'getRsvpPage', token };
+    return callOpenAIProxy<GetRsvpPageResponse>(payload);
+}
+
+/**
+ * Sends a guest's reply from the RSVP page.
+ * @param token - The token from the RSVP link.
+ * @param response - The guest's name, attendance, headcount and dietary notes.
+ * @returns A promise that resolves to the SubmitRsvpResponse with the submission time.
+ */
+export async function submitRsvp(token: string, response: SubmitRsvpPayload['response']): Promise<SubmitRsvpResponse> {
+    const payload: SubmitRsvpPayload = { action: 'submitRsvp', token, response };
+    return callOpenAIProxy<SubmitRsvpResponse>(payload);
+}
+
+/**
+ * Loads every reply received on the event's RSVP page.
+ * @param settings - The event's RSVP token and host key.
+ * @returns A promise that resolves to the ListRsvpResponsesResponse containing the replies.
+ */
+export async function listRsvpResponses(settings: RsvpSettings): Promise<ListRsvpResponsesResponse> {
+    const payload: ListRsvpResponsesPayload = {
+        action: 'listRsvpResponses',
+        token: settings.token,
+        hostKey: settings.hostKey,
+    };
+    return callOpenAIProxy<ListRsvpResponsesResponse>(payload);
+}
@@ -0,0 +1,148 @@
+// src/utils/calendar.ts
+// Builds iCalendar (.ics, RFC 5545) files for a plan: the party itself, optionally with each schedule item.
+// Times are written as floating local times (no time zone), so they show at the same clock time in any calendar.
+import type { BirthdayPlan } from '../types';
+import { buildTimelineEntries } from './timeline';
+import { downloadTextFile } from './download';
+
+/**
+ * Options for building a plan's calendar file.
+ */
+export interface CalendarExportOptions {
+    includeSchedule: boolean; // Add every schedule item with a parseable time as its own event
+    reminderMinutes: number | null; // Minutes before the party to show a reminder (null for none)
+    uidPrefix: string; // Stable prefix for event UIDs (e.g., the event ID), so re-imports update instead of duplicating
+}
+
+/** Escapes text for an iCalendar TEXT value. */
+const escapeText = (text: string): string => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Folds a content line to at most 75 octets, continuing on lines that start with a space. */
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        // The first line may hold 75 octets; continuation lines hold 74 plus the leading space
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = char;
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+/** Formats a date plus minutes since midnight as a floating DATE-TIME (e.g., "20260501T160000"). */
+const formatDateTime = (date: { year: number; month: number; day: number }, minutes: number): string => {
+    const value = new Date(Date.UTC(date.year, date.month - 1, date.day, 0, minutes));
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}00`;
+};
+
+/** Formats a date as a DATE value (e.g., "20260501"), optionally shifted by whole days. */
+const formatDate = (date: { year: number; month: number; day: number }, addDays = 0): string =>
+    formatDateTime(date, addDays * 24 * 60).slice(0, 8);
+
+/** Formats the current time as a UTC DATE-TIME for DTSTAMP. */
+const formatStamp = (now: Date): string => now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Parses the plan date ("YYYY-MM-DD", or anything Date can read).
+ * @returns The calendar date, or null if the plan has no usable date.
+ */
+export function parsePlanDate(value: string | undefined): { year: number; month: number; day: number } | null {
+    if (!value) return null;
+    const isoMatch = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (isoMatch) return { year: Number(isoMatch[1]), month: Number(isoMatch[2]), day: Number(isoMatch[3]) };
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) return null;
+    return { year: parsed.getFullYear(), month: parsed.getMonth() + 1, day: parsed.getDate() };
+}
+
+/**
+ * Builds an .ics file for a plan: one event for the party (spanning the schedule, or all day if no times
+ * can be parsed) with the venue as location and an optional reminder, plus optionally one event per schedule item.
+ * @param plan - The plan to export; it must have a date.
+ * @param options - Export options (see CalendarExportOptions).
+ * @param now - The timestamp written as DTSTAMP (defaults to the current time).
+ * @returns The calendar file contents (CRLF line endings).
+ * @throws Throws an error if the plan has no usable date.
+ */
+export function buildPlanCalendar(plan: BirthdayPlan, options: CalendarExportOptions, now: Date = new Date()): string {
+    const date = parsePlanDate(plan.date);
+    if (!date) throw new Error('Set a date for the plan before exporting it to a calendar.');
+
+    const stamp = formatStamp(now);
+    const location = plan.venue?.name ? escapeText(plan.venue.name) : null;
+    const scheduleTimes = buildTimelineEntries(plan.schedule ?? []);
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Birthday Planner//Plan Export//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+    ];
+
+    // --- The party itself ---
+    const scheduleSummary = (plan.schedule ?? []).map(item => `${item.time ? `${item.time}: ` : ''}${item.activity}`).join('\n');
+    lines.push(
+        'BEGIN:VEVENT',
+        `UID:${options.uidPrefix}-${plan.id}@birthday-planner`,
+        `DTSTAMP:${stamp}`,
+    );
+    if (scheduleTimes.length > 0) {
+        lines.push(
+            `DTSTART:${formatDateTime(date, Math.min(...scheduleTimes.map(t => t.start)))}`,
+            `DTEND:${formatDateTime(date, Math.max(...scheduleTimes.map(t => t.end)))}`,
+        );
+    } else {
+        lines.push(`DTSTART;VALUE=DATE:${formatDate(date)}`, `DTEND;VALUE=DATE:${formatDate(date, 1)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(plan.name)}`);
+    const description = [plan.description, scheduleSummary && `Schedule:\n${scheduleSummary}`].filter(Boolean).join('\n\n');
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (location) lines.push(`LOCATION:${location}`);
+    if (options.reminderMinutes !== null && options.reminderMinutes > 0) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeText(`Reminder: ${plan.name}`)}`,
+            `TRIGGER:-PT${Math.round(options.reminderMinutes)}M`,
+            'END:VALARM',
+        );
+    }
+    lines.push('END:VEVENT');
+
+    // --- One event per schedule item ---
+    if (options.includeSchedule) {
+        scheduleTimes.forEach(({ item, start, end }, index) => {
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:${options.uidPrefix}-${plan.id}-item-${index + 1}@birthday-planner`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${formatDateTime(date, start)}`,
+                `DTEND:${formatDateTime(date, end)}`,
+                `SUMMARY:${escapeText(item.activity)}`,
+            );
+            if (item.description) lines.push(`DESCRIPTION:${escapeText(item.description)}`);
+            if (location) lines.push(`LOCATION:${location}`);
+            lines.push('END:VEVENT');
+        });
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Starts a browser download of a calendar file.
+ * @param fileName - The file name to save as (should end in ".ics").
+ * @param contents - The calendar file contents.
+ */
+export function downloadCalendarFile(fileName: string, contents: string): void {
+    downloadTextFile(fileName, contents, 'text/calendar;charset=utf-8');
+}
@@ -0,0 +1,123 @@
+// src/utils/cateringQuantities.ts
+// Estimates how much of each menu item to serve and buy, from adult/child portions and the party length.
+// The portion sizes are common catering rules of thumb, so the results are a starting point, not a recipe.
+import type { CateringMenu } from '../types';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Party length assumed when the schedule has no readable times
+export const DEFAULT_PARTY_MINUTES = 180;
+// Extra food bought on top of the estimate, so the last guests don't find empty platters
+const BUFFER_RATIO = 0.1;
+// A child eats and drinks about this share of an adult portion
+const CHILD_PORTION_RATIO = 0.6;
+// With several dishes in a course guests take some of each, so each dish covers more than its even share
+const VARIETY_OVERLAP = 1.25;
+
+// Appetizer pieces per adult: more in the first hour, fewer in each hour after
+const APPETIZER_PIECES_FIRST_HOUR = 4;
+const APPETIZER_PIECES_PER_EXTRA_HOUR = 2;
+// Cooked main course per adult, in grams
+const MAIN_COURSE_GRAMS = 300;
+// Drinks per adult: two in the first hour, one in each hour after
+const DRINKS_FIRST_HOUR = 2;
+const DRINKS_PER_EXTRA_HOUR = 1;
+const DRINK_MILLILITERS = 250;
+
+export type MenuCategory = 'appetizers' | 'mainCourses' | 'desserts' | 'beverages';
+
+// Message keys of the display labels for each menu category, in menu order
+export const MENU_CATEGORY_LABELS: Record<MenuCategory, MessageKey> = {
+    appetizers: 'plan.section.appetizers',
+    mainCourses: 'plan.section.mainCourses',
+    desserts: 'plan.section.desserts',
+    beverages: 'plan.section.beverages',
+};
+
+/** Estimated servings and purchase quantity for one menu item. */
+export interface CateringQuantity {
+    category: MenuCategory;
+    item: string;
+    servings: number; // Portions served (pieces for appetizers, plates for mains, slices for desserts, cups for drinks)
+    purchaseAmount: number; // Amount to buy, including the buffer
+    purchaseUnit: string; // e.g., "pieces", "kg", "servings", "L"
+}
+
+/** Who is eating and for how long. */
+export interface CateringQuantityInput {
+    adults: number;
+    children: number;
+    partyMinutes?: number | null; // Party length; DEFAULT_PARTY_MINUTES is used if unknown
+}
+
+/**
+ * Splits the free-text desserts field into separate items (e.g., "Themed Cake, Fruit Platter & Cookies").
+ */
+export function splitDesserts(desserts: string | undefined): string[] {
+    return (desserts ?? '')
+        .split(/,|;|\s&\s|\sand\s/i)
+        .map(item => item.trim())
+        .filter(Boolean);
+}
+
+/** Returns the portions eaten per adult for a party length, with a first-hour rate and a rate for each hour after. */
+const perAdultOverTime = (firstHour: number, perExtraHour: number, partyMinutes: number): number =>
+    firstHour + perExtraHour * Math.max(0, partyMinutes - 60) / 60;
+
+/** Rounds up to a step (e.g., 0.5 for liters), avoiding floating point noise like 2.0000000001. */
+const roundUpTo = (value: number, step: number): number => Math.ceil(Math.round(value / step * 1000) / 1000) * step;
+
+/**
+ * Estimates servings and purchase quantities for every item on the menu.
+ * @param menu - The catering menu (partial menus are fine).
+ * @param input - Adult and child counts plus the party length.
+ * @returns One entry per menu item, in menu order.
+ */
+export function estimateCateringQuantities(menu: Partial<CateringMenu> | undefined, input: CateringQuantityInput): CateringQuantity[] {
+    const adults = Math.max(0, Math.floor(input.adults || 0));
+    const children = Math.max(0, Math.floor(input.children || 0));
+    const partyMinutes = input.partyMinutes && input.partyMinutes > 0 ? input.partyMinutes : DEFAULT_PARTY_MINUTES;
+    // Headcount in adult portions
+    const adultPortions = adults + children * CHILD_PORTION_RATIO;
+    const withBuffer = (value: number) => value * (1 + BUFFER_RATIO);
+
+    /** Share of a course that one of its dishes has to cover. */
+    const dishShare = (dishCount: number) => Math.min(1, VARIETY_OVERLAP / dishCount);
+    const named = (items: string[] | undefined) => (items ?? []).map(item => item.trim()).filter(Boolean);
+
+    const quantities: CateringQuantity[] = [];
+
+    const appetizers = named(menu?.appetizers);
+    const appetizerPieces = adultPortions * perAdultOverTime(APPETIZER_PIECES_FIRST_HOUR, APPETIZER_PIECES_PER_EXTRA_HOUR, partyMinutes);
+    appetizers.forEach(item => {
+        const servings = Math.ceil(appetizerPieces * dishShare(appetizers.length));
+        quantities.push({ category: 'appetizers', item, servings, purchaseAmount: Math.ceil(withBuffer(servings)), purchaseUnit: 'pieces' });
+    });
+
+    // Main courses don't scale with party length: guests eat one meal
+    const mainCourses = named(menu?.mainCourses);
+    mainCourses.forEach(item => {
+        const share = dishShare(mainCourses.length);
+        const servings = Math.ceil((adults + children) * share);
+        const kilograms = withBuffer(adultPortions * share * MAIN_COURSE_GRAMS) / 1000;
+        quantities.push({ category: 'mainCourses', item, servings, purchaseAmount: roundUpTo(kilograms, 0.5), purchaseUnit: 'kg' });
+    });
+
+    // Everyone gets dessert, children included, so desserts are counted per guest rather than in adult portions.
+    // The birthday cake is shared with every guest, whatever else is served.
+    const desserts = splitDesserts(menu?.desserts);
+    desserts.forEach(item => {
+        const share = /cake/i.test(item) ? 1 : dishShare(desserts.length);
+        const servings = Math.ceil((adults + children) * share);
+        quantities.push({ category: 'desserts', item, servings, purchaseAmount: Math.ceil(withBuffer(servings)), purchaseUnit: 'servings' });
+    });
+
+    const beverages = named(menu?.beverages);
+    const drinks = adultPortions * perAdultOverTime(DRINKS_FIRST_HOUR, DRINKS_PER_EXTRA_HOUR, partyMinutes);
+    beverages.forEach(item => {
+        const servings = Math.ceil(drinks * dishShare(beverages.length));
+        const liters = withBuffer(servings * DRINK_MILLILITERS) / 1000;
+        quantities.push({ category: 'beverages', item, servings, purchaseAmount: roundUpTo(liters, 0.5), purchaseUnit: 'L' });
+    });
+
+    return quantities;
+}
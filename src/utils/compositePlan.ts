@@ -0,0 +1,69 @@
+// src/utils/compositePlan.ts
+// Builds a "Custom" plan by taking each section from one of the generated plans (the mix & match builder).
+import type { BirthdayPlan, PlanSection } from '../types';
+import { PLAN_SECTIONS } from '../schema/plan';
+import { createId } from './ids';
+
+// Profile given to plans put together from sections of other plans
+export const CUSTOM_PROFILE = 'Custom';
+
+/** The ID of the plan each section is taken from. */
+export type CompositeSelection = Record<PlanSection, string>;
+
+/**
+ * Starts a selection with every section taken from the same plan.
+ * @param planId - The plan to take all sections from.
+ */
+export function createCompositeSelection(planId: string): CompositeSelection {
+    return Object.fromEntries(PLAN_SECTIONS.map(section => [section, planId])) as CompositeSelection;
+}
+
+/**
+ * Lists the profile of the plan each section was taken from (sent to the harmonizer as context).
+ * @param plans - The plans the sections can come from.
+ * @param selection - The plan ID picked for each section.
+ */
+export function describeCompositeSources(plans: BirthdayPlan[], selection: CompositeSelection): Partial<Record<PlanSection, string>> {
+    const sources: Partial<Record<PlanSection, string>> = {};
+    PLAN_SECTIONS.forEach(section => {
+        const source = plans.find(plan => plan.id === selection[section]);
+        if (source) sources[section] = source.profile;
+    });
+    return sources;
+}
+
+/**
+ * Builds a new plan from sections of other plans. The plan gets a new ID and the "Custom" profile;
+ * its date is taken from the plan the venue came from, and sections are copied so the source plans stay untouched.
+ * A section missing from its source plan (e.g., decorations on an older plan) is left out.
+ * @param plans - The plans the sections can come from.
+ * @param selection - The plan ID picked for each section.
+ * @param details - Name and description of the new plan.
+ * @returns The new plan.
+ * @throws Throws an error if a picked plan doesn't exist.
+ */
+export function buildCompositePlan(plans: BirthdayPlan[], selection: CompositeSelection, details: { name: string; description: string }): BirthdayPlan {
+    const sourceFor = (section: PlanSection): BirthdayPlan => {
+        const source = plans.find(plan => plan.id === selection[section]);
+        if (!source) {
+            throw new Error(`Plan with ID ${selection[section]} not found for the ${section} section.`);
+        }
+        return source;
+    };
+
+    const venueSource = sourceFor('venue');
+    const composite: BirthdayPlan = {
+        id: createId('plan'),
+        name: details.name,
+        description: details.description,
+        profile: CUSTOM_PROFILE,
+        date: venueSource.date,
+        venue: structuredClone(venueSource.venue),
+        schedule: structuredClone(sourceFor('schedule').schedule),
+        catering: structuredClone(sourceFor('catering').catering),
+        guestEngagement: structuredClone(sourceFor('guestEngagement').guestEngagement),
+    };
+    const decorations = sourceFor('decorations').decorations;
+    if (decorations) composite.decorations = structuredClone(decorations);
+    return composite;
+}
@@ -0,0 +1,143 @@
+// src/utils/cost.ts
+// Shared by the frontend and the openai-proxy Netlify Function, so keep this module free of browser APIs.
+import type { BirthdayPlan, CostBasis, CostEstimate } from '../types';
+
+// Currency symbols and codes recognized in free-text cost strings, mapped to the codes used in UserInput
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+    [/₪|\b(?:NIS|ILS|shekels?)\b/i, 'NIS'],
+    [/€|\bEUR\b|\beuros?\b/i, 'EUR'],
+    [/£|\bGBP\b/i, 'GBP'],
+    [/\$|\bUSD\b|\bdollars?\b/i, 'USD'],
+];
+
+// Phrases that mark a cost as per-person rather than a flat total
+const PER_PERSON_PATTERN = /per\s*(?:person|guest|head|child|kid|adult|participant)|\/\s*(?:person|guest|head|child|kid)|\bpp\b|\beach\b/i;
+
+// What may join the two ends of a range (e.g., "1000-1500", "₪50 to ₪80"), once currency marks are removed
+const RANGE_SEPARATOR_PATTERN = /^\s*(?:[-–—]|to)\s*$/i;
+const CURRENCY_MARK_PATTERN = /₪|€|£|\$|\b(?:NIS|ILS|EUR|GBP|USD)\b/gi;
+
+/**
+ * Parses a free-text cost description (e.g., "1000-1500 NIS", "Approx. 800 NIS", "₪60 per person")
+ * into a structured CostEstimate.
+ * Two amounts are only read as a range when a range separator joins them; otherwise the first amount is the cost,
+ * and it's per person only if the per-person phrase belongs to it (so "200 NIS + 30 NIS per kid" is a flat 200).
+ * @param text - The free-text cost string.
+ * @param fallbackCurrency - Currency to assume when the text doesn't name one.
+ * @returns The parsed CostEstimate, or null if the text contains no amount (e.g., "$$$").
+ */
+export function parseCostText(text: string | undefined | null, fallbackCurrency: string): CostEstimate | null {
+    if (!text || typeof text !== 'string') return null;
+
+    // Find all numbers, allowing thousands separators, decimals and a "k" suffix (e.g., "1.5k")
+    const amounts = [...text.matchAll(/(\d[\d,]*(?:\.\d+)?)\s*(k\b)?/gi)]
+        .map(match => ({ value: parseFloat(match[1].replace(/,/g, '')) * (match[2] ? 1000 : 1), inThousands: !!match[2], start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }))
+        .filter(amount => Number.isFinite(amount.value));
+    if (amounts.length === 0) return null;
+
+    const [first, second] = amounts;
+    const isRange = !!second && RANGE_SEPARATOR_PATTERN.test(text.slice(first.end, second.start).replace(CURRENCY_MARK_PATTERN, ''));
+    // The text that describes the cost read: everything up to the next amount that isn't part of it
+    const costText = text.slice(0, amounts[isRange ? 2 : 1]?.start ?? text.length);
+
+    const currency = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? fallbackCurrency;
+    const basis: CostBasis = PER_PERSON_PATTERN.test(costText) ? 'per-person' : 'flat';
+    // In "2-3k" the "k" applies to both ends, unless that would put the start above the end (e.g., "500-1k")
+    const start = isRange && second.inThousands && !first.inThousands && first.value * 1000 <= second.value ? first.value * 1000 : first.value;
+    const min = isRange ? Math.min(start, second.value) : start;
+    const max = isRange ? Math.max(start, second.value) : start;
+    return { min, max, currency, basis };
+}
+
+/**
+ * Validates an unknown value as a CostEstimate, repairing what it can.
+ * @param value - The raw value (e.g., from an AI response or storage).
+ * @param fallbackCurrency - Currency to use when the value doesn't have a valid one.
+ * @returns A valid CostEstimate, or null if no usable amount is present.
+ */
+export function normalizeCostEstimate(value: unknown, fallbackCurrency: string): CostEstimate | null {
+    if (typeof value === 'string') return parseCostText(value, fallbackCurrency);
+    if (typeof value !== 'object' || value === null) return null;
+    const raw = value as Record<string, unknown>;
+    const toNumber = (n: unknown) => (typeof n === 'number' ? n : typeof n === 'string' ? parseFloat(n.replace(/,/g, '')) : NaN);
+    const min = toNumber(raw.min);
+    const max = toNumber(raw.max);
+    if (!Number.isFinite(min) && !Number.isFinite(max)) return null;
+    const safeMin = Number.isFinite(min) ? min : max;
+    const safeMax = Number.isFinite(max) ? max : min;
+    return {
+        min: Math.max(0, Math.min(safeMin, safeMax)),
+        max: Math.max(0, safeMin, safeMax),
+        currency: typeof raw.currency === 'string' && raw.currency.trim() !== '' ? raw.currency.trim() : fallbackCurrency,
+        basis: raw.basis === 'per-person' ? 'per-person' : 'flat',
+    };
+}
+
+/**
+ * Returns the structured cost of a plan item, falling back to parsing its legacy free-text cost.
+ * Plans saved before the cost model existed only have the text field.
+ */
+export function resolveCost(cost: CostEstimate | undefined, legacyText: string | undefined, fallbackCurrency: string): CostEstimate | null {
+    return normalizeCostEstimate(cost, fallbackCurrency) ?? parseCostText(legacyText, fallbackCurrency);
+}
+
+/** Scales a cost to the whole party (per-person costs are multiplied by the guest count). */
+export function scaleCost(cost: CostEstimate, guestCount: number): { min: number; max: number } {
+    const factor = cost.basis === 'per-person' ? Math.max(guestCount, 0) : 1;
+    return { min: cost.min * factor, max: cost.max * factor };
+}
+
+// Result of totaling the known costs of a plan
+export interface PlanCostTotal {
+    min: number;
+    max: number;
+    currency: string;
+    lines: { label: string; cost: CostEstimate; min: number; max: number }[]; // Costed plan sections
+    unknown: string[]; // Plan sections whose cost couldn't be determined
+    mixedCurrencies: boolean; // True if sections use different currencies (total is then unreliable)
+}
+
+/**
+ * Totals the estimated costs of a plan's sections for the given guest count.
+ * @param plan - The plan to total.
+ * @param guestCount - Total number of guests (adults + children), used for per-person costs.
+ * @param currency - The budget currency, used when a cost doesn't name one.
+ * @returns The min/max totals with a per-section breakdown.
+ */
+export function computePlanCost(plan: BirthdayPlan, guestCount: number, currency: string): PlanCostTotal {
+    const sections: { label: string; cost: CostEstimate | null }[] = [
+        { label: 'Venue', cost: resolveCost(plan.venue?.cost, plan.venue?.costRange, currency) },
+        { label: 'Catering', cost: resolveCost(plan.catering?.cost, plan.catering?.estimatedCost, currency) },
+    ];
+    const total: PlanCostTotal = { min: 0, max: 0, currency, lines: [], unknown: [], mixedCurrencies: false };
+    sections.forEach(({ label, cost }) => {
+        if (!cost) {
+            total.unknown.push(label);
+            return;
+        }
+        const scaled = scaleCost(cost, guestCount);
+        total.min += scaled.min;
+        total.max += scaled.max;
+        total.lines.push({ label, cost, ...scaled });
+        if (cost.currency !== currency) total.mixedCurrencies = true;
+    });
+    return total;
+}
+
+/** Formats an amount with thousands separators (e.g., 12500 -> "12,500"). */
+export function formatAmount(amount: number): string {
+    return Math.round(amount).toLocaleString();
+}
+
+/** Formats a min/max range with its currency (e.g., "1,000–1,500 NIS"). */
+export function formatRange(min: number, max: number, currency: string): string {
+    return min === max ? `${formatAmount(min)} ${currency}` : `${formatAmount(min)}–${formatAmount(max)} ${currency}`;
+}
+
+/**
+ * Formats a CostEstimate for display (e.g., "60–80 NIS per person").
+ * @param perPersonLabel - Suffix for per-person costs (translated in the UI).
+ */
+export function formatCostEstimate(cost: CostEstimate, perPersonLabel = 'per person'): string {
+    return `${formatRange(cost.min, cost.max, cost.currency)}${cost.basis === 'per-person' ? ` ${perPersonLabel}` : ''}`;
+}
@@ -0,0 +1,169 @@
+// src/utils/dietary.ts
+// Checks a plan's menu against the user's dietary restrictions (allergens to avoid, diets to follow).
+// Menu items are checked with the AI's tags where they exist plus keyword detection, so items added or
+// renamed by hand are still checked. Shared with the Netlify Function (bundled by esbuild), so keep it free of browser APIs.
+import type { Allergen, Catering, CateringMenu, Diet, DietaryRestrictions, MenuItemTag } from '../types';
+import { splitDesserts } from './cateringQuantities';
+import type { MenuCategory } from './cateringQuantities';
+
+// Display labels for each allergen, in display order
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+    nuts: 'Tree nuts',
+    peanuts: 'Peanuts',
+    gluten: 'Gluten',
+    dairy: 'Dairy',
+    eggs: 'Eggs',
+    soy: 'Soy',
+    fish: 'Fish',
+    shellfish: 'Shellfish',
+    sesame: 'Sesame',
+};
+
+// Display labels for each diet, in display order
+export const DIET_LABELS: Record<Diet, string> = {
+    vegetarian: 'Vegetarian',
+    vegan: 'Vegan',
+    kosher: 'Kosher',
+    halal: 'Halal',
+};
+
+// Words that suggest an allergen in a menu item's name
+const ALLERGEN_KEYWORDS: Record<Allergen, RegExp> = {
+    nuts: /\b(nuts?|almonds?|walnuts?|cashews?|pistachios?|hazelnuts?|pecans?|praline|nutella|marzipan)\b/i,
+    peanuts: /\b(peanuts?|peanut butter|satay)\b/i,
+    gluten: /\b(bread|buns?|pizzas?|pasta|couscous|cakes?|cupcakes?|cookies?|biscuits?|crackers?|bruschetta|quiches?|schnitzel|breaded|wraps?|pitas?|bagels?|croissants?|pastr(y|ies)|pies?|muffins?|brownies?|noodles?|flour|wheat|barley|beer|sandwich(es)?|sliders?|burgers?|pancakes?|waffles?|tempura|lasagna)\b/i,
+    dairy: /\b(cheese|cheesy|cheeseburgers?|milk|milkshakes?|butter|cream|creamy|yogh?urt|quiches?|halloumi|mozzarella|parmesan|feta|ricotta|latte|margherita|risotto|cakes?|cupcakes?|ice cream|custard)\b/i,
+    eggs: /\b(eggs?|quiches?|mayo|mayonnaise|meringue|aioli|cakes?|cupcakes?|brownies?|muffins?|pancakes?|waffles?|custard|cookies?|schnitzel)\b/i,
+    soy: /\b(soy|soya|tofu|edamame|tempeh|miso)\b/i,
+    fish: /\b(fish|salmon|tuna|cod|anchov(y|ies)|sardines?|sushi|trout|tilapia)\b/i,
+    shellfish: /\b(shrimps?|prawns?|crabs?|lobsters?|shellfish|oysters?|mussels?|clams?|scallops?|calamari|squid)\b/i,
+    sesame: /\b(sesame|tahini|hummus|halva|falafel)\b/i,
+};
+
+// Meat, and meat-free qualifiers that cancel it (e.g., "Veggie burger sliders")
+const MEAT_PATTERN = /\b(chicken|beef|pork|ham|bacon|sausages?|hot dogs?|lamb|turkey|meatballs?|burgers?|cheeseburgers?|sliders?|salami|pepperoni|steak|kebabs?|shawarma|brisket|ribs|veal|duck|prosciutto|schnitzel|tenders)\b/i;
+const MEAT_FREE_PATTERN = /\b(veggie|vegetarian|vegan|plant-based|meatless|mushroom)\b/i;
+// Animal products other than meat, fish and dairy/eggs that vegetarians or vegans avoid
+const GELATIN_PATTERN = /\b(gelatin|gelatine|marshmallows?|gummy|gummies)\b/i;
+const HONEY_PATTERN = /\bhoney\b/i;
+// Never kosher or halal
+const PORK_PATTERN = /\b(pork|ham|bacon|prosciutto|pepperoni|salami|lard)\b/i;
+// Not halal
+const ALCOHOL_PATTERN = /\b(wine|beer|cocktails?|champagne|prosecco|rum|vodka|liquor|sangria|spirits)\b/i;
+
+/** Allergens and unsuitable diets of one menu item. */
+export interface MenuItemDietInfo {
+    category: MenuCategory;
+    item: string;
+    allergens: Allergen[]; // Allergens the item contains (tagged or detected)
+    unsuitableFor: Diet[]; // Diets the item doesn't fit
+}
+
+/** A menu item that breaks the dietary restrictions. */
+export interface DietaryConflict {
+    category: MenuCategory;
+    item: string;
+    allergens: Allergen[]; // Restricted allergens the item contains
+    diets: Diet[]; // Required diets the item doesn't fit
+}
+
+/**
+ * Cleans up dietary restrictions from an untrusted source (e.g., a request body): missing or invalid lists
+ * become empty, and unknown allergens and diets are dropped.
+ * @param value - The raw restrictions value.
+ * @returns Restrictions with both lists present.
+ */
+export function normalizeDietaryRestrictions(value: unknown): DietaryRestrictions {
+    const raw = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+    const pick = <T extends string>(list: unknown, known: Record<T, string>): T[] =>
+        (Array.isArray(list) ? list : []).filter((entry): entry is T => typeof entry === 'string' && Object.keys(known).includes(entry));
+    return { allergens: pick(raw.allergens, ALLERGEN_LABELS), diets: pick(raw.diets, DIET_LABELS) };
+}
+
+/** Returns true if any restriction is set. */
+export function hasDietaryRestrictions(restrictions: DietaryRestrictions | undefined | null): restrictions is DietaryRestrictions {
+    return !!restrictions && (restrictions.allergens.length > 0 || restrictions.diets.length > 0);
+}
+
+/**
+ * Describes the restrictions as hard requirements for an AI prompt.
+ * @returns The requirement text, or an empty string if nothing is restricted.
+ */
+export function describeDietaryRestrictions(restrictions: DietaryRestrictions | undefined | null): string {
+    if (!hasDietaryRestrictions(restrictions)) return '';
+    const parts: string[] = [];
+    if (restrictions.allergens.length > 0) parts.push(`no menu item may contain ${restrictions.allergens.map(a => ALLERGEN_LABELS[a].toLowerCase()).join(', ')}`);
+    if (restrictions.diets.length > 0) parts.push(`every menu item must be ${restrictions.diets.map(d => DIET_LABELS[d].toLowerCase()).join(' and ')}`);
+    return `HARD DIETARY REQUIREMENTS (never break these): ${parts.join('; ')}. Tag every menu item in 'menuTags' with its allergens and the diets it suits.`;
+}
+
+/**
+ * Detects allergens and unsuitable diets from a menu item's name.
+ * Detection is conservative: an item like "Cupcakes" is assumed to contain gluten, dairy and eggs.
+ */
+export function detectMenuItemDiet(item: string): { allergens: Allergen[]; unsuitableFor: Diet[] } {
+    const allergens = (Object.keys(ALLERGEN_KEYWORDS) as Allergen[]).filter(allergen => ALLERGEN_KEYWORDS[allergen].test(item));
+    const hasMeat = MEAT_PATTERN.test(item) && !MEAT_FREE_PATTERN.test(item);
+    const hasSeafood = allergens.includes('fish') || allergens.includes('shellfish');
+    const unsuitableFor = new Set<Diet>();
+    if (hasMeat || hasSeafood || GELATIN_PATTERN.test(item)) {
+        unsuitableFor.add('vegetarian');
+        unsuitableFor.add('vegan');
+    }
+    if (allergens.includes('dairy') || allergens.includes('eggs') || HONEY_PATTERN.test(item)) unsuitableFor.add('vegan');
+    // Pork and shellfish are never kosher, nor is meat served with dairy
+    if (PORK_PATTERN.test(item) || allergens.includes('shellfish') || (hasMeat && allergens.includes('dairy'))) unsuitableFor.add('kosher');
+    if (PORK_PATTERN.test(item) || ALCOHOL_PATTERN.test(item)) unsuitableFor.add('halal');
+    return { allergens, unsuitableFor: [...unsuitableFor] };
+}
+
+/** Finds the tag for a menu item (names are compared case-insensitively). */
+const findTag = (tags: MenuItemTag[] | undefined, item: string): MenuItemTag | undefined =>
+    tags?.find(tag => tag.item.trim().toLowerCase() === item.trim().toLowerCase());
+
+/**
+ * Lists every menu item with its allergens and the diets it doesn't fit.
+ * Tagged allergens are combined with detected ones; a tag that leaves out a diet marks the item as unsuitable for it.
+ * @param catering - The plan's catering section.
+ * @returns One entry per menu item (each dessert in the desserts text counts separately), in menu order.
+ */
+export function getMenuDietInfo(catering: Partial<Catering> | undefined): MenuItemDietInfo[] {
+    const menu: Partial<CateringMenu> = catering?.menu ?? {};
+    const items: { category: MenuCategory; item: string }[] = [
+        ...(menu.appetizers ?? []).map(item => ({ category: 'appetizers' as const, item })),
+        ...(menu.mainCourses ?? []).map(item => ({ category: 'mainCourses' as const, item })),
+        ...splitDesserts(menu.desserts).map(item => ({ category: 'desserts' as const, item })),
+        ...(menu.beverages ?? []).map(item => ({ category: 'beverages' as const, item })),
+    ].filter(entry => entry.item.trim() !== '');
+
+    return items.map(({ category, item }) => {
+        const detected = detectMenuItemDiet(item);
+        const tag = findTag(catering?.menuTags, item);
+        const allergens = new Set<Allergen>([...detected.allergens, ...(tag?.allergens ?? [])]);
+        const unsuitableFor = new Set<Diet>(detected.unsuitableFor);
+        if (tag) {
+            // Vegan food is vegetarian too, even if the tag only says vegan
+            const taggedDiets = tag.diets.includes('vegan') ? [...tag.diets, 'vegetarian'] : tag.diets;
+            (Object.keys(DIET_LABELS) as Diet[]).filter(diet => !taggedDiets.includes(diet)).forEach(diet => unsuitableFor.add(diet));
+        }
+        return { category, item, allergens: [...allergens], unsuitableFor: [...unsuitableFor] };
+    });
+}
+
+/**
+ * Finds the menu items that break the dietary restrictions.
+ * @param catering - The plan's catering section.
+ * @param restrictions - The user's dietary restrictions.
+ * @returns The conflicting items (empty if the menu fits, or nothing is restricted).
+ */
+export function findDietaryConflicts(catering: Partial<Catering> | undefined, restrictions: DietaryRestrictions | undefined | null): DietaryConflict[] {
+    if (!hasDietaryRestrictions(restrictions)) return [];
+    return getMenuDietInfo(catering)
+        .map(info => ({
+            category: info.category,
+            item: info.item,
+            allergens: info.allergens.filter(allergen => restrictions.allergens.includes(allergen)),
+            diets: info.unsuitableFor.filter(diet => restrictions.diets.includes(diet)),
+        }))
+        .filter(conflict => conflict.allergens.length > 0 || conflict.diets.length > 0);
+}
@@ -0,0 +1,51 @@
+// src/utils/download.ts
+
+/**
+ * Turns a name into a safe file name, keeping letters of any script (e.g., "Space Party!" -> "space-party").
+ * @param name - The name to convert.
+ * @param fallback - Used when nothing is left of the name.
+ */
+export function toFileName(name: string, fallback = 'plan'): string {
+    return name.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || fallback;
+}
+
+/** Quotes a CSV field when it contains a comma, quote or line break. */
+const csvField = (value: string | number): string => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats rows as CSV, quoting fields where needed.
+ * Starts with a byte order mark so spreadsheet apps (e.g., Excel) read the file as UTF-8.
+ * @param rows - The rows, starting with the header row.
+ */
+export function formatCsv(rows: (string | number)[][]): string {
+    return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Starts a browser download of a file.
+ * @param fileName - The file name to save as.
+ * @param blob - The file data.
+ */
+export function downloadBlob(fileName: string, blob: Blob): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Starts a browser download of a text file.
+ * @param fileName - The file name to save as.
+ * @param contents - The file contents.
+ * @param mimeType - The file's MIME type (e.g., "text/csv;charset=utf-8").
+ */
+export function downloadTextFile(fileName: string, contents: string, mimeType: string): void {
+    downloadBlob(fileName, new Blob([contents], { type: mimeType }));
+}
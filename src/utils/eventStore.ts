@@ -0,0 +1,161 @@
+// src/utils/eventStore.ts
+import type { BirthdayPlan, PartyEvent, UserInput } from '../types';
+import { createId } from './ids';
+
+// localStorage key holding all events, stored as a map of event ID -> PartyEvent
+const EVENTS_STORAGE_KEY = 'birthdayEvents';
+// Keys used by the old single-slot storage (one party at a time)
+const LEGACY_PLANS_KEY = 'generatedPlans';
+const LEGACY_USER_INPUT_KEY = 'userInput';
+
+type EventMap = Record<string, PartyEvent>;
+
+/**
+ * Reads the raw event map from localStorage.
+ * Returns an empty map if nothing is stored or the stored value is corrupted.
+ */
+function readEventMap(): EventMap {
+    const stored = localStorage.getItem(EVENTS_STORAGE_KEY);
+    if (!stored) return {};
+    try {
+        const parsed: unknown = JSON.parse(stored);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            console.error('eventStore: Stored events are not an object map, ignoring them.');
+            return {};
+        }
+        return parsed as EventMap;
+    } catch (err) {
+        console.error('eventStore: Failed to parse stored events:', err);
+        return {};
+    }
+}
+
+/** Writes the complete event map back to localStorage. */
+function writeEventMap(events: EventMap): void {
+    localStorage.setItem(EVENTS_STORAGE_KEY, JSON.stringify(events));
+}
+
+/**
+ * Moves data from the old single-slot keys ('generatedPlans' / 'userInput') into the event store,
+ * so a party planned before the workspace existed shows up as its own event.
+ * Runs once; the legacy keys are removed afterwards.
+ */
+function migrateLegacyStorage(): void {
+    const legacyPlans = localStorage.getItem(LEGACY_PLANS_KEY);
+    const legacyUserInput = localStorage.getItem(LEGACY_USER_INPUT_KEY);
+    if (!legacyPlans || !legacyUserInput) return;
+
+    try {
+        const plans: unknown = JSON.parse(legacyPlans);
+        const userInput: UserInput = JSON.parse(legacyUserInput);
+        if (Array.isArray(plans) && plans.length > 0) {
+            createEvent(userInput, plans as BirthdayPlan[]);
+            console.log('eventStore: Migrated legacy plans into a new event.');
+        }
+    } catch (err) {
+        console.error('eventStore: Failed to migrate legacy plan data:', err);
+    }
+    localStorage.removeItem(LEGACY_PLANS_KEY);
+    localStorage.removeItem(LEGACY_USER_INPUT_KEY);
+}
+
+/**
+ * Lists all stored events, most recently updated first.
+ * @returns An array of PartyEvent records.
+ */
+export function listEvents(): PartyEvent[] {
+    migrateLegacyStorage();
+    return Object.values(readEventMap()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Loads a single event by ID.
+ * @param eventId - The ID of the event to load.
+ * @returns The PartyEvent, or null if it doesn't exist.
+ */
+export function getEvent(eventId: string): PartyEvent | null {
+    migrateLegacyStorage();
+    return readEventMap()[eventId] ?? null;
+}
+
+/**
+ * Creates and stores a new event for a freshly generated set of plans.
+ * @param userInput - The form input the plans were generated from.
+ * @param plans - The generated plans.
+ * @returns The newly created PartyEvent.
+ */
+export function createEvent(userInput: UserInput, plans: BirthdayPlan[]): PartyEvent {
+    const now = new Date().toISOString();
+    const event: PartyEvent = {
+        id: createId('event'),
+        createdAt: now,
+        updatedAt: now,
+        userInput,
+        plans,
+    };
+    const events = readEventMap();
+    events[event.id] = event;
+    writeEventMap(events);
+    return event;
+}
+
+/**
+ * Applies an update to a stored event and persists it, refreshing its 'updatedAt' timestamp.
+ * @param eventId - The ID of the event to update.
+ * @param updater - Receives the current event and returns the updated event.
+ * @returns The updated PartyEvent.
+ * @throws Throws an error if the event doesn't exist.
+ */
+export function updateEvent(eventId: string, updater: (event: PartyEvent) => PartyEvent): PartyEvent {
+    const events = readEventMap();
+    const current = events[eventId];
+    if (!current) {
+        throw new Error(`Event with ID ${eventId} not found in storage.`);
+    }
+    const updated: PartyEvent = { ...updater(current), id: current.id, updatedAt: new Date().toISOString() };
+    events[eventId] = updated;
+    writeEventMap(events);
+    return updated;
+}
+
+/**
+ * Adds a new plan to an event (used for custom plans built from sections of the generated plans).
+ * @param eventId - The ID of the event to add the plan to.
+ * @param plan - The new plan; its 'id' must not be used by another plan of the event.
+ * @returns The updated PartyEvent.
+ * @throws Throws an error if the event doesn't exist or already has a plan with the same ID.
+ */
+export function addPlanToEvent(eventId: string, plan: BirthdayPlan): PartyEvent {
+    return updateEvent(eventId, event => {
+        if (event.plans.some(p => p.id === plan.id)) {
+            throw new Error(`Plan with ID ${plan.id} already exists in event ${eventId}.`);
+        }
+        return { ...event, plans: [...event.plans, plan] };
+    });
+}
+
+/**
+ * Marks one of the event's plans as the chosen plan (the winner of the comparison).
+ * @param eventId - The ID of the event that owns the plan.
+ * @param planId - The ID of the chosen plan.
+ * @returns The updated PartyEvent.
+ * @throws Throws an error if the event or plan doesn't exist.
+ */
+export function setChosenPlan(eventId: string, planId: string): PartyEvent {
+    return updateEvent(eventId, event => {
+        if (!event.plans.some(p => p.id === planId)) {
+            throw new Error(`Plan with ID ${planId} not found in event ${eventId}.`);
+        }
+        return { ...event, chosenPlanId: planId };
+    });
+}
+
+/**
+ * Deletes an event and everything stored with it.
+ * @param eventId - The ID of the event to delete.
+ */
+export function deleteEvent(eventId: string): void {
+    const events = readEventMap();
+    delete events[eventId];
+    writeEventMap(events);
+}
@@ -0,0 +1,88 @@
+// src/utils/guests.ts
+import type { Guest, PartyEvent, RsvpStatus } from '../types';
+import { updateEvent } from './eventStore';
+import { createId } from './ids';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Message keys of the display labels for each RSVP status, in display order
+export const RSVP_STATUS_LABELS: Record<RsvpStatus, MessageKey> = {
+    invited: 'guests.status.invited',
+    yes: 'guests.status.yes',
+    maybe: 'guests.status.maybe',
+    no: 'guests.status.no',
+};
+
+export const RSVP_STATUSES = Object.keys(RSVP_STATUS_LABELS) as RsvpStatus[];
+
+/** Creates a new guest; any field can be filled in up front. */
+export function createGuest(fields: Partial<Omit<Guest, 'id'>> = {}): Guest {
+    return { name: '', type: 'adult', contact: '', household: '', rsvp: 'invited', plusOnes: 0, notes: '', ...fields, id: createId('guest') };
+}
+
+/**
+ * Saves an event's guest list.
+ * @param eventId - The ID of the event.
+ * @param guests - The complete guest list.
+ * @returns The updated event.
+ */
+export function saveGuests(eventId: string, guests: Guest[]): PartyEvent {
+    return updateEvent(eventId, event => ({ ...event, guests }));
+}
+
+// Headcount for one group of guests (plus-ones are counted as adults)
+export interface GuestHeadcount {
+    adults: number;
+    children: number;
+    total: number;
+}
+
+// Headcounts per RSVP status for a guest list
+export type GuestSummary = Record<RsvpStatus, GuestHeadcount>;
+
+/** Returns the number of people a guest entry stands for (the guest plus any plus-ones). */
+const countGuest = (guest: Guest): GuestHeadcount => {
+    const plusOnes = Math.max(0, Math.floor(guest.plusOnes || 0));
+    const adults = (guest.type === 'adult' ? 1 : 0) + plusOnes;
+    const children = guest.type === 'child' ? 1 : 0;
+    return { adults, children, total: adults + children };
+};
+
+/**
+ * Totals the guest list by RSVP status.
+ * @param guests - The event's guests.
+ * @returns Adult, child and total headcounts for every RSVP status.
+ */
+export function summarizeGuests(guests: Guest[]): GuestSummary {
+    const summary = Object.fromEntries(RSVP_STATUSES.map(status => [status, { adults: 0, children: 0, total: 0 }])) as GuestSummary;
+    guests.forEach(guest => {
+        const count = countGuest(guest);
+        const totals = summary[guest.rsvp] ?? summary.invited;
+        totals.adults += count.adults;
+        totals.children += count.children;
+        totals.total += count.total;
+    });
+    return summary;
+}
+
+// The headcount used for per-person costs, and where it came from
+export interface EventHeadcount extends GuestHeadcount {
+    source: 'planned' | 'confirmed';
+}
+
+/**
+ * Returns the headcount to plan catering and per-person costs for.
+ * This is the planned adult/child counts from the form, raised to the confirmed (attending) guests when
+ * more have confirmed than were planned. Guests who haven't replied don't lower it, so adding the first
+ * guests to the list doesn't cut catering short.
+ * @param event - The event (only its user input and guest list are read).
+ * @returns The headcount and its source.
+ */
+export function getEventHeadcount(event: Pick<PartyEvent, 'userInput' | 'guests'>): EventHeadcount {
+    const plannedAdults = event.userInput?.guestCountAdults || 0;
+    const plannedChildren = event.userInput?.guestCountChildren || 0;
+    const confirmed = summarizeGuests(event.guests ?? []).yes;
+    const adults = Math.max(plannedAdults, confirmed.adults);
+    const children = Math.max(plannedChildren, confirmed.children);
+    const source = adults > plannedAdults || children > plannedChildren ? 'confirmed' : 'planned';
+    return { adults, children, total: adults + children, source };
+}
@@ -0,0 +1,13 @@
+// src/utils/ids.ts
+
+/**
+ * Creates a reasonably unique, URL-safe ID for locally stored records.
+ * Combines a base-36 timestamp with a random suffix (e.g., "event-lq2x8k3f-9a1c").
+ * @param prefix - A short prefix describing the record type (e.g., "event").
+ * @returns The generated ID string.
+ */
+export function createId(prefix: string): string {
+    const timePart = Date.now().toString(36);
+    const randomPart = Math.random().toString(36).slice(2, 6);
+    return `${prefix}-${timePart}-${randomPart}`;
+}
@@ -0,0 +1,97 @@
+// src/utils/imageStore.ts
+// Stores images (e.g., invitation artwork) in IndexedDB, which holds far more than localStorage.
+// Images are keyed by the ID of the record that owns them.
+
+const DB_NAME = 'partyPilotImages';
+const DB_VERSION = 1;
+const STORE_NAME = 'images';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Opens the image database once, creating the store on first use. */
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) request.result.createObjectStore(STORE_NAME);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('Failed to open the image database.'));
+        });
+        // Allow a retry after a failed open (e.g., private browsing)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+/** Runs a single request against the image store and resolves with its result. */
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = makeRequest(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? new Error('Image database request failed.'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('Image database request was aborted.'));
+    });
+}
+
+/**
+ * Saves an image, replacing any image stored under the same ID.
+ * @param id - The ID of the record that owns the image.
+ * @param image - The image data.
+ */
+export async function putImage(id: string, image: Blob): Promise<void> {
+    await runRequest('readwrite', store => store.put(image, id));
+}
+
+/**
+ * Loads an image.
+ * @param id - The ID of the record that owns the image.
+ * @returns The image, or null if none is stored.
+ */
+export async function getImage(id: string): Promise<Blob | null> {
+    const image = await runRequest<unknown>('readonly', store => store.get(id));
+    return image instanceof Blob ? image : null;
+}
+
+/**
+ * Deletes an image (does nothing if none is stored).
+ * @param id - The ID of the record that owns the image.
+ */
+export async function deleteImage(id: string): Promise<void> {
+    await runRequest('readwrite', store => store.delete(id));
+}
+
+/**
+ * Converts a data URL (e.g., "data:image/png;base64,...") into a Blob.
+ * @throws Throws an error if the value isn't a valid data URL.
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const match = dataUrl.match(/^data:([^;,]+)?((?:;[^;,]+)*?)(;base64)?,(.*)$/s);
+    if (!match) throw new Error('Not a valid data URL.');
+    const [, mimeType = 'application/octet-stream', , isBase64, data] = match;
+    if (!isBase64) return new Blob([decodeURIComponent(data)], { type: mimeType });
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Converts a Blob into a data URL (e.g., to send a locally stored image to the server).
+ * @throws Throws an error if the Blob can't be read.
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read the image.'));
+        reader.readAsDataURL(blob);
+    });
+}
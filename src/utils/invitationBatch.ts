@@ -0,0 +1,150 @@
+// src/utils/invitationBatch.ts
+// Turns one saved invitation into personal messages for the guest list: one per guest or per household,
+// with the recipient's name filled in and, optionally, a different tone (rewritten once per tone by the AI).
+import { strToU8, zipSync } from 'fflate';
+import type { Guest, InvitationRewriteStyle } from '../types';
+import { formatCsv, toFileName } from './download';
+import { translate } from '../i18n/language';
+import type { Language } from '../i18n/language';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Whether each guest gets their own message or each household gets one together
+export type RecipientGrouping = 'guest' | 'household';
+
+// Tone of a message: the base text as it is, or one of the AI rewrites that change the tone
+export type InvitationTone = 'original' | Extract<InvitationRewriteStyle, 'shorter' | 'funnier' | 'formal'>;
+
+// Message keys of the display labels for each tone, in display order
+export const INVITATION_TONE_LABELS: Record<InvitationTone, MessageKey> = {
+    original: 'batch.tone.original',
+    funnier: 'batch.tone.funnier',
+    formal: 'batch.tone.formal',
+    shorter: 'batch.tone.shorter',
+};
+
+// Placeholder in the invitation text or greeting that is replaced with the recipient's name
+export const NAME_PLACEHOLDER = '{name}';
+
+// Who one personalized message is for
+export interface InvitationRecipient {
+    id: string; // The guest's ID, or "household:<name>" for a household
+    name: string; // Name used in the message (the guest's name or the household's name)
+    guests: Guest[]; // The guests the message is for
+    contact: string; // Phone number or email to send it to (the first one given in a household; may be empty)
+}
+
+// A finished message for one recipient
+export interface PersonalizedInvitation {
+    recipient: InvitationRecipient;
+    tone: InvitationTone;
+    text: string;
+}
+
+/**
+ * Lists who gets a message. Guests who declined are left out, and so are guests without a name.
+ * With household grouping, guests sharing a household get one message addressed to the household;
+ * guests without a household still get their own.
+ * @param guests - The event's guest list.
+ * @param grouping - One message per guest or per household.
+ * @returns The recipients, in guest list order.
+ */
+export function buildRecipients(guests: Guest[], grouping: RecipientGrouping): InvitationRecipient[] {
+    const recipients: InvitationRecipient[] = [];
+    const households = new Map<string, InvitationRecipient>();
+    guests.filter(guest => guest.rsvp !== 'no' && guest.name.trim()).forEach(guest => {
+        const household = guest.household.trim();
+        if (grouping === 'household' && household) {
+            const key = household.toLowerCase();
+            const existing = households.get(key);
+            if (existing) {
+                existing.guests.push(guest);
+                existing.contact ||= guest.contact.trim();
+                return;
+            }
+            const recipient: InvitationRecipient = { id: `household:${key}`, name: household, guests: [guest], contact: guest.contact.trim() };
+            households.set(key, recipient);
+            recipients.push(recipient);
+            return;
+        }
+        recipients.push({ id: guest.id, name: guest.name.trim(), guests: [guest], contact: guest.contact.trim() });
+    });
+    return recipients;
+}
+
+/**
+ * Fills the recipient's name into the text. Every {name} in the text is replaced; if the text has none,
+ * the greeting (e.g., "Dear {name},") is added as the first line instead.
+ * @param text - The invitation text in the recipient's tone.
+ * @param name - The recipient's name.
+ * @param greeting - The greeting line used when the text has no {name} placeholder (may be empty).
+ */
+export function personalizeText(text: string, name: string, greeting: string): string {
+    if (text.includes(NAME_PLACEHOLDER)) return text.split(NAME_PLACEHOLDER).join(name);
+    const greetingLine = greeting.split(NAME_PLACEHOLDER).join(name).trim();
+    return greetingLine ? `${greetingLine}\n\n${text}` : text;
+}
+
+/**
+ * Builds a link that opens the message ready to send: a WhatsApp chat for phone numbers
+ * (in international format, e.g., "+972 50 123 4567") or an email draft for email addresses.
+ * @param contact - The recipient's phone number or email.
+ * @param text - The message.
+ * @param subject - Email subject line.
+ * @returns The link, or '' if the contact isn't a phone number or email.
+ */
+export function getMessagingLink(contact: string, text: string, subject: string): string {
+    if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contact)) {
+        return `mailto:${contact}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(text)}`;
+    }
+    const phone = contact.replace(/[\s\-().]/g, '');
+    if (/^\+?\d{7,15}$/.test(phone)) {
+        return `https://wa.me/${phone.replace(/^\+/, '')}?text=${encodeURIComponent(text)}`;
+    }
+    return '';
+}
+
+/**
+ * Formats the messages as CSV (one row per recipient), ready to import into a messaging or mail-merge tool.
+ * @param messages - The personalized messages.
+ * @param subject - Email subject line, used for the email links.
+ * @param language - The language for the column headings and tone names.
+ */
+export function formatInvitationBatchCsv(messages: PersonalizedInvitation[], subject: string, language: Language = 'en'): string {
+    const t = (key: MessageKey) => translate(language, key);
+    const rows = [[t('batch.csv.recipient'), t('batch.csv.guests'), t('batch.csv.contact'), t('batch.csv.tone'), t('batch.csv.message'), t('batch.csv.link')]];
+    messages.forEach(({ recipient, tone, text }) => rows.push([
+        recipient.name,
+        recipient.guests.map(guest => guest.name).join('; '),
+        recipient.contact,
+        t(INVITATION_TONE_LABELS[tone]),
+        text,
+        getMessagingLink(recipient.contact, text, subject),
+    ]));
+    return formatCsv(rows);
+}
+
+/**
+ * Packs the messages into a zip file: one text file per recipient, the CSV of all messages
+ * and, when given, the invitation image.
+ * @param messages - The personalized messages.
+ * @param subject - Email subject line, used for the email links in the CSV.
+ * @param language - The language of the CSV's column headings and tone names.
+ * @param image - The invitation image and its file name, if available.
+ * @returns The zip file.
+ */
+export async function createInvitationBatchZip(
+    messages: PersonalizedInvitation[],
+    subject: string,
+    language: Language,
+    image?: { fileName: string; blob: Blob } | null
+): Promise<Blob> {
+    const files: Record<string, Uint8Array> = {};
+    const digits = String(messages.length).length;
+    messages.forEach(({ recipient, text }, index) => {
+        // Numbered, because two recipients can have the same name
+        files[`${String(index + 1).padStart(digits, '0')}-${toFileName(recipient.name, 'guest')}.txt`] = strToU8(text);
+    });
+    files['messages.csv'] = strToU8(formatInvitationBatchCsv(messages, subject, language));
+    if (image) files[image.fileName] = new Uint8Array(await image.blob.arrayBuffer());
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+}
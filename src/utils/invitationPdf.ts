@@ -0,0 +1,227 @@
+// src/utils/invitationPdf.ts
+// Composes a generated invitation (image + text) into a printable card PDF.
+// Each template style gets its own layout; jsPDF is loaded on demand since it's large.
+import type { jsPDF } from 'jspdf';
+import { encode } from 'uqr';
+import { drawTextLine, hasRtlText, splitText } from './pdfText';
+import type { PdfTextStyle } from './pdfText';
+
+// Print sizes offered for invitation cards
+export type InvitationPrintSize = 'a6' | 'a5' | '4x6' | '5x7';
+
+// Card dimensions in millimeters (portrait)
+export const INVITATION_PRINT_SIZES: Record<InvitationPrintSize, { label: string; width: number; height: number }> = {
+    a6: { label: 'A6 (105 × 148 mm)', width: 105, height: 148 },
+    a5: { label: 'A5 (148 × 210 mm)', width: 148, height: 210 },
+    '4x6': { label: '4 × 6 in', width: 101.6, height: 152.4 },
+    '5x7': { label: '5 × 7 in', width: 127, height: 177.8 },
+};
+
+type Rgb = [number, number, number];
+type Box = { x: number; y: number; w: number; h: number };
+
+const MM_PER_PT = 25.4 / 72;
+const LINE_HEIGHT_FACTOR = 1.3;
+
+/** Text style used to fill a card's text box. */
+interface TextStyle {
+    font: 'times' | 'helvetica';
+    color: Rgb;
+    align: 'center' | 'left';
+    maxSize: number; // Font size (pt) on an A6 card; scaled with the card width
+}
+
+/**
+ * Loads an image and crops it to the given aspect ratio (like CSS "object-fit: cover"),
+ * returning it as a JPEG data URL jsPDF can embed. SVG images are rasterized on the way.
+ * @returns The data URL, or null if the image can't be loaded or read (e.g., an expired or cross-origin link).
+ */
+async function loadCroppedImage(src: string, aspectRatio: number): Promise<string | null> {
+    try {
+        const image = new Image();
+        if (/^https?:/i.test(src)) image.crossOrigin = 'anonymous';
+        await new Promise<void>((resolve, reject) => {
+            image.onload = () => resolve();
+            image.onerror = () => reject(new Error('Image failed to load.'));
+            image.src = src;
+        });
+        const sourceWidth = image.naturalWidth || 1024;
+        const sourceHeight = image.naturalHeight || 1024;
+        // Crop the largest centered region with the target aspect ratio
+        const cropWidth = Math.min(sourceWidth, sourceHeight * aspectRatio);
+        const cropHeight = cropWidth / aspectRatio;
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(Math.min(1600, cropWidth));
+        canvas.height = Math.round(canvas.width / aspectRatio);
+        const context = canvas.getContext('2d');
+        if (!context) return null;
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, (sourceWidth - cropWidth) / 2, (sourceHeight - cropHeight) / 2, cropWidth, cropHeight, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/jpeg', 0.92);
+    } catch (err) {
+        console.warn('invitationPdf: Could not use the invitation image:', err);
+        return null;
+    }
+}
+
+/**
+ * Writes text into a box, shrinking the font until it fits, and centers it vertically.
+ * @param scale - Card width relative to A6, used to scale the font size.
+ */
+function fillTextBox(doc: jsPDF, text: string, box: Box, style: TextStyle, scale: number): void {
+    const textStyle = (size: number): PdfTextStyle => ({ font: style.font, size, color: style.color });
+    let size = style.maxSize * scale;
+    let lines = splitText(doc, text, box.w, textStyle(size));
+    while (size > 6 && lines.length * size * LINE_HEIGHT_FACTOR * MM_PER_PT > box.h) {
+        size -= 0.5;
+        lines = splitText(doc, text, box.w, textStyle(size));
+    }
+    const lineHeight = size * LINE_HEIGHT_FACTOR * MM_PER_PT;
+    const top = box.y + Math.max(0, (box.h - lines.length * lineHeight) / 2);
+    // Left-aligned layouts align right-to-left text to the right edge instead
+    const align = style.align === 'center' ? 'center' : hasRtlText(text) ? 'right' : 'left';
+    const x = align === 'center' ? box.x + box.w / 2 : align === 'right' ? box.x + box.w : box.x;
+    lines.forEach((line, index) => drawTextLine(doc, line, x, top + index * lineHeight, align, textStyle(size)));
+}
+
+/** Draws the image, or a soft placeholder block when there's no usable image. */
+function drawImage(doc: jsPDF, imageData: string | null, box: Box, placeholder: Rgb): void {
+    if (imageData) {
+        doc.addImage(imageData, 'JPEG', box.x, box.y, box.w, box.h);
+    } else {
+        doc.setFillColor(...placeholder);
+        doc.rect(box.x, box.y, box.w, box.h, 'F');
+    }
+}
+
+/** Draws a QR code (dark modules on a white square) with its top-left corner at x, y. */
+function drawQrCode(doc: jsPDF, url: string, x: number, y: number, size: number): void {
+    const { data } = encode(url, { border: 1 });
+    const moduleSize = size / data.length;
+    doc.setFillColor(255, 255, 255);
+    doc.rect(x, y, size, size, 'F');
+    doc.setFillColor(0, 0, 0);
+    data.forEach((row, rowIndex) => row.forEach((dark, columnIndex) => {
+        if (dark) doc.rect(x + columnIndex * moduleSize, y + rowIndex * moduleSize, moduleSize, moduleSize, 'F');
+    }));
+}
+
+/** Layout for one template: draws the background and image, and returns where the text goes and how it looks. */
+type CardLayout = (doc: jsPDF, size: { width: number; height: number }, imageSrc: string | null) => Promise<{ textBox: Box; textStyle: TextStyle }>;
+
+// Classic: cream card with a double gold border, framed image and serif text
+const classicLayout: CardLayout = async (doc, { width, height }, imageSrc) => {
+    const margin = width * 0.08;
+    const gold: Rgb = [184, 150, 80];
+    doc.setFillColor(253, 250, 243);
+    doc.rect(0, 0, width, height, 'F');
+    doc.setDrawColor(...gold);
+    doc.setLineWidth(0.8);
+    doc.rect(margin / 2, margin / 2, width - margin, height - margin);
+    doc.setLineWidth(0.3);
+    doc.rect(margin / 2 + 1.5, margin / 2 + 1.5, width - margin - 3, height - margin - 3);
+    const imageBox = { x: margin, y: margin, w: width - margin * 2, h: (height - margin * 2) * 0.48 };
+    drawImage(doc, imageSrc && await loadCroppedImage(imageSrc, imageBox.w / imageBox.h), imageBox, [240, 232, 214]);
+    const lineY = imageBox.y + imageBox.h + margin * 0.4;
+    doc.line(width * 0.35, lineY, width * 0.65, lineY);
+    return {
+        textBox: { x: margin, y: lineY + margin * 0.4, w: width - margin * 2, h: height - margin - (lineY + margin * 0.4) },
+        textStyle: { font: 'times', color: [70, 52, 32], align: 'center', maxSize: 13 },
+    };
+};
+
+// Playful: sunny card with confetti, a white-framed image and bold colors
+const playfulLayout: CardLayout = async (doc, { width, height }, imageSrc) => {
+    const margin = width * 0.08;
+    const confettiColors: Rgb[] = [[236, 72, 153], [59, 130, 246], [34, 197, 94], [249, 115, 22]];
+    doc.setFillColor(255, 247, 214);
+    doc.rect(0, 0, width, height, 'F');
+    // Fixed confetti positions along the edges keep the card deterministic
+    for (let i = 0; i < 28; i++) {
+        const onSide = i % 2 === 0;
+        const nearStart = i % 4 < 2; // Left side or top edge
+        const x = onSide ? (nearStart ? margin * 0.4 : width - margin * 0.4) : ((i * 37) % 100) / 100 * width;
+        const y = onSide ? ((i * 53) % 100) / 100 * height : (nearStart ? margin * 0.4 : height - margin * 0.4);
+        doc.setFillColor(...confettiColors[i % confettiColors.length]);
+        doc.circle(x, y, 0.6 + (i % 3) * 0.4, 'F');
+    }
+    const imageBox = { x: margin, y: margin, w: width - margin * 2, h: (height - margin * 2) * 0.5 };
+    doc.setFillColor(255, 255, 255);
+    doc.roundedRect(imageBox.x - 1.5, imageBox.y - 1.5, imageBox.w + 3, imageBox.h + 3, 3, 3, 'F');
+    drawImage(doc, imageSrc && await loadCroppedImage(imageSrc, imageBox.w / imageBox.h), imageBox, [253, 230, 138]);
+    const textTop = imageBox.y + imageBox.h + margin * 0.6;
+    return {
+        textBox: { x: margin, y: textTop, w: width - margin * 2, h: height - margin - textTop },
+        textStyle: { font: 'helvetica', color: [107, 33, 168], align: 'center', maxSize: 12 },
+    };
+};
+
+// Themed: the image fills the card, with the text on a translucent panel at the bottom
+const themedLayout: CardLayout = async (doc, { width, height }, imageSrc) => {
+    const margin = width * 0.07;
+    drawImage(doc, imageSrc && await loadCroppedImage(imageSrc, width / height), { x: 0, y: 0, w: width, h: height }, [199, 210, 254]);
+    const panel = { x: margin, y: height * 0.52, w: width - margin * 2, h: height * 0.48 - margin };
+    const { GState } = await import('jspdf');
+    doc.setGState(new GState({ opacity: 0.88 }));
+    doc.setFillColor(255, 255, 255);
+    doc.roundedRect(panel.x, panel.y, panel.w, panel.h, 3, 3, 'F');
+    doc.setGState(new GState({ opacity: 1 }));
+    const padding = margin * 0.5;
+    return {
+        textBox: { x: panel.x + padding, y: panel.y + padding, w: panel.w - padding * 2, h: panel.h - padding * 2 },
+        textStyle: { font: 'helvetica', color: [31, 41, 55], align: 'center', maxSize: 11 },
+    };
+};
+
+// Minimalist: plain white card, image on top, a hairline and left-aligned text
+const minimalistLayout: CardLayout = async (doc, { width, height }, imageSrc) => {
+    const margin = width * 0.1;
+    doc.setFillColor(255, 255, 255);
+    doc.rect(0, 0, width, height, 'F');
+    const imageBox = { x: margin, y: margin, w: width - margin * 2, h: (height - margin * 2) * 0.42 };
+    drawImage(doc, imageSrc && await loadCroppedImage(imageSrc, imageBox.w / imageBox.h), imageBox, [243, 244, 246]);
+    const lineY = imageBox.y + imageBox.h + margin * 0.5;
+    doc.setDrawColor(209, 213, 219);
+    doc.setLineWidth(0.2);
+    doc.line(margin, lineY, margin + imageBox.w * 0.25, lineY);
+    return {
+        textBox: { x: margin, y: lineY + margin * 0.4, w: width - margin * 2, h: height - margin - (lineY + margin * 0.4) },
+        textStyle: { font: 'helvetica', color: [55, 65, 81], align: 'left', maxSize: 11 },
+    };
+};
+
+const CARD_LAYOUTS: Record<string, CardLayout> = {
+    classic: classicLayout,
+    playful: playfulLayout,
+    themed: themedLayout,
+    minimalist: minimalistLayout,
+};
+
+/**
+ * Builds a one-page invitation card PDF.
+ * @param invitation - The invitation text, template style and image (a data URL, object URL or hosted URL; may be empty),
+ *   and optionally the RSVP link, printed as a QR code below the text.
+ * @param printSize - The card size to print at.
+ * @returns The PDF file.
+ */
+export async function createInvitationPdf(
+    invitation: { text: string; template: string; imageSrc: string | null; rsvpUrl?: string | null },
+    printSize: InvitationPrintSize
+): Promise<Blob> {
+    const { jsPDF } = await import('jspdf');
+    const size = INVITATION_PRINT_SIZES[printSize];
+    const doc = new jsPDF({ unit: 'mm', format: [size.width, size.height], orientation: 'portrait' });
+    const layout = CARD_LAYOUTS[invitation.template] ?? themedLayout;
+    const { textBox, textStyle } = await layout(doc, size, invitation.imageSrc);
+    const scale = size.width / INVITATION_PRINT_SIZES.a6.width;
+    if (invitation.rsvpUrl) {
+        // The QR code takes the bottom of the text box, centered
+        const qrSize = Math.min(18 * scale, textBox.h * 0.4);
+        const gap = 2 * scale;
+        drawQrCode(doc, invitation.rsvpUrl, textBox.x + (textBox.w - qrSize) / 2, textBox.y + textBox.h - qrSize, qrSize);
+        textBox.h -= qrSize + gap;
+    }
+    fillTextBox(doc, invitation.text.trim(), textBox, textStyle, scale);
+    return doc.output('blob');
+}
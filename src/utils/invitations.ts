@@ -0,0 +1,120 @@
+// src/utils/invitations.ts
+// Saves generated invitations with their event. The text and details live in the event (localStorage);
+// the image is copied into IndexedDB, because hosted AI image URLs expire within hours.
+import type { BirthdayPlan, PartyEvent, SavedInvitation, SmartInvitation } from '../types';
+import { updateEvent } from './eventStore';
+import { createId } from './ids';
+import { dataUrlToBlob, deleteImage, getImage, putImage } from './imageStore';
+
+/**
+ * Returns an event's saved invitations, newest first.
+ * @param event - The event that owns the invitations.
+ */
+export function getInvitations(event: PartyEvent): SavedInvitation[] {
+    return [...(event.invitations ?? [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Saves a generated invitation with its event, keeping a local copy of the image when one was returned.
+ * If the image can't be stored (e.g., IndexedDB is unavailable), the invitation is still saved with its hosted URL.
+ * @param eventId - The ID of the event that owns the plan.
+ * @param plan - The plan the invitation was generated for.
+ * @param invitation - The generated invitation.
+ * @param details - The date and time shown on the invitation.
+ * @returns The saved invitation.
+ */
+export async function saveInvitation(
+    eventId: string,
+    plan: BirthdayPlan,
+    invitation: SmartInvitation,
+    details: { date: string; time: string }
+): Promise<SavedInvitation> {
+    const id = createId('invite');
+    let hasLocalImage = false;
+    if (invitation.imageDataUrl) {
+        try {
+            await putImage(id, dataUrlToBlob(invitation.imageDataUrl));
+            hasLocalImage = true;
+        } catch (err) {
+            console.error('invitations: Failed to store the invitation image locally:', err);
+        }
+    }
+    const saved: SavedInvitation = {
+        id,
+        planId: plan.id,
+        planName: plan.name,
+        template: invitation.template,
+        date: details.date,
+        time: details.time,
+        text: invitation.text,
+        // Data URLs are stored in IndexedDB instead; they're too large for localStorage
+        imageUrl: invitation.imageUrl.startsWith('data:') ? '' : invitation.imageUrl,
+        hasLocalImage,
+        createdAt: new Date().toISOString(),
+    };
+    updateEvent(eventId, event => ({ ...event, invitations: [...(event.invitations ?? []), saved] }));
+    return saved;
+}
+
+/**
+ * Replaces the text of a saved invitation (after manual edits or an AI rewrite). The image is kept.
+ * @param eventId - The ID of the event that owns the invitation.
+ * @param invitationId - The ID of the invitation to update.
+ * @param text - The new invitation text.
+ * @returns The updated event.
+ */
+export function updateInvitationText(eventId: string, invitationId: string, text: string): PartyEvent {
+    return updateEvent(eventId, event => ({
+        ...event,
+        invitations: (event.invitations ?? []).map(invitation => invitation.id === invitationId ? { ...invitation, text } : invitation),
+    }));
+}
+
+/**
+ * Deletes a saved invitation and its local image.
+ * @param eventId - The ID of the event that owns the invitation.
+ * @param invitationId - The ID of the invitation to delete.
+ * @returns The updated event.
+ */
+export async function deleteInvitation(eventId: string, invitationId: string): Promise<PartyEvent> {
+    const updated = updateEvent(eventId, event => ({ ...event, invitations: (event.invitations ?? []).filter(invitation => invitation.id !== invitationId) }));
+    try {
+        await deleteImage(invitationId);
+    } catch (err) {
+        // The invitation is already gone; an orphaned image only takes up space
+        console.error('invitations: Failed to delete the invitation image:', err);
+    }
+    return updated;
+}
+
+/**
+ * Deletes the local images of all of an event's invitations (used when the event itself is deleted).
+ * @param event - The event being deleted.
+ */
+export async function deleteInvitationImages(event: PartyEvent): Promise<void> {
+    await Promise.all((event.invitations ?? []).filter(invitation => invitation.hasLocalImage).map(invitation =>
+        deleteImage(invitation.id).catch(err => console.error('invitations: Failed to delete an invitation image:', err))
+    ));
+}
+
+/**
+ * Loads an invitation's image.
+ * @param invitation - The saved invitation.
+ * @returns The local copy, or null if none is stored (the hosted URL may still work).
+ */
+export async function loadInvitationImage(invitation: SavedInvitation): Promise<Blob | null> {
+    if (!invitation.hasLocalImage) return null;
+    try {
+        return await getImage(invitation.id);
+    } catch (err) {
+        console.error('invitations: Failed to load the invitation image:', err);
+        return null;
+    }
+}
+
+/** File extension for an image MIME type (e.g., "image/svg+xml" -> "svg"). */
+export function getImageExtension(mimeType: string): string {
+    if (mimeType === 'image/jpeg') return 'jpg';
+    if (mimeType === 'image/svg+xml') return 'svg';
+    return mimeType.startsWith('image/') ? mimeType.slice('image/'.length) : 'png';
+}
@@ -0,0 +1,131 @@
+// src/utils/ledger.ts
+import type { BirthdayPlan, BudgetCategory, LedgerItem, PartyEvent } from '../types';
+import { updateEvent } from './eventStore';
+import { createId } from './ids';
+import { resolveCost, scaleCost } from './cost';
+import { getEventHeadcount } from './guests';
+import { translate } from '../i18n/language';
+import type { Language } from '../i18n/language';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Message keys of the display labels for each ledger category, in display order
+export const BUDGET_CATEGORY_LABELS: Record<BudgetCategory, MessageKey> = {
+    venue: 'ledger.category.venue',
+    food: 'ledger.category.food',
+    activities: 'ledger.category.activities',
+    decorations: 'ledger.category.decorations',
+    partyFavors: 'ledger.category.partyFavors',
+};
+
+export const BUDGET_CATEGORIES = Object.keys(BUDGET_CATEGORY_LABELS) as BudgetCategory[];
+
+/** Creates an empty line item in the given category. */
+export function createLedgerItem(category: BudgetCategory = 'venue'): LedgerItem {
+    return { id: createId('ledger'), description: '', category, vendor: '', estimated: 0, paid: false };
+}
+
+/**
+ * Builds starting line items from the plan's AI cost estimates (venue and catering).
+ * The upper end of each estimate is used, so the ledger errs on the side of caution.
+ * @param plan - The plan to read estimates from.
+ * @param guestCount - Total number of guests, used for per-person costs.
+ * @param currency - The budget currency.
+ * @param language - The language the line item descriptions are written in.
+ * @returns The seeded line items (empty if the plan has no usable estimates).
+ */
+export function seedLedgerFromPlan(plan: BirthdayPlan, guestCount: number, currency: string, language: Language = 'en'): LedgerItem[] {
+    const style = plan.catering?.servingStyle;
+    const sources: { category: BudgetCategory; description: string; vendor: string; cost: ReturnType<typeof resolveCost> }[] = [
+        { category: 'venue', description: translate(language, 'ledger.seed.venue'), vendor: plan.venue?.name ?? '', cost: resolveCost(plan.venue?.cost, plan.venue?.costRange, currency) },
+        { category: 'food', description: style ? translate(language, 'ledger.seed.cateringStyle', { style }) : translate(language, 'ledger.seed.catering'), vendor: '', cost: resolveCost(plan.catering?.cost, plan.catering?.estimatedCost, currency) },
+    ];
+    return sources
+        // Amounts in another currency can't be added to the budget, so they are left out
+        .filter(source => source.cost && source.cost.currency === currency)
+        .map(source => ({
+            // Stable IDs, so the seeded ledger is the same on every load until the user edits it
+            id: `ledger-${source.category}-${plan.id}`,
+            description: source.description,
+            category: source.category,
+            vendor: source.vendor,
+            estimated: Math.round(scaleCost(source.cost!, guestCount).max),
+            paid: false,
+        }));
+}
+
+/**
+ * Returns the ledger of a plan within an event, seeding it from the plan's estimates if none was saved yet.
+ * @param event - The event that owns the plan.
+ * @param planId - The ID of the plan.
+ * @param language - The language of the seeded line item descriptions.
+ * @returns The plan's line items.
+ */
+export function getLedger(event: PartyEvent, planId: string, language: Language = 'en'): LedgerItem[] {
+    const saved = event.ledgers?.[planId];
+    if (saved) return saved;
+    const plan = event.plans.find(p => p.id === planId);
+    if (!plan) return [];
+    return seedLedgerFromPlan(plan, getEventHeadcount(event).total, event.userInput.currency, language);
+}
+
+/**
+ * Saves a plan's ledger into its event.
+ * @param eventId - The ID of the event that owns the plan.
+ * @param planId - The ID of the plan.
+ * @param items - The complete list of line items.
+ * @returns The updated event.
+ * @throws Throws an error if the event doesn't exist.
+ */
+export function saveLedger(eventId: string, planId: string, items: LedgerItem[]): PartyEvent {
+    return updateEvent(eventId, event => ({
+        ...event,
+        ledgers: { ...(event.ledgers ?? {}), [planId]: items },
+    }));
+}
+
+// Totals for a single category (or the whole ledger)
+export interface LedgerTotals {
+    estimated: number; // Sum of estimated amounts
+    actual: number; // Sum of actual amounts entered so far
+    paid: number; // Amount already paid (actual if known, otherwise estimated)
+    projected: number; // Expected final spend: actual where known, otherwise estimated
+}
+
+// Result of totaling a ledger against the budget
+export interface LedgerSummary {
+    byCategory: Record<BudgetCategory, LedgerTotals>;
+    total: LedgerTotals;
+    remaining: number; // Budget left after the projected spend (negative when over budget)
+    isOverBudget: boolean;
+}
+
+/** Returns the amount an item is expected to cost in the end. */
+function projectedAmount(item: LedgerItem): number {
+    return typeof item.actual === 'number' ? item.actual : item.estimated;
+}
+
+/**
+ * Totals a ledger per category and compares the projected spend to the budget.
+ * @param items - The ledger's line items.
+ * @param budgetAmount - The user's budget.
+ * @returns The category totals, overall totals and remaining budget.
+ */
+export function summarizeLedger(items: LedgerItem[], budgetAmount: number): LedgerSummary {
+    const emptyTotals = (): LedgerTotals => ({ estimated: 0, actual: 0, paid: 0, projected: 0 });
+    const byCategory = Object.fromEntries(BUDGET_CATEGORIES.map(category => [category, emptyTotals()])) as Record<BudgetCategory, LedgerTotals>;
+    const total = emptyTotals();
+
+    items.forEach(item => {
+        // Items with an unknown category (e.g., edited storage) still count toward the overall total
+        const targets = byCategory[item.category] ? [byCategory[item.category], total] : [total];
+        targets.forEach(totals => {
+            totals.estimated += item.estimated || 0;
+            totals.actual += item.actual || 0;
+            totals.projected += projectedAmount(item) || 0;
+            if (item.paid) totals.paid += projectedAmount(item) || 0;
+        });
+    });
+
+    const remaining = budgetAmount - total.projected;
+    return { byCategory, total, remaining, isOverBudget: budgetAmount > 0 && remaining < 0 };
+}
@@ -0,0 +1,100 @@
+// src/utils/pdfText.ts
+// Text helpers shared by the PDF exports. jsPDF's built-in fonts only cover Latin text and can't lay out
+// right-to-left scripts, so lines in Hebrew (or Arabic) are drawn on a canvas by the browser and embedded as images.
+import type { jsPDF } from 'jspdf';
+
+type Rgb = [number, number, number];
+
+/** How a run of PDF text looks. */
+export interface PdfTextStyle {
+    font: 'times' | 'helvetica';
+    size: number; // Font size in points
+    bold?: boolean;
+    color: Rgb;
+}
+
+const MM_PER_PT = 25.4 / 72;
+// Canvas text is rendered at print resolution (300 dpi)
+const PX_PER_MM = 300 / 25.4;
+const CANVAS_FONTS: Record<PdfTextStyle['font'], string> = {
+    helvetica: 'Arial, Helvetica, sans-serif',
+    times: '"Times New Roman", Times, serif',
+};
+
+// Hebrew, Arabic, Syriac, Thaana and the Hebrew/Arabic presentation forms
+const RTL_PATTERN = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+/** Returns true if the text contains right-to-left characters (Hebrew, Arabic). */
+export const hasRtlText = (text: string): boolean => RTL_PATTERN.test(text);
+
+const cssFont = (style: PdfTextStyle) => `${style.bold ? 'bold ' : ''}${style.size * MM_PER_PT * PX_PER_MM}px ${CANVAS_FONTS[style.font]}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/** Returns a canvas context set to the style's font, for measuring text. */
+function getMeasureContext(style: PdfTextStyle): CanvasRenderingContext2D {
+    measureContext ??= document.createElement('canvas').getContext('2d');
+    if (!measureContext) throw new Error('Canvas is not available for drawing PDF text.');
+    measureContext.font = cssFont(style);
+    return measureContext;
+}
+
+/** Wraps text to lines no wider than the width (mm) using canvas measurements. Line breaks in the text are kept. */
+function splitCanvasText(text: string, width: number, style: PdfTextStyle): string[] {
+    const context = getMeasureContext(style);
+    const maxWidth = width * PX_PER_MM;
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && context.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        lines.push(line);
+    });
+    return lines;
+}
+
+/**
+ * Wraps text to the given width (mm), like jsPDF's splitTextToSize.
+ * Sets the document's font to the style as a side effect.
+ */
+export function splitText(doc: jsPDF, text: string, width: number, style: PdfTextStyle): string[] {
+    if (hasRtlText(text)) return splitCanvasText(text, width, style);
+    doc.setFont(style.font, style.bold ? 'bold' : 'normal').setFontSize(style.size);
+    return doc.splitTextToSize(text, width) as string[];
+}
+
+/**
+ * Writes one line of text with its top at y. x is the left edge, center or right edge depending on the alignment.
+ */
+export function drawTextLine(doc: jsPDF, line: string, x: number, y: number, align: 'left' | 'center' | 'right', style: PdfTextStyle): void {
+    if (!line.trim()) return;
+    if (!hasRtlText(line)) {
+        doc.setFont(style.font, style.bold ? 'bold' : 'normal').setFontSize(style.size).setTextColor(...style.color);
+        doc.text(line, x, y, { baseline: 'top', align });
+        return;
+    }
+    // Draw the line on a canvas sized to the text; the browser orders and shapes the right-to-left text
+    const lineWidth = getMeasureContext(style).measureText(line).width;
+    const fontPx = style.size * MM_PER_PT * PX_PER_MM;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(lineWidth) + 2;
+    canvas.height = Math.ceil(fontPx * 1.25);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available for drawing PDF text.');
+    context.font = cssFont(style);
+    context.direction = 'rtl';
+    context.textAlign = 'right';
+    context.textBaseline = 'top';
+    context.fillStyle = `rgb(${style.color.join(',')})`;
+    context.fillText(line, canvas.width - 1, 0);
+    const width = canvas.width / PX_PER_MM;
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    doc.addImage(canvas.toDataURL('image/png'), 'PNG', left, y, width, canvas.height / PX_PER_MM);
+}
@@ -0,0 +1,59 @@
+// src/utils/planComparison.ts
+// Lines plans up side by side: the figures compared on the Results page, and which plan is best for each.
+import type { BirthdayPlan } from '../types';
+import { computePlanCost } from './cost';
+import { analyzeSchedule } from './timeline';
+import { findCoveredActivities } from './activities';
+
+/** The compared figures of one plan. */
+export interface PlanComparisonSummary {
+    planId: string;
+    venueName: string;
+    cost: { min: number; max: number } | null; // Null if no section cost is known or sections use different currencies
+    scheduleMinutes: number | null; // Null if no schedule item has a readable time
+    activityCount: number; // Items in the schedule
+    servingStyle: string;
+    coveredActivities: string[]; // Selected activity types the plan includes
+}
+
+/** Context shared by all compared plans. */
+export interface PlanComparisonInput {
+    guestCount: number; // Total guests, used for per-person costs
+    currency: string; // The budget currency
+    activities: string[]; // Activity types selected in the form
+}
+
+/**
+ * Collects the compared figures of one plan.
+ * @param plan - The plan to summarize.
+ * @param input - Guest count, currency and selected activities.
+ */
+export function summarizePlanForComparison(plan: BirthdayPlan, input: PlanComparisonInput): PlanComparisonSummary {
+    const total = computePlanCost(plan, input.guestCount, input.currency);
+    const schedule = analyzeSchedule(plan.schedule ?? []);
+    return {
+        planId: plan.id,
+        venueName: plan.venue?.name ?? '',
+        cost: total.lines.length > 0 && !total.mixedCurrencies ? { min: total.min, max: total.max } : null,
+        scheduleMinutes: schedule.entries.length > 0 ? schedule.totalMinutes : null,
+        activityCount: (plan.schedule ?? []).length,
+        servingStyle: plan.catering?.servingStyle ?? '',
+        coveredActivities: findCoveredActivities(plan, input.activities),
+    };
+}
+
+/**
+ * Finds the plans with the best value of a figure. Nothing is best when every plan has the same value,
+ * or when fewer than two plans have one.
+ * @param values - The figure per plan ID (null if unknown).
+ * @param prefer - Whether lower or higher values are better.
+ * @returns The IDs of the plans with the best value.
+ */
+export function findBestPlanIds(values: Record<string, number | null>, prefer: 'lower' | 'higher'): string[] {
+    const known = Object.entries(values).filter((entry): entry is [string, number] => entry[1] !== null);
+    if (known.length < 2) return [];
+    const numbers = known.map(([, value]) => value);
+    const best = prefer === 'lower' ? Math.min(...numbers) : Math.max(...numbers);
+    if (numbers.every(value => value === best)) return [];
+    return known.filter(([, value]) => value === best).map(([planId]) => planId);
+}
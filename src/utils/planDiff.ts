@@ -0,0 +1,167 @@
+// src/utils/planDiff.ts
+import type { BirthdayPlan } from '../types';
+
+/**
+ * A single changed field between two versions of a plan.
+ * 'path' identifies the field (e.g., ['venue', 'name'] or ['schedule', 2]).
+ * 'before' is undefined for added values, 'after' is undefined for removed values.
+ */
+export interface PlanFieldChange {
+    path: (string | number)[];
+    label: string; // Human-readable field label (e.g., "Venue › Name")
+    before: unknown;
+    after: unknown;
+}
+
+// Display names for plan keys that don't read well when simply split from camelCase
+const FIELD_LABELS: Record<string, string> = {
+    guestEngagement: 'Guest Engagement',
+    costRange: 'Cost Range',
+    estimatedCost: 'Estimated Cost',
+    servingStyle: 'Serving Style',
+    mainCourses: 'Main Courses',
+    interactiveElements: 'Interactive Elements',
+    photoOpportunities: 'Photo Opportunities',
+    partyFavors: 'Party Favors',
+    techIntegration: 'Tech Integration',
+    venueSearchSuggestions: 'Search Suggestions',
+    cateringSearchSuggestions: 'Search Suggestions',
+    entertainmentSearchSuggestions: 'Search Suggestions',
+    decorationSearchSuggestions: 'Search Suggestions',
+    source: 'DIY or Buy',
+    optimizationSummary: 'Optimization Summary',
+};
+
+/** Turns one path segment into a display label (the UI passes one that returns translated labels). */
+export type SegmentLabeler = (segment: string | number) => string;
+
+/** Converts a path segment into a display label (e.g., 'partyFavors' -> 'Party Favors', 2 -> 'Item 3'). */
+export function segmentLabel(segment: string | number): string {
+    if (typeof segment === 'number') return `Item ${segment + 1}`;
+    return FIELD_LABELS[segment] ?? segment.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+}
+
+/** Builds the display label for a full path. */
+export function pathLabel(path: (string | number)[], labelSegment: SegmentLabeler = segmentLabel): string {
+    return path.map(segment => labelSegment(segment)).join(' › ');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Returns true if every element of the array is a plain object (e.g., schedule items). */
+function isObjectArray(value: unknown): value is Record<string, unknown>[] {
+    return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
+
+/** Structural equality for JSON-like values. */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Recursively collects changes between two JSON-like values. */
+function collectChanges(before: unknown, after: unknown, path: (string | number)[], changes: PlanFieldChange[]): void {
+    if (valuesEqual(before, after)) return;
+
+    // Recurse into objects key by key
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        keys.forEach(key => collectChanges(before[key], after[key], [...path, key], changes));
+        return;
+    }
+
+    // Compare arrays of objects (like schedule items) item by item;
+    // arrays of strings (like menu lists) are compared as a whole
+    if ((isObjectArray(before) || isObjectArray(after)) && (Array.isArray(before) || before === undefined) && (Array.isArray(after) || after === undefined)) {
+        const beforeItems = (before ?? []) as unknown[];
+        const afterItems = (after ?? []) as unknown[];
+        const length = Math.max(beforeItems.length, afterItems.length);
+        for (let i = 0; i < length; i++) {
+            if (!valuesEqual(beforeItems[i], afterItems[i])) {
+                changes.push({ path: [...path, i], label: pathLabel([...path, i]), before: beforeItems[i], after: afterItems[i] });
+            }
+        }
+        return;
+    }
+
+    changes.push({ path, label: pathLabel(path), before, after });
+}
+
+/**
+ * Computes a field-by-field diff between two versions of a plan.
+ * The plan 'id' is ignored, since both versions always describe the same plan.
+ * @param before - The older version of the plan.
+ * @param after - The newer version of the plan.
+ * @returns The list of changed fields, in plan order.
+ */
+export function diffPlans(before: BirthdayPlan, after: BirthdayPlan): PlanFieldChange[] {
+    const changes: PlanFieldChange[] = [];
+    const withoutId = (plan: BirthdayPlan): Partial<BirthdayPlan> => {
+        const copy: Partial<BirthdayPlan> = { ...plan };
+        delete copy.id;
+        return copy;
+    };
+    collectChanges(withoutId(before), withoutId(after), [], changes);
+    return changes;
+}
+
+/**
+ * Formats a diff value for display.
+ * Lists are joined with commas and objects are shown as "key: value" pairs.
+ */
+export function formatDiffValue(value: unknown, labelSegment: SegmentLabeler = segmentLabel): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (Array.isArray(value)) return value.length > 0 ? value.map(item => formatDiffValue(item, labelSegment)).join(', ') : '—';
+    if (isPlainObject(value)) {
+        return Object.entries(value)
+            .filter(([, v]) => v !== undefined && v !== '')
+            .map(([k, v]) => `${labelSegment(k)}: ${formatDiffValue(v, labelSegment)}`)
+            .join('; ');
+    }
+    return String(value);
+}
+
+// Marks array items removed by an accepted change, so they can be dropped after all changes are applied
+const REMOVED = Symbol('removed');
+
+/**
+ * Applies a subset of diff changes to a plan, e.g. the changes a user accepted while reviewing an update.
+ * Each change sets the value at its path to the change's 'after' value (removing it if 'after' is undefined).
+ * @param base - The plan to apply the changes to (not modified).
+ * @param changes - The changes to apply, as returned by diffPlans.
+ * @returns A new plan with the changes applied.
+ */
+export function applyChanges<T extends object>(base: T, changes: PlanFieldChange[]): T {
+    const result = structuredClone(base) as Record<string | number, unknown>;
+    const touchedArrays = new Set<unknown[]>();
+
+    changes.forEach(({ path, after }) => {
+        if (path.length === 0) return;
+        // Walk to the parent container, creating missing objects/arrays along the way
+        let container = result as Record<string | number, unknown>;
+        for (let i = 0; i < path.length - 1; i++) {
+            const segment = path[i];
+            if (typeof container[segment] !== 'object' || container[segment] === null) {
+                container[segment] = typeof path[i + 1] === 'number' ? [] : {};
+            }
+            container = container[segment] as Record<string | number, unknown>;
+        }
+        const last = path[path.length - 1];
+        if (Array.isArray(container)) {
+            container[last as number] = after === undefined ? REMOVED : structuredClone(after);
+            touchedArrays.add(container);
+        } else if (after === undefined) {
+            delete container[last];
+        } else {
+            container[last] = structuredClone(after);
+        }
+    });
+
+    // Drop removed items and any gaps left by rejected additions before accepted ones
+    touchedArrays.forEach(array => {
+        const kept = array.filter(item => item !== REMOVED);
+        array.splice(0, array.length, ...kept);
+    });
+    return result as T;
+}
@@ -0,0 +1,128 @@
+// src/utils/planHistory.ts
+import type { BirthdayPlan, PartyEvent, PlanHistory, PlanRevision, PlanRevisionSource } from '../types';
+import { updateEvent } from './eventStore';
+import { createId } from './ids';
+
+// Maximum number of revisions kept per plan, so history can't exhaust localStorage
+const MAX_REVISIONS_PER_PLAN = 50;
+
+/** Creates a new revision snapshot of a plan. */
+function createRevision(plan: BirthdayPlan, source: PlanRevisionSource, extra: Partial<PlanRevision> = {}): PlanRevision {
+    return {
+        id: createId('rev'),
+        timestamp: new Date().toISOString(),
+        source,
+        plan: structuredClone(plan),
+        ...extra,
+    };
+}
+
+/**
+ * Returns the history of a plan within an event.
+ * Events created before history existed have none, so a single 'generation' revision
+ * is seeded from the plan's current state.
+ * @param event - The event that owns the plan.
+ * @param planId - The ID of the plan.
+ * @returns The plan's history, or null if the plan doesn't exist in the event.
+ */
+export function getPlanHistory(event: PartyEvent, planId: string): PlanHistory | null {
+    const existing = event.planHistory?.[planId];
+    if (existing && existing.revisions.length > 0) return existing;
+    const plan = event.plans.find(p => p.id === planId);
+    if (!plan) return null;
+    // Use a stable ID and the event's creation time, so the seeded revision is the same on every call
+    const seeded = createRevision(plan, 'generation', { id: `rev-initial-${planId}`, timestamp: event.createdAt });
+    return { revisions: [seeded], cursor: 0 };
+}
+
+/** Writes a plan's history and its current plan snapshot back into the event. */
+function withHistory(event: PartyEvent, planId: string, history: PlanHistory): PartyEvent {
+    const currentPlan = history.revisions[history.cursor].plan;
+    return {
+        ...event,
+        plans: event.plans.map(p => (p.id === planId ? currentPlan : p)),
+        planHistory: { ...(event.planHistory ?? {}), [planId]: history },
+    };
+}
+
+/**
+ * Saves a changed plan as a new revision and makes it the current plan of the event.
+ * Any revisions after the current cursor (i.e. undone changes) are discarded, like in a text editor.
+ * @param eventId - The ID of the event that owns the plan.
+ * @param plan - The updated plan.
+ * @param source - What caused the change.
+ * @param extra - Optional metadata (e.g., the edited section).
+ * @returns The updated event and the plan's new history.
+ * @throws Throws an error if the event or plan doesn't exist.
+ */
+export function commitPlanRevision(
+    eventId: string,
+    plan: BirthdayPlan,
+    source: PlanRevisionSource,
+    extra: Pick<PlanRevision, 'section' | 'restoredFromId'> = {}
+): { event: PartyEvent; history: PlanHistory } {
+    let history!: PlanHistory;
+    const event = updateEvent(eventId, current => {
+        const previous = getPlanHistory(current, plan.id);
+        if (!previous) {
+            throw new Error(`Plan with ID ${plan.id} not found in event ${eventId}.`);
+        }
+        const kept = previous.revisions.slice(0, previous.cursor + 1);
+        const revisions = [...kept, createRevision(plan, source, extra)].slice(-MAX_REVISIONS_PER_PLAN);
+        history = { revisions, cursor: revisions.length - 1 };
+        return withHistory(current, plan.id, history);
+    });
+    return { event, history };
+}
+
+/**
+ * Moves the undo/redo cursor of a plan's history and makes that revision the current plan.
+ * @param eventId - The ID of the event that owns the plan.
+ * @param planId - The ID of the plan.
+ * @param cursor - The index of the revision to show.
+ * @returns The updated event and the plan's history.
+ * @throws Throws an error if the event or plan doesn't exist, or the cursor is out of range.
+ */
+export function moveHistoryCursor(eventId: string, planId: string, cursor: number): { event: PartyEvent; history: PlanHistory } {
+    let history!: PlanHistory;
+    const event = updateEvent(eventId, current => {
+        const previous = getPlanHistory(current, planId);
+        if (!previous) {
+            throw new Error(`Plan with ID ${planId} not found in event ${eventId}.`);
+        }
+        if (cursor < 0 || cursor >= previous.revisions.length) {
+            throw new Error(`Revision index ${cursor} is out of range.`);
+        }
+        history = { ...previous, cursor };
+        return withHistory(current, planId, history);
+    });
+    return { event, history };
+}
+
+/**
+ * Restores an earlier revision by saving a copy of it as a new 'restore' revision.
+ * The revisions in between stay in the history, so a restore can itself be undone.
+ * @param eventId - The ID of the event that owns the plan.
+ * @param planId - The ID of the plan.
+ * @param revisionId - The ID of the revision to restore.
+ * @returns The updated event and the plan's new history.
+ * @throws Throws an error if the event, plan or revision doesn't exist.
+ */
+export function restoreRevision(eventId: string, planId: string, revisionId: string): { event: PartyEvent; history: PlanHistory } {
+    let history!: PlanHistory;
+    const event = updateEvent(eventId, current => {
+        const existing = getPlanHistory(current, planId);
+        if (!existing) {
+            throw new Error(`Plan with ID ${planId} not found in event ${eventId}.`);
+        }
+        const target = existing.revisions.find(r => r.id === revisionId);
+        if (!target) {
+            throw new Error(`Revision ${revisionId} not found for plan ${planId}.`);
+        }
+        // Keep every revision (including undone ones) so the restore itself can be undone
+        const revisions = [...existing.revisions, createRevision(target.plan, 'restore', { restoredFromId: revisionId })].slice(-MAX_REVISIONS_PER_PLAN);
+        history = { revisions, cursor: revisions.length - 1 };
+        return withHistory(current, planId, history);
+    });
+    return { event, history };
+}
@@ -0,0 +1,175 @@
+// src/utils/planPdf.ts
+// Exports a birthday plan as a printable A4 PDF: venue, schedule, menu and guest engagement.
+// jsPDF is loaded on demand since it's large. In Hebrew the layout is mirrored (right-aligned text, times on the right).
+import type { BirthdayPlan } from '../types';
+import { formatCostEstimate } from './cost';
+import { splitDesserts } from './cateringQuantities';
+import { drawTextLine, splitText } from './pdfText';
+import type { PdfTextStyle } from './pdfText';
+import { LANGUAGES, getProfileLabel, translate } from '../i18n/language';
+import type { Language, MessageParams } from '../i18n/language';
+import type { MessageKey } from '../i18n/messages/en';
+
+type Rgb = [number, number, number];
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const MM_PER_PT = 25.4 / 72;
+const LINE_HEIGHT_FACTOR = 1.35;
+
+const ACCENT: Rgb = [79, 70, 229];
+const TEXT: Rgb = [31, 41, 55];
+const MUTED: Rgb = [107, 114, 128];
+
+/** Formats the plan date for the header (e.g., "Sat, Jun 14, 2026"), or returns the raw value. */
+const formatPlanDate = (date: string | undefined, locale: string): string => {
+    if (!date) return '';
+    const parsed = new Date(`${date}T00:00:00`);
+    return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString(locale, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+/**
+ * Builds the plan PDF. Sections flow onto new pages as needed, and every page gets a footer with the plan name and page number.
+ * @param plan - The plan to export.
+ * @param language - The language for headings and labels.
+ * @returns The PDF file.
+ */
+export async function createPlanPdf(plan: BirthdayPlan, language: Language = 'en'): Promise<Blob> {
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+    doc.setLineHeightFactor(LINE_HEIGHT_FACTOR);
+    const t = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
+    const rtl = LANGUAGES[language].dir === 'rtl';
+    const align = rtl ? 'right' : 'left';
+    /** x of the text start for an indent from the start edge (right edge in RTL). */
+    const startX = (indent: number) => (rtl ? PAGE_WIDTH - MARGIN - indent : MARGIN + indent);
+    let y = MARGIN;
+
+    /** Starts a new page if the next block doesn't fit on this one. */
+    const ensureSpace = (height: number) => {
+        if (y + height > PAGE_HEIGHT - MARGIN) {
+            doc.addPage();
+            y = MARGIN;
+        }
+    };
+
+    /** Writes wrapped text line by line, breaking pages between lines. */
+    const write = (text: string, options: { size?: number; bold?: boolean; color?: Rgb; indent?: number; gapAfter?: number } = {}) => {
+        const { size = 10, bold = false, color = TEXT, indent = 0, gapAfter = 1 } = options;
+        if (!text.trim()) return;
+        const style: PdfTextStyle = { font: 'helvetica', size, bold, color };
+        const lineHeight = size * LINE_HEIGHT_FACTOR * MM_PER_PT;
+        splitText(doc, text, CONTENT_WIDTH - indent, style).forEach(line => {
+            ensureSpace(lineHeight);
+            drawTextLine(doc, line, startX(indent), y, align, style);
+            y += lineHeight;
+        });
+        y += gapAfter;
+    };
+
+    /** Writes a section heading with an accent rule; keeps it on the same page as the first lines below it. */
+    const heading = (title: string) => {
+        y += 4;
+        ensureSpace(20);
+        write(title, { size: 14, bold: true, color: ACCENT, gapAfter: 0.5 });
+        doc.setDrawColor(...ACCENT).setLineWidth(0.4);
+        doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+        y += 3;
+    };
+
+    /** Writes a "Label: value" line, skipping empty values. */
+    const field = (label: string, value: string | undefined) => {
+        if (value && value.trim()) write(`${label}: ${value}`);
+    };
+
+    /** Writes a titled bullet list, skipping empty lists. */
+    const bullets = (title: string, items: string[] | undefined) => {
+        const list = (items ?? []).filter(item => item.trim() !== '');
+        if (list.length === 0) return;
+        ensureSpace(12);
+        write(title, { bold: true, gapAfter: 0.5 });
+        list.forEach(item => write(`•  ${item}`, { indent: 3, gapAfter: 0.5 }));
+        y += 1.5;
+    };
+
+    // --- Title ---
+    write(plan.name, { size: 20, bold: true, gapAfter: 1 });
+    write([plan.profile && getProfileLabel(language, plan.profile), formatPlanDate(plan.date, LANGUAGES[language].locale)].filter(Boolean).join(' · '), { size: 10, color: MUTED, gapAfter: 2 });
+    write(plan.description, { size: 10.5, gapAfter: 2 });
+
+    // --- Venue ---
+    const venue = plan.venue;
+    if (venue) {
+        heading(t('plan.section.venue'));
+        write(venue.name, { size: 11.5, bold: true });
+        write(venue.description);
+        field(t('pdf.estimatedCost'), venue.cost ? formatCostEstimate(venue.cost, t('cost.perPersonSuffix')) : venue.costRange);
+        field(t('pdf.whyItFits'), venue.suitability);
+        bullets(t('plan.section.amenities'), venue.amenities);
+    }
+
+    // --- Schedule ---
+    if (plan.schedule && plan.schedule.length > 0) {
+        heading(t('plan.section.schedule'));
+        plan.schedule.forEach(item => {
+            ensureSpace(10);
+            const top = y;
+            // Time in a column at the start edge, activity and details next to it
+            const timeStyle: PdfTextStyle = { font: 'helvetica', size: 10, bold: true, color: ACCENT };
+            const timeLineHeight = 10 * LINE_HEIGHT_FACTOR * MM_PER_PT;
+            const timeLines = splitText(doc, item.time || '', 34, timeStyle);
+            timeLines.forEach((line, index) => drawTextLine(doc, line, startX(0), top + index * timeLineHeight, align, timeStyle));
+            const timeBottom = top + timeLines.length * timeLineHeight;
+            write(item.activity, { bold: true, indent: 38, gapAfter: 0.5 });
+            if (item.description) write(item.description, { indent: 38, color: MUTED, gapAfter: 0.5 });
+            y = Math.max(y, timeBottom) + 2;
+        });
+    }
+
+    // --- Menu ---
+    const catering = plan.catering;
+    if (catering) {
+        heading(t('plan.section.menu'));
+        field(t('pdf.servingStyle'), catering.servingStyle);
+        field(t('pdf.estimatedCost'), catering.cost ? formatCostEstimate(catering.cost, t('cost.perPersonSuffix')) : catering.estimatedCost);
+        y += 1;
+        bullets(t('plan.section.appetizers'), catering.menu?.appetizers);
+        bullets(t('plan.section.mainCourses'), catering.menu?.mainCourses);
+        bullets(t('plan.section.desserts'), splitDesserts(catering.menu?.desserts));
+        bullets(t('plan.section.beverages'), catering.menu?.beverages);
+    }
+
+    // --- Guest Engagement ---
+    const engagement = plan.guestEngagement;
+    if (engagement) {
+        heading(t('plan.section.guestEngagement'));
+        bullets(t('plan.section.icebreakers'), engagement.icebreakers);
+        bullets(t('plan.section.interactiveElements'), engagement.interactiveElements);
+        bullets(t('plan.section.photoOpportunities'), engagement.photoOpportunities);
+        bullets(t('plan.section.partyFavors'), engagement.partyFavors);
+        bullets(t('plan.section.techIntegration'), engagement.techIntegration);
+    }
+
+    // --- Decorations ---
+    const decorations = plan.decorations;
+    if (decorations) {
+        heading(t('plan.section.decorations'));
+        field(t('plan.section.colorPalette'), decorations.colorPalette.join(', '));
+        bullets(t('plan.section.keyPieces'), decorations.keyPieces.map(piece =>
+            `${piece.item} (${t(`plan.decorationSource.${piece.source}`)})${piece.notes ? `: ${piece.notes}` : ''}`));
+    }
+
+    // --- Footer on every page: plan name at the start edge, page number at the end edge ---
+    const pageCount = doc.getNumberOfPages();
+    const footerStyle: PdfTextStyle = { font: 'helvetica', size: 8, color: MUTED };
+    const footerY = PAGE_HEIGHT - MARGIN / 2 - 8 * MM_PER_PT;
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        drawTextLine(doc, plan.name, startX(0), footerY, align, footerStyle);
+        drawTextLine(doc, t('pdf.page', { page, count: pageCount }), rtl ? MARGIN : PAGE_WIDTH - MARGIN, footerY, rtl ? 'left' : 'right', footerStyle);
+    }
+
+    return doc.output('blob');
+}
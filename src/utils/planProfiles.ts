@@ -0,0 +1,79 @@
+// src/utils/planProfiles.ts
+// The plan profiles the planner can generate. Shared with the Netlify function, which adds a profile's
+// description to the generation prompt. To offer a new profile, add it here (and its label to the i18n messages).
+
+/** A kind of plan the planner can generate (e.g., "DIY/Budget"). */
+export interface PlanProfile {
+    name: string; // Stored in BirthdayPlan.profile and sent to the planner (always English)
+    description: string; // What plans of this profile focus on, added to the generation prompt
+    order: number; // Position among the generated plans (lower first)
+    defaultSelected: boolean; // Checked by default in the planning form
+}
+
+// Available profiles; the form lists them by 'order'
+export const PLAN_PROFILES: PlanProfile[] = [
+    {
+        name: 'DIY/Budget',
+        description: 'Keeps costs low with home or public venues, homemade food and decorations, and simple games the hosts run themselves.',
+        order: 1,
+        defaultSelected: true,
+    },
+    {
+        name: 'Premium/Convenience',
+        description: 'A fully hosted party at a private venue, with professional catering, styling and entertainment so the hosts can simply enjoy the day.',
+        order: 2,
+        defaultSelected: true,
+    },
+    {
+        name: 'Unique/Adventure',
+        description: 'Built around a memorable shared experience (an escape room, adventure park, workshop or outing), followed by a themed meal.',
+        order: 3,
+        defaultSelected: true,
+    },
+    {
+        name: 'Sensory-friendly',
+        description: 'Calm and predictable for guests with sensory sensitivities: a quiet venue with a retreat space, soft lighting, no loud music or surprises, a visual schedule and gentle, optional activities.',
+        order: 4,
+        defaultSelected: false,
+    },
+    {
+        name: 'Eco/Zero-waste',
+        description: 'Low-waste and sustainable: reusable tableware, local and plant-forward food, decorations that are borrowed, natural or reused, and no single-use favors.',
+        order: 5,
+        defaultSelected: false,
+    },
+    {
+        name: 'Outdoor sports',
+        description: 'Active and outdoors: a park, beach or sports field with team games, races or a sport everyone can play, and easy food that suits the outdoors.',
+        order: 6,
+        defaultSelected: false,
+    },
+];
+
+/**
+ * Finds a configured profile by name.
+ * @param name - The profile name (e.g., "DIY/Budget").
+ * @returns The profile, or undefined for names that aren't configured (e.g., "Custom").
+ */
+export function findPlanProfile(name: string): PlanProfile | undefined {
+    return PLAN_PROFILES.find(profile => profile.name === name);
+}
+
+/** Returns the configured profiles in display order. */
+export function getOrderedProfiles(): PlanProfile[] {
+    return [...PLAN_PROFILES].sort((a, b) => a.order - b.order);
+}
+
+/** Returns the names of the profiles generated when the user doesn't choose any (the ones checked by default). */
+export function getDefaultProfileNames(): string[] {
+    return getOrderedProfiles().filter(profile => profile.defaultSelected).map(profile => profile.name);
+}
+
+/**
+ * Compares two profile names by their configured order. Names that aren't configured come last.
+ * Use with Array.prototype.sort, e.g., plans.sort((a, b) => compareProfiles(a.profile, b.profile)).
+ */
+export function compareProfiles(a: string, b: string): number {
+    const orderOf = (name: string) => findPlanProfile(name)?.order ?? Number.MAX_SAFE_INTEGER;
+    return orderOf(a) - orderOf(b);
+}
@@ -0,0 +1,149 @@
+// src/utils/rsvp.ts
+// The event's public RSVP page: guests open /rsvp/:token to reply, and replies are pulled into the guest list.
+// The page and the replies are kept by the openai-proxy function (see netlify/lib/rsvpStores);
+// the event only keeps the token and the host key needed to publish the page and read the replies.
+import { renderSVG } from 'uqr';
+import type { Guest, PartyEvent, RsvpResponse, RsvpSettings, SavedInvitation } from '../types';
+import { listRsvpResponses, publishRsvpPage } from './api';
+import { getEvent, updateEvent } from './eventStore';
+import { createGuest } from './guests';
+import { blobToDataUrl } from './imageStore';
+import { loadInvitationImage } from './invitations';
+import { translate } from '../i18n/language';
+import type { Language, MessageParams } from '../i18n/language';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Guest notes written from RSVP replies start with this (in every language), so a newer reply replaces them
+const RSVP_NOTE_PREFIX = 'RSVP:';
+
+/** Returns the public link of an RSVP page. */
+export function getRsvpUrl(token: string): string {
+    return `${window.location.origin}/rsvp/${token}`;
+}
+
+/**
+ * Returns the event's RSVP settings, creating a new token and host key the first time.
+ * Nothing is published yet; the link works once an invitation is published to it.
+ * @param eventId - The ID of the event.
+ */
+export function ensureRsvpSettings(eventId: string): RsvpSettings {
+    const existing = getEvent(eventId)?.rsvp;
+    if (existing) return existing;
+    const rsvp: RsvpSettings = { token: crypto.randomUUID(), hostKey: crypto.randomUUID(), invitationId: null, publishedAt: null, syncedAt: null };
+    updateEvent(eventId, event => ({ ...event, rsvp }));
+    return rsvp;
+}
+
+/**
+ * Adds the RSVP line (which contains the link) to the end of an invitation text, unless the link is already in it.
+ * @param text - The invitation text.
+ * @param url - The RSVP link.
+ * @param line - The line to add, e.g., "RSVP: https://...".
+ */
+export function addRsvpLink(text: string, url: string, line: string): string {
+    return text.includes(url) ? text : `${text.trimEnd()}\n\n${line}`;
+}
+
+/**
+ * Publishes a saved invitation as the event's RSVP page, replacing whatever was shown before.
+ * The local image copy is sent along, since the hosted image link expires.
+ * @param eventId - The ID of the event that owns the invitation.
+ * @param invitation - The invitation to show.
+ * @returns The updated RSVP settings.
+ */
+export async function publishRsvpInvitation(eventId: string, invitation: SavedInvitation): Promise<RsvpSettings> {
+    const settings = ensureRsvpSettings(eventId);
+    const image = await loadInvitationImage(invitation);
+    const { publishedAt } = await publishRsvpPage(settings, {
+        title: invitation.planName,
+        text: invitation.text,
+        template: invitation.template,
+        date: invitation.date,
+        time: invitation.time,
+        imageUrl: image ? await blobToDataUrl(image) : invitation.imageUrl,
+    });
+    const rsvp: RsvpSettings = { ...(getEvent(eventId)?.rsvp ?? settings), invitationId: invitation.id, publishedAt };
+    updateEvent(eventId, event => ({ ...event, rsvp }));
+    return rsvp;
+}
+
+/**
+ * Publishes the invitation again if it's the one shown on the event's RSVP page (e.g., after its text was edited).
+ * @returns The updated RSVP settings, or null if the invitation isn't shown on the page.
+ */
+export async function refreshRsvpInvitation(eventId: string, invitation: SavedInvitation): Promise<RsvpSettings | null> {
+    if (getEvent(eventId)?.rsvp?.invitationId !== invitation.id) return null;
+    return publishRsvpInvitation(eventId, invitation);
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Describes a reply for the guest's notes (e.g., "RSVP: 2 adults, 1 child. Dietary: no nuts"). */
+function describeResponse(response: RsvpResponse, language: Language): string {
+    const t = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
+    const counts = [
+        response.adults > 0 ? t(response.adults === 1 ? 'rsvpNote.adults.one' : 'rsvpNote.adults.other', { count: response.adults }) : '',
+        response.children > 0 ? t(response.children === 1 ? 'rsvpNote.children.one' : 'rsvpNote.children.other', { count: response.children }) : '',
+    ].filter(Boolean).join(', ');
+    const headcount = counts || t('rsvpNote.noHeadcount');
+    const attendance = response.attendance === 'no' ? t('rsvpNote.declined') : response.attendance === 'maybe' ? t('rsvpNote.maybe', { headcount }) : headcount;
+    return `${RSVP_NOTE_PREFIX} ${attendance}.${response.dietaryNotes ? ` ${t('rsvpNote.dietary', { notes: response.dietaryNotes })}` : ''}`;
+}
+
+/**
+ * Applies RSVP replies to a guest list. A reply updates the guest with the same name (ignoring case and spacing)
+ * or adds a new guest. Everyone else in the reply becomes a plus-one; plus-ones count as adults, so the exact
+ * adult/child split is kept in the guest's notes.
+ * @param guests - The current guest list.
+ * @param responses - The replies to apply, oldest first (later replies win).
+ * @param language - The language the notes are written in.
+ * @returns The updated guest list.
+ */
+export function applyRsvpResponses(guests: Guest[], responses: RsvpResponse[], language: Language = 'en'): Guest[] {
+    const updated = [...guests];
+    responses.forEach(response => {
+        const fields = {
+            rsvp: response.attendance,
+            plusOnes: Math.max(0, response.adults + response.children - 1),
+        };
+        const note = describeResponse(response, language);
+        const index = updated.findIndex(guest => normalizeName(guest.name) === normalizeName(response.name));
+        if (index === -1) {
+            updated.push(createGuest({ ...fields, name: response.name, type: response.adults === 0 && response.children > 0 ? 'child' : 'adult', notes: note }));
+            return;
+        }
+        const guest = updated[index];
+        const otherNotes = guest.notes.split('\n').filter(line => !line.startsWith(RSVP_NOTE_PREFIX));
+        updated[index] = { ...guest, ...fields, notes: [...otherNotes, note].filter(Boolean).join('\n') };
+    });
+    return updated;
+}
+
+/**
+ * Pulls the replies received since the last sync into the event's guest list.
+ * @param eventId - The ID of the event.
+ * @param language - The language the guests' notes are written in.
+ * @returns The updated event and the number of replies applied.
+ * @throws Throws an error if the event has no RSVP page or the replies can't be loaded.
+ */
+export async function syncRsvpResponses(eventId: string, language: Language = 'en'): Promise<{ event: PartyEvent; applied: number }> {
+    const event = getEvent(eventId);
+    if (!event?.rsvp?.publishedAt) throw new Error("This event's RSVP page hasn't been published yet.");
+    const { syncedAt } = event.rsvp;
+    const { responses } = await listRsvpResponses(event.rsvp);
+    const fresh = responses
+        .filter(response => !syncedAt || response.submittedAt > syncedAt)
+        .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+    if (fresh.length === 0) return { event, applied: 0 };
+    const updated = updateEvent(eventId, current => ({
+        ...current,
+        guests: applyRsvpResponses(current.guests ?? [], fresh, language),
+        rsvp: current.rsvp && { ...current.rsvp, syncedAt: fresh[fresh.length - 1].submittedAt },
+    }));
+    return { event: updated, applied: fresh.length };
+}
+
+/** Renders a QR code for a link as an SVG data URL, for use as an <img> src. */
+export function getQrCodeDataUrl(url: string): string {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderSVG(url, { border: 2 }))}`;
+}
@@ -0,0 +1,126 @@
+// src/utils/runOfShow.ts
+// Day-of "run of show": the schedule with live delays applied, which items are done,
+// and which activity is running now and up next.
+import type { PartyEvent, RunOfShowState, ScheduleItem } from '../types';
+import { updateEvent } from './eventStore';
+import { buildTimelineEntries } from './timeline';
+import type { TimelineEntry } from './timeline';
+
+/**
+ * Fingerprints a schedule (the time and activity of each item, in order), so saved progress can be
+ * checked against the schedule it was recorded for.
+ * @param schedule - The plan's schedule items.
+ * @returns A short hash string.
+ */
+export function fingerprintSchedule(schedule: ScheduleItem[]): string {
+    const text = schedule.map(item => [item.time, item.start ?? '', item.end ?? '', item.activity].join('|')).join('\n');
+    // 32-bit FNV-1a hash; collisions only matter between two versions of the same plan's schedule
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${schedule.length}-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Returns a fresh run of show with nothing done and no delays.
+ * @param schedule - The schedule the run of show is for.
+ */
+export function createRunOfShowState(schedule: ScheduleItem[] = []): RunOfShowState {
+    return { completed: [], shiftMinutes: [], scheduleFingerprint: fingerprintSchedule(schedule), updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Returns the saved run of show for a plan, or a fresh one.
+ * Progress is stored by schedule position, so it's dropped when the schedule has changed since it was saved
+ * (e.g., after an edit, regeneration or undo); otherwise done marks and delays would land on other activities.
+ * @param event - The event that owns the plan.
+ * @param planId - The ID of the plan.
+ * @param schedule - The plan's current schedule.
+ */
+export function getRunOfShow(event: PartyEvent, planId: string, schedule: ScheduleItem[]): RunOfShowState {
+    const saved = event.runOfShow?.[planId];
+    if (!saved || saved.scheduleFingerprint !== fingerprintSchedule(schedule)) return createRunOfShowState(schedule);
+    return saved;
+}
+
+/**
+ * Saves a plan's run of show into its event.
+ * @param eventId - The ID of the event that owns the plan.
+ * @param planId - The ID of the plan.
+ * @param state - The run of show to save.
+ * @returns The updated event.
+ */
+export function saveRunOfShow(eventId: string, planId: string, state: RunOfShowState): PartyEvent {
+    return updateEvent(eventId, event => ({ ...event, runOfShow: { ...event.runOfShow, [planId]: state } }));
+}
+
+/** A schedule item on the day, with any delay applied. */
+export interface RunOfShowEntry extends TimelineEntry {
+    shift: number; // Minutes the item was pushed back
+    isDone: boolean;
+}
+
+/**
+ * Applies the day-of delays and done marks to the schedule's timeline.
+ * @param schedule - The plan's schedule items.
+ * @param state - The run of show.
+ * @returns The timed items, in schedule order.
+ */
+export function buildRunOfShow(schedule: ScheduleItem[], state: RunOfShowState): RunOfShowEntry[] {
+    return buildTimelineEntries(schedule).map(entry => {
+        const shift = state.shiftMinutes[entry.index] ?? 0;
+        return { ...entry, start: entry.start + shift, end: entry.end + shift, shift, isDone: state.completed.includes(entry.index) };
+    });
+}
+
+/**
+ * Finds the activity running now and the one up next.
+ * The current activity is the first unfinished item that has started (it stays current while running over,
+ * until the host marks it done); the next one is the first unfinished item after it.
+ * @param entries - The run of show entries.
+ * @param nowMinutes - The current time in minutes since midnight (fractions allowed).
+ */
+export function findCurrentAndNext(entries: RunOfShowEntry[], nowMinutes: number): { current: RunOfShowEntry | null; next: RunOfShowEntry | null } {
+    const remaining = entries.filter(entry => !entry.isDone);
+    const current = remaining.find(entry => entry.start <= nowMinutes) ?? null;
+    const next = remaining.find(entry => entry !== current && (current ? entry.start >= current.start : entry.start > nowMinutes)) ?? null;
+    return { current, next };
+}
+
+/**
+ * Toggles whether a schedule item is done.
+ * @returns The updated run of show.
+ */
+export function toggleCompleted(state: RunOfShowState, index: number): RunOfShowState {
+    const completed = state.completed.includes(index) ? state.completed.filter(i => i !== index) : [...state.completed, index];
+    return { ...state, completed, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Pushes every unfinished item from a schedule position onwards back by a number of minutes.
+ * @param state - The run of show.
+ * @param entries - The run of show entries.
+ * @param fromIndex - Schedule index of the first item to push.
+ * @param minutes - Minutes to push by (negative values pull items earlier).
+ * @returns The updated run of show.
+ */
+export function pushRemaining(state: RunOfShowState, entries: RunOfShowEntry[], fromIndex: number, minutes: number): RunOfShowState {
+    const shiftMinutes = [...state.shiftMinutes];
+    entries
+        .filter(entry => entry.index >= fromIndex && !entry.isDone)
+        .forEach(entry => { shiftMinutes[entry.index] = (shiftMinutes[entry.index] ?? 0) + minutes; });
+    // Fill holes left by items without a readable time, so the array stays JSON-friendly
+    return { ...state, shiftMinutes: Array.from(shiftMinutes, value => value ?? 0), updatedAt: new Date().toISOString() };
+}
+
+/** Formats a number of seconds as a countdown (e.g., 754 -> "12:34", 3754 -> "1:02:34"). */
+export function formatCountdown(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.round(totalSeconds));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+}
@@ -0,0 +1,130 @@
+// src/utils/scheduleTime.ts
+// Parses the free-text times used in plan schedules (e.g., "2:00 PM - 2:30 PM", "14:00-15:00", "4 PM").
+// Times are handled as minutes since midnight; values of 1440 or more fall on the next day.
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// A clock time like "2:30 PM", "14:30", "2pm" or "2 p.m."
+const CLOCK_PATTERN = /^(\d{1,2})(?:[:.](\d{2}))?\s*([ap])?\.?\s*(?:m\.?)?$/i;
+// Separators between the start and end of a range
+const RANGE_SEPARATOR = /\s*(?:-|–|—|\bto\b|\buntil\b)\s*/i;
+
+interface ParsedClock {
+    hours: number;
+    minutes: number;
+    meridiem: 'a' | 'p' | null;
+}
+
+/** Parses a single clock time into its parts, or returns null if it isn't a time. */
+const parseClockParts = (text: string): ParsedClock | null => {
+    const match = text.trim().match(CLOCK_PATTERN);
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = match[2] ? Number(match[2]) : 0;
+    const meridiem = match[3] ? (match[3].toLowerCase() as 'a' | 'p') : null;
+    if (minutes > 59 || (meridiem ? hours < 1 || hours > 12 : hours > 23)) return null;
+    return { hours, minutes, meridiem };
+};
+
+/** Converts clock parts to minutes since midnight, using the given meridiem for 12-hour times. */
+const toMinutes = ({ hours, minutes }: ParsedClock, meridiem: 'a' | 'p' | null): number => {
+    const hours24 = meridiem ? (hours % 12) + (meridiem === 'p' ? 12 : 0) : hours;
+    return hours24 * 60 + minutes;
+};
+
+/**
+ * Parses a single clock time (e.g., "2:30 PM" or "14:30").
+ * @param text - The time text.
+ * @returns Minutes since midnight, or null if the text isn't a recognizable time.
+ */
+export function parseClockTime(text: string): number | null {
+    const parts = parseClockParts(text);
+    return parts ? toMinutes(parts, parts.meridiem) : null;
+}
+
+/**
+ * Parses a schedule time range such as "2:00 PM - 2:30 PM", "2:00 - 2:30 PM" or "19:00-20:15".
+ * A time without AM/PM borrows the other time's, and ranges that cross midnight end on the next day.
+ * @param text - The schedule item's time text.
+ * @returns The start and end in minutes since midnight (end is null for a single time), or null if unparseable.
+ */
+export function parseTimeRange(text: string | undefined | null): { start: number; end: number | null } | null {
+    if (!text || typeof text !== 'string') return null;
+    const [startText, endText, ...rest] = text.split(RANGE_SEPARATOR);
+    if (rest.length > 0) return null;
+
+    const startParts = parseClockParts(startText);
+    if (!startParts) return null;
+    if (endText === undefined) return { start: toMinutes(startParts, startParts.meridiem), end: null };
+
+    const endParts = parseClockParts(endText);
+    if (!endParts) return null;
+    // "2 PM - 4": an end time without AM/PM borrows the start's
+    const end = toMinutes(endParts, endParts.meridiem ?? (endParts.hours <= 12 ? startParts.meridiem : null));
+
+    let start: number;
+    if (startParts.meridiem || !endParts.meridiem) {
+        start = toMinutes(startParts, startParts.meridiem);
+    } else {
+        // "11:30 - 12:30 PM": borrow the end's meridiem unless that puts the start after the end
+        start = toMinutes(startParts, endParts.meridiem);
+        if (start > end) start = toMinutes(startParts, endParts.meridiem === 'p' ? 'a' : 'p');
+    }
+    return { start, end: end < start ? end + MINUTES_PER_DAY : end };
+}
+
+
+/**
+ * Formats minutes since midnight as a 12-hour clock time (e.g., 990 -> "4:30 PM").
+ * @param minutes - Minutes since midnight (values past midnight wrap to the next day).
+ */
+export function formatClockTime(minutes: number): string {
+    const normalized = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const hours24 = Math.floor(normalized / 60);
+    const mins = normalized % 60;
+    const suffix = hours24 >= 12 ? 'PM' : 'AM';
+    const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+    return `${hours12}:${String(mins).padStart(2, '0')} ${suffix}`;
+}
+
+/**
+ * Formats a start and optional end as schedule text (e.g., "2:00 PM - 2:30 PM").
+ * @param start - Start in minutes since midnight.
+ * @param end - End in minutes since midnight, or null for a single time.
+ */
+export function formatTimeRange(start: number, end: number | null): string {
+    return end === null ? formatClockTime(start) : `${formatClockTime(start)} - ${formatClockTime(end)}`;
+}
+
+// A 24-hour time of day as stored on schedule items (e.g., "14:30")
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parses a stored 24-hour time of day ("HH:MM").
+ * @returns Minutes since midnight, or null if the value isn't in "HH:MM" format.
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+    if (typeof value !== 'string') return null;
+    const match = value.match(TIME_OF_DAY_PATTERN);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Formats minutes since midnight as a 24-hour time of day ("HH:MM"), wrapping past midnight.
+ */
+export function toTimeOfDay(minutes: number): string {
+    const normalized = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Returns a schedule item's times, preferring the structured start/end and falling back to parsing the time text.
+ * @param item - A schedule item (or raw object) with optional 'start', 'end' and 'time' fields.
+ * @returns Start and end in minutes since midnight (end is null if unknown, and past 1440 if it crosses midnight), or null.
+ */
+export function getItemTimes(item: { start?: unknown; end?: unknown; time?: unknown }): { start: number; end: number | null } | null {
+    const start = parseTimeOfDay(item.start);
+    if (start === null) return parseTimeRange(typeof item.time === 'string' ? item.time : null);
+    const end = parseTimeOfDay(item.end);
+    return { start, end: end === null ? null : end < start ? end + MINUTES_PER_DAY : end };
+}
@@ -0,0 +1,248 @@
+// src/utils/shoppingList.ts
+// Turns a plan into an errand list: menu items, party favors, photo-booth props, decorations to buy and tableware,
+// deduplicated, scaled to the guest counts and grouped by store section.
+import type { BirthdayPlan, PartyEvent, ShoppingCategory, ShoppingItem, ShoppingListState } from '../types';
+import { updateEvent } from './eventStore';
+import { createId } from './ids';
+import { estimateCateringQuantities } from './cateringQuantities';
+import type { MenuCategory } from './cateringQuantities';
+import { formatCsv } from './download';
+import { translate } from '../i18n/language';
+import type { Language } from '../i18n/language';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Message keys of the display labels for each store section, in the order the list is shown
+export const SHOPPING_CATEGORY_LABELS: Record<ShoppingCategory, MessageKey> = {
+    groceries: 'shopping.category.groceries',
+    bakery: 'shopping.category.bakery',
+    beverages: 'shopping.category.beverages',
+    partySupplies: 'shopping.category.partySupplies',
+    toysAndGifts: 'shopping.category.toysAndGifts',
+    other: 'shopping.category.other',
+};
+
+export const SHOPPING_CATEGORIES = Object.keys(SHOPPING_CATEGORY_LABELS) as ShoppingCategory[];
+
+// Store section for each menu course
+const MENU_CATEGORY_SECTIONS: Record<MenuCategory, ShoppingCategory> = {
+    appetizers: 'groceries',
+    mainCourses: 'groceries',
+    desserts: 'groceries',
+    beverages: 'beverages',
+};
+
+// Photo opportunities that need something bought (props, a backdrop, a frame...)
+const PHOTO_PROP_PATTERN = /\b(props?|backdrop|booth|frames?|signs?|banner)\b/i;
+
+// Translations of the units the list uses (custom items keep the unit as typed)
+const UNIT_LABELS: Record<string, MessageKey> = {
+    pieces: 'quantities.unit.pieces',
+    kg: 'quantities.unit.kg',
+    servings: 'quantities.unit.servings',
+    L: 'quantities.unit.liters',
+    set: 'shopping.unit.set',
+    candles: 'shopping.unit.candles',
+};
+
+/** Translates a unit the list uses; other units (typed in for custom items) are returned as they are. */
+const translateUnit = (unit: string, language: Language): string =>
+    Object.keys(UNIT_LABELS).includes(unit) ? translate(language, UNIT_LABELS[unit]) : unit;
+
+// Tableware per guest; plates and cups are doubled for the main meal and the cake
+const TABLEWARE_PER_GUEST: { name: MessageKey; perGuest: number }[] = [
+    { name: 'shopping.item.plates', perGuest: 2 },
+    { name: 'shopping.item.cups', perGuest: 2 },
+    { name: 'shopping.item.napkins', perGuest: 3 },
+    { name: 'shopping.item.cutlery', perGuest: 1 },
+];
+
+/** Who the list is for and how long the party runs. */
+export interface ShoppingListInput {
+    adults: number;
+    children: number;
+    age?: number; // The birthday person's age, for the candles
+    partyMinutes?: number | null; // Party length, used to scale food and drinks
+    language?: Language; // Language of the items the list adds itself (candles, tableware); English by default
+}
+
+/** Returns a fresh shopping list state with nothing checked and no custom items. */
+export function createShoppingListState(): ShoppingListState {
+    return { checked: [], customItems: [] };
+}
+
+/**
+ * Returns the saved shopping list state for a plan, or a fresh one.
+ * @param event - The event that owns the plan.
+ * @param planId - The ID of the plan.
+ */
+export function getShoppingListState(event: PartyEvent, planId: string): ShoppingListState {
+    const state = event.shoppingLists?.[planId];
+    if (!state) return createShoppingListState();
+    // Custom items saved with the same ID (e.g., added twice by a double-click) are numbered so each row is its own
+    const usedIds = new Set<string>();
+    const customItems = state.customItems.map(item => {
+        let id = item.id;
+        for (let suffix = 2; usedIds.has(id); suffix++) id = `${item.id}-${suffix}`;
+        usedIds.add(id);
+        return id === item.id ? item : { ...item, id };
+    });
+    return { ...state, customItems };
+}
+
+/**
+ * Saves a plan's shopping list state into its event.
+ * @param eventId - The ID of the event that owns the plan.
+ * @param planId - The ID of the plan.
+ * @param state - The shopping list state to save.
+ * @returns The updated event.
+ */
+export function saveShoppingListState(eventId: string, planId: string, state: ShoppingListState): PartyEvent {
+    return updateEvent(eventId, event => ({ ...event, shoppingLists: { ...event.shoppingLists, [planId]: state } }));
+}
+
+/** Creates a custom item; any field can be filled in up front. */
+export function createShoppingItem(fields: Partial<Omit<ShoppingItem, 'id' | 'source'>> = {}): ShoppingItem {
+    return { name: '', category: 'other', quantity: 1, unit: '', ...fields, id: createId('shop'), source: 'custom' };
+}
+
+/**
+ * Adds a custom item to the list, giving it a fresh ID if one on the list already uses its ID.
+ * @param state - The current shopping list state.
+ * @param item - The item to add.
+ * @returns The updated state.
+ */
+export function addCustomShoppingItem(state: ShoppingListState, item: ShoppingItem): ShoppingListState {
+    const isTaken = state.customItems.some(existing => existing.id === item.id);
+    return { ...state, customItems: [...state.customItems, isTaken ? { ...item, id: createId('shop') } : item] };
+}
+
+/** Normalizes an item name for deduplication ("Party Hats " and "party hat" match). */
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ').replace(/s$/, '');
+
+/** Turns a normalized item name into an ID, keeping letters and digits of any script ("party hat" -> "shop-party-hat"). */
+const toItemId = (key: string): string => `shop-${key.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'item'}`;
+
+/**
+ * Builds the shopping list items for a plan from its catering menu, party favors, photo opportunities and tableware.
+ * Items with the same name are merged into one line.
+ * @param plan - The plan to shop for.
+ * @param input - Guest counts, age and party length.
+ * @returns The plan's items, in the order they were found.
+ */
+export function buildShoppingList(plan: BirthdayPlan, input: ShoppingListInput): ShoppingItem[] {
+    const adults = Math.max(0, Math.floor(input.adults || 0));
+    const children = Math.max(0, Math.floor(input.children || 0));
+    const guests = adults + children;
+    const language = input.language ?? 'en';
+    const items = new Map<string, ShoppingItem>();
+    const usedIds = new Set<string>();
+
+    // Items the list adds itself are keyed by their English name, so checks survive a language switch
+    const add = (name: string, category: ShoppingCategory, quantity: number, unit: string, displayName = name) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const key = normalizeName(trimmed);
+        const existing = items.get(key);
+        if (existing) {
+            // The same item named twice is still bought once, in the larger of the two quantities
+            if (existing.unit === unit) existing.quantity = Math.max(existing.quantity, quantity);
+            return;
+        }
+        // Names that differ only in punctuation get the same ID, so later ones are numbered
+        const baseId = toItemId(key);
+        let id = baseId;
+        for (let suffix = 2; usedIds.has(id); suffix++) id = `${baseId}-${suffix}`;
+        usedIds.add(id);
+        items.set(key, { id, name: displayName.trim(), category, quantity, unit, source: 'plan' });
+    };
+
+    // Food and drinks, scaled to guests and party length
+    const menu = plan.catering?.menu;
+    estimateCateringQuantities(menu, { adults, children, partyMinutes: input.partyMinutes }).forEach(quantity => {
+        const category = quantity.category === 'desserts' && /cake/i.test(quantity.item) ? 'bakery' : MENU_CATEGORY_SECTIONS[quantity.category];
+        add(quantity.item, category, quantity.purchaseAmount, quantity.purchaseUnit);
+    });
+    const hasCake = /cake/i.test(menu?.desserts ?? '');
+    if (hasCake && input.age && input.age > 0) {
+        add(translate('en', 'shopping.item.candles'), 'bakery', Math.floor(input.age), 'candles', translate(language, 'shopping.item.candles'));
+    }
+
+    // Party favors go to the children (or every guest at an adults-only party)
+    const favorCount = children > 0 ? children : guests;
+    (plan.guestEngagement?.partyFavors ?? []).forEach(favor => add(favor, 'toysAndGifts', favorCount, 'pieces'));
+
+    // Photo-booth props and backdrops
+    (plan.guestEngagement?.photoOpportunities ?? [])
+        .filter(idea => PHOTO_PROP_PATTERN.test(idea))
+        .forEach(idea => add(idea, 'partySupplies', 1, 'set'));
+
+    // Decoration pieces the plan suggests buying (DIY pieces are made at home)
+    (plan.decorations?.keyPieces ?? [])
+        .filter(piece => piece.source === 'buy')
+        .forEach(piece => add(piece.item, 'partySupplies', 1, 'set'));
+
+    // Tableware for everyone
+    if (guests > 0) {
+        TABLEWARE_PER_GUEST.forEach(({ name, perGuest }) => add(translate('en', name), 'partySupplies', guests * perGuest, 'pieces', translate(language, name)));
+    }
+
+    return Array.from(items.values());
+}
+
+/**
+ * Groups items by store section, in display order, leaving out empty sections.
+ */
+export function groupShoppingItems(items: ShoppingItem[]): { category: ShoppingCategory; items: ShoppingItem[] }[] {
+    return SHOPPING_CATEGORIES
+        .map(category => ({ category, items: items.filter(item => item.category === category) }))
+        .filter(group => group.items.length > 0);
+}
+
+/**
+ * Formats an item's quantity with its unit (e.g., "2.5 kg", "12").
+ * @param item - The item.
+ * @param language - The language for the units the list adds itself.
+ */
+export function formatShoppingQuantity(item: Pick<ShoppingItem, 'quantity' | 'unit'>, language: Language = 'en'): string {
+    const amount = item.quantity.toLocaleString(undefined, { maximumFractionDigits: 1 });
+    const unit = translateUnit(item.unit, language);
+    return unit ? `${amount} ${unit}` : amount;
+}
+
+/**
+ * Formats the list as plain text, grouped by store section, with "[x]" for checked items.
+ * @param title - Heading for the list (e.g., the plan name).
+ * @param items - All items on the list.
+ * @param checked - IDs of the items that were bought.
+ * @param language - The language for the store sections and units.
+ */
+export function formatShoppingListText(title: string, items: ShoppingItem[], checked: string[], language: Language = 'en'): string {
+    const lines = [title, ''];
+    groupShoppingItems(items).forEach(group => {
+        lines.push(`${translate(language, SHOPPING_CATEGORY_LABELS[group.category])}:`);
+        group.items.forEach(item => lines.push(`[${checked.includes(item.id) ? 'x' : ' '}] ${item.name} - ${formatShoppingQuantity(item, language)}`));
+        lines.push('');
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Formats the list as CSV (one row per item, grouped by store section).
+ * @param items - All items on the list.
+ * @param checked - IDs of the items that were bought.
+ * @param language - The language for the column headings, store sections and units.
+ */
+export function formatShoppingListCsv(items: ShoppingItem[], checked: string[], language: Language = 'en'): string {
+    const t = (key: MessageKey) => translate(language, key);
+    const rows = [[t('shopping.csv.category'), t('shopping.csv.item'), t('shopping.csv.quantity'), t('shopping.csv.unit'), t('shopping.csv.bought')]];
+    groupShoppingItems(items).forEach(group => {
+        group.items.forEach(item => rows.push([
+            t(SHOPPING_CATEGORY_LABELS[group.category]),
+            item.name,
+            String(item.quantity),
+            translateUnit(item.unit, language),
+            checked.includes(item.id) ? t('shopping.csv.yes') : t('shopping.csv.no'),
+        ]));
+    });
+    return formatCsv(rows);
+}
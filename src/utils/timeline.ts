@@ -0,0 +1,132 @@
+// src/utils/timeline.ts
+// Lays a plan's schedule out on a timeline and checks it for overlaps, gaps and a party length
+// that doesn't suit the birthday person's age group.
+import type { ScheduleItem } from '../types';
+import { getItemTimes } from './scheduleTime';
+
+// Length assumed for an item with only a start time when no later item follows it
+const DEFAULT_ITEM_MINUTES = 30;
+// Gaps shorter than this are treated as normal transitions, not flagged
+const MIN_FLAGGED_GAP_MINUTES = 15;
+// A start this much earlier than the previous item's means the schedule crossed midnight
+const MIDNIGHT_ROLLOVER_MINUTES = 6 * 60;
+
+/** A schedule item placed on the timeline, in minutes since midnight of the party day. */
+export interface TimelineEntry {
+    index: number; // Position of the item in plan.schedule
+    item: ScheduleItem;
+    start: number;
+    end: number;
+    hasEnd: boolean; // False if the end was assumed (the item only has a start time)
+}
+
+/** Recommended party length for an age group. */
+export interface AgeGroupGuideline {
+    label: string;
+    maxAge: number;
+    minMinutes: number;
+    maxMinutes: number;
+}
+
+// Typical party lengths by age group; younger children tire quickly, adults tend to stay longer
+export const AGE_GROUP_GUIDELINES: AgeGroupGuideline[] = [
+    { label: 'toddlers (up to 3)', maxAge: 3, minMinutes: 60, maxMinutes: 120 },
+    { label: 'young children (4-6)', maxAge: 6, minMinutes: 90, maxMinutes: 150 },
+    { label: 'children (7-12)', maxAge: 12, minMinutes: 120, maxMinutes: 210 },
+    { label: 'teens (13-17)', maxAge: 17, minMinutes: 120, maxMinutes: 300 },
+    { label: 'adults', maxAge: Infinity, minMinutes: 120, maxMinutes: 360 },
+];
+
+/** Result of checking a schedule. */
+export interface ScheduleAnalysis {
+    entries: TimelineEntry[]; // Items with a usable time, in schedule order
+    unscheduled: number[]; // Indexes of items whose time couldn't be read
+    overlaps: [number, number][]; // Index pairs of items that overlap
+    gaps: { afterIndex: number; beforeIndex: number; minutes: number }[]; // Idle time between consecutive items
+    start: number | null; // Party start (minutes since midnight), null if nothing is timed
+    end: number | null; // Party end
+    totalMinutes: number;
+    guideline: AgeGroupGuideline | null; // Null if the age is unknown
+    lengthStatus: 'too-short' | 'ok' | 'too-long' | null; // Null if nothing is timed or the age is unknown
+}
+
+/**
+ * Places schedule items on the timeline. Items with only a start time end when the next timed item starts
+ * (or after a default length); items without a readable time are left out.
+ * @param schedule - The plan's schedule items, in order.
+ * @returns The timed entries, in schedule order.
+ */
+export function buildTimelineEntries(schedule: ScheduleItem[]): TimelineEntry[] {
+    const timed: { index: number; item: ScheduleItem; start: number; end: number | null }[] = [];
+    let dayOffset = 0;
+    (schedule ?? []).forEach((item, index) => {
+        const times = getItemTimes(item);
+        if (!times) return;
+        // Keep the timeline moving forward when a late-night schedule continues past midnight
+        const previous = timed[timed.length - 1];
+        if (previous && times.start + dayOffset < previous.start - MIDNIGHT_ROLLOVER_MINUTES) dayOffset += 24 * 60;
+        timed.push({ index, item, start: times.start + dayOffset, end: times.end === null ? null : times.end + dayOffset });
+    });
+    return timed.map((entry, i) => {
+        if (entry.end !== null) return { ...entry, end: entry.end, hasEnd: true };
+        const nextStart = timed[i + 1]?.start;
+        const end = nextStart !== undefined && nextStart > entry.start ? nextStart : entry.start + DEFAULT_ITEM_MINUTES;
+        return { ...entry, end, hasEnd: false };
+    });
+}
+
+/**
+ * Returns the party length guideline for an age, or null if the age is unknown.
+ */
+export function getAgeGroupGuideline(age: number | undefined): AgeGroupGuideline | null {
+    if (!age || age <= 0) return null;
+    return AGE_GROUP_GUIDELINES.find(guideline => age <= guideline.maxAge) ?? null;
+}
+
+/**
+ * Checks a schedule for overlapping items, idle gaps and a total length outside the age group's guideline.
+ * @param schedule - The plan's schedule items.
+ * @param age - The birthday person's age (used for the length guideline).
+ * @returns The timeline entries plus everything that was flagged.
+ */
+export function analyzeSchedule(schedule: ScheduleItem[], age?: number): ScheduleAnalysis {
+    const entries = buildTimelineEntries(schedule);
+    const timedIndexes = new Set(entries.map(entry => entry.index));
+    const unscheduled = (schedule ?? []).map((_, index) => index).filter(index => !timedIndexes.has(index));
+
+    // Compare items in start order, so overlaps and gaps are found even if the schedule is out of order
+    const byStart = [...entries].sort((a, b) => a.start - b.start || a.end - b.end);
+    const overlaps: [number, number][] = [];
+    const gaps: ScheduleAnalysis['gaps'] = [];
+    byStart.forEach((entry, i) => {
+        byStart.slice(i + 1).forEach(other => {
+            if (other.start < entry.end) overlaps.push([entry.index, other.index]);
+        });
+        const next = byStart[i + 1];
+        if (!next) return;
+        // Idle time before the next item, measured from the latest end so far
+        const latestEnd = Math.max(...byStart.slice(0, i + 1).map(e => e.end));
+        if (next.start - latestEnd >= MIN_FLAGGED_GAP_MINUTES) {
+            gaps.push({ afterIndex: entry.index, beforeIndex: next.index, minutes: next.start - latestEnd });
+        }
+    });
+
+    const start = byStart.length > 0 ? byStart[0].start : null;
+    const end = byStart.length > 0 ? Math.max(...byStart.map(entry => entry.end)) : null;
+    const totalMinutes = start !== null && end !== null ? end - start : 0;
+    const guideline = getAgeGroupGuideline(age);
+    let lengthStatus: ScheduleAnalysis['lengthStatus'] = null;
+    if (guideline && entries.length > 0) {
+        lengthStatus = totalMinutes < guideline.minMinutes ? 'too-short' : totalMinutes > guideline.maxMinutes ? 'too-long' : 'ok';
+    }
+
+    return { entries, unscheduled, overlaps, gaps, start, end, totalMinutes, guideline, lengthStatus };
+}
+
+/** Formats a number of minutes as a short duration (e.g., 150 -> "2h 30m"). */
+export function formatDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    if (hours === 0) return `${mins}m`;
+    return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+}